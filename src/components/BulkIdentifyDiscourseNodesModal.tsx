@@ -29,7 +29,7 @@ const BulkImportContent = ({ plugin, onClose }: BulkImportModalProps) => {
 
   useEffect(() => {
     if (!queryEngineRef.current) {
-      queryEngineRef.current = new QueryEngine(plugin.app);
+      queryEngineRef.current = new QueryEngine(plugin.app, plugin.nodeIndex);
     }
   }, [plugin.app]);
 
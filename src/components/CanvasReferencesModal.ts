@@ -0,0 +1,43 @@
+import { SuggestModal } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { CanvasReference } from "~/components/canvas/utils/canvasReferences";
+
+export class CanvasReferencesModal extends SuggestModal<CanvasReference> {
+  private references: CanvasReference[];
+  private onSelect: (reference: CanvasReference) => void;
+
+  constructor(
+    plugin: DiscourseGraphPlugin,
+    references: CanvasReference[],
+    onSelect: (reference: CanvasReference) => void,
+  ) {
+    super(plugin.app);
+    this.references = references;
+    this.onSelect = onSelect;
+    this.setPlaceholder("Choose a canvas to reveal the note in");
+  }
+
+  getItemText(item: CanvasReference): string {
+    return item.canvasFile.path;
+  }
+
+  getSuggestions(): CanvasReference[] {
+    const query = this.inputEl.value.toLowerCase();
+    return this.references.filter((reference) =>
+      this.getItemText(reference).toLowerCase().includes(query),
+    );
+  }
+
+  renderSuggestion(reference: CanvasReference, el: HTMLElement): void {
+    const container = el.createDiv({ cls: "flex items-center gap-2" });
+    container.createDiv({ text: reference.canvasFile.basename });
+    container.createDiv({
+      cls: "text-muted text-xs",
+      text: `${reference.shapeIds.length} shape(s) · ${reference.canvasFile.parent?.path ?? ""}`,
+    });
+  }
+
+  onChooseSuggestion(reference: CanvasReference): void {
+    this.onSelect(reference);
+  }
+}
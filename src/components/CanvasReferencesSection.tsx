@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { debounce, Notice, TFile } from "obsidian";
+import { usePlugin } from "~/components/PluginContext";
+import {
+  openCanvasAndRevealShapes,
+  type CanvasReference,
+} from "~/components/canvas/utils/canvasReferences";
+
+type CanvasReferencesSectionProps = {
+  activeFile: TFile;
+};
+
+const REFRESH_DEBOUNCE_MS = 300;
+
+export const CanvasReferencesSection = ({
+  activeFile,
+}: CanvasReferencesSectionProps) => {
+  const plugin = usePlugin();
+  const [references, setReferences] = useState<CanvasReference[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      void plugin.canvasReferences
+        .getReferences(activeFile)
+        .then((result) => {
+          if (!cancelled) setReferences(result);
+        })
+        .catch((error) => {
+          console.error("Error loading canvas references:", error);
+        });
+    };
+    const refresh = debounce(load, REFRESH_DEBOUNCE_MS, true);
+
+    load();
+    const ref = plugin.canvasReferences.on("changed", refresh);
+    return () => {
+      cancelled = true;
+      refresh.cancel();
+      plugin.canvasReferences.offref(ref);
+    };
+  }, [plugin, activeFile]);
+
+  const handleOpen = async (reference: CanvasReference) => {
+    try {
+      await openCanvasAndRevealShapes(plugin, reference);
+    } catch (error) {
+      console.error("Error opening canvas:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to open canvas: ${errorMessage}`, 5000);
+    }
+  };
+
+  if (references === null) {
+    return <div className="text-muted text-sm">Loading canvases...</div>;
+  }
+
+  if (references.length === 0) {
+    return <div className="text-muted text-sm">Not on any canvas</div>;
+  }
+
+  return (
+    <ul className="border-modifier-border m-0 list-none rounded border p-0">
+      {references.map((reference) => (
+        <li
+          key={reference.canvasFile.path}
+          className="border-modifier-border flex items-center gap-2 border-b px-3 py-2"
+        >
+          <a
+            href="#"
+            className="text-accent-text flex-1"
+            title={`Open ${reference.canvasFile.path} and focus the node`}
+            onClick={(e) => {
+              e.preventDefault();
+              void handleOpen(reference);
+            }}
+          >
+            {reference.canvasFile.basename}
+          </a>
+          {reference.shapeIds.length > 1 && (
+            <span className="text-muted text-xs">
+              {reference.shapeIds.length} shapes
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,75 @@
+import { App, Modal } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import { DEFAULT_SETTINGS } from "~/constants";
+import type { Settings } from "~/types";
+import {
+  createMigrationContext,
+  describeMigrationReport,
+  upgradeRelationsData,
+  upgradeSettingsData,
+} from "~/utils/migrations";
+import { readRawRelationsFile } from "~/utils/relationsStore";
+
+/**
+ * Dry run of the settings and relations.json migrations against the data on
+ * disk. Nothing is written.
+ */
+export const previewDataMigrations = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<string[]> => {
+  const context = createMigrationContext();
+  const loadedData = (await plugin.loadData()) as Partial<Settings> | null;
+  const { report: settingsReport } = upgradeSettingsData(
+    Object.assign({}, DEFAULT_SETTINGS, loadedData),
+    context,
+  );
+  const lines = describeMigrationReport("Settings", settingsReport);
+
+  try {
+    const raw = await readRawRelationsFile(plugin);
+    if (raw) {
+      const { report } = upgradeRelationsData(raw, context);
+      lines.push(...describeMigrationReport("relations.json", report));
+    } else {
+      lines.push("relations.json: not created yet.");
+    }
+  } catch (error) {
+    lines.push(
+      `relations.json: could not be read (${error instanceof Error ? error.message : String(error)}). Run "Validate discourse graph" to repair it.`,
+    );
+  }
+  return lines;
+};
+
+export class DataMigrationsModal extends Modal {
+  private plugin: DiscourseGraphPlugin;
+
+  constructor(app: App, plugin: DiscourseGraphPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl("h2", { text: "Data migrations (dry run)" });
+    const reportEl = contentEl.createEl("pre", {
+      text: "Checking...",
+      cls: "whitespace-pre-wrap text-sm",
+    });
+
+    void previewDataMigrations(this.plugin)
+      .then((lines) => reportEl.setText(lines.join("\n")))
+      .catch((error) => {
+        console.error("Failed to preview data migrations:", error);
+        reportEl.setText(
+          `Failed to preview data migrations: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -8,8 +8,16 @@ import {
 } from "obsidian";
 import { createRoot, Root } from "react-dom/client";
 import DiscourseGraphPlugin from "~/index";
-import { getDiscourseNodeFormatExpression } from "~/utils/getDiscourseNodeFormatExpression";
+import {
+  extractContentFromTitle,
+  extractPlaceholdersFromTitle,
+} from "~/utils/extractContentFromTitle";
+import {
+  CONTENT_PLACEHOLDER,
+  getPlaceholderLabel,
+} from "~/utils/getDiscourseNodeFormatExpression";
 import { RelationshipSection } from "~/components/RelationshipSection";
+import { CanvasReferencesSection } from "~/components/CanvasReferencesSection";
 import { VIEW_TYPE_DISCOURSE_CONTEXT } from "~/types";
 import { PluginProvider, usePlugin } from "~/components/PluginContext";
 import {
@@ -20,6 +28,7 @@ import {
 import { refreshImportedFile } from "~/utils/importNodes";
 import { PublishGroupDropdown } from "~/components/PublishGroupDropdown";
 import { createBaseForNodeType } from "~/utils/baseForNodeType";
+import { NeighborhoodCanvasModal } from "~/components/NeighborhoodCanvasModal";
 import { useState } from "react";
 
 type DiscourseContextProps = {
@@ -45,13 +54,6 @@ const DiscourseContext = ({ activeFile }: DiscourseContextProps) => {
   const plugin = usePlugin();
   const [isRefreshing, setIsRefreshing] = useState(false);
 
-  const extractContentFromTitle = (format: string, title: string): string => {
-    if (!format) return "";
-    const regex = getDiscourseNodeFormatExpression(format);
-    const match = title.match(regex);
-    return match?.[1] ?? title;
-  };
-
   const handleRefresh = async () => {
     if (!activeFile || isRefreshing) return;
 
@@ -153,6 +155,21 @@ const DiscourseContext = ({ activeFile }: DiscourseContextProps) => {
                 ref={(el) => (el && setIcon(el, "layout-list")) || undefined}
               />
             </button>
+            <button
+              ref={(el) => {
+                if (el) setTooltip(el, "Open neighborhood on canvas");
+              }}
+              onClick={() => {
+                new NeighborhoodCanvasModal(
+                  plugin.app,
+                  plugin,
+                  activeFile,
+                ).open();
+              }}
+              className="clickable-icon"
+            >
+              <div ref={(el) => (el && setIcon(el, "network")) || undefined} />
+            </button>
             {isImported && (
               <button
                 onClick={() => {
@@ -194,6 +211,19 @@ const DiscourseContext = ({ activeFile }: DiscourseContextProps) => {
               {extractContentFromTitle(nodeType.format, activeFile.basename)}
             </div>
           )}
+          {Object.entries(
+            extractPlaceholdersFromTitle(
+              nodeType.format,
+              activeFile.basename,
+            ) ?? {},
+          )
+            .filter(([name]) => name !== CONTENT_PLACEHOLDER)
+            .map(([name, value]) => (
+              <div key={name} className="mb-1">
+                <span className="font-bold">{getPlaceholderLabel(name)}: </span>
+                {value}
+              </div>
+            ))}
 
           {isImported && sourceDates && (
             <div className="text-modifier-text mt-2 text-xs">
@@ -209,6 +239,16 @@ const DiscourseContext = ({ activeFile }: DiscourseContextProps) => {
           </h4>
           <RelationshipSection key={activeFile.path} activeFile={activeFile} />
         </div>
+
+        <div>
+          <h4 className="dg-h4 border-modifier-border mb-3 mt-4 border-b pb-1">
+            Canvases
+          </h4>
+          <CanvasReferencesSection
+            key={activeFile.path}
+            activeFile={activeFile}
+          />
+        </div>
       </>
     );
   };
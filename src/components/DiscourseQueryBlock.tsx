@@ -0,0 +1,345 @@
+import { StrictMode, useCallback, useEffect, useMemo, useState } from "react";
+import { createRoot, Root } from "react-dom/client";
+import {
+  debounce,
+  MarkdownPostProcessorContext,
+  MarkdownRenderChild,
+  TAbstractFile,
+  TFile,
+} from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import { PluginProvider, usePlugin } from "~/components/PluginContext";
+import {
+  runDiscourseQuery,
+  type DiscourseQueryResult,
+} from "~/utils/discourseQuery";
+import {
+  DISCOURSE_QUERY_BLOCK_LANGUAGE,
+  parseDiscourseQueryBlock,
+  type DiscourseQueryColumn,
+} from "~/utils/discourseQueryBlock";
+import { isRelationsStoragePath } from "~/utils/relationsStore";
+import { getNodeTypeById } from "~/utils/typeUtils";
+
+const REFRESH_DEBOUNCE_MS = 300;
+
+type SortKey = "title" | "type" | "hops" | "modified";
+
+type SortState = {
+  key: SortKey;
+  ascending: boolean;
+};
+
+/**
+ * Bumps a counter whenever relations.json or any indexed discourse node changes,
+ * so the query re-runs while the block is visible.
+ */
+const useGraphVersion = (plugin: DiscourseGraphPlugin): number => {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const refresh = debounce(
+      () => setVersion((v) => v + 1),
+      REFRESH_DEBOUNCE_MS,
+      true,
+    );
+    const onVaultChange = (file: TAbstractFile) => {
+      if (isRelationsStoragePath(plugin, file.path)) refresh();
+    };
+
+    const indexRef = plugin.nodeIndex.on("changed", refresh);
+    const vaultRefs = [
+      plugin.app.vault.on("modify", onVaultChange),
+      plugin.app.vault.on("create", onVaultChange),
+      plugin.app.vault.on("delete", onVaultChange),
+    ];
+
+    return () => {
+      refresh.cancel();
+      plugin.nodeIndex.offref(indexRef);
+      vaultRefs.forEach((ref) => plugin.app.vault.offref(ref));
+    };
+  }, [plugin]);
+
+  return version;
+};
+
+const SortableHeader = ({
+  label,
+  sortKey,
+  sort,
+  onSort,
+}: {
+  label: string;
+  sortKey: SortKey;
+  sort: SortState;
+  onSort: (key: SortKey) => void;
+}) => (
+  <th className="cursor-pointer select-none" onClick={() => onSort(sortKey)}>
+    {label}
+    {sort.key === sortKey ? (sort.ascending ? " ▲" : " ▼") : ""}
+  </th>
+);
+
+const FileLink = ({
+  file,
+  sourcePath,
+}: {
+  file: TFile;
+  sourcePath: string;
+}) => {
+  const plugin = usePlugin();
+  return (
+    <a
+      href={file.path}
+      data-href={file.path}
+      className="internal-link"
+      onClick={(e) => {
+        e.preventDefault();
+        void plugin.app.workspace.openLinkText(
+          file.path,
+          sourcePath,
+          e.metaKey || e.ctrlKey,
+        );
+      }}
+    >
+      {file.basename}
+    </a>
+  );
+};
+
+const DiscourseQueryTable = ({
+  source,
+  sourcePath,
+}: {
+  source: string;
+  sourcePath: string;
+}) => {
+  const plugin = usePlugin();
+  const version = useGraphVersion(plugin);
+  const [results, setResults] = useState<DiscourseQueryResult[]>([]);
+  const [columns, setColumns] = useState<DiscourseQueryColumn[]>([]);
+  const [hasTraversal, setHasTraversal] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sort, setSort] = useState<SortState>({
+    key: "title",
+    ascending: true,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const parsed = parseDiscourseQueryBlock({ plugin, source, sourcePath });
+        const queryResults = await runDiscourseQuery(plugin, parsed.query);
+        if (cancelled) return;
+        setResults(queryResults);
+        setColumns(parsed.columns);
+        setHasTraversal(!!parsed.query.from);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setResults([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [plugin, source, sourcePath, version]);
+
+  useEffect(() => {
+    if (hasTraversal) setSort({ key: "hops", ascending: true });
+  }, [hasTraversal]);
+
+  const getTypeName = useCallback(
+    (nodeTypeId: string) =>
+      getNodeTypeById(plugin, nodeTypeId)?.name ?? nodeTypeId,
+    [plugin],
+  );
+
+  const sortedResults = useMemo(() => {
+    const compare = (a: DiscourseQueryResult, b: DiscourseQueryResult) => {
+      switch (sort.key) {
+        case "type":
+          return getTypeName(a.nodeTypeId).localeCompare(
+            getTypeName(b.nodeTypeId),
+          );
+        case "hops":
+          return (a.hops ?? 0) - (b.hops ?? 0);
+        case "modified":
+          return a.file.stat.mtime - b.file.stat.mtime;
+        default:
+          return 0;
+      }
+    };
+    return [...results].sort((a, b) => {
+      const primary =
+        compare(a, b) || a.file.basename.localeCompare(b.file.basename);
+      return sort.ascending ? primary : -primary;
+    });
+  }, [results, sort, getTypeName]);
+
+  const handleSort = (key: SortKey) => {
+    setSort((prev) =>
+      prev.key === key
+        ? { key, ascending: !prev.ascending }
+        : { key, ascending: true },
+    );
+  };
+
+  if (error) {
+    return (
+      <div className="text-error text-sm">Discourse query error: {error}</div>
+    );
+  }
+
+  if (isLoading) {
+    return <div className="text-muted text-sm">Running query...</div>;
+  }
+
+  return (
+    <div className="discourse-query-block">
+      <table className="w-full">
+        <thead>
+          <tr>
+            <SortableHeader
+              label="Title"
+              sortKey="title"
+              sort={sort}
+              onSort={handleSort}
+            />
+            <SortableHeader
+              label="Type"
+              sortKey="type"
+              sort={sort}
+              onSort={handleSort}
+            />
+            {hasTraversal && (
+              <SortableHeader
+                label="Hops"
+                sortKey="hops"
+                sort={sort}
+                onSort={handleSort}
+              />
+            )}
+            {columns.map((column) => (
+              <th key={column.conditionIndex}>{column.label}</th>
+            ))}
+            <SortableHeader
+              label="Modified"
+              sortKey="modified"
+              sort={sort}
+              onSort={handleSort}
+            />
+          </tr>
+        </thead>
+        <tbody>
+          {sortedResults.map((result) => {
+            const nodeType = getNodeTypeById(plugin, result.nodeTypeId);
+            return (
+              <tr key={result.file.path}>
+                <td>
+                  <FileLink file={result.file} sourcePath={sourcePath} />
+                </td>
+                <td>
+                  <span className="flex items-center gap-2">
+                    {nodeType?.color && (
+                      <span
+                        className="inline-block h-3 w-3 rounded-full"
+                        style={{ backgroundColor: nodeType.color }}
+                      />
+                    )}
+                    {getTypeName(result.nodeTypeId)}
+                  </span>
+                </td>
+                {hasTraversal && <td>{result.hops}</td>}
+                {columns.map((column) => (
+                  <td key={column.conditionIndex}>
+                    {(result.related[column.conditionIndex] ?? []).map(
+                      (file, index) => (
+                        <span key={file.path}>
+                          {index > 0 && ", "}
+                          <FileLink file={file} sourcePath={sourcePath} />
+                        </span>
+                      ),
+                    )}
+                  </td>
+                ))}
+                <td>{new Date(result.file.stat.mtime).toLocaleDateString()}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="text-muted mt-1 text-xs">
+        {results.length} {results.length === 1 ? "result" : "results"}
+      </div>
+    </div>
+  );
+};
+
+class DiscourseQueryRenderChild extends MarkdownRenderChild {
+  private root: Root | null = null;
+
+  constructor(
+    containerEl: HTMLElement,
+    private plugin: DiscourseGraphPlugin,
+    private source: string,
+    private sourcePath: string,
+  ) {
+    super(containerEl);
+  }
+
+  onload(): void {
+    this.root = createRoot(this.containerEl);
+    this.root.render(
+      <StrictMode>
+        <PluginProvider plugin={this.plugin}>
+          <DiscourseQueryTable
+            source={this.source}
+            sourcePath={this.sourcePath}
+          />
+        </PluginProvider>
+      </StrictMode>,
+    );
+  }
+
+  onunload(): void {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
+
+/**
+ * Register the `discourse-query` code block processor. The block body is YAML:
+ *
+ * ```discourse-query
+ * nodeTypes: [Evidence]
+ * from: this
+ * relations: [supports]
+ * hops: 2
+ * where:
+ *   - relation: opposes
+ *     target: Claim
+ *     not: true
+ * ```
+ */
+export const registerDiscourseQueryBlock = (
+  plugin: DiscourseGraphPlugin,
+): void => {
+  plugin.registerMarkdownCodeBlockProcessor(
+    DISCOURSE_QUERY_BLOCK_LANGUAGE,
+    (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+      ctx.addChild(
+        new DiscourseQueryRenderChild(el, plugin, source, ctx.sourcePath),
+      );
+    },
+  );
+};
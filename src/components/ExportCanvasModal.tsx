@@ -0,0 +1,217 @@
+import { App, Modal, Notice, TFile } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useState } from "react";
+import type { Editor } from "tldraw";
+import type DiscourseGraphPlugin from "../index";
+import {
+  CANVAS_EXPORT_FORMAT_LABELS,
+  CANVAS_EXPORT_SCALES,
+  exportCanvas,
+  type CanvasExportFormat,
+  type CanvasExportOptions,
+} from "~/components/canvas/utils/canvasExport";
+
+type ExportCanvasModalProps = {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+  onClose: () => void;
+};
+
+const ExportCanvasContent = ({
+  plugin,
+  editor,
+  canvasFile,
+  onClose,
+}: ExportCanvasModalProps) => {
+  const [hasSelection] = useState(
+    () => editor.getSelectedShapeIds().length > 0,
+  );
+  const [options, setOptions] = useState<CanvasExportOptions>({
+    format: "svg",
+    scale: 1,
+    selectionOnly: hasSelection,
+    includeLegend: true,
+    background: true,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const file = await exportCanvas({
+        plugin,
+        editor,
+        canvasFile,
+        options,
+      });
+      if (file) {
+        new Notice(`Exported canvas to ${file.path}`, 3000);
+        onClose();
+      } else {
+        setIsExporting(false);
+      }
+    } catch (error) {
+      console.error("Error exporting canvas:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to export canvas: ${errorMessage}`, 5000);
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="mb-2">Export canvas</h3>
+      <p className="text-muted mb-4 text-sm">
+        Save {canvasFile.basename} as an image next to the canvas file.
+      </p>
+
+      <div className="flex flex-col gap-3 text-sm">
+        <label className="flex items-center justify-between gap-2">
+          <span className="font-medium">Format</span>
+          <select
+            value={options.format}
+            onChange={(e) =>
+              setOptions((prev) => ({
+                ...prev,
+                format: e.target.value as CanvasExportFormat,
+              }))
+            }
+          >
+            {(
+              Object.entries(CANVAS_EXPORT_FORMAT_LABELS) as [
+                CanvasExportFormat,
+                string,
+              ][]
+            ).map(([format, label]) => (
+              <option key={format} value={format}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="font-medium">Scale</span>
+          <select
+            value={options.scale}
+            onChange={(e) =>
+              setOptions((prev) => ({
+                ...prev,
+                scale: Number(e.target.value),
+              }))
+            }
+          >
+            {CANVAS_EXPORT_SCALES.map((scale) => (
+              <option key={scale} value={scale}>
+                {scale}x
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.selectionOnly}
+            disabled={!hasSelection}
+            onChange={(e) =>
+              setOptions((prev) => ({
+                ...prev,
+                selectionOnly: e.target.checked,
+              }))
+            }
+          />
+          Export selected shapes only
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.includeLegend}
+            onChange={(e) =>
+              setOptions((prev) => ({
+                ...prev,
+                includeLegend: e.target.checked,
+              }))
+            }
+          />
+          Add a legend of the node and relation types in use
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.background || options.format === "pdf"}
+            disabled={options.format === "pdf"}
+            onChange={(e) =>
+              setOptions((prev) => ({
+                ...prev,
+                background: e.target.checked,
+              }))
+            }
+          />
+          Include background
+        </label>
+      </div>
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2">
+          Cancel
+        </button>
+        <button
+          onClick={() => {
+            void handleExport();
+          }}
+          className="!bg-accent !text-on-accent rounded px-4 py-2"
+          disabled={isExporting}
+        >
+          {isExporting ? "Exporting..." : "Export"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export class ExportCanvasModal extends Modal {
+  private plugin: DiscourseGraphPlugin;
+  private editor: Editor;
+  private canvasFile: TFile;
+  private root: Root | null = null;
+
+  constructor(
+    app: App,
+    plugin: DiscourseGraphPlugin,
+    editor: Editor,
+    canvasFile: TFile,
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.editor = editor;
+    this.canvasFile = canvasFile;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <ExportCanvasContent
+          plugin={this.plugin}
+          editor={this.editor}
+          canvasFile={this.canvasFile}
+          onClose={() => this.close()}
+        />
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
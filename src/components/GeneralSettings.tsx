@@ -1,8 +1,10 @@
 import { useState, useCallback } from "react";
 import { usePlugin } from "./PluginContext";
-import { setIcon } from "obsidian";
+import { Notice, setIcon } from "obsidian";
 import SuggestInput from "./SuggestInput";
 import { DiscourseGraphLogoIcon, SlackLogoIcon } from "./Icons";
+import type { RelationsStorageMode } from "~/types";
+import { switchRelationsStorage } from "~/utils/relationsStore";
 
 const DOCS_URL = "https://discoursegraphs.com/docs/obsidian";
 const COMMUNITY_URL =
@@ -148,6 +150,9 @@ const GeneralSettings = () => {
   const [nodeTagHotkey, setNodeTagHotkey] = useState<string>(
     plugin.settings.nodeTagHotkey,
   );
+  const [relationsStorage, setRelationsStorage] =
+    useState<RelationsStorageMode>(plugin.settings.relationsStorage ?? "file");
+  const [isSwitchingStorage, setIsSwitchingStorage] = useState(false);
 
   const handleToggleChange = (newValue: boolean) => {
     setShowIdsInFrontmatter(newValue);
@@ -194,6 +199,26 @@ const GeneralSettings = () => {
     [plugin],
   );
 
+  const handleRelationsStorageChange = async (
+    newValue: RelationsStorageMode,
+  ) => {
+    const previousValue = relationsStorage;
+    setRelationsStorage(newValue);
+    setIsSwitchingStorage(true);
+    try {
+      await switchRelationsStorage(plugin, newValue);
+      new Notice("Relations storage updated", 3000);
+    } catch (error) {
+      console.error("Error switching relations storage:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to switch relations storage: ${errorMessage}`, 5000);
+      setRelationsStorage(plugin.settings.relationsStorage ?? previousValue);
+    } finally {
+      setIsSwitchingStorage(false);
+    }
+  };
+
   return (
     <div className="general-settings">
       <div className="setting-item">
@@ -298,6 +323,34 @@ const GeneralSettings = () => {
         </div>
       </div>
 
+      <div className="setting-item">
+        <div className="setting-item-info">
+          <div className="setting-item-name">Relations storage</div>
+          <div className="setting-item-description">
+            Store relations in a single relations.json, or split them into small
+            files in a &quot;relations&quot; folder so large vaults sync and
+            save faster. Existing relations are moved and backed up when this
+            changes.
+          </div>
+        </div>
+        <div className="setting-item-control">
+          <select
+            value={relationsStorage}
+            onChange={(e) =>
+              void handleRelationsStorageChange(
+                e.target.value as RelationsStorageMode,
+              )
+            }
+            disabled={isSwitchingStorage}
+            className="flex-1 pl-2"
+          >
+            <option value="file">Single file</option>
+            <option value="shardedBySource">Sharded by source node</option>
+            <option value="shardedByMonth">Sharded by month</option>
+          </select>
+        </div>
+      </div>
+
       <InfoSection />
     </div>
   );
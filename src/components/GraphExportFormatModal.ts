@@ -0,0 +1,43 @@
+import { SuggestModal } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import {
+  GRAPH_EXPORT_FORMATS,
+  type GraphExportFormat,
+} from "~/utils/graphExport";
+
+export class GraphExportFormatModal extends SuggestModal<GraphExportFormat> {
+  private onSelect: (format: GraphExportFormat) => void;
+
+  constructor(
+    plugin: DiscourseGraphPlugin,
+    onSelect: (format: GraphExportFormat) => void,
+  ) {
+    super(plugin.app);
+    this.onSelect = onSelect;
+    this.setPlaceholder("Choose an export format");
+  }
+
+  getItemText(item: GraphExportFormat): string {
+    return GRAPH_EXPORT_FORMATS[item].label;
+  }
+
+  getSuggestions(): GraphExportFormat[] {
+    const query = this.inputEl.value.toLowerCase();
+    return (Object.keys(GRAPH_EXPORT_FORMATS) as GraphExportFormat[]).filter(
+      (format) => this.getItemText(format).toLowerCase().includes(query),
+    );
+  }
+
+  renderSuggestion(format: GraphExportFormat, el: HTMLElement): void {
+    const container = el.createDiv({ cls: "flex items-center gap-2" });
+    container.createDiv({ text: this.getItemText(format) });
+    container.createDiv({
+      cls: "text-muted text-xs",
+      text: `.${GRAPH_EXPORT_FORMATS[format].extension}`,
+    });
+  }
+
+  onChooseSuggestion(format: GraphExportFormat): void {
+    this.onSelect(format);
+  }
+}
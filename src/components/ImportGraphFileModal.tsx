@@ -0,0 +1,330 @@
+import { App, Modal, Notice } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useState } from "react";
+import type DiscourseGraphPlugin from "../index";
+import {
+  computeFileImportPreview,
+  importGraphFromFiles,
+  parseGraphImportFile,
+  type FileImportPreviewData,
+  type RawImportGraph,
+} from "~/utils/fileGraphImport";
+
+type ImportGraphFileModalProps = {
+  plugin: DiscourseGraphPlugin;
+  onClose: () => void;
+};
+
+const ImportGraphFileContent = ({
+  plugin,
+  onClose,
+}: ImportGraphFileModalProps) => {
+  const [step, setStep] = useState<"select" | "preview" | "importing">(
+    "select",
+  );
+  const [files, setFiles] = useState<File[]>([]);
+  const [previewData, setPreviewData] = useState<FileImportPreviewData | null>(
+    null,
+  );
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [importProgress, setImportProgress] = useState({
+    current: 0,
+    total: 0,
+  });
+
+  const handleNext = async () => {
+    if (files.length === 0) {
+      new Notice("Please choose at least one file to import");
+      return;
+    }
+
+    setPreviewLoading(true);
+    try {
+      const graph: RawImportGraph = { nodes: [], edges: [] };
+      for (const file of files) {
+        const parsed = parseGraphImportFile({
+          filename: file.name,
+          content: await file.text(),
+        });
+        graph.nodes.push(...parsed.nodes);
+        graph.edges.push(...parsed.edges);
+      }
+      setPreviewData(computeFileImportPreview({ plugin, graph }));
+      setStep("preview");
+    } catch (error) {
+      console.error("Error computing file import preview:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to read import files: ${errorMessage}`, 5000);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!previewData) return;
+
+    setStep("importing");
+    setImportProgress({
+      current: 0,
+      total: previewData.nodes.length + previewData.relations.length,
+    });
+
+    try {
+      const result = await importGraphFromFiles({
+        plugin,
+        preview: previewData,
+        onProgress: (current, total) => {
+          setImportProgress({ current, total });
+        },
+      });
+
+      const summary = `${result.createdNodes} node(s) created, ${result.reusedNodes} reused, ${result.createdRelations} relation(s) added${result.createdRelationRules > 0 ? `, ${result.createdRelationRules} discourse relation(s) created` : ""}`;
+      if (result.failedNodes > 0 || result.failedRelations > 0) {
+        new Notice(
+          `Import completed with some issues:\n${summary}\n${result.failedNodes} node(s) and ${result.failedRelations} relation(s) failed`,
+          5000,
+        );
+      } else {
+        new Notice(`Import complete: ${summary}`, 3000);
+      }
+
+      onClose();
+    } catch (error) {
+      console.error("Error importing graph files:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Import failed: ${errorMessage}`, 5000);
+      setStep("preview");
+    }
+  };
+
+  const renderSelectStep = () => (
+    <div>
+      <h3 className="mb-4">Import discourse graph from files</h3>
+      <p className="text-muted mb-4 text-sm">
+        Choose CSV or JSON files with nodes and/or edges. Node rows need a title
+        and a node type; edge rows need a source, a target and a relation type.
+        Types can be given by name or id.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,.json,.cyjs"
+        multiple
+        onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+        className="mb-4"
+      />
+
+      {files.length > 0 && (
+        <div className="rounded border p-3 text-sm">
+          {files.map((file) => (
+            <div key={file.name}>{file.name}</div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2">
+          Cancel
+        </button>
+        <button
+          onClick={() => {
+            void handleNext();
+          }}
+          className="!bg-accent !text-on-accent rounded px-4 py-2"
+          disabled={files.length === 0 || previewLoading}
+        >
+          {previewLoading ? "Loading..." : "Next"}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderPreviewStep = () => {
+    if (!previewData) return null;
+
+    const newNodeCount = previewData.nodes.filter(
+      (n) => !n.existingFile,
+    ).length;
+    const reusedNodeCount = previewData.nodes.length - newNodeCount;
+    const hasNothingToImport =
+      previewData.nodes.length === 0 && previewData.relations.length === 0;
+
+    return (
+      <div>
+        <h3 className="mb-2">Import preview</h3>
+        <p className="text-muted mb-4 text-sm">
+          Review what will be imported and created.
+        </p>
+
+        <div className="max-h-96 overflow-y-auto">
+          <div className="mb-4 rounded border p-3">
+            <div className="mb-1 text-sm font-medium uppercase tracking-wide opacity-60">
+              Summary
+            </div>
+            <div className="flex gap-6 text-sm">
+              <div>
+                <span className="font-semibold">{newNodeCount}</span> new node
+                {newNodeCount !== 1 ? "s" : ""}
+              </div>
+              <div>
+                <span className="font-semibold">{reusedNodeCount}</span>{" "}
+                existing
+              </div>
+              <div>
+                <span className="font-semibold">
+                  {previewData.relations.length}
+                </span>{" "}
+                relation{previewData.relations.length !== 1 ? "s" : ""}
+              </div>
+            </div>
+          </div>
+
+          {previewData.nodes.length > 0 && (
+            <div className="mb-4 rounded border p-3">
+              <div className="mb-2 text-sm font-medium uppercase tracking-wide opacity-60">
+                Nodes
+              </div>
+              <div className="space-y-1">
+                {previewData.nodes.map((node) => (
+                  <div
+                    key={node.formattedTitle}
+                    className="flex items-center gap-2 text-xs"
+                  >
+                    <span
+                      className="inline-block h-2 w-2 flex-shrink-0 rounded-full"
+                      style={{ backgroundColor: node.nodeType.color }}
+                    />
+                    <span className="line-clamp-1">{node.formattedTitle}</span>
+                    {node.existingFile && (
+                      <span className="text-muted">(exists)</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {previewData.relationTriplets.length > 0 && (
+            <div className="mb-4 rounded border p-3">
+              <div className="mb-2 text-sm font-medium uppercase tracking-wide opacity-60">
+                New discourse relations to create
+              </div>
+              <div className="space-y-1">
+                {previewData.relationTriplets.map((t, i) => (
+                  <div key={i} className="flex items-center gap-1 text-xs">
+                    <span className="rounded bg-secondary px-1.5 py-0.5">
+                      {t.sourceNodeTypeName}
+                    </span>
+                    <span className="text-accent font-medium">
+                      {t.relationTypeLabel}
+                    </span>
+                    <span className="rounded bg-secondary px-1.5 py-0.5">
+                      {t.destNodeTypeName}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {previewData.issues.length > 0 && (
+            <div className="mb-4 rounded border p-3">
+              <div className="mb-2 text-sm font-medium uppercase tracking-wide opacity-60">
+                Skipped ({previewData.issues.length})
+              </div>
+              <div className="text-error space-y-1 text-xs">
+                {previewData.issues.map((issue, i) => (
+                  <div key={i}>{issue}</div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {hasNothingToImport && (
+            <div className="text-muted rounded border p-3 text-center text-sm">
+              Nothing to import.
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-between">
+          <button onClick={() => setStep("select")} className="px-4 py-2">
+            Back
+          </button>
+          <button
+            onClick={() => {
+              void handleImport();
+            }}
+            className="!bg-accent !text-on-accent rounded px-4 py-2"
+            disabled={hasNothingToImport}
+          >
+            Confirm Import
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderImportingStep = () => (
+    <div className="text-center">
+      <h3 className="mb-4">Importing graph</h3>
+      <div className="mb-4">
+        <div className="bg-modifier-border mb-2 h-2 rounded-full">
+          <div
+            className="bg-accent h-2 rounded-full transition-all duration-300"
+            style={{
+              width: `${(importProgress.current / Math.max(importProgress.total, 1)) * 100}%`,
+            }}
+          />
+        </div>
+        <div className="text-muted text-sm">
+          {importProgress.current} of {importProgress.total} item(s) processed
+        </div>
+      </div>
+    </div>
+  );
+
+  switch (step) {
+    case "select":
+      return renderSelectStep();
+    case "preview":
+      return renderPreviewStep();
+    case "importing":
+      return renderImportingStep();
+    default:
+      return null;
+  }
+};
+
+export class ImportGraphFileModal extends Modal {
+  private plugin: DiscourseGraphPlugin;
+  private root: Root | null = null;
+
+  constructor(app: App, plugin: DiscourseGraphPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <ImportGraphFileContent
+          plugin={this.plugin}
+          onClose={() => this.close()}
+        />
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
@@ -13,7 +13,21 @@ import type DiscourseGraphPlugin from "~/index";
 import { QueryEngine } from "~/services/QueryEngine";
 import { isProvisionalSchema } from "~/utils/typeUtils";
 import { getNodeTypeIdForFile } from "~/utils/relationsStore";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
 import { formatNodeName } from "~/utils/createNode";
+import {
+  CONTENT_PLACEHOLDER,
+  getFormatPlaceholders,
+  getPlaceholderLabel,
+} from "~/utils/getDiscourseNodeFormatExpression";
+import {
+  getAttributeIssues,
+  getAttributeLabel,
+  parseAttributeInput,
+  RATING_MAX,
+  RATING_MIN,
+  type NodeAttributeValues,
+} from "~/utils/nodeAttributes";
 
 // APFS and ext4 both enforce a 255 UTF-8 byte limit per filename component.
 const MAX_FILENAME_BYTES = 255;
@@ -32,9 +46,12 @@ const trimToByteLimit = (str: string, maxBytes: number): string => {
   return trimmed;
 };
 
-const computeMaxTitleBytes = (nodeType: DiscourseNode | null): number => {
+const computeMaxTitleBytes = (
+  nodeType: DiscourseNode | null,
+  placeholderValues?: Record<string, string>,
+): number => {
   const formatOverhead = nodeType
-    ? getByteLength(formatNodeName("", nodeType) ?? "")
+    ? getByteLength(formatNodeName("", nodeType, placeholderValues) ?? "")
     : 0;
   return Math.max(1, MAX_FILENAME_BYTES - MD_EXTENSION_BYTES - formatOverhead);
 };
@@ -49,6 +66,10 @@ type ModifyNodeFormProps = {
     /** DiscourseRelation.id; when set, relation is created with currentFile as the other end. */
     relationshipId?: string;
     relationshipTargetFile?: TFile;
+    /** Values of the format's placeholders other than {content} (create mode only). */
+    placeholderValues?: Record<string, string>;
+    /** Values of the node type's attributes for a new node (create mode only). */
+    attributeValues?: NodeAttributeValues;
   }) => Promise<void>;
   onCancel: () => void;
   initialTitle?: string;
@@ -89,7 +110,16 @@ export const ModifyNodeForm = ({
   const [selectedRelationshipKey, setSelectedRelationshipKey] = useState<
     string | undefined
   >(undefined);
-  const queryEngine = useRef(new QueryEngine(plugin.app));
+  const [placeholderInputs, setPlaceholderInputs] = useState<
+    Record<string, string>
+  >({});
+  const [attributeInputs, setAttributeInputs] = useState<
+    Record<string, string>
+  >({});
+  const [attributeErrors, setAttributeErrors] = useState<
+    Record<string, string>
+  >({});
+  const queryEngine = useRef(new QueryEngine(plugin.app, plugin.nodeIndex));
   const titleInputRef = useRef<HTMLTextAreaElement>(null);
   const popoverRef = useRef<HTMLDivElement>(null);
   const menuRef = useRef<HTMLUListElement>(null);
@@ -97,8 +127,8 @@ export const ModifyNodeForm = ({
   const selectedFileRef = useRef<TFile | null>(null);
 
   const maxTitleBytes = useMemo(
-    () => computeMaxTitleBytes(selectedNodeType),
-    [selectedNodeType],
+    () => computeMaxTitleBytes(selectedNodeType, placeholderInputs),
+    [selectedNodeType, placeholderInputs],
   );
 
   // Search for nodes when query changes (only in create mode, and only when search is enabled)
@@ -221,8 +251,10 @@ export const ModifyNodeForm = ({
     }
 
     // Find all accepted relations that connect the current node type to the selected node type
-    const relevantRelations = plugin.settings.discourseRelations.filter(
-      (relation) => {
+    // Inherited rules keep their parent rule's id, so a rule between two
+    // subtypes of the same parent can show up in both directions; keep one.
+    const relevantRelations = getEffectiveDiscourseRelations(plugin.settings)
+      .filter((relation) => {
         if (isProvisionalSchema(relation)) return false;
         return (
           (relation.sourceId === currentNodeTypeId &&
@@ -230,8 +262,11 @@ export const ModifyNodeForm = ({
           (relation.sourceId === selectedNodeType.id &&
             relation.destinationId === currentNodeTypeId)
         );
-      },
-    );
+      })
+      .filter(
+        (relation, index, all) =>
+          all.findIndex((r) => r.id === relation.id) === index,
+      );
 
     const relations = relevantRelations
       .map((relation) => {
@@ -281,7 +316,27 @@ export const ModifyNodeForm = ({
     setSelectedRelationshipKey(first.uniqueKey);
   }, [availableRelationships, selectedRelationshipKey]);
 
-  const isFormValid = title.trim() && selectedNodeType;
+  // Placeholders of the format other than {content}, filled in separately.
+  const extraPlaceholders = useMemo(
+    () =>
+      !isEditMode && !selectedExistingNode && selectedNodeType
+        ? getFormatPlaceholders(selectedNodeType.format).filter(
+            (name) => name !== CONTENT_PLACEHOLDER,
+          )
+        : [],
+    [isEditMode, selectedExistingNode, selectedNodeType],
+  );
+  const isFormValid =
+    title.trim() &&
+    selectedNodeType &&
+    extraPlaceholders.every((name) => placeholderInputs[name]?.trim());
+  const nodeAttributes = useMemo(
+    () =>
+      !isEditMode && !selectedExistingNode
+        ? (selectedNodeType?.attributes ?? [])
+        : [],
+    [isEditMode, selectedExistingNode, selectedNodeType],
+  );
 
   const handleSelect = useCallback(
     async (file: TFile) => {
@@ -361,6 +416,18 @@ export const ModifyNodeForm = ({
     }
 
     setSelectedRelationshipKey(undefined);
+    setPlaceholderInputs({});
+    setAttributeInputs({});
+    setAttributeErrors({});
+  };
+
+  const handleAttributeChange = (key: string, value: string) => {
+    setAttributeInputs((prev) => ({ ...prev, [key]: value }));
+    setAttributeErrors((prev) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars -- the error is cleared while editing
+      const { [key]: _, ...rest } = prev;
+      return rest;
+    });
   };
 
   const handleQueryChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -388,6 +455,27 @@ export const ModifyNodeForm = ({
       return;
     }
 
+    const attributeValues: NodeAttributeValues = {};
+    for (const attribute of nodeAttributes) {
+      const value = parseAttributeInput(
+        attribute,
+        attributeInputs[attribute.key] ?? "",
+      );
+      if (value !== undefined) attributeValues[attribute.key] = value;
+    }
+    const attributeIssues = getAttributeIssues(
+      { ...selectedNodeType, attributes: nodeAttributes },
+      attributeValues,
+    );
+    if (attributeIssues.length > 0) {
+      setAttributeErrors(
+        Object.fromEntries(
+          attributeIssues.map((issue) => [issue.key, issue.error]),
+        ),
+      );
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       const key =
@@ -402,6 +490,17 @@ export const ModifyNodeForm = ({
         selectedExistingNode: selectedExistingNode || undefined,
         relationshipId: selectedRel?.uniqueKey || undefined,
         relationshipTargetFile: currentFile || undefined,
+        placeholderValues:
+          extraPlaceholders.length > 0
+            ? Object.fromEntries(
+                extraPlaceholders.map((name) => [
+                  name,
+                  placeholderInputs[name]?.trim() ?? "",
+                ]),
+              )
+            : undefined,
+        attributeValues:
+          nodeAttributes.length > 0 ? attributeValues : undefined,
       });
       onCancel();
     } catch (error) {
@@ -429,6 +528,10 @@ export const ModifyNodeForm = ({
     selectedRelationshipKey,
     currentFile,
     availableRelationships,
+    extraPlaceholders,
+    placeholderInputs,
+    nodeAttributes,
+    attributeInputs,
   ]);
 
   return (
@@ -557,6 +660,80 @@ export const ModifyNodeForm = ({
         </div>
       </div>
 
+      {extraPlaceholders.map((name) => (
+        <div key={name} className="setting-item">
+          <div className="setting-item-name">{getPlaceholderLabel(name)}</div>
+          <div className="setting-item-control">
+            <input
+              type="text"
+              value={placeholderInputs[name] ?? ""}
+              placeholder={`Enter {${name}}`}
+              onChange={(e) =>
+                setPlaceholderInputs((prev) => ({
+                  ...prev,
+                  [name]: e.target.value,
+                }))
+              }
+              disabled={isSubmitting}
+              className="w-full"
+            />
+          </div>
+        </div>
+      ))}
+
+      {nodeAttributes.map((attribute) => {
+        const value = attributeInputs[attribute.key] ?? "";
+        const error = attributeErrors[attribute.key];
+        return (
+          <div key={attribute.id} className="setting-item">
+            <div className="setting-item-name">
+              {getAttributeLabel(attribute)}
+              {attribute.required && <span className="text-error"> *</span>}
+            </div>
+            <div className="setting-item-control">
+              <div className="flex w-full flex-col">
+                {attribute.type === "enum" || attribute.type === "rating" ? (
+                  <select
+                    value={value}
+                    onChange={(e) =>
+                      handleAttributeChange(attribute.key, e.target.value)
+                    }
+                    disabled={isSubmitting}
+                    className="w-full"
+                  >
+                    <option value="">—</option>
+                    {(attribute.type === "enum"
+                      ? (attribute.options ?? [])
+                      : Array.from(
+                          { length: RATING_MAX - RATING_MIN + 1 },
+                          (_, i) => String(RATING_MIN + i),
+                        )
+                    ).map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type={attribute.type === "number" ? "number" : "text"}
+                    value={value}
+                    min={attribute.min}
+                    max={attribute.max}
+                    onChange={(e) =>
+                      handleAttributeChange(attribute.key, e.target.value)
+                    }
+                    disabled={isSubmitting}
+                    className="w-full"
+                  />
+                )}
+                {error && <p className="text-error mt-1 text-xs">{error}</p>}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
       {availableRelationships.length > 0 && !isEditMode && currentFile && (
         <div className="setting-item">
           <div className="setting-item-name">
@@ -621,6 +798,8 @@ type ModifyNodeModalProps = {
     selectedExistingNode?: TFile;
     relationshipId?: string;
     relationshipTargetFile?: TFile;
+    placeholderValues?: Record<string, string>;
+    attributeValues?: NodeAttributeValues;
   }) => Promise<void>;
   initialTitle?: string;
   initialNodeType?: DiscourseNode;
@@ -641,6 +820,8 @@ class ModifyNodeModal extends Modal {
     selectedExistingNode?: TFile;
     relationshipId?: string;
     relationshipTargetFile?: TFile;
+    placeholderValues?: Record<string, string>;
+    attributeValues?: NodeAttributeValues;
   }) => Promise<void>;
   private root: Root | null = null;
   private initialTitle?: string;
@@ -0,0 +1,219 @@
+import { App, Modal, Notice, TFile } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useEffect, useState } from "react";
+import type DiscourseGraphPlugin from "../index";
+import { isAcceptedSchema } from "~/utils/typeUtils";
+import {
+  collectNeighborhood,
+  MAX_NEIGHBORHOOD_HOPS,
+  openNeighborhoodCanvas,
+  type NeighborhoodOptions,
+} from "~/components/canvas/utils/neighborhoodCanvas";
+
+const DEFAULT_HOPS = 2;
+
+type NeighborhoodCanvasModalProps = {
+  plugin: DiscourseGraphPlugin;
+  file: TFile;
+  onClose: () => void;
+};
+
+const toggle = (ids: string[], id: string): string[] =>
+  ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id];
+
+const NeighborhoodCanvasContent = ({
+  plugin,
+  file,
+  onClose,
+}: NeighborhoodCanvasModalProps) => {
+  const nodeTypes = plugin.settings.nodeTypes;
+  const relationTypes = plugin.settings.relationTypes.filter(isAcceptedSchema);
+  const [options, setOptions] = useState<NeighborhoodOptions>({
+    hops: DEFAULT_HOPS,
+    nodeTypeIds: nodeTypes.map((nodeType) => nodeType.id),
+    relationTypeIds: relationTypes.map((relationType) => relationType.id),
+    includeTentative: false,
+  });
+  const [counts, setCounts] = useState<{
+    nodes: number;
+    relations: number;
+  } | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void collectNeighborhood(plugin, file, options)
+      .then((neighborhood) => {
+        if (cancelled) return;
+        setCounts({
+          nodes: neighborhood.nodes.length,
+          relations: neighborhood.relations.length,
+        });
+      })
+      .catch((error) => {
+        console.error("Error collecting neighborhood:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [plugin, file, options]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const canvas = await openNeighborhoodCanvas(plugin, file, options);
+      if (canvas) onClose();
+      else setIsCreating(false);
+    } catch (error) {
+      console.error("Error creating neighborhood canvas:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to create canvas: ${errorMessage}`, 5000);
+      setIsCreating(false);
+    }
+  };
+
+  const noTypesSelected =
+    options.nodeTypeIds.length === 0 || options.relationTypeIds.length === 0;
+
+  return (
+    <div>
+      <h3 className="mb-2">Open neighborhood on canvas</h3>
+      <p className="text-muted mb-4 text-sm">
+        Create a canvas with {file.basename} and the discourse nodes related to
+        it in relations.json.
+      </p>
+
+      <label className="mb-4 flex items-center gap-2 text-sm">
+        <span className="font-medium">Hops</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_NEIGHBORHOOD_HOPS}
+          value={options.hops}
+          onChange={(e) => {
+            const hops = Number(e.target.value);
+            if (!Number.isInteger(hops)) return;
+            setOptions((prev) => ({
+              ...prev,
+              hops: Math.min(Math.max(hops, 1), MAX_NEIGHBORHOOD_HOPS),
+            }));
+          }}
+          className="w-16"
+        />
+      </label>
+
+      <div className="mb-4 grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <div className="mb-1 font-medium">Node types</div>
+          {nodeTypes.map((nodeType) => (
+            <label key={nodeType.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.nodeTypeIds.includes(nodeType.id)}
+                onChange={() =>
+                  setOptions((prev) => ({
+                    ...prev,
+                    nodeTypeIds: toggle(prev.nodeTypeIds, nodeType.id),
+                  }))
+                }
+              />
+              {nodeType.name}
+            </label>
+          ))}
+        </div>
+        <div>
+          <div className="mb-1 font-medium">Relation types</div>
+          {relationTypes.map((relationType) => (
+            <label key={relationType.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.relationTypeIds.includes(relationType.id)}
+                onChange={() =>
+                  setOptions((prev) => ({
+                    ...prev,
+                    relationTypeIds: toggle(
+                      prev.relationTypeIds,
+                      relationType.id,
+                    ),
+                  }))
+                }
+              />
+              {relationType.label}
+            </label>
+          ))}
+          <label className="mt-2 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.includeTentative}
+              onChange={() =>
+                setOptions((prev) => ({
+                  ...prev,
+                  includeTentative: !prev.includeTentative,
+                }))
+              }
+            />
+            Include tentative relations
+          </label>
+        </div>
+      </div>
+
+      <div className="text-muted text-sm">
+        {noTypesSelected
+          ? "Select at least one node type and one relation type."
+          : counts
+            ? `${counts.nodes} node(s) and ${counts.relations} relation(s) will be added.`
+            : "Counting nodes..."}
+      </div>
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2">
+          Cancel
+        </button>
+        <button
+          onClick={() => {
+            void handleCreate();
+          }}
+          className="!bg-accent !text-on-accent rounded px-4 py-2"
+          disabled={isCreating || noTypesSelected}
+        >
+          {isCreating ? "Creating..." : "Create canvas"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export class NeighborhoodCanvasModal extends Modal {
+  private plugin: DiscourseGraphPlugin;
+  private file: TFile;
+  private root: Root | null = null;
+
+  constructor(app: App, plugin: DiscourseGraphPlugin, file: TFile) {
+    super(app);
+    this.plugin = plugin;
+    this.file = file;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <NeighborhoodCanvasContent
+          plugin={this.plugin}
+          file={this.file}
+          onClose={() => this.close()}
+        />
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
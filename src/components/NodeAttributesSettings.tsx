@@ -0,0 +1,205 @@
+import { useState } from "react";
+import generateUid from "~/utils/generateUid";
+import type { NodeAttribute, NodeAttributeType } from "~/types";
+import {
+  NODE_ATTRIBUTE_TYPE_LABELS,
+  validateAttributeDefinitions,
+} from "~/utils/nodeAttributes";
+
+type NodeAttributesSettingsProps = {
+  attributes: NodeAttribute[];
+  disabled?: boolean;
+  onSave: (attributes: NodeAttribute[]) => void;
+};
+
+const parseOptions = (input: string): string[] =>
+  Array.from(
+    new Set(
+      input
+        .split(",")
+        .map((option) => option.trim())
+        .filter(Boolean),
+    ),
+  );
+
+const parseBound = (input: string): number | undefined => {
+  const trimmed = input.trim();
+  if (!trimmed) return undefined;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Editor for the typed attributes of a node type. Edits are kept as a draft
+ * and only saved once every attribute definition is valid.
+ */
+export const NodeAttributesSettings = ({
+  attributes,
+  disabled,
+  onSave,
+}: NodeAttributesSettingsProps) => {
+  const [draft, setDraft] = useState<NodeAttribute[]>(attributes);
+  const [error, setError] = useState<string>();
+
+  const commit = (next: NodeAttribute[] = draft) => {
+    const normalized = next.map((attribute) => ({
+      ...attribute,
+      key: attribute.key.trim(),
+      label: attribute.label?.trim() || undefined,
+    }));
+    const { isValid, error } = validateAttributeDefinitions(normalized);
+    setError(isValid ? undefined : error);
+    if (isValid) onSave(normalized);
+  };
+
+  const update = (
+    id: string,
+    changes: Partial<NodeAttribute>,
+    save = false,
+  ) => {
+    const next = draft.map((attribute) =>
+      attribute.id === id ? { ...attribute, ...changes } : attribute,
+    );
+    setDraft(next);
+    if (save) commit(next);
+  };
+
+  const handleAdd = () => {
+    setDraft([...draft, { id: generateUid("attr"), key: "", type: "string" }]);
+  };
+
+  const handleRemove = (id: string) => {
+    const next = draft.filter((attribute) => attribute.id !== id);
+    setDraft(next);
+    commit(next);
+  };
+
+  const renderAttribute = (attribute: NodeAttribute) => (
+    <div
+      key={attribute.id}
+      className="border-modifier-border flex flex-col gap-2 border-b py-2"
+    >
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={attribute.key}
+          placeholder="Key (e.g., sampleSize)"
+          onChange={(e) => update(attribute.id, { key: e.target.value })}
+          onBlur={() => commit()}
+          disabled={disabled}
+          className="w-36"
+        />
+        <input
+          type="text"
+          value={attribute.label ?? ""}
+          placeholder="Label (optional)"
+          onChange={(e) => update(attribute.id, { label: e.target.value })}
+          onBlur={() => commit()}
+          disabled={disabled}
+          className="flex-1"
+        />
+        <select
+          value={attribute.type}
+          onChange={(e) =>
+            update(
+              attribute.id,
+              { type: e.target.value as NodeAttributeType },
+              true,
+            )
+          }
+          disabled={disabled}
+        >
+          {(Object.keys(NODE_ATTRIBUTE_TYPE_LABELS) as NodeAttributeType[]).map(
+            (type) => (
+              <option key={type} value={type}>
+                {NODE_ATTRIBUTE_TYPE_LABELS[type]}
+              </option>
+            ),
+          )}
+        </select>
+        <label className="flex items-center gap-1 text-xs">
+          <input
+            type="checkbox"
+            checked={!!attribute.required}
+            onChange={(e) =>
+              update(attribute.id, { required: e.target.checked }, true)
+            }
+            disabled={disabled}
+          />
+          Required
+        </label>
+        <button
+          onClick={() => handleRemove(attribute.id)}
+          disabled={disabled}
+          className="px-2 py-1 text-xs"
+          title="Remove attribute"
+        >
+          ✕
+        </button>
+      </div>
+      {attribute.type === "enum" && (
+        <input
+          type="text"
+          defaultValue={(attribute.options ?? []).join(", ")}
+          placeholder="Options, separated by commas"
+          onBlur={(e) =>
+            update(
+              attribute.id,
+              { options: parseOptions(e.target.value) },
+              true,
+            )
+          }
+          disabled={disabled}
+        />
+      )}
+      {attribute.type === "number" && (
+        <div className="flex items-center gap-2 text-xs">
+          <input
+            type="number"
+            defaultValue={attribute.min ?? ""}
+            placeholder="Minimum"
+            onBlur={(e) =>
+              update(attribute.id, { min: parseBound(e.target.value) }, true)
+            }
+            disabled={disabled}
+            className="w-28"
+          />
+          <input
+            type="number"
+            defaultValue={attribute.max ?? ""}
+            placeholder="Maximum"
+            onBlur={(e) =>
+              update(attribute.id, { max: parseBound(e.target.value) }, true)
+            }
+            disabled={disabled}
+            className="w-28"
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="setting-item flex-col !items-stretch">
+      <div className="flex items-center">
+        <div className="setting-item-info">
+          <div className="setting-item-name">Attributes</div>
+          <div className="setting-item-description">
+            Typed fields stored in the frontmatter of nodes of this type. They
+            are filled in when creating a node and checked whenever the note is
+            saved.
+          </div>
+        </div>
+        <div className="setting-item-control">
+          <button onClick={handleAdd} disabled={disabled}>
+            Add attribute
+          </button>
+        </div>
+      </div>
+      {draft.length > 0 && (
+        <div className="mt-2">{draft.map(renderAttribute)}</div>
+      )}
+      {error && <div className="text-error mt-1 text-xs">{error}</div>}
+    </div>
+  );
+};
@@ -3,8 +3,7 @@ import { validateNodeFormat, validateNodeName } from "~/utils/validateNodeType";
 import { usePlugin } from "./PluginContext";
 import { App, Component, MarkdownRenderer, Notice, setIcon } from "obsidian";
 import generateUid from "~/utils/generateUid";
-import { DiscourseNode } from "~/types";
-import { ConfirmationModal } from "./ConfirmationModal";
+import { DiscourseNode, NodeAttribute } from "~/types";
 import {
   createTemplateFileWithUniqueName,
   getImportedTemplateFileName,
@@ -18,6 +17,11 @@ import {
   getUserNameById,
 } from "~/utils/typeUtils";
 import { FolderSuggestInput } from "./GeneralSettings";
+import { NodeAttributesSettings } from "./NodeAttributesSettings";
+import { RetitleNodesModal } from "./RetitleNodesModal";
+import { RemoveNodeTypeModal } from "./RemoveNodeTypeModal";
+import { planNodeRetitle } from "~/utils/retitleNodes";
+import { isNodeTypeOrSubtypeOf } from "~/utils/nodeTypeHierarchy";
 import { createBaseForNodeType } from "~/utils/baseForNodeType";
 import {
   fetchTemplateImportCandidates,
@@ -80,7 +84,7 @@ const FIELD_CONFIGS: Partial<Record<EditableFieldKey, BaseFieldConfig>> = {
     key: "format",
     label: "Format",
     description:
-      "The format pattern for this node type (e.g., CLM - {content})",
+      "The format pattern for this node type (e.g., CLM - {content}). Other placeholders such as {source} and {year} in EVD - {content} ({source}, {year}) become extra fields when creating a node. Square brackets are not allowed, as they break links.",
     required: true,
     type: "text",
     validate: (value, nodeType, existingNodes) =>
@@ -91,6 +95,14 @@ const FIELD_CONFIGS: Partial<Record<EditableFieldKey, BaseFieldConfig>> = {
       }),
     placeholder: "Format (e.g., CLM - {content})",
   },
+  placeholdersInFrontmatter: {
+    key: "placeholdersInFrontmatter",
+    label: "Placeholders in frontmatter",
+    description:
+      "Also store placeholders other than {content} (e.g., {source} in EVD - {content} ({source})) in the frontmatter of each node",
+    type: "boolean",
+    required: false,
+  },
   description: {
     key: "description",
     label: "Description",
@@ -770,6 +782,10 @@ const NodeTypeSettings = () => {
   const saveSettings = (nodeTypeToSave: DiscourseNode) => {
     if (!validateNodeType(nodeTypeToSave)) return;
 
+    const previousFormat =
+      selectedNodeIndex !== null
+        ? nodeTypes[selectedNodeIndex]?.format
+        : undefined;
     const updatedNodeTypes = [...nodeTypes];
     if (
       selectedNodeIndex !== null &&
@@ -784,6 +800,24 @@ const NodeTypeSettings = () => {
     plugin.settings.nodeTypes = updatedNodeTypes;
     setNodeTypes(updatedNodeTypes);
     void plugin.saveSettings();
+
+    // Offer to move existing nodes over to the new format.
+    if (
+      previousFormat &&
+      previousFormat !== nodeTypeToSave.format &&
+      planNodeRetitle({
+        plugin,
+        nodeType: nodeTypeToSave,
+        oldFormat: previousFormat,
+      }).length > 0
+    ) {
+      new RetitleNodesModal(
+        plugin.app,
+        plugin,
+        nodeTypeToSave,
+        previousFormat,
+      ).open();
+    }
   };
 
   const handleNodeTypeChange = (
@@ -805,6 +839,32 @@ const NodeTypeSettings = () => {
     return updatedNodeType;
   };
 
+  const handleAttributesSave = (attributes: NodeAttribute[]): void => {
+    if (!editingRef.current) return;
+
+    const updatedNodeType = {
+      ...editingRef.current,
+      attributes: attributes.length > 0 ? attributes : undefined,
+      modified: new Date().getTime(),
+    };
+    setEditingNodeType(updatedNodeType);
+    editingRef.current = updatedNodeType;
+    saveSettings(updatedNodeType);
+  };
+
+  const handleParentChange = (parentId: string): void => {
+    if (!editingRef.current) return;
+
+    const updatedNodeType = {
+      ...editingRef.current,
+      parentId: parentId || undefined,
+      modified: new Date().getTime(),
+    };
+    setEditingNodeType(updatedNodeType);
+    editingRef.current = updatedNodeType;
+    saveSettings(updatedNodeType);
+  };
+
   const handleAddNodeType = (): void => {
     const now = new Date().getTime();
     const newNodeType: DiscourseNode = {
@@ -841,39 +901,15 @@ const NodeTypeSettings = () => {
   };
 
   const confirmDeleteNodeType = (index: number): void => {
-    const nodeType = nodeTypes[index] || { name: "Unnamed" };
-    const modal = new ConfirmationModal(plugin.app, {
-      title: "Delete node type",
-      message: `Are you sure you want to delete the node type "${nodeType.name}"?`,
-      onConfirm: () => void handleDeleteNodeType(index),
-    });
-    modal.open();
-  };
-
-  const handleDeleteNodeType = async (index: number): Promise<void> => {
     const nodeType = nodeTypes[index];
     if (!nodeType) return;
 
-    const isUsed = plugin.settings.discourseRelations?.some(
-      (rel) =>
-        rel.sourceId === nodeType.id || rel.destinationId === nodeType.id,
-    );
-
-    if (isUsed) {
-      new Notice(
-        "Cannot delete this node type as it is used in one or more relations.",
-      );
-      return;
-    }
-
-    const updatedNodeTypes = nodeTypes.filter((_, i) => i !== index);
-    plugin.settings.nodeTypes = updatedNodeTypes;
-    await plugin.saveSettings();
-    setNodeTypes(updatedNodeTypes);
-    setSelectedNodeIndex(null);
-    setEditingNodeType(null);
-    editingRef.current = null;
-    new Notice("Node type deleted successfully");
+    new RemoveNodeTypeModal(plugin.app, plugin, nodeType, () => {
+      setNodeTypes(plugin.settings.nodeTypes);
+      setSelectedNodeIndex(null);
+      setEditingNodeType(null);
+      editingRef.current = null;
+    }).open();
   };
 
   const isEditingImported = getImportInfo(
@@ -1069,6 +1105,7 @@ const NodeTypeSettings = () => {
     const renderNodeTypeItem = (nodeType: DiscourseNode, index: number) => {
       const importInfo = getImportInfo(nodeType.importedFromRid);
       const isImported = importInfo.isImported;
+      const parentType = nodeTypes.find((nt) => nt.id === nodeType.parentId);
 
       return (
         <div
@@ -1087,6 +1124,11 @@ const NodeTypeSettings = () => {
                 )}
                 <span>{nodeType.name}</span>
               </div>
+              {parentType && (
+                <span className="text-muted pl-6 text-xs">
+                  Subtype of {parentType.name}
+                </span>
+              )}
               {isImported && importInfo.spaceUri && (
                 <span className="text-muted pl-6 text-xs">
                   {nodeType.authorId &&
@@ -1120,7 +1162,7 @@ const NodeTypeSettings = () => {
                     e.stopPropagation();
                     confirmDeleteNodeType(index);
                   }}
-                  aria-label="Delete node type"
+                  aria-label="Delete or merge node type"
                 >
                   <div
                     className="icon"
@@ -1220,6 +1262,46 @@ const NodeTypeSettings = () => {
             />
           </div>
         </div>
+        <div className="setting-item">
+          <div className="setting-item-info">
+            <div className="setting-item-name">Parent type</div>
+            <div className="setting-item-description">
+              Make this a subtype of another node type. Relations allowed for
+              the parent type are also allowed for this type.
+            </div>
+          </div>
+          <div className="setting-item-control">
+            <select
+              value={editingNodeType.parentId ?? ""}
+              onChange={(e) => handleParentChange(e.target.value)}
+              disabled={isEditingImported}
+              className="flex-1 pl-2"
+            >
+              <option value="">None</option>
+              {nodeTypes
+                // A type's own subtypes can't become its parent.
+                .filter(
+                  (nodeType) =>
+                    !isNodeTypeOrSubtypeOf(
+                      nodeTypes,
+                      nodeType.id,
+                      editingNodeType.id,
+                    ),
+                )
+                .map((nodeType) => (
+                  <option key={nodeType.id} value={nodeType.id}>
+                    {nodeType.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+        <NodeAttributesSettings
+          key={editingNodeType.id}
+          attributes={editingNodeType.attributes ?? []}
+          disabled={isEditingImported}
+          onSave={handleAttributesSave}
+        />
         {selectedNodeIndex !== null && selectedNodeIndex < nodeTypes.length && (
           <div className="setting-item">
             <div className="setting-item-info">
@@ -0,0 +1,210 @@
+import { App, Modal } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useState } from "react";
+import type { Editor } from "tldraw";
+import {
+  createPresentationStep,
+  createStepsFromFrames,
+  type CanvasPresentation,
+  type PresentationStep,
+} from "~/components/canvas/utils/presentation";
+
+type PresentationModalProps = {
+  editor: Editor;
+  presentation: CanvasPresentation;
+  onClose: () => void;
+};
+
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item!);
+  return next;
+};
+
+const PresentationContent = ({
+  editor,
+  presentation,
+  onClose,
+}: PresentationModalProps) => {
+  const [steps, setSteps] = useState<PresentationStep[]>(() =>
+    presentation.getSteps(),
+  );
+  const [selectedShapeIds] = useState(() => editor.getSelectedShapeIds());
+
+  const updateStep = (id: string, update: Partial<PresentationStep>) =>
+    setSteps((prev) =>
+      prev.map((step) => (step.id === id ? { ...step, ...update } : step)),
+    );
+
+  const handleAddSelection = () =>
+    setSteps((prev) => [
+      ...prev,
+      createPresentationStep(editor, selectedShapeIds),
+    ]);
+
+  const handleAddFrames = () =>
+    setSteps((prev) => {
+      const usedFrameIds = new Set(
+        prev
+          .filter((step) => step.shapeIds.length === 1)
+          .map((step) => step.shapeIds[0]),
+      );
+      return [
+        ...prev,
+        ...createStepsFromFrames(editor).filter(
+          (step) => !usedFrameIds.has(step.shapeIds[0]),
+        ),
+      ];
+    });
+
+  // The canvas view writes the steps with its next save.
+  const handleSave = ({ play }: { play: boolean }) => {
+    presentation.updateSteps(steps);
+    onClose();
+    if (play) presentation.start(editor);
+  };
+
+  const renderStep = (step: PresentationStep, index: number) => {
+    const missing = step.shapeIds.filter((id) => !editor.getShape(id)).length;
+    return (
+      <div key={step.id} className="flex items-center gap-2 border-t p-2">
+        <span className="text-muted w-6 text-right text-xs">{index + 1}</span>
+        <div className="flex-1">
+          <input
+            type="text"
+            value={step.title}
+            onChange={(e) => updateStep(step.id, { title: e.target.value })}
+            className="w-full"
+          />
+          <label className="mt-1 flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={step.revealRelations}
+              onChange={(e) =>
+                updateStep(step.id, { revealRelations: e.target.checked })
+              }
+            />
+            Reveal relations one at a time
+            {missing > 0 && (
+              <span className="text-error">
+                {missing} shape(s) no longer on the canvas
+              </span>
+            )}
+          </label>
+        </div>
+        <button
+          onClick={() => setSteps((prev) => move(prev, index, index - 1))}
+          disabled={index === 0}
+          className="px-2 py-1 text-xs"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => setSteps((prev) => move(prev, index, index + 1))}
+          disabled={index === steps.length - 1}
+          className="px-2 py-1 text-xs"
+        >
+          ↓
+        </button>
+        <button
+          onClick={() =>
+            setSteps((prev) => prev.filter((other) => other.id !== step.id))
+          }
+          className="px-2 py-1 text-xs"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="mb-2">Canvas presentation</h3>
+      <p className="text-muted mb-4 text-sm">
+        Each step moves the camera to a frame or a set of shapes. Play the
+        presentation with the arrow keys or space; press Esc to stop.
+      </p>
+
+      <div className="mb-2 flex gap-2">
+        <button
+          onClick={handleAddSelection}
+          disabled={selectedShapeIds.length === 0}
+          className="px-2 py-1 text-xs"
+        >
+          Add selection as step
+        </button>
+        <button onClick={handleAddFrames} className="px-2 py-1 text-xs">
+          Add all frames
+        </button>
+      </div>
+
+      {steps.length === 0 ? (
+        <div className="text-muted text-sm">
+          No steps yet. Select shapes on the canvas or add its frames.
+        </div>
+      ) : (
+        <div className="max-h-96 overflow-y-auto rounded border text-sm">
+          {steps.map(renderStep)}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2">
+          Cancel
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleSave({ play: false })}
+            className="px-4 py-2"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => handleSave({ play: true })}
+            className="!bg-accent !text-on-accent rounded px-4 py-2"
+            disabled={steps.length === 0}
+          >
+            Save and play
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export class PresentationModal extends Modal {
+  private editor: Editor;
+  private presentation: CanvasPresentation;
+  private root: Root | null = null;
+
+  constructor(app: App, editor: Editor, presentation: CanvasPresentation) {
+    super(app);
+    this.editor = editor;
+    this.presentation = presentation;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <PresentationContent
+          editor={this.editor}
+          presentation={this.presentation}
+          onClose={() => this.close()}
+        />
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { App, Modal, Notice, TFile } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useEffect, useState } from "react";
+import type { Editor } from "tldraw";
+import type DiscourseGraphPlugin from "../index";
+import {
+  applyReconciliation,
+  auditCanvas,
+  isAutoDrawRelationsEnabled,
+  setAutoDrawRelations,
+  type ReconcileChoice,
+  type ReconcileItem,
+} from "~/components/canvas/utils/canvasReconcile";
+import { getRelationTypeById } from "~/utils/typeUtils";
+
+type ReconcileCanvasModalProps = {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+  onClose: () => void;
+};
+
+const KIND_LABELS: Record<ReconcileItem["kind"], string> = {
+  missingArrow: "Missing arrow",
+  orphanArrow: "Arrow without relation",
+  typeMismatch: "Type differs",
+};
+
+const ReconcileCanvasContent = ({
+  plugin,
+  editor,
+  canvasFile,
+  onClose,
+}: ReconcileCanvasModalProps) => {
+  const [items, setItems] = useState<ReconcileItem[] | null>(null);
+  const [choices, setChoices] = useState<Map<string, ReconcileChoice>>(
+    new Map(),
+  );
+  const [autoDraw, setAutoDraw] = useState(() =>
+    isAutoDrawRelationsEnabled(editor),
+  );
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    void auditCanvas({ plugin, editor, canvasFile })
+      .then((audit) => {
+        setItems(audit);
+        setChoices(new Map(audit.map((item) => [item.id, "canvas"])));
+      })
+      .catch((error) => {
+        console.error("Error auditing canvas:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        new Notice(`Failed to compare canvas with graph: ${errorMessage}`);
+        setItems([]);
+      });
+  }, [plugin, editor, canvasFile]);
+
+  const getRelationTypeLabel = (relationTypeId: string) =>
+    getRelationTypeById(plugin, relationTypeId)?.label ?? relationTypeId;
+
+  const getChoiceLabels = (
+    item: ReconcileItem,
+  ): Record<Exclude<ReconcileChoice, "skip">, string> => {
+    switch (item.kind) {
+      case "missingArrow":
+        return { canvas: "Draw arrow", graph: "Remove relation" };
+      case "orphanArrow":
+        return { canvas: "Delete arrow", graph: "Save relation" };
+      case "typeMismatch":
+        return {
+          canvas: `Change arrow to ${getRelationTypeLabel(item.relation.type)}`,
+          graph: `Change relation to ${getRelationTypeLabel(item.arrow.props.relationTypeId)}`,
+        };
+    }
+  };
+
+  const describeItem = (item: ReconcileItem) => {
+    const relationTypeId =
+      item.kind === "missingArrow"
+        ? item.relation.type
+        : item.arrow.props.relationTypeId;
+    return (
+      <>
+        <span className="rounded bg-secondary px-1.5 py-0.5">
+          {item.source.file.basename}
+        </span>{" "}
+        <span className="text-accent font-medium">
+          {getRelationTypeLabel(relationTypeId)}
+        </span>{" "}
+        <span className="rounded bg-secondary px-1.5 py-0.5">
+          {item.target.file.basename}
+        </span>
+      </>
+    );
+  };
+
+  const setAll = (choice: ReconcileChoice) =>
+    setChoices(new Map((items ?? []).map((item) => [item.id, choice])));
+
+  const handleToggleAutoDraw = (enabled: boolean) => {
+    setAutoDrawRelations(editor, enabled);
+    setAutoDraw(enabled);
+  };
+
+  const handleApply = async () => {
+    if (!items) return;
+    setIsApplying(true);
+    try {
+      const result = await applyReconciliation({
+        plugin,
+        editor,
+        canvasFile,
+        items,
+        choices,
+      });
+      if (result.failed > 0) {
+        new Notice(
+          `Reconciled ${result.applied} item(s); ${result.failed} failed. See the console for details.`,
+          5000,
+        );
+      } else {
+        new Notice(`Reconciled ${result.applied} item(s)`, 3000);
+      }
+      onClose();
+    } catch (error) {
+      console.error("Error reconciling canvas:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Reconcile failed: ${errorMessage}`, 5000);
+      setIsApplying(false);
+    }
+  };
+
+  const renderItem = (item: ReconcileItem) => {
+    const labels = getChoiceLabels(item);
+    return (
+      <div
+        key={item.id}
+        className="flex items-center justify-between gap-2 border-t p-2 text-sm"
+      >
+        <div>
+          <div className="text-muted text-xs">{KIND_LABELS[item.kind]}</div>
+          <div>{describeItem(item)}</div>
+          {item.kind === "typeMismatch" && (
+            <div className="text-muted text-xs">
+              relations.json: {getRelationTypeLabel(item.relation.type)}
+            </div>
+          )}
+        </div>
+        <select
+          value={choices.get(item.id) ?? "skip"}
+          onChange={(e) =>
+            setChoices((prev) =>
+              new Map(prev).set(item.id, e.target.value as ReconcileChoice),
+            )
+          }
+        >
+          <option value="canvas">{labels.canvas}</option>
+          <option value="graph">{labels.graph}</option>
+          <option value="skip">Skip</option>
+        </select>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="mb-2">Reconcile canvas with graph</h3>
+      <p className="text-muted mb-4 text-sm">
+        Compare the arrows on this page with relations.json. By default the
+        canvas is updated to match relations.json.
+      </p>
+
+      {items === null ? (
+        <div className="text-muted text-sm">Comparing...</div>
+      ) : items.length === 0 ? (
+        <div className="text-sm">This canvas matches relations.json.</div>
+      ) : (
+        <>
+          <div className="mb-2 flex gap-2">
+            <button
+              onClick={() => setAll("canvas")}
+              className="px-2 py-1 text-xs"
+            >
+              Update canvas
+            </button>
+            <button
+              onClick={() => setAll("graph")}
+              className="px-2 py-1 text-xs"
+            >
+              Update relations.json
+            </button>
+            <button
+              onClick={() => setAll("skip")}
+              className="px-2 py-1 text-xs"
+            >
+              Skip all
+            </button>
+          </div>
+          <div className="max-h-96 overflow-y-auto rounded border">
+            {items.map(renderItem)}
+          </div>
+        </>
+      )}
+
+      <label className="mt-4 flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={autoDraw}
+          onChange={(e) => handleToggleAutoDraw(e.target.checked)}
+        />
+        Draw existing relations automatically when related nodes are added to
+        this canvas
+      </label>
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2">
+          {items?.length ? "Cancel" : "Close"}
+        </button>
+        {!!items?.length && (
+          <button
+            onClick={() => {
+              void handleApply();
+            }}
+            className="!bg-accent !text-on-accent rounded px-4 py-2"
+            disabled={isApplying}
+          >
+            {isApplying ? "Applying..." : "Apply"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export class ReconcileCanvasModal extends Modal {
+  private plugin: DiscourseGraphPlugin;
+  private editor: Editor;
+  private canvasFile: TFile;
+  private root: Root | null = null;
+
+  constructor(
+    app: App,
+    plugin: DiscourseGraphPlugin,
+    editor: Editor,
+    canvasFile: TFile,
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.editor = editor;
+    this.canvasFile = canvasFile;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <ReconcileCanvasContent
+          plugin={this.plugin}
+          editor={this.editor}
+          canvasFile={this.canvasFile}
+          onClose={() => this.close()}
+        />
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { ItemView, Notice, WorkspaceLeaf } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import type DiscourseGraphPlugin from "~/index";
+import { VIEW_TYPE_RELATION_HISTORY } from "~/types";
+import type { RelationInstance } from "~/types";
+import { PluginProvider, usePlugin } from "~/components/PluginContext";
+import type {
+  RelationChange,
+  RelationHistoryEntry,
+} from "~/services/RelationHistory";
+import {
+  buildEndpointToFileMap,
+  resolveEndpointToFile,
+} from "~/utils/relationsStore";
+
+const MAX_CHANGES_SHOWN = 3;
+
+const OPERATION_LABELS: Record<RelationHistoryEntry["operation"], string> = {
+  add: "Added relation",
+  remove: "Removed relation",
+  update: "Updated relation",
+  acceptTentative: "Accepted tentative relation",
+  batch: "Batch",
+};
+
+const describeEntry = (entry: RelationHistoryEntry): string =>
+  entry.label
+    ? `${entry.label} (${entry.changes.length} relation${entry.changes.length === 1 ? "" : "s"})`
+    : OPERATION_LABELS[entry.operation];
+
+/** Undo or redo one step and report the outcome in a notice. */
+export const runRelationHistoryStep = async (
+  plugin: DiscourseGraphPlugin,
+  direction: "undo" | "redo",
+): Promise<void> => {
+  try {
+    const result =
+      direction === "undo"
+        ? await plugin.relationHistory.undo()
+        : await plugin.relationHistory.redo();
+    if (!result) {
+      new Notice(`Nothing to ${direction}`, 3000);
+      return;
+    }
+    const action = direction === "undo" ? "Undid" : "Redid";
+    const skipped =
+      result.skipped > 0
+        ? ` (${result.skipped} relation(s) changed since and were left as is)`
+        : "";
+    new Notice(
+      `${action}: ${describeEntry(result.entry).toLowerCase()}${skipped}`,
+      result.skipped > 0 ? 5000 : 3000,
+    );
+  } catch (error) {
+    console.error(`Error during relation ${direction}:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    new Notice(`Failed to ${direction}: ${errorMessage}`, 5000);
+  }
+};
+
+const RelationHistoryPanel = () => {
+  const plugin = usePlugin();
+  const history = plugin.relationHistory;
+  const [entries, setEntries] = useState(() => ({
+    undo: history.getUndoEntries(),
+    redo: history.getRedoEntries(),
+  }));
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    const ref = history.on("changed", () =>
+      setEntries({
+        undo: history.getUndoEntries(),
+        redo: history.getRedoEntries(),
+      }),
+    );
+    return () => history.offref(ref);
+  }, [history]);
+
+  const endpointToFileMap = useMemo(
+    () => buildEndpointToFileMap(plugin),
+    [plugin, entries],
+  );
+
+  const describeEndpoint = (endpointId: string) =>
+    resolveEndpointToFile(plugin, endpointId, endpointToFileMap)?.basename ??
+    "(missing)";
+
+  const getRelationTypeLabel = (relationTypeId: string) =>
+    plugin.settings.relationTypes.find((rt) => rt.id === relationTypeId)
+      ?.label ?? relationTypeId;
+
+  const handleStep = async (direction: "undo" | "redo") => {
+    setIsBusy(true);
+    await runRelationHistoryStep(plugin, direction);
+    setIsBusy(false);
+  };
+
+  const renderRelation = (relation: RelationInstance) => (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="rounded bg-secondary px-1.5 py-0.5">
+        {describeEndpoint(relation.source)}
+      </span>
+      <span className="text-accent font-medium">
+        {getRelationTypeLabel(relation.type)}
+      </span>
+      <span className="rounded bg-secondary px-1.5 py-0.5">
+        {describeEndpoint(relation.destination)}
+      </span>
+    </div>
+  );
+
+  const renderChange = (change: RelationChange) => (
+    <div key={change.relationId} className="mt-1 text-xs">
+      {renderRelation((change.after ?? change.before)!)}
+    </div>
+  );
+
+  const renderEntry = (entry: RelationHistoryEntry, isRedo: boolean) => (
+    <div
+      key={entry.id}
+      className={`border-t p-2 ${isRedo ? "opacity-60" : ""}`}
+    >
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{describeEntry(entry)}</span>
+        <span className="text-muted text-xs">
+          {format(entry.timestamp, "HH:mm:ss")}
+        </span>
+      </div>
+      {entry.changes.slice(0, MAX_CHANGES_SHOWN).map(renderChange)}
+      {entry.changes.length > MAX_CHANGES_SHOWN && (
+        <div className="text-muted mt-1 text-xs">
+          and {entry.changes.length - MAX_CHANGES_SHOWN} more
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="mb-4 flex gap-2">
+        <button
+          onClick={() => void handleStep("undo")}
+          disabled={isBusy || !history.canUndo()}
+          className="px-3 py-1"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => void handleStep("redo")}
+          disabled={isBusy || !history.canRedo()}
+          className="px-3 py-1"
+        >
+          Redo
+        </button>
+      </div>
+
+      {entries.undo.length === 0 && entries.redo.length === 0 ? (
+        <div className="text-muted text-sm">
+          No relation changes in this session yet.
+        </div>
+      ) : (
+        <div className="rounded border">
+          {entries.redo.length > 0 && (
+            <>
+              <div className="bg-muted/10 px-2 py-1 text-xs font-medium uppercase tracking-wide opacity-60">
+                Undone
+              </div>
+              {[...entries.redo]
+                .reverse()
+                .map((entry) => renderEntry(entry, true))}
+            </>
+          )}
+          {entries.undo.length > 0 && (
+            <>
+              <div className="bg-muted/10 px-2 py-1 text-xs font-medium uppercase tracking-wide opacity-60">
+                Done
+              </div>
+              {entries.undo.map((entry) => renderEntry(entry, false))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export class RelationHistoryView extends ItemView {
+  private plugin: DiscourseGraphPlugin;
+  private root: Root | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: DiscourseGraphPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_RELATION_HISTORY;
+  }
+
+  getDisplayText(): string {
+    return "Relation history";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await -- required by obsidian
+  async onOpen(): Promise<void> {
+    const container = this.containerEl.children[1];
+    if (container) {
+      container.empty();
+      this.root = createRoot(container);
+      this.root.render(
+        <PluginProvider plugin={this.plugin}>
+          <RelationHistoryPanel />
+        </PluginProvider>,
+      );
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await -- required by obsidian
+  async onClose(): Promise<void> {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
+
+export const openRelationHistoryView = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<void> => {
+  const { workspace } = plugin.app;
+  const existingLeaf = workspace.getLeavesOfType(VIEW_TYPE_RELATION_HISTORY)[0];
+  if (existingLeaf) {
+    await workspace.revealLeaf(existingLeaf);
+    return;
+  }
+  const leaf = workspace.getRightLeaf(false);
+  if (!leaf) return;
+  await leaf.setViewState({ type: VIEW_TYPE_RELATION_HISTORY, active: true });
+  await workspace.revealLeaf(leaf);
+};
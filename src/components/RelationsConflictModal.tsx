@@ -0,0 +1,314 @@
+import { App, debounce, Modal, Notice, TAbstractFile } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useMemo, useState } from "react";
+import { format } from "date-fns";
+import type DiscourseGraphPlugin from "../index";
+import type { RelationInstance } from "~/types";
+import {
+  applyRelationsConflictPlan,
+  describeConflictPlan,
+  isRelationsConflictCopy,
+  planRelationsConflictMerge,
+  type RelationsConflictPlan,
+} from "~/utils/relationsConflicts";
+import {
+  getRelationTimestamp,
+  type MergeSide,
+  type RelationConflict,
+} from "~/utils/relationsMerge";
+import {
+  buildEndpointToFileMap,
+  getRelationsFilePath,
+  resolveEndpointToFile,
+} from "~/utils/relationsStore";
+
+const CONFLICT_CHECK_DEBOUNCE_MS = 1000;
+
+const SIDE_LABELS: Record<MergeSide, string> = {
+  ours: "This copy",
+  theirs: "Other copy",
+};
+
+const RelationsConflictContent = ({
+  plugin,
+  plan,
+  onClose,
+}: {
+  plugin: DiscourseGraphPlugin;
+  plan: RelationsConflictPlan;
+  onClose: () => void;
+}) => {
+  const [choices, setChoices] = useState<Map<string, MergeSide>>(new Map());
+  const [isApplying, setIsApplying] = useState(false);
+  const { conflicts } = plan.result;
+
+  const endpointToFileMap = useMemo(
+    () => buildEndpointToFileMap(plugin),
+    [plugin],
+  );
+
+  const describeEndpoint = (endpointId: string) =>
+    resolveEndpointToFile(plugin, endpointId, endpointToFileMap)?.basename ??
+    "(missing)";
+
+  const getRelationTypeLabel = (relationTypeId: string) =>
+    plugin.settings.relationTypes.find((rt) => rt.id === relationTypeId)
+      ?.label ?? relationTypeId;
+
+  const setAll = (side: MergeSide | null) =>
+    setChoices(
+      new Map(
+        side
+          ? conflicts.map((conflict) => [conflict.id, side])
+          : conflicts.map((conflict) => [conflict.id, conflict.preferred]),
+      ),
+    );
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const backupPath = await applyRelationsConflictPlan(
+        plugin,
+        plan,
+        choices,
+      );
+      new Notice(
+        `${describeConflictPlan(plan)}${backupPath ? `. Backup saved to ${backupPath}` : ""}`,
+        5000,
+      );
+      onClose();
+    } catch (error) {
+      console.error("Error merging relations.json conflicts:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Merge failed: ${errorMessage}`, 5000);
+      setIsApplying(false);
+    }
+  };
+
+  const describeVersion = (
+    relation: RelationInstance | null,
+    conflict: RelationConflict,
+  ) => {
+    if (!relation) {
+      return conflict.deletedAt
+        ? `Deleted ${format(conflict.deletedAt, "yyyy-MM-dd HH:mm")}`
+        : "Deleted";
+    }
+    const timestamp = getRelationTimestamp(relation);
+    return (
+      <>
+        <span className="rounded bg-secondary px-1.5 py-0.5">
+          {describeEndpoint(relation.source)}
+        </span>{" "}
+        <span className="text-accent font-medium">
+          {getRelationTypeLabel(relation.type)}
+        </span>{" "}
+        <span className="rounded bg-secondary px-1.5 py-0.5">
+          {describeEndpoint(relation.destination)}
+        </span>
+        {relation.tentative === false && (
+          <span className="text-muted"> (tentative)</span>
+        )}
+        {timestamp > 0 && (
+          <span className="text-muted">
+            {" "}
+            · {format(timestamp, "yyyy-MM-dd HH:mm")}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  const renderConflict = (conflict: RelationConflict) => {
+    const choice = choices.get(conflict.id) ?? conflict.preferred;
+    return (
+      <div key={conflict.id} className="border-t p-3">
+        <div className="text-muted mb-2 text-xs">
+          {conflict.kind === "bothModified"
+            ? "Changed in both copies"
+            : "Changed in one copy, deleted in the other"}{" "}
+          ({conflict.id})
+        </div>
+        {(["ours", "theirs"] as const).map((side) => (
+          <label
+            key={side}
+            className="mb-1 flex cursor-pointer items-center gap-2 text-sm"
+          >
+            <input
+              type="radio"
+              name={`conflict-${conflict.id}`}
+              checked={choice === side}
+              onChange={() =>
+                setChoices((prev) => new Map(prev).set(conflict.id, side))
+              }
+            />
+            <span className="w-24 flex-shrink-0 font-medium">
+              {SIDE_LABELS[side]}
+            </span>
+            <span>{describeVersion(conflict[side], conflict)}</span>
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="mb-2">Resolve relations.json conflicts</h3>
+      <p className="text-muted mb-4 text-sm">
+        {plan.hasConflictMarkers
+          ? "relations.json contains a git merge conflict."
+          : `Found ${plan.copies.length} conflicted cop${plan.copies.length === 1 ? "y" : "ies"} of relations.json (${plan.copies.map((copy) => copy.name).join(", ")}).`}{" "}
+        Changes that do not overlap were merged: {plan.result.added} added,{" "}
+        {plan.result.updated} updated, {plan.result.removed} removed.{" "}
+        {conflicts.length > 0 &&
+          `Choose which version to keep for the ${conflicts.length} relation(s) below; the most recent change is selected by default. `}
+        relations.json is backed up before the merge is written
+        {plan.copies.length > 0 && " and the copies above are deleted"}.
+      </p>
+
+      {conflicts.length > 0 && (
+        <>
+          <div className="mb-2 flex gap-2">
+            <button onClick={() => setAll(null)} className="px-2 py-1 text-xs">
+              Most recent
+            </button>
+            <button
+              onClick={() => setAll("ours")}
+              className="px-2 py-1 text-xs"
+            >
+              All from this copy
+            </button>
+            <button
+              onClick={() => setAll("theirs")}
+              className="px-2 py-1 text-xs"
+            >
+              All from other copy
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto rounded border">
+            {conflicts.map(renderConflict)}
+          </div>
+        </>
+      )}
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2">
+          Later
+        </button>
+        <button
+          onClick={() => void handleApply()}
+          className="!bg-accent !text-on-accent rounded px-4 py-2"
+          disabled={isApplying}
+        >
+          {isApplying
+            ? "Merging..."
+            : plan.copies.length > 0
+              ? "Merge and delete copies"
+              : "Merge"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export class RelationsConflictModal extends Modal {
+  /** Set while a resolution modal is open, so repeated checks don't stack them. */
+  static isOpen = false;
+
+  private plugin: DiscourseGraphPlugin;
+  private plan: RelationsConflictPlan;
+  private root: Root | null = null;
+
+  constructor(
+    app: App,
+    plugin: DiscourseGraphPlugin,
+    plan: RelationsConflictPlan,
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.plan = plan;
+  }
+
+  onOpen() {
+    RelationsConflictModal.isOpen = true;
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <RelationsConflictContent
+          plugin={this.plugin}
+          plan={this.plan}
+          onClose={() => this.close()}
+        />
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    RelationsConflictModal.isOpen = false;
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
+
+/**
+ * Merge conflicts in relations.json. Git conflict markers without conflicting
+ * edits are merged right away; otherwise the resolution modal is opened, which
+ * also confirms deleting any conflict copies.
+ */
+export const checkRelationsConflicts = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<boolean> => {
+  const plan = await planRelationsConflictMerge(plugin);
+  if (!plan) return false;
+
+  if (plan.result.conflicts.length > 0 || plan.copies.length > 0) {
+    if (!RelationsConflictModal.isOpen) {
+      new RelationsConflictModal(plugin.app, plugin, plan).open();
+    }
+    return true;
+  }
+
+  await applyRelationsConflictPlan(plugin, plan);
+  new Notice(describeConflictPlan(plan), 5000);
+  return true;
+};
+
+/**
+ * Check for conflicts once the workspace is ready, and again whenever a sync
+ * tool drops a conflict copy of relations.json into the vault or git leaves
+ * conflict markers in it.
+ */
+export const registerRelationsConflictDetection = (
+  plugin: DiscourseGraphPlugin,
+): void => {
+  const check = () =>
+    void checkRelationsConflicts(plugin).catch((error) => {
+      console.error("Failed to merge relations.json conflicts:", error);
+      new Notice(
+        `Failed to merge relations.json conflicts: ${error instanceof Error ? error.message : String(error)}`,
+        5000,
+      );
+    });
+  const debouncedCheck = debounce(check, CONFLICT_CHECK_DEBOUNCE_MS, true);
+
+  plugin.app.workspace.onLayoutReady(() => {
+    check();
+    plugin.registerEvent(
+      plugin.app.vault.on("create", (file: TAbstractFile) => {
+        if (isRelationsConflictCopy(file)) debouncedCheck();
+      }),
+    );
+    plugin.registerEvent(
+      plugin.app.vault.on("modify", (file: TAbstractFile) => {
+        if (file.path === getRelationsFilePath()) debouncedCheck();
+      }),
+    );
+  });
+};
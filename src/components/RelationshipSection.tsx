@@ -17,6 +17,7 @@ import {
   isAcceptedSchema,
   getUserNameById,
 } from "~/utils/typeUtils";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
 import type { RelationInstance } from "~/types";
 import {
   getNodeInstanceIdForFile,
@@ -66,7 +67,7 @@ const AddRelationship = ({
 
   useEffect(() => {
     if (!queryEngineRef.current) {
-      queryEngineRef.current = new QueryEngine(plugin.app);
+      queryEngineRef.current = new QueryEngine(plugin.app, plugin.nodeIndex);
     }
   }, [plugin.app]);
 
@@ -76,7 +77,7 @@ const AddRelationship = ({
       return;
     }
 
-    const relations = plugin.settings.discourseRelations.filter(
+    const relations = getEffectiveDiscourseRelations(plugin.settings).filter(
       (relation) =>
         isAcceptedSchema(relation) &&
         relation.relationshipTypeId === selectedRelationType.id &&
@@ -105,7 +106,9 @@ const AddRelationship = ({
 
     const options: RelationTypeOption[] = [];
 
-    const relevantRelations = plugin.settings.discourseRelations.filter(
+    const relevantRelations = getEffectiveDiscourseRelations(
+      plugin.settings,
+    ).filter(
       (relation) =>
         isAcceptedSchema(relation) &&
         (relation.sourceId === activeNodeTypeId ||
@@ -0,0 +1,294 @@
+import { App, Modal, Notice } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useEffect, useState } from "react";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNode } from "~/types";
+import {
+  applyNodeTypeRemoval,
+  planNodeTypeRemoval,
+  type NodeTypeRemovalPlan,
+  type NodeTypeRemovalResult,
+} from "~/utils/removeNodeType";
+
+type RemoveNodeTypeModalProps = {
+  plugin: DiscourseGraphPlugin;
+  nodeType: DiscourseNode;
+  onRemoved: () => void;
+  onClose: () => void;
+};
+
+const RemoveNodeTypeContent = ({
+  plugin,
+  nodeType,
+  onRemoved,
+  onClose,
+}: RemoveNodeTypeModalProps) => {
+  const otherNodeTypes = plugin.settings.nodeTypes.filter(
+    (nt) => nt.id !== nodeType.id,
+  );
+  const [targetTypeId, setTargetTypeId] = useState("");
+  const [retitle, setRetitle] = useState(true);
+  const [removeOrphanedRelations, setRemoveOrphanedRelations] = useState(false);
+  const [plan, setPlan] = useState<NodeTypeRemovalPlan | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [result, setResult] = useState<NodeTypeRemovalResult | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setPlan(null);
+    const targetType =
+      plugin.settings.nodeTypes.find((nt) => nt.id === targetTypeId) ?? null;
+    planNodeTypeRemoval({ plugin, nodeType, targetType })
+      .then((planned) => {
+        if (isCurrent) setPlan(planned);
+      })
+      .catch((error) => {
+        console.error("Error planning node type removal:", error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [plugin, nodeType, targetTypeId]);
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setIsApplying(true);
+    try {
+      const applied = await applyNodeTypeRemoval({
+        plugin,
+        plan,
+        retitle,
+        removeOrphanedRelations,
+      });
+      setResult(applied);
+      onRemoved();
+      const failed =
+        applied.failedNodes +
+        applied.failedCanvases +
+        (applied.retitle?.failed ?? 0);
+      new Notice(
+        failed > 0
+          ? `Deleted node type "${nodeType.name}"; ${failed} update(s) failed. See the console for details.`
+          : `Deleted node type "${nodeType.name}"`,
+        5000,
+      );
+    } catch (error) {
+      console.error("Error deleting node type:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Deleting node type failed: ${errorMessage}`, 5000);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div>
+        <h3 className="mb-2">Delete {nodeType.name}</h3>
+        <ul className="mb-4 text-sm">
+          <li>
+            Updated {result.updatedNodes} node(s)
+            {result.failedNodes > 0 && `; ${result.failedNodes} failed`}
+          </li>
+          {result.retitle && (
+            <li>
+              Renamed {result.retitle.renamed.length} node(s)
+              {result.retitle.failed > 0 && `; ${result.retitle.failed} failed`}
+              . Use &quot;Undo renaming nodes to a new format&quot; to undo.
+            </li>
+          )}
+          {result.removedRelations > 0 && (
+            <li>Removed {result.removedRelations} relation(s)</li>
+          )}
+          <li>
+            Updated {result.updatedCanvases} canvas(es)
+            {result.failedCanvases > 0 && `; ${result.failedCanvases} failed`}
+          </li>
+        </ul>
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="!bg-accent !text-on-accent rounded px-4 py-2"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const targetType = plan?.targetType;
+  const renameCount =
+    plan?.retitleItems.filter((item) => item.status === "rename").length ?? 0;
+  const keptCount = (plan?.retitleItems.length ?? 0) - renameCount;
+
+  return (
+    <div>
+      <h3 className="mb-2">Delete {nodeType.name}</h3>
+
+      <div className="setting-item">
+        <div className="setting-item-info">
+          <div className="setting-item-name">Existing nodes</div>
+          <div className="setting-item-description">
+            Merge them into another node type, or remove the node type from
+            them.
+          </div>
+        </div>
+        <div className="setting-item-control">
+          <select
+            value={targetTypeId}
+            onChange={(e) => setTargetTypeId(e.target.value)}
+            disabled={isApplying}
+            className="flex-1 pl-2"
+          >
+            <option value="">Remove node type</option>
+            {otherNodeTypes.map((nt) => (
+              <option key={nt.id} value={nt.id}>
+                Merge into {nt.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!plan ? (
+        <div className="text-muted text-sm">Checking affected notes...</div>
+      ) : (
+        <ul className="mb-4 text-sm">
+          <li>
+            {plan.files.length} node(s){" "}
+            {targetType
+              ? `become ${targetType.name} nodes`
+              : "keep their notes but are no longer discourse nodes"}
+          </li>
+          {targetType && plan.retitleItems.length > 0 && (
+            <li>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={retitle}
+                  onChange={(e) => setRetitle(e.target.checked)}
+                  disabled={isApplying}
+                />
+                Rename them to the {targetType.name} format (
+                <code>{targetType.format}</code>): {renameCount} renamed
+                {keptCount > 0 && `, ${keptCount} left as they are`}
+              </label>
+            </li>
+          )}
+          {(plan.rewrittenRelationCount > 0 ||
+            plan.droppedRelationCount > 0) && (
+            <li>
+              {plan.rewrittenRelationCount > 0 &&
+                targetType &&
+                `${plan.rewrittenRelationCount} relation rule(s) move to ${targetType.name}`}
+              {plan.rewrittenRelationCount > 0 &&
+                plan.droppedRelationCount > 0 &&
+                "; "}
+              {plan.droppedRelationCount > 0 &&
+                `${plan.droppedRelationCount} relation rule(s) are removed`}
+            </li>
+          )}
+          {plan.orphanedRelations.length > 0 && (
+            <li>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={removeOrphanedRelations}
+                  onChange={(e) => setRemoveOrphanedRelations(e.target.checked)}
+                  disabled={isApplying}
+                />
+                Delete the {plan.orphanedRelations.length} relation(s) between
+                these nodes and others; no relation rule allows them once the
+                node type is gone
+              </label>
+            </li>
+          )}
+          {plan.subtypes.length > 0 && (
+            <li>
+              Subtypes {plan.subtypes.map((nt) => nt.name).join(", ")}{" "}
+              {plan.subtypeParent
+                ? `move under ${plan.subtypeParent.name}`
+                : "no longer have a parent type"}
+            </li>
+          )}
+          {plan.canvases.length > 0 && (
+            <li>
+              Shapes on {plan.canvases.length} canvas(es) are updated:
+              <ul className="text-muted">
+                {plan.canvases.map(({ canvasFile, shapeIds }) => (
+                  <li key={canvasFile.path}>
+                    {canvasFile.basename} ({shapeIds.length} shape(s))
+                  </li>
+                ))}
+              </ul>
+            </li>
+          )}
+        </ul>
+      )}
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2" disabled={isApplying}>
+          Cancel
+        </button>
+        <button
+          onClick={() => {
+            void handleApply();
+          }}
+          className="mod-warning rounded px-4 py-2"
+          disabled={!plan || isApplying}
+        >
+          {isApplying
+            ? "Deleting..."
+            : targetType
+              ? `Merge into ${targetType.name} and delete`
+              : "Delete node type"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export class RemoveNodeTypeModal extends Modal {
+  private plugin: DiscourseGraphPlugin;
+  private nodeType: DiscourseNode;
+  private onRemoved: () => void;
+  private root: Root | null = null;
+
+  constructor(
+    app: App,
+    plugin: DiscourseGraphPlugin,
+    nodeType: DiscourseNode,
+    onRemoved: () => void,
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.nodeType = nodeType;
+    this.onRemoved = onRemoved;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <RemoveNodeTypeContent
+          plugin={this.plugin}
+          nodeType={this.nodeType}
+          onRemoved={this.onRemoved}
+          onClose={() => this.close()}
+        />
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+    this.contentEl.empty();
+  }
+}
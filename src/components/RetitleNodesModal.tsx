@@ -0,0 +1,229 @@
+import { App, Modal, Notice } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useMemo, useState } from "react";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNode } from "~/types";
+import {
+  applyNodeRetitle,
+  planNodeRetitle,
+  undoLastNodeRetitle,
+  type RetitleItem,
+  type RetitleResult,
+  type RetitleStatus,
+} from "~/utils/retitleNodes";
+
+type RetitleNodesModalProps = {
+  plugin: DiscourseGraphPlugin;
+  nodeType: DiscourseNode;
+  oldFormat: string;
+  onClose: () => void;
+};
+
+const STATUS_LABELS: Record<RetitleStatus, string> = {
+  rename: "Rename",
+  collision: "Collision",
+  invalid: "Invalid name",
+  unmatched: "Skipped",
+};
+
+const RetitleNodesContent = ({
+  plugin,
+  nodeType,
+  oldFormat,
+  onClose,
+}: RetitleNodesModalProps) => {
+  const items = useMemo(
+    () => planNodeRetitle({ plugin, nodeType, oldFormat }),
+    [plugin, nodeType, oldFormat],
+  );
+  const [isApplying, setIsApplying] = useState(false);
+  const [result, setResult] = useState<RetitleResult | null>(null);
+  const [isUndone, setIsUndone] = useState(false);
+
+  const renameCount = items.filter((item) => item.status === "rename").length;
+  const problemCount = items.length - renameCount;
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const applied = await applyNodeRetitle({ plugin, nodeType, items });
+      setResult(applied);
+      if (applied.failed > 0) {
+        new Notice(
+          `Renamed ${applied.renamed.length} node(s); ${applied.failed} failed. See the console for details.`,
+          5000,
+        );
+      } else {
+        new Notice(`Renamed ${applied.renamed.length} node(s)`, 3000);
+      }
+    } catch (error) {
+      console.error("Error renaming nodes:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Renaming nodes failed: ${errorMessage}`, 5000);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    setIsApplying(true);
+    try {
+      const { restored, skipped } = await undoLastNodeRetitle(plugin);
+      setIsUndone(true);
+      new Notice(
+        skipped > 0
+          ? `Restored ${restored} filename(s); ${skipped} could not be restored`
+          : `Restored ${restored} filename(s)`,
+        5000,
+      );
+    } catch (error) {
+      console.error("Error undoing node renames:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Undo failed: ${errorMessage}`, 5000);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderItem = (item: RetitleItem) => (
+    <div
+      key={item.file.path}
+      className="flex items-center justify-between gap-2 border-t p-2 text-sm"
+    >
+      <div className="min-w-0">
+        <div className="truncate">{item.file.basename}</div>
+        {item.newTitle && (
+          <div className="text-accent truncate">→ {item.newTitle}</div>
+        )}
+        {item.reason && <div className="text-muted text-xs">{item.reason}</div>}
+      </div>
+      <span
+        className={`shrink-0 text-xs ${
+          item.status === "rename" ? "text-muted" : "text-error"
+        }`}
+      >
+        {STATUS_LABELS[item.status]}
+      </span>
+    </div>
+  );
+
+  if (result) {
+    return (
+      <div>
+        <h3 className="mb-2">Rename {nodeType.name} nodes</h3>
+        <p className="mb-4 text-sm">
+          {isUndone
+            ? "The renames were undone."
+            : `Renamed ${result.renamed.length} node(s)${
+                result.failed > 0 ? `; ${result.failed} failed` : ""
+              }.`}
+        </p>
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={() => {
+              void handleUndo();
+            }}
+            className="px-4 py-2"
+            disabled={isApplying || isUndone || result.renamed.length === 0}
+          >
+            {isApplying ? "Undoing..." : "Undo"}
+          </button>
+          <button
+            onClick={onClose}
+            className="!bg-accent !text-on-accent rounded px-4 py-2"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="mb-2">Rename {nodeType.name} nodes</h3>
+      <p className="text-muted mb-4 text-sm">
+        The format changed from <code>{oldFormat}</code> to{" "}
+        <code>{nodeType.format}</code>. Rename existing nodes to match? Links to
+        them are updated if &quot;Automatically update internal links&quot; is
+        on.
+      </p>
+
+      {items.length === 0 ? (
+        <div className="text-sm">All {nodeType.name} nodes already match.</div>
+      ) : (
+        <>
+          <div className="text-muted mb-2 text-sm">
+            {renameCount} to rename
+            {problemCount > 0 && `, ${problemCount} left as they are`}
+          </div>
+          <div className="max-h-96 overflow-y-auto rounded border">
+            {items.map(renderItem)}
+          </div>
+        </>
+      )}
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2">
+          {renameCount > 0 ? "Not now" : "Close"}
+        </button>
+        {renameCount > 0 && (
+          <button
+            onClick={() => {
+              void handleApply();
+            }}
+            className="!bg-accent !text-on-accent rounded px-4 py-2"
+            disabled={isApplying}
+          >
+            {isApplying ? "Renaming..." : `Rename ${renameCount} node(s)`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export class RetitleNodesModal extends Modal {
+  private plugin: DiscourseGraphPlugin;
+  private nodeType: DiscourseNode;
+  private oldFormat: string;
+  private root: Root | null = null;
+
+  constructor(
+    app: App,
+    plugin: DiscourseGraphPlugin,
+    nodeType: DiscourseNode,
+    oldFormat: string,
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.nodeType = nodeType;
+    this.oldFormat = oldFormat;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <RetitleNodesContent
+          plugin={this.plugin}
+          nodeType={this.nodeType}
+          oldFormat={this.oldFormat}
+          onClose={() => this.close()}
+        />
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+    this.contentEl.empty();
+  }
+}
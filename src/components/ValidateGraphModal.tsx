@@ -0,0 +1,419 @@
+import { App, Modal, Notice, TFile } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import { StrictMode, useCallback, useEffect, useMemo, useState } from "react";
+import type DiscourseGraphPlugin from "../index";
+import { PluginProvider, usePlugin } from "./PluginContext";
+import SearchBar from "./SearchBar";
+import {
+  applyRelationFixes,
+  resetRelationsFile,
+  validateRelations,
+  type RelationFix,
+  type RelationIssue,
+  type RelationValidationReport,
+} from "~/utils/validateRelations";
+import {
+  buildEndpointToFileMap,
+  resolveEndpointToFile,
+} from "~/utils/relationsStore";
+
+type FixChoice = "ignore" | "delete" | "retarget" | "convertType";
+
+type IssueFixState = {
+  choice: FixChoice;
+  file?: TFile | null;
+  relationTypeId?: string;
+};
+
+const ISSUE_TITLES: Record<RelationIssue["kind"], string> = {
+  malformed: "Malformed entries",
+  unresolvedEndpoint: "Missing nodes",
+  unknownRelationType: "Unknown relation types",
+  disallowedRelation: "Not allowed by discourse relations",
+};
+
+const MAX_SEARCH_RESULTS = 20;
+
+const getNodeTitle = (file: TFile) => file.basename;
+
+const RetargetPicker = ({
+  index,
+  onPick,
+}: {
+  index: number;
+  onPick: (index: number, patch: Partial<IssueFixState>) => void;
+}) => {
+  const plugin = usePlugin();
+
+  const searchNodes = useCallback(
+    (query: string): Promise<TFile[]> => {
+      const lower = query.toLowerCase();
+      return Promise.resolve(
+        plugin.nodeIndex
+          .getDiscourseNodes()
+          .filter((node) => node.file.basename.toLowerCase().includes(lower))
+          .slice(0, MAX_SEARCH_RESULTS)
+          .map((node) => node.file),
+      );
+    },
+    [plugin],
+  );
+
+  const handleSelect = useCallback(
+    (file: TFile | null) => onPick(index, { file }),
+    [index, onPick],
+  );
+
+  return (
+    <SearchBar<TFile>
+      asyncSearch={searchNodes}
+      onSelect={handleSelect}
+      placeholder="Search discourse nodes..."
+      getItemText={getNodeTitle}
+    />
+  );
+};
+
+const ValidateGraphContent = ({
+  plugin,
+  onClose,
+}: {
+  plugin: DiscourseGraphPlugin;
+  onClose: () => void;
+}) => {
+  const [report, setReport] = useState<RelationValidationReport | null>(null);
+  const [fixes, setFixes] = useState<Map<number, IssueFixState>>(new Map());
+  const [isApplying, setIsApplying] = useState(false);
+
+  const runValidation = useCallback(async () => {
+    setReport(null);
+    setFixes(new Map());
+    try {
+      setReport(await validateRelations(plugin));
+    } catch (error) {
+      console.error("Error validating discourse graph:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Validation failed: ${errorMessage}`, 5000);
+      onClose();
+    }
+  }, [plugin, onClose]);
+
+  useEffect(() => {
+    void runValidation();
+  }, [runValidation]);
+
+  const endpointToFileMap = useMemo(
+    () => (report ? buildEndpointToFileMap(plugin) : new Map<string, TFile>()),
+    [plugin, report],
+  );
+
+  const describeEndpoint = (endpointId: string) =>
+    resolveEndpointToFile(plugin, endpointId, endpointToFileMap)?.basename ??
+    "(missing)";
+
+  const getRelationTypeLabel = (relationTypeId: string) =>
+    plugin.settings.relationTypes.find((rt) => rt.id === relationTypeId)
+      ?.label ?? relationTypeId;
+
+  const updateFix = useCallback(
+    (index: number, patch: Partial<IssueFixState>) => {
+      setFixes((prev) => {
+        const next = new Map(prev);
+        next.set(index, {
+          ...(prev.get(index) ?? { choice: "ignore" }),
+          ...patch,
+        });
+        return next;
+      });
+    },
+    [],
+  );
+
+  const collectFixes = (): RelationFix[] => {
+    if (!report) return [];
+    const deleted = new Set<string>();
+    const collected: RelationFix[] = [];
+
+    report.issues.forEach((issue, index) => {
+      const state = fixes.get(index);
+      if (state?.choice === "delete") {
+        deleted.add(issue.relationId);
+        collected.push({ kind: "delete", relationId: issue.relationId });
+      }
+    });
+
+    report.issues.forEach((issue, index) => {
+      const state = fixes.get(index);
+      if (!state || deleted.has(issue.relationId)) return;
+      if (
+        state.choice === "retarget" &&
+        state.file &&
+        issue.kind === "unresolvedEndpoint"
+      ) {
+        collected.push({
+          kind: "retarget",
+          relationId: issue.relationId,
+          endpoint: issue.endpoint,
+          file: state.file,
+        });
+      }
+      if (state.choice === "convertType" && state.relationTypeId) {
+        collected.push({
+          kind: "convertType",
+          relationId: issue.relationId,
+          relationTypeId: state.relationTypeId,
+        });
+      }
+    });
+
+    return collected;
+  };
+
+  const pendingFixes = collectFixes();
+
+  const handleApply = async () => {
+    if (pendingFixes.length === 0) return;
+    setIsApplying(true);
+    try {
+      const backupPath = await applyRelationFixes(plugin, pendingFixes);
+      new Notice(
+        `Applied ${pendingFixes.length} fix(es)${backupPath ? `. Backup saved to ${backupPath}` : ""}`,
+        5000,
+      );
+      await runValidation();
+    } catch (error) {
+      console.error("Error repairing relations:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Repair failed: ${errorMessage}`, 5000);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsApplying(true);
+    try {
+      const backupPath = await resetRelationsFile(plugin);
+      new Notice(
+        `relations.json was reset${backupPath ? `. Backup saved to ${backupPath}` : ""}`,
+        5000,
+      );
+      await runValidation();
+    } catch (error) {
+      console.error("Error resetting relations.json:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      new Notice(`Reset failed: ${errorMessage}`, 5000);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderFixControls = (issue: RelationIssue, index: number) => {
+    const state = fixes.get(index) ?? { choice: "ignore" };
+    const canRetarget = issue.kind === "unresolvedEndpoint";
+    const canConvert =
+      issue.kind === "unknownRelationType" ||
+      issue.kind === "disallowedRelation";
+    const convertOptions = canConvert
+      ? issue.suggestedRelationTypeIds.length > 0
+        ? issue.suggestedRelationTypeIds
+        : plugin.settings.relationTypes.map((rt) => rt.id)
+      : [];
+
+    return (
+      <div className="mt-2 flex items-center gap-2">
+        <select
+          value={state.choice}
+          onChange={(e) =>
+            updateFix(index, { choice: e.target.value as FixChoice })
+          }
+          className="pl-2"
+        >
+          <option value="ignore">Leave as is</option>
+          <option value="delete">Delete relation</option>
+          {canRetarget && (
+            <option value="retarget">Retarget {issue.endpoint}</option>
+          )}
+          {canConvert && <option value="convertType">Convert type</option>}
+        </select>
+
+        {state.choice === "retarget" && (
+          <div className="flex-1">
+            <RetargetPicker index={index} onPick={updateFix} />
+          </div>
+        )}
+
+        {state.choice === "convertType" && (
+          <select
+            value={state.relationTypeId ?? ""}
+            onChange={(e) =>
+              updateFix(index, { relationTypeId: e.target.value })
+            }
+            className="flex-1 pl-2"
+          >
+            <option value="">Relation Type</option>
+            {convertOptions.map((relationTypeId) => (
+              <option key={relationTypeId} value={relationTypeId}>
+                {getRelationTypeLabel(relationTypeId)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  const renderIssue = (issue: RelationIssue, index: number) => (
+    <div key={`${issue.relationId}-${index}`} className="border-t p-3">
+      {issue.kind !== "malformed" && (
+        <div className="flex items-center gap-1 text-sm">
+          <span className="rounded bg-secondary px-1.5 py-0.5">
+            {describeEndpoint(issue.relation.source)}
+          </span>
+          <span className="text-accent font-medium">
+            {getRelationTypeLabel(issue.relation.type)}
+          </span>
+          <span className="rounded bg-secondary px-1.5 py-0.5">
+            {describeEndpoint(issue.relation.destination)}
+          </span>
+        </div>
+      )}
+      <div className="text-muted mt-1 text-xs">
+        {issue.message} ({issue.relationId})
+      </div>
+      {renderFixControls(issue, index)}
+    </div>
+  );
+
+  if (!report) {
+    return (
+      <div className="text-center">
+        <h3 className="mb-4">Validating discourse graph...</h3>
+      </div>
+    );
+  }
+
+  if (report.fileError) {
+    return (
+      <div>
+        <h3 className="mb-2">relations.json could not be read</h3>
+        <p className="text-error mb-4 text-sm">{report.fileError}</p>
+        <p className="text-muted mb-4 text-sm">
+          Until this is fixed, the plugin treats the file as empty and the next
+          relation you create will overwrite it. You can fix the file by hand,
+          or back it up and start with an empty one.
+        </p>
+        <div className="mt-6 flex justify-between">
+          <button onClick={onClose} className="px-4 py-2">
+            Close
+          </button>
+          <button
+            onClick={() => void handleReset()}
+            className="mod-warning rounded px-4 py-2"
+            disabled={isApplying}
+          >
+            Back up and reset
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const issueIndexesByKind = new Map<RelationIssue["kind"], number[]>();
+  report.issues.forEach((issue, index) => {
+    const indexes = issueIndexesByKind.get(issue.kind) ?? [];
+    indexes.push(index);
+    issueIndexesByKind.set(issue.kind, indexes);
+  });
+
+  return (
+    <div>
+      <h3 className="mb-2">Validate discourse graph</h3>
+      <p className="text-muted mb-4 text-sm">
+        {report.issues.length === 0
+          ? `No problems found in ${report.relationCount} relation(s).`
+          : `${report.issues.length} problem(s) found in ${report.relationCount} relation(s). relations.json is backed up before any fix is applied.`}
+      </p>
+
+      {report.issues.length > 0 && (
+        <div className="max-h-96 overflow-y-auto rounded border">
+          {[...issueIndexesByKind.entries()].map(([kind, indexes]) => (
+            <div key={kind} className="border-b">
+              <div className="bg-muted/10 flex items-center justify-between px-3 py-2">
+                <span className="font-medium">
+                  {ISSUE_TITLES[kind]} ({indexes.length})
+                </span>
+                <button
+                  onClick={() =>
+                    indexes.forEach((index) =>
+                      updateFix(index, { choice: "delete" }),
+                    )
+                  }
+                  className="px-2 py-1 text-xs"
+                >
+                  Delete all
+                </button>
+              </div>
+              {indexes.map((index) =>
+                renderIssue(report.issues[index]!, index),
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-between">
+        <button onClick={onClose} className="px-4 py-2">
+          Close
+        </button>
+        {report.issues.length > 0 && (
+          <button
+            onClick={() => void handleApply()}
+            className="!bg-accent !text-on-accent rounded px-4 py-2"
+            disabled={pendingFixes.length === 0 || isApplying}
+          >
+            {isApplying
+              ? "Applying..."
+              : `Apply ${pendingFixes.length} fix(es)`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export class ValidateGraphModal extends Modal {
+  private plugin: DiscourseGraphPlugin;
+  private root: Root | null = null;
+
+  constructor(app: App, plugin: DiscourseGraphPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.root = createRoot(contentEl);
+    this.root.render(
+      <StrictMode>
+        <PluginProvider plugin={this.plugin}>
+          <ValidateGraphContent
+            plugin={this.plugin}
+            onClose={() => this.close()}
+          />
+        </PluginProvider>
+      </StrictMode>,
+    );
+  }
+
+  onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
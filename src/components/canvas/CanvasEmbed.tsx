@@ -0,0 +1,449 @@
+import { StrictMode, useEffect, useRef, useState } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import {
+  type PluginValue,
+  EditorView,
+  ViewPlugin,
+  ViewUpdate,
+} from "@codemirror/view";
+import {
+  editorInfoField,
+  MarkdownRenderChild,
+  TFile,
+  type MarkdownPostProcessorContext,
+} from "obsidian";
+import {
+  defaultBindingUtils,
+  defaultShapeUtils,
+  ErrorBoundary,
+  Tldraw,
+  type Editor,
+  type TLPageId,
+  type TLShapeId,
+  type TLStore,
+} from "tldraw";
+import "tldraw/tldraw.css";
+import type DiscourseGraphPlugin from "~/index";
+import { FRONTMATTER_KEY, VIEW_TYPE_TLDRAW_DG_PREVIEW } from "~/constants";
+import { PluginProvider } from "~/components/PluginContext";
+import { ObsidianTLAssetStore } from "~/components/canvas/stores/assetStore";
+import { createDiscourseNodeUtil } from "~/components/canvas/shapes/DiscourseNodeShape";
+import { createDiscourseRelationUtil } from "~/components/canvas/shapes/DiscourseRelationShape";
+import { DiscourseRelationBindingUtil } from "~/components/canvas/shapes/DiscourseRelationBinding";
+import {
+  parseTLDataFromContent,
+  processInitialData,
+} from "~/components/canvas/utils/tldraw";
+
+const EMBED_CLASS = "dg-canvas-embed";
+const VIEWER_CLASS = "dg-canvas-embed-viewer";
+const DEFAULT_EMBED_HEIGHT = 400;
+const FRAME_INSET = 16;
+
+type EmbedTarget = { kind: "page" | "frame"; id: string; name: string };
+
+type CanvasEmbedViewProps = {
+  plugin: DiscourseGraphPlugin;
+  canvasFile: TFile;
+  /** Name of the frame or page to show, from the embed link's subpath. */
+  targetName?: string;
+  height: number;
+};
+
+const getEmbedTargets = (editor: Editor): EmbedTarget[] =>
+  editor.getPages().flatMap((page) => [
+    { kind: "page" as const, id: page.id, name: page.name },
+    ...Array.from(editor.getPageShapeIds(page))
+      .map((id) => editor.getShape(id))
+      .filter((shape) => shape?.type === "frame")
+      .map((frame) => ({
+        kind: "frame" as const,
+        id: frame!.id,
+        name: (frame!.props as { name: string }).name || "Frame",
+      })),
+  ]);
+
+const findEmbedTarget = (
+  targets: EmbedTarget[],
+  targetName?: string,
+): EmbedTarget | undefined => {
+  const name = targetName?.trim().toLowerCase();
+  const byName = (kind: EmbedTarget["kind"]) =>
+    targets.find(
+      (target) => target.kind === kind && target.name.toLowerCase() === name,
+    );
+  return (name && (byName("frame") ?? byName("page"))) || targets[0];
+};
+
+const showEmbedTarget = (editor: Editor, target: EmbedTarget) => {
+  if (target.kind === "page") {
+    editor.setCurrentPage(target.id as TLPageId);
+    editor.zoomToFit();
+    return;
+  }
+  const frameId = target.id as TLShapeId;
+  const pageId = editor.getAncestorPageId(frameId);
+  if (pageId) editor.setCurrentPage(pageId);
+  const bounds = editor.getShapePageBounds(frameId);
+  if (bounds) editor.zoomToBounds(bounds, { inset: FRAME_INSET });
+};
+
+/**
+ * A read-only snapshot of a discourse canvas for embeds. It can be panned with
+ * the hand tool and reloads when the canvas file changes.
+ */
+const CanvasEmbedView = ({
+  plugin,
+  canvasFile,
+  targetName,
+  height,
+}: CanvasEmbedViewProps) => {
+  const [loaded, setLoaded] = useState<{
+    store: TLStore;
+    assetStore: ObsidianTLAssetStore;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [targets, setTargets] = useState<EmbedTarget[]>([]);
+  const [target, setTarget] = useState<EmbedTarget | null>(null);
+  const editorRef = useRef<Editor | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const ref = plugin.app.vault.on("modify", (file) => {
+      if (file.path === canvasFile.path) setVersion((prev) => prev + 1);
+    });
+    return () => plugin.app.vault.offref(ref);
+  }, [plugin, canvasFile]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void plugin.app.vault
+      .read(canvasFile)
+      .then((content) => {
+        if (cancelled) return;
+        const data = parseTLDataFromContent(content);
+        if (!data?.raw) {
+          setError("No canvas data found in this file");
+          return;
+        }
+        const assetStore = new ObsidianTLAssetStore(
+          `tldraw-embed-${encodeURIComponent(canvasFile.path)}`,
+          { app: plugin.app, file: canvasFile, plugin },
+        );
+        const { store } = processInitialData(data, assetStore, {
+          app: plugin.app,
+          canvasFile,
+          plugin,
+        });
+        setError(null);
+        setLoaded({ store, assetStore });
+      })
+      .catch((e) => {
+        console.error("Error loading embedded canvas:", e);
+        setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [plugin, canvasFile, version]);
+
+  // Dispose a snapshot once it has been replaced or the embed is removed.
+  useEffect(
+    () => () => {
+      loaded?.store.dispose();
+      loaded?.assetStore.dispose();
+    },
+    [loaded],
+  );
+
+  const [shapeUtils] = useState(() => [
+    ...defaultShapeUtils,
+    createDiscourseNodeUtil({ app: plugin.app, canvasFile, plugin }),
+    createDiscourseRelationUtil({ app: plugin.app, canvasFile, plugin }),
+  ]);
+
+  const handleMount = (editor: Editor) => {
+    editorRef.current = editor;
+    editor.updateInstanceState({ isReadonly: true });
+    editor.setCurrentTool("hand");
+    const embedTargets = getEmbedTargets(editor);
+    const initialTarget =
+      (target && embedTargets.find((other) => other.id === target.id)) ??
+      findEmbedTarget(embedTargets, targetName);
+    setTargets(embedTargets);
+    setTarget(initialTarget ?? null);
+    if (initialTarget) showEmbedTarget(editor, initialTarget);
+  };
+
+  const handleSelectTarget = (id: string) => {
+    const next = targets.find((other) => other.id === id);
+    if (!next || !editorRef.current) return;
+    setTarget(next);
+    showEmbedTarget(editorRef.current, next);
+  };
+
+  const handleOpen = () => {
+    void plugin.app.workspace.getLeaf(false).setViewState({
+      type: VIEW_TYPE_TLDRAW_DG_PREVIEW,
+      state: { file: canvasFile.path },
+    });
+  };
+
+  return (
+    <div
+      className="relative overflow-hidden rounded border"
+      style={{ height }}
+      // Keep pointer and wheel events inside the canvas from reaching the note
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {error ? (
+        <div className="text-muted p-4 text-sm">
+          Could not show {canvasFile.basename}: {error}
+        </div>
+      ) : loaded ? (
+        <ErrorBoundary
+          fallback={({ error }) => (
+            <div>Error in Tldraw component: {JSON.stringify(error)}</div>
+          )}
+        >
+          <Tldraw
+            key={version}
+            store={loaded.store}
+            hideUi
+            autoFocus={false}
+            onMount={handleMount}
+            shapeUtils={shapeUtils}
+            bindingUtils={[
+              ...defaultBindingUtils,
+              DiscourseRelationBindingUtil,
+            ]}
+            cameraOptions={{ wheelBehavior: "none" }}
+          />
+        </ErrorBoundary>
+      ) : (
+        <div className="text-muted p-4 text-sm">Loading canvas...</div>
+      )}
+      <div className="absolute right-2 top-2 z-[300] flex gap-2">
+        {targets.length > 1 && (
+          <select
+            value={target?.id ?? ""}
+            onChange={(e) => handleSelectTarget(e.target.value)}
+            className="text-xs"
+          >
+            {targets.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.kind === "page" ? "Page" : "Frame"}: {option.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() =>
+            target &&
+            editorRef.current &&
+            showEmbedTarget(editorRef.current, target)
+          }
+          className="px-2 py-1 text-xs"
+        >
+          Fit
+        </button>
+        <button onClick={handleOpen} className="px-2 py-1 text-xs">
+          Open
+        </button>
+      </div>
+    </div>
+  );
+};
+
+type CanvasEmbedOptions = Omit<CanvasEmbedViewProps, "plugin">;
+
+const renderCanvasEmbed = (
+  viewerEl: HTMLElement,
+  plugin: DiscourseGraphPlugin,
+  options: CanvasEmbedOptions,
+): Root => {
+  const root = createRoot(viewerEl);
+  root.render(
+    <StrictMode>
+      <PluginProvider plugin={plugin}>
+        <CanvasEmbedView plugin={plugin} {...options} />
+      </PluginProvider>
+    </StrictMode>,
+  );
+  return root;
+};
+
+/**
+ * Find every embed of a discourse canvas inside `container`, hide Obsidian's
+ * own rendering of it and call `mount` with an element placed after it.
+ * `![[Canvas#Name]]` shows the frame or page called Name, and
+ * `![[Canvas|300]]` sets the height in pixels.
+ */
+const forEachCanvasEmbed = (
+  container: HTMLElement,
+  plugin: DiscourseGraphPlugin,
+  sourcePath: string,
+  mount: (viewerEl: HTMLElement, options: CanvasEmbedOptions) => void,
+) => {
+  const embeds = container.querySelectorAll<HTMLElement>(
+    `.internal-embed:not(.${EMBED_CLASS})`,
+  );
+  for (const embedEl of embeds) {
+    const src = embedEl.getAttribute("src");
+    if (!src) continue;
+    const [linkpath = "", targetName] = src.split("#");
+    const canvasFile = plugin.app.metadataCache.getFirstLinkpathDest(
+      linkpath,
+      sourcePath,
+    );
+    if (
+      !(canvasFile instanceof TFile) ||
+      !plugin.app.metadataCache.getFileCache(canvasFile)?.frontmatter?.[
+        FRONTMATTER_KEY
+      ]
+    ) {
+      continue;
+    }
+
+    const alt = Number(embedEl.getAttribute("alt"));
+    const height = Number.isFinite(alt) && alt > 0 ? alt : DEFAULT_EMBED_HEIGHT;
+    embedEl.addClass(EMBED_CLASS);
+    const viewerEl = createDiv({ cls: VIEWER_CLASS });
+    embedEl.insertAdjacentElement("afterend", viewerEl);
+    mount(viewerEl, { canvasFile, targetName, height });
+  }
+};
+
+class CanvasEmbedRenderChild extends MarkdownRenderChild {
+  private root: Root | null = null;
+
+  constructor(
+    containerEl: HTMLElement,
+    private plugin: DiscourseGraphPlugin,
+    private options: CanvasEmbedOptions,
+  ) {
+    super(containerEl);
+  }
+
+  onload(): void {
+    this.root = renderCanvasEmbed(this.containerEl, this.plugin, this.options);
+  }
+
+  onunload(): void {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
+
+/**
+ * Markdown post processor rendering canvas embeds in reading view. Each viewer
+ * is a render child of the section, so it is unmounted with it.
+ */
+export const createCanvasEmbedPostProcessor =
+  (plugin: DiscourseGraphPlugin) =>
+  (el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+    forEachCanvasEmbed(el, plugin, ctx.sourcePath, (viewerEl, options) => {
+      ctx.addChild(new CanvasEmbedRenderChild(viewerEl, plugin, options));
+    });
+  };
+
+/**
+ * Viewers mounted in Live Preview. CodeMirror replaces embed widgets without
+ * telling us, so viewers are unmounted once they leave the document.
+ */
+const livePreviewEmbeds = new Map<HTMLElement, Root>();
+
+const unmountDetachedEmbeds = () => {
+  for (const [viewerEl, root] of livePreviewEmbeds) {
+    if (viewerEl.isConnected) continue;
+    root.unmount();
+    livePreviewEmbeds.delete(viewerEl);
+  }
+};
+
+export const unmountAllCanvasEmbeds = () => {
+  for (const [viewerEl, root] of livePreviewEmbeds) {
+    root.unmount();
+    viewerEl.remove();
+  }
+  livePreviewEmbeds.clear();
+};
+
+const processLivePreviewEmbeds = (
+  container: HTMLElement,
+  plugin: DiscourseGraphPlugin,
+  sourcePath: string,
+) => {
+  unmountDetachedEmbeds();
+  forEachCanvasEmbed(container, plugin, sourcePath, (viewerEl, options) => {
+    livePreviewEmbeds.set(
+      viewerEl,
+      renderCanvasEmbed(viewerEl, plugin, options),
+    );
+  });
+};
+
+const EMBED_OR_VIEWER_SELECTOR = `.internal-embed, .${VIEWER_CLASS}`;
+
+const isInsideViewer = (node: Node): boolean =>
+  node instanceof Element && !!node.closest(`.${VIEWER_CLASS}`);
+
+const containsEmbed = (node: Node): boolean =>
+  node instanceof HTMLElement &&
+  (node.matches(EMBED_OR_VIEWER_SELECTOR) ||
+    !!node.querySelector(EMBED_OR_VIEWER_SELECTOR));
+
+/**
+ * CodeMirror ViewPlugin rendering canvas embeds in Live Preview. Obsidian
+ * renders embed widgets asynchronously, so a MutationObserver picks up new
+ * ones.
+ */
+export const createCanvasEmbedExtension = (
+  plugin: DiscourseGraphPlugin,
+): ViewPlugin<PluginValue> => {
+  return ViewPlugin.fromClass(
+    class {
+      private observer: MutationObserver;
+
+      constructor(view: EditorView) {
+        const process = () =>
+          processLivePreviewEmbeds(
+            view.dom,
+            plugin,
+            view.state.field(editorInfoField).file?.path ?? "",
+          );
+        process();
+        this.observer = new MutationObserver((mutations) => {
+          const hasRelevantMutation = mutations.some(
+            (m) =>
+              // Mounted viewers change their own DOM all the time, e.g. while
+              // panning; only embeds coming and going matter here.
+              !isInsideViewer(m.target) &&
+              [...Array.from(m.addedNodes), ...Array.from(m.removedNodes)].some(
+                containsEmbed,
+              ),
+          );
+          if (hasRelevantMutation) process();
+        });
+        this.observer.observe(view.dom, { childList: true, subtree: true });
+      }
+
+      update(update: ViewUpdate): void {
+        if (update.docChanged || update.viewportChanged) {
+          processLivePreviewEmbeds(
+            update.view.dom,
+            plugin,
+            update.state.field(editorInfoField).file?.path ?? "",
+          );
+        }
+      }
+
+      destroy(): void {
+        this.observer.disconnect();
+        unmountDetachedEmbeds();
+      }
+    },
+  );
+};
@@ -10,19 +10,29 @@ import {
 } from "tldraw";
 import type { TFile } from "obsidian";
 import { usePlugin } from "~/components/PluginContext";
+import { ReconcileCanvasModal } from "~/components/ReconcileCanvasModal";
 import { convertToDiscourseNode } from "./utils/convertToDiscourseNode";
 import {
   convertArrowToDiscourseRelation,
   getValidRelationTypesForArrow,
 } from "./utils/convertArrowToDiscourseRelation";
+import {
+  arrangeCanvas,
+  canArrangeRadially,
+  CANVAS_LAYOUT_LABELS,
+  type CanvasLayoutAlgorithm,
+} from "./utils/autoLayout";
+import type { CanvasTypeFilter } from "./utils/canvasTypeFilter";
 
 type CustomContextMenuProps = {
   canvasFile: TFile;
+  typeFilter: CanvasTypeFilter;
   props: TLUiContextMenuProps;
 };
 
 export const CustomContextMenu = ({
   canvasFile,
+  typeFilter,
   props,
 }: CustomContextMenuProps) => {
   const editor = useEditor();
@@ -57,6 +67,12 @@ export const CustomContextMenu = ({
     [editor, plugin, selectedShape?.id, selectedShape?.type],
   );
 
+  const canArrangeRadial = useValue(
+    "canArrangeRadially",
+    () => canArrangeRadially(editor),
+    [editor],
+  );
+
   const shouldShowRelationMenu =
     selectedShape?.type === "arrow" && validRelationTypes.length > 0;
 
@@ -109,6 +125,47 @@ export const CustomContextMenu = ({
           </TldrawUiMenuSubmenu>
         </TldrawUiMenuGroup>
       )}
+      <TldrawUiMenuGroup id="arrange">
+        <TldrawUiMenuSubmenu id="arrange-submenu" label="Arrange">
+          {(Object.keys(CANVAS_LAYOUT_LABELS) as CanvasLayoutAlgorithm[]).map(
+            (algorithm) => (
+              <TldrawUiMenuItem
+                key={algorithm}
+                id={`arrange-${algorithm}`}
+                label={CANVAS_LAYOUT_LABELS[algorithm]}
+                disabled={
+                  isReadonly || (algorithm === "radial" && !canArrangeRadial)
+                }
+                onSelect={() => {
+                  arrangeCanvas({ editor, canvasFile, algorithm });
+                }}
+              />
+            ),
+          )}
+        </TldrawUiMenuSubmenu>
+      </TldrawUiMenuGroup>
+      <TldrawUiMenuGroup id="type-filter">
+        <TldrawUiMenuItem
+          id="filter-by-type"
+          label="Filter by type"
+          onSelect={() => typeFilter.togglePanel()}
+        />
+      </TldrawUiMenuGroup>
+      <TldrawUiMenuGroup id="reconcile">
+        <TldrawUiMenuItem
+          id="reconcile-with-graph"
+          label="Reconcile with graph"
+          disabled={isReadonly}
+          onSelect={() => {
+            new ReconcileCanvasModal(
+              plugin.app,
+              plugin,
+              editor,
+              canvasFile,
+            ).open();
+          }}
+        />
+      </TldrawUiMenuGroup>
     </DefaultContextMenu>
   );
 };
@@ -9,6 +9,7 @@ import {
 } from "~/components/canvas/utils/relationTypeUtils";
 import { DiscourseRelationShape } from "./shapes/DiscourseRelationShape";
 import { showToast } from "./utils/toastUtils";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
 import { toTldrawColor } from "~/utils/tldrawColors";
 
 type RelationToolContext = {
@@ -121,7 +122,7 @@ class Pointing extends StateNode {
     // Check if this source node type can create relations of this type
     if (sourceNodeTypeId) {
       const compatibleTargetTypes = getCompatibleTargetNodeTypeIds({
-        discourseRelations: plugin.settings.discourseRelations,
+        discourseRelations: getEffectiveDiscourseRelations(plugin.settings),
         relationTypeId,
         sourceNodeTypeId,
       });
@@ -18,6 +18,12 @@ import {
   clearDiscourseRelationToolContext,
 } from "./DiscourseRelationTool";
 import { TOOL_ARROW_ICON_SVG } from "~/icons";
+import {
+  arrangeCanvas,
+  canArrangeRadially,
+  CANVAS_LAYOUT_LABELS,
+  type CanvasLayoutAlgorithm,
+} from "./utils/autoLayout";
 
 const TOOL_ARROW_ICON_DATA_URL = `data:image/svg+xml;base64,${btoa(TOOL_ARROW_ICON_SVG)}`;
 
@@ -220,6 +226,12 @@ export const DiscourseToolPanel = ({
       ? []
       : relationTypes;
 
+  const canArrangeRadial = useValue(
+    "canArrangeRadially",
+    () => canArrangeRadially(editor),
+    [editor],
+  );
+
   useEffect(() => {
     const cursor = focusedNodeTypeId ? "cross" : "default";
     editor.setCursor({ type: cursor });
@@ -295,6 +307,27 @@ export const DiscourseToolPanel = ({
               />
             ))}
           </div>
+          {!focusedNodeTypeId && !focusedRelationTypeId && (
+            <div className="mt-1 flex flex-col border-t pt-1">
+              <span className="px-3 py-1 text-xs opacity-60">Arrange</span>
+              {(
+                Object.keys(CANVAS_LAYOUT_LABELS) as CanvasLayoutAlgorithm[]
+              ).map((algorithm) => (
+                <button
+                  key={algorithm}
+                  className="tlui-style-panel__row tlui-button flex h-5 cursor-pointer items-center !justify-start gap-2 px-3"
+                  disabled={algorithm === "radial" && !canArrangeRadial}
+                  onClick={() =>
+                    arrangeCanvas({ editor, canvasFile, algorithm })
+                  }
+                >
+                  <span className="text-sm">
+                    {CANVAS_LAYOUT_LABELS[algorithm]}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
           <div ref={rDraggingImage}>
             {state.name === "dragging"
               ? (getNodeTypeById(plugin, state.nodeTypeId)?.name ?? "")
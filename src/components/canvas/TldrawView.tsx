@@ -2,12 +2,14 @@ import { TextFileView, TFile, WorkspaceLeaf } from "obsidian";
 import { VIEW_TYPE_TLDRAW_DG_PREVIEW } from "~/constants";
 import { Root, createRoot } from "react-dom/client";
 import { TldrawPreviewComponent } from "./TldrawViewComponent";
-import { TLStore } from "tldraw";
+import { Editor, TLStore } from "tldraw";
 import React from "react";
 import DiscourseGraphPlugin from "~/index";
 import { processInitialData, TLData } from "~/components/canvas/utils/tldraw";
 import { ObsidianTLAssetStore } from "~/components/canvas/stores/assetStore";
 import { PluginProvider } from "../PluginContext";
+import { CanvasPresentation } from "~/components/canvas/utils/presentation";
+import { CanvasTypeFilter } from "~/components/canvas/utils/canvasTypeFilter";
 
 export class TldrawView extends TextFileView {
   plugin: DiscourseGraphPlugin;
@@ -15,6 +17,9 @@ export class TldrawView extends TextFileView {
   private store: TLStore | null = null;
   private assetStore: ObsidianTLAssetStore | null = null;
   private canvasUuid: string | null = null;
+  private editor: Editor | null = null;
+  private presentation = new CanvasPresentation();
+  private typeFilter = new CanvasTypeFilter();
   private onUnloadCallbacks: (() => void)[] = [];
 
   constructor(leaf: WorkspaceLeaf, plugin: DiscourseGraphPlugin) {
@@ -43,6 +48,21 @@ export class TldrawView extends TextFileView {
     this.data = "";
   }
 
+  /** The mounted tldraw editor, or null while the canvas is loading. */
+  getEditor(): Editor | null {
+    return this.editor;
+  }
+
+  /** The canvas presentation, with its steps as loaded from the file. */
+  getPresentation(): CanvasPresentation {
+    return this.presentation;
+  }
+
+  /** The view-only filter hiding, dimming or highlighting shapes by type. */
+  getTypeFilter(): CanvasTypeFilter {
+    return this.typeFilter;
+  }
+
   protected get tldrawContainer() {
     return this.containerEl.children[1];
   }
@@ -111,6 +131,7 @@ export class TldrawView extends TextFileView {
       } else {
         this.canvasUuid = window.crypto.randomUUID();
       }
+      this.presentation.setSteps(data.meta?.presentation ?? []);
 
       if (!this.file) {
         return;
@@ -159,6 +180,14 @@ export class TldrawView extends TextFileView {
             file={this.file}
             assetStore={this.assetStore}
             canvasUuid={this.canvasUuid}
+            presentation={this.presentation}
+            typeFilter={this.typeFilter}
+            onEditorMount={(editor) => {
+              this.editor = editor;
+              return () => {
+                if (this.editor === editor) this.editor = null;
+              };
+            }}
           />
         </PluginProvider>
       </React.StrictMode>,
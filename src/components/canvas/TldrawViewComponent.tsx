@@ -47,6 +47,11 @@ import {
 import ToastListener from "./ToastListener";
 import { RelationsOverlay } from "./overlays/RelationOverlay";
 import { DragHandleOverlay } from "./overlays/DragHandleOverlay";
+import { PresentationOverlay } from "./overlays/PresentationOverlay";
+import { CanvasSearchOverlay } from "./overlays/CanvasSearchOverlay";
+import { TypeFilterOverlay } from "./overlays/TypeFilterOverlay";
+import type { CanvasPresentation } from "./utils/presentation";
+import type { CanvasTypeFilter } from "./utils/canvasTypeFilter";
 import { WHITE_LOGO_SVG } from "~/icons";
 import { CustomContextMenu } from "./CustomContextMenu";
 import {
@@ -56,11 +61,16 @@ import {
   resolveDiscourseNodeFile,
 } from "./utils/openFileUtils";
 import { handleExternalUrlContent } from "./utils/externalContentHandlers";
+import { registerAutoDrawRelations } from "./utils/canvasReconcile";
 type TldrawPreviewProps = {
   store: TLStore;
   file: TFile;
   assetStore: ObsidianTLAssetStore;
   canvasUuid: string;
+  presentation: CanvasPresentation;
+  typeFilter: CanvasTypeFilter;
+  /** Called once the editor is mounted; the returned cleanup runs on unmount. */
+  onEditorMount?: (editor: Editor) => () => void;
 };
 
 export const TldrawPreviewComponent = ({
@@ -68,6 +78,9 @@ export const TldrawPreviewComponent = ({
   file,
   assetStore,
   canvasUuid,
+  presentation,
+  typeFilter,
+  onEditorMount,
 }: TldrawPreviewProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [currentStore, setCurrentStore] = useState<TLStore>(store);
@@ -167,6 +180,7 @@ export const TldrawPreviewComponent = ({
       pluginVersion: plugin.manifest.version,
       tldrawFile: createRawTldrawFile(currentStore),
       uuid: canvasUuid,
+      presentation: presentation.getSteps(),
     });
     const stringifiedData = JSON.stringify(newData, null, "\t");
 
@@ -233,36 +247,41 @@ export const TldrawPreviewComponent = ({
       }
     }
     isSavingRef.current = false;
-  }, [file, plugin, currentStore, assetStore, canvasUuid]);
+  }, [file, plugin, currentStore, assetStore, canvasUuid, presentation]);
 
   useEffect(() => {
-    const unsubscribe = currentStore.listen(
-      () => {
-        if (saveTimeoutRef.current) {
-          clearTimeout(saveTimeoutRef.current);
+    const scheduleSave = () => {
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+      }
+      saveTimeoutRef.current = setTimeout(() => {
+        // If a save is already in progress, schedule another save after it completes
+        if (isSavingRef.current) {
+          saveTimeoutRef.current = setTimeout(
+            () => void saveChanges(),
+            DEFAULT_SAVE_DELAY,
+          );
+        } else {
+          void saveChanges();
         }
-        saveTimeoutRef.current = setTimeout(() => {
-          // If a save is already in progress, schedule another save after it completes
-          if (isSavingRef.current) {
-            saveTimeoutRef.current = setTimeout(
-              () => void saveChanges(),
-              DEFAULT_SAVE_DELAY,
-            );
-          } else {
-            void saveChanges();
-          }
-        }, DEFAULT_SAVE_DELAY);
-      },
-      { source: "user", scope: "document" },
-    );
+      }, DEFAULT_SAVE_DELAY);
+    };
+    const unsubscribe = currentStore.listen(scheduleSave, {
+      source: "user",
+      scope: "document",
+    });
+    // Presentation steps are stored in the canvas meta, so edits to them are
+    // saved the same way.
+    const unsubscribePresentation = presentation.onStepsUpdated(scheduleSave);
 
     return () => {
       unsubscribe();
+      unsubscribePresentation();
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [currentStore, saveChanges]);
+  }, [currentStore, saveChanges, presentation]);
 
   const handleMount = (editor: Editor) => {
     editorRef.current = editor;
@@ -378,6 +397,18 @@ export const TldrawPreviewComponent = ({
         }
       }
     });
+
+    const unregisterAutoDraw = registerAutoDrawRelations({
+      plugin,
+      editor,
+      canvasFile: file,
+    });
+    const unregisterEditor = onEditorMount?.(editor);
+    return () => {
+      presentation.stop();
+      unregisterAutoDraw();
+      unregisterEditor?.();
+    };
   };
 
   return (
@@ -393,6 +424,10 @@ export const TldrawPreviewComponent = ({
             autoFocus={true}
             onMount={handleMount}
             initialState="select"
+            getShapeVisibility={(shape, editor) =>
+              presentation.getShapeVisibility(shape) ??
+              typeFilter.getShapeVisibility(shape, editor)
+            }
             shapeUtils={customShapeUtils}
             tools={customTools}
             bindingUtils={[
@@ -429,7 +464,11 @@ export const TldrawPreviewComponent = ({
             }}
             components={{
               ContextMenu: (props) => (
-                <CustomContextMenu canvasFile={file} props={props} />
+                <CustomContextMenu
+                  canvasFile={file}
+                  typeFilter={typeFilter}
+                  props={props}
+                />
               ),
               SharePanel: () => {
                 const tools = useTools();
@@ -477,6 +516,9 @@ export const TldrawPreviewComponent = ({
                 <>
                   <RelationsOverlay plugin={plugin} file={file} />
                   <DragHandleOverlay plugin={plugin} file={file} />
+                  <PresentationOverlay presentation={presentation} />
+                  <CanvasSearchOverlay plugin={plugin} file={file} />
+                  <TypeFilterOverlay plugin={plugin} typeFilter={typeFilter} />
                 </>
               ),
             }}
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from "react";
+import { TFile } from "obsidian";
+import { useEditor } from "tldraw";
+import DiscourseGraphPlugin from "~/index";
+import {
+  OPEN_CANVAS_SEARCH_EVENT,
+  revealShapes,
+  searchCanvas,
+  type CanvasSearchMatch,
+  type OpenCanvasSearchEvent,
+} from "~/components/canvas/utils/canvasSearch";
+
+type CanvasSearchOverlayProps = {
+  plugin: DiscourseGraphPlugin;
+  file: TFile;
+};
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+const KIND_LABELS: Record<CanvasSearchMatch["kind"], string> = {
+  node: "Node",
+  relation: "Relation",
+  text: "Text",
+};
+
+/**
+ * Search bar at the top of the canvas, opened with Mod+F or the "Search
+ * canvas" command. Enter and Shift+Enter step through the matches, zooming to
+ * each one.
+ */
+export const CanvasSearchOverlay = ({
+  plugin,
+  file,
+}: CanvasSearchOverlayProps) => {
+  const editor = useEditor();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [matches, setMatches] = useState<CanvasSearchMatch[]>([]);
+  const [index, setIndex] = useState(-1);
+
+  useEffect(() => {
+    const open = () => {
+      setIsOpen(true);
+      // Focus after the input is rendered, and select so typing replaces it.
+      setTimeout(() => inputRef.current?.select(), 0);
+    };
+    const handleOpenEvent = ((event: CustomEvent<OpenCanvasSearchEvent>) => {
+      if (event.detail.targetCanvasId === file.path) open();
+    }) as EventListener;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== "f" || !(e.metaKey || e.ctrlKey)) return;
+      if (e.altKey || e.shiftKey) return;
+      e.preventDefault();
+      e.stopPropagation();
+      open();
+    };
+
+    const container = editor.getContainer();
+    document.addEventListener(OPEN_CANVAS_SEARCH_EVENT, handleOpenEvent);
+    container.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      document.removeEventListener(OPEN_CANVAS_SEARCH_EVENT, handleOpenEvent);
+      container.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, [editor, file]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      void searchCanvas({ plugin, editor, canvasFile: file, query }).then(
+        (results) => {
+          if (cancelled) return;
+          setMatches(results);
+          setIndex(-1);
+        },
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, plugin, editor, file]);
+
+  const step = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const start = index < 0 && direction === -1 ? 0 : index;
+    const nextIndex = (start + direction + matches.length) % matches.length;
+    setIndex(nextIndex);
+    revealShapes(editor, [matches[nextIndex]!.shapeId]);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    editor.focus();
+  };
+
+  if (!isOpen) return null;
+
+  const current = index >= 0 ? matches[index] : undefined;
+
+  return (
+    <div
+      style={{ position: "absolute", inset: 0, pointerEvents: "none" }}
+      // Container overlay above the canvas
+    >
+      <div
+        className="bg-primary absolute left-1/2 top-2 z-10 flex -translate-x-1/2 items-center gap-2 rounded border px-2 py-1 text-sm shadow"
+        style={{ pointerEvents: "all" }}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          placeholder="Search nodes, relations and text"
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep tldraw's keyboard shortcuts from firing while typing.
+            e.stopPropagation();
+            if (e.key === "Enter") {
+              e.preventDefault();
+              step(e.shiftKey ? -1 : 1);
+            } else if (e.key === "Escape") {
+              e.preventDefault();
+              close();
+            }
+          }}
+          className="w-64"
+        />
+        {current && (
+          <span className="text-muted max-w-48 truncate text-xs">
+            {KIND_LABELS[current.kind]}: {current.label}
+          </span>
+        )}
+        <span className="text-muted whitespace-nowrap text-xs">
+          {query.trim()
+            ? `${index >= 0 ? index + 1 : 0} / ${matches.length}`
+            : ""}
+        </span>
+        <button
+          onClick={() => step(-1)}
+          disabled={matches.length === 0}
+          className="px-2 py-1 text-xs"
+          title="Previous match (Shift+Enter)"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => step(1)}
+          disabled={matches.length === 0}
+          className="px-2 py-1 text-xs"
+          title="Next match (Enter)"
+        >
+          ↓
+        </button>
+        <button
+          onClick={close}
+          className="px-2 py-1 text-xs"
+          title="Close search (Esc)"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+};
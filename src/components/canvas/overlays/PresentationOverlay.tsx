@@ -0,0 +1,66 @@
+import { useValue } from "tldraw";
+import type { CanvasPresentation } from "~/components/canvas/utils/presentation";
+
+type PresentationOverlayProps = {
+  presentation: CanvasPresentation;
+};
+
+/** Step counter and controls shown at the bottom of a playing presentation. */
+export const PresentationOverlay = ({
+  presentation,
+}: PresentationOverlayProps) => {
+  const playback = useValue(
+    "dgPresentationPlayback",
+    () => presentation.playback.get(),
+    [presentation],
+  );
+  if (!playback) return null;
+
+  const step = presentation.getSteps()[playback.stepIndex];
+  const isLast =
+    playback.stepIndex === playback.stepCount - 1 &&
+    playback.revealed === playback.relationCount;
+
+  return (
+    <div
+      style={{ position: "absolute", inset: 0, pointerEvents: "none" }}
+      // Container overlay above the canvas
+    >
+      <div
+        className="bg-primary absolute bottom-4 left-1/2 z-10 flex -translate-x-1/2 items-center gap-3 rounded border px-3 py-1 text-sm shadow"
+        style={{ pointerEvents: "all" }}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={() => presentation.previous()}
+          disabled={playback.stepIndex === 0}
+          className="px-2 py-1 text-xs"
+          title="Previous step (←)"
+        >
+          ‹
+        </button>
+        <span className="font-medium">{step?.title}</span>
+        <span className="text-muted">
+          {playback.stepIndex + 1} / {playback.stepCount}
+          {playback.relationCount > 0 &&
+            ` · ${playback.revealed}/${playback.relationCount} relations`}
+        </span>
+        <button
+          onClick={() => presentation.next()}
+          disabled={isLast}
+          className="px-2 py-1 text-xs"
+          title="Next (→ or Space)"
+        >
+          ›
+        </button>
+        <button
+          onClick={() => presentation.stop()}
+          className="px-2 py-1 text-xs"
+          title="End presentation (Esc)"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -18,6 +18,7 @@ import {
 } from "~/components/canvas/utils/relationUtils";
 import { getFrontmatterForFile } from "~/components/canvas/shapes/discourseNodeShapeUtils";
 import { getRelationTypeById, isAcceptedSchema } from "~/utils/typeUtils";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
 import { showToast } from "~/components/canvas/utils/toastUtils";
 import { toTldrawColor } from "~/utils/tldrawColors";
 import {
@@ -536,8 +537,9 @@ const computeRelations = async (
 
   const acceptedRelationTypes =
     plugin.settings.relationTypes.filter(isAcceptedSchema);
-  const acceptedDiscourseRelations =
-    plugin.settings.discourseRelations.filter(isAcceptedSchema);
+  const acceptedDiscourseRelations = getEffectiveDiscourseRelations(
+    plugin.settings,
+  ).filter(isAcceptedSchema);
 
   for (const relationType of acceptedRelationTypes) {
     const typeLevelRelation = acceptedDiscourseRelations.find(
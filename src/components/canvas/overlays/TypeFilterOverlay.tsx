@@ -0,0 +1,343 @@
+import { useEffect, useId } from "react";
+import { debounce, Notice, TAbstractFile } from "obsidian";
+import {
+  useEditor,
+  useValue,
+  type TLDefaultFontStyle,
+  type TLDefaultSizeStyle,
+} from "tldraw";
+import DiscourseGraphPlugin from "~/index";
+import {
+  applyTypeStyle,
+  getTypeFilterKey,
+  TYPE_FILTER_MODE_LABELS,
+  type CanvasTypeFilter,
+  type TypeFilterKey,
+  type TypeFilterMode,
+} from "~/components/canvas/utils/canvasTypeFilter";
+import { getNodeTypeById, getRelationTypeById } from "~/utils/typeUtils";
+import { COLOR_PALETTE, toTldrawColor } from "~/utils/tldrawColors";
+import { isRelationsStoragePath } from "~/utils/relationsStore";
+
+type TypeFilterOverlayProps = {
+  plugin: DiscourseGraphPlugin;
+  typeFilter: CanvasTypeFilter;
+};
+
+type TypeFilterRow = {
+  key: TypeFilterKey;
+  label: string;
+  color?: string;
+  count: number;
+};
+
+const SIZE_LABELS: Record<TLDefaultSizeStyle, string> = {
+  s: "Small",
+  m: "Medium",
+  l: "Large",
+  xl: "Extra large",
+};
+
+const FONT_LABELS: Record<TLDefaultFontStyle, string> = {
+  draw: "Draw",
+  sans: "Sans",
+  serif: "Serif",
+  mono: "Mono",
+};
+
+const REFRESH_DEBOUNCE_MS = 300;
+
+/**
+ * Applies the canvas type filter (dimmed and highlighted shapes are styled by
+ * id, hidden ones go through the editor's visibility callback) and shows its
+ * side panel when open.
+ */
+export const TypeFilterOverlay = ({
+  plugin,
+  typeFilter,
+}: TypeFilterOverlayProps) => {
+  const editor = useEditor();
+  const scope = useId();
+  const isPanelOpen = useValue(
+    "dgTypeFilterPanelOpen",
+    () => typeFilter.isPanelOpen.get(),
+    [typeFilter],
+  );
+  const modes = useValue("dgTypeFilterModes", () => typeFilter.modes.get(), [
+    typeFilter,
+  ]);
+  const needsTentative = isPanelOpen || !!modes.tentative;
+
+  useEffect(() => {
+    const container = editor.getContainer();
+    container.setAttribute("data-dg-type-filter", scope);
+    return () => container.removeAttribute("data-dg-type-filter");
+  }, [editor, scope]);
+
+  useEffect(() => {
+    if (!needsTentative) return;
+    const refresh = debounce(
+      () => {
+        typeFilter.refreshTentativeRelations(plugin).catch((error) => {
+          console.error("Error loading tentative relations:", error);
+        });
+      },
+      REFRESH_DEBOUNCE_MS,
+      true,
+    );
+    const onVaultChange = (file: TAbstractFile) => {
+      if (isRelationsStoragePath(plugin, file.path)) refresh();
+    };
+
+    refresh();
+    const ref = plugin.app.vault.on("modify", onVaultChange);
+    return () => {
+      refresh.cancel();
+      plugin.app.vault.offref(ref);
+    };
+  }, [needsTentative, plugin, typeFilter]);
+
+  const styledShapeIds = useValue(
+    "dgTypeFilterStyledShapes",
+    () => {
+      const dim: string[] = [];
+      const highlight: string[] = [];
+      if (Object.keys(typeFilter.modes.get()).length === 0) {
+        return { dim, highlight };
+      }
+      for (const shape of editor.getCurrentPageShapes()) {
+        const mode = typeFilter.getShapeMode(shape, editor);
+        if (mode === "dim") dim.push(shape.id);
+        if (mode === "highlight") highlight.push(shape.id);
+      }
+      return { dim, highlight };
+    },
+    [editor, typeFilter],
+  );
+
+  const rows = useValue(
+    "dgTypeFilterRows",
+    () => {
+      if (!typeFilter.isPanelOpen.get()) return [];
+      const counts = new Map<TypeFilterKey, number>();
+      const tentativeIds = typeFilter.tentativeRelationIds.get();
+      let tentativeCount = 0;
+      for (const page of editor.getPages()) {
+        for (const id of editor.getPageShapeIds(page.id)) {
+          const shape = editor.getShape(id);
+          if (!shape) continue;
+          const key = getTypeFilterKey(shape);
+          counts.set(key, (counts.get(key) ?? 0) + 1);
+          const relationInstanceId = shape.meta.relationInstanceId;
+          if (
+            typeof relationInstanceId === "string" &&
+            tentativeIds.has(relationInstanceId)
+          ) {
+            tentativeCount++;
+          }
+        }
+      }
+
+      const nodeRows: TypeFilterRow[] = [];
+      const relationRows: TypeFilterRow[] = [];
+      for (const [key, count] of counts) {
+        if (key.startsWith("node:")) {
+          const nodeType = getNodeTypeById(plugin, key.slice(5));
+          nodeRows.push({
+            key,
+            label: nodeType?.name ?? "Unknown node type",
+            color: nodeType?.color,
+            count,
+          });
+        } else if (key.startsWith("relation:")) {
+          const relationType = getRelationTypeById(plugin, key.slice(9));
+          relationRows.push({
+            key,
+            label: relationType?.label ?? "Unknown relation type",
+            color: COLOR_PALETTE[toTldrawColor(relationType?.color)],
+            count,
+          });
+        }
+      }
+      const byLabel = (a: TypeFilterRow, b: TypeFilterRow) =>
+        a.label.localeCompare(b.label);
+      return [
+        ...nodeRows.sort(byLabel),
+        ...relationRows.sort(byLabel),
+        ...(tentativeCount > 0
+          ? [
+              {
+                key: "tentative" as const,
+                label: "Tentative relations",
+                count: tentativeCount,
+              },
+            ]
+          : []),
+        ...(counts.get("other")
+          ? [
+              {
+                key: "other" as const,
+                label: "Other shapes",
+                count: counts.get("other")!,
+              },
+            ]
+          : []),
+      ];
+    },
+    [editor, plugin, typeFilter],
+  );
+
+  const isReadonly = useValue(
+    "isReadonly",
+    () => editor.getInstanceState().isReadonly,
+    [editor],
+  );
+
+  const selector = (ids: string[]) =>
+    ids
+      .map(
+        (id) =>
+          `[data-dg-type-filter="${scope}"] .tl-shape[data-shape-id="${id}"]`,
+      )
+      .join(",\n");
+
+  const handleRestyle = (
+    key: TypeFilterKey,
+    style: { size?: TLDefaultSizeStyle; font?: TLDefaultFontStyle },
+  ) => {
+    const count = applyTypeStyle({
+      editor,
+      key,
+      tentativeRelationIds: typeFilter.tentativeRelationIds.get(),
+      ...style,
+    });
+    new Notice(`Restyled ${count} shape(s)`, 3000);
+  };
+
+  const renderRow = (row: TypeFilterRow) => {
+    const mode = modes[row.key] ?? "show";
+    const canRestyle = row.key !== "other" && !isReadonly;
+    return (
+      <div key={row.key} className="border-t px-2 py-2">
+        <div className="flex items-center gap-2">
+          {row.color && (
+            <div
+              className="h-3 w-3 shrink-0 rounded-full"
+              style={{ backgroundColor: row.color }}
+            />
+          )}
+          <span className="flex-1 truncate">{row.label}</span>
+          <span className="text-muted text-xs">{row.count}</span>
+        </div>
+        <div className="mt-1 flex gap-1">
+          {(Object.keys(TYPE_FILTER_MODE_LABELS) as TypeFilterMode[]).map(
+            (option) => (
+              <button
+                key={option}
+                onClick={() => typeFilter.setMode(row.key, option)}
+                className={`px-2 py-1 text-xs ${
+                  option === mode ? "!bg-accent !text-on-accent" : ""
+                }`}
+              >
+                {TYPE_FILTER_MODE_LABELS[option]}
+              </button>
+            ),
+          )}
+        </div>
+        {canRestyle && (
+          <div className="mt-1 flex gap-1 text-xs">
+            <select
+              value=""
+              onChange={(e) =>
+                handleRestyle(row.key, {
+                  size: e.target.value as TLDefaultSizeStyle,
+                })
+              }
+            >
+              <option value="" disabled>
+                Size…
+              </option>
+              {(Object.keys(SIZE_LABELS) as TLDefaultSizeStyle[]).map(
+                (size) => (
+                  <option key={size} value={size}>
+                    {SIZE_LABELS[size]}
+                  </option>
+                ),
+              )}
+            </select>
+            <select
+              value=""
+              onChange={(e) =>
+                handleRestyle(row.key, {
+                  font: e.target.value as TLDefaultFontStyle,
+                })
+              }
+            >
+              <option value="" disabled>
+                Font…
+              </option>
+              {(Object.keys(FONT_LABELS) as TLDefaultFontStyle[]).map(
+                (font) => (
+                  <option key={font} value={font}>
+                    {FONT_LABELS[font]}
+                  </option>
+                ),
+              )}
+            </select>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      style={{ position: "absolute", inset: 0, pointerEvents: "none" }}
+      // Container overlay above the canvas
+    >
+      {(styledShapeIds.dim.length > 0 ||
+        styledShapeIds.highlight.length > 0) && (
+        <style>
+          {styledShapeIds.dim.length > 0 &&
+            `${selector(styledShapeIds.dim)} { opacity: 0.15 !important; }\n`}
+          {styledShapeIds.highlight.length > 0 &&
+            `${selector(styledShapeIds.highlight)} { filter: drop-shadow(0 0 6px var(--interactive-accent)); }`}
+        </style>
+      )}
+      {isPanelOpen && (
+        <div
+          className="bg-primary absolute right-2 top-12 z-10 flex max-h-[70%] w-72 flex-col rounded border text-sm shadow"
+          style={{ pointerEvents: "all" }}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center gap-2 px-2 py-2">
+            <span className="flex-1 font-medium">Filter by type</span>
+            <button
+              onClick={() => typeFilter.reset()}
+              disabled={Object.keys(modes).length === 0}
+              className="px-2 py-1 text-xs"
+            >
+              Show all
+            </button>
+            <button
+              onClick={() => typeFilter.togglePanel()}
+              className="px-2 py-1 text-xs"
+              title="Close"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="overflow-y-auto">
+            {rows.length === 0 ? (
+              <div className="text-muted border-t px-2 py-2">
+                No shapes on this canvas
+              </div>
+            ) : (
+              rows.map(renderRow)
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -66,6 +66,7 @@ import {
   getRelationLabelForDirection,
   isValidRelationConnection,
 } from "~/components/canvas/utils/relationTypeUtils";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
 import { getNodeTypeById, getRelationTypeById } from "~/utils/typeUtils";
 import { showToast } from "~/components/canvas/utils/toastUtils";
 
@@ -347,7 +348,9 @@ export class DiscourseRelationUtil extends ShapeUtil<DiscourseRelationShape> {
 
       if (sourceNodeTypeId && targetNodeTypeId && shape.props.relationTypeId) {
         const isValidConnection = isValidRelationConnection({
-          discourseRelations: this.options.plugin.settings.discourseRelations,
+          discourseRelations: getEffectiveDiscourseRelations(
+            this.options.plugin.settings,
+          ),
           relationTypeId: shape.props.relationTypeId,
           sourceNodeTypeId,
           targetNodeTypeId,
@@ -1085,7 +1088,7 @@ export class DiscourseRelationUtil extends ShapeUtil<DiscourseRelationShape> {
     if (!relationType) return;
 
     const newText = getRelationLabelForDirection({
-      discourseRelations: plugin.settings.discourseRelations,
+      discourseRelations: getEffectiveDiscourseRelations(plugin.settings),
       relationType,
       sourceNodeTypeId: startNodeTypeId,
       targetNodeTypeId: endNodeTypeId,
@@ -0,0 +1,509 @@
+import type { TFile } from "obsidian";
+import type { Editor, TLShape, TLShapeId, TLShapePartial } from "tldraw";
+import type { DiscourseNodeShape } from "~/components/canvas/shapes/DiscourseNodeShape";
+import type { DiscourseRelationShape } from "~/components/canvas/shapes/DiscourseRelationShape";
+import { getArrowBindings } from "~/components/canvas/utils/relationUtils";
+import { showToast } from "~/components/canvas/utils/toastUtils";
+
+export type CanvasLayoutAlgorithm = "layered" | "force" | "radial";
+
+export const CANVAS_LAYOUT_LABELS: Record<CanvasLayoutAlgorithm, string> = {
+  layered: "Layered",
+  force: "Force-directed",
+  radial: "Radial around selection",
+};
+
+type Point = { x: number; y: number };
+
+export type LayoutNode = {
+  id: TLShapeId;
+  width: number;
+  height: number;
+  /** Current center in page space. */
+  center: Point;
+};
+
+export type LayoutEdge = { source: TLShapeId; target: TLShapeId };
+
+export type LayoutGraph = { nodes: LayoutNode[]; edges: LayoutEdge[] };
+
+export type LayoutPositions = Map<TLShapeId, Point>;
+
+const NODE_GAP = 60;
+const LAYER_GAP = 120;
+const ORDERING_SWEEPS = 8;
+const FORCE_ITERATIONS = 300;
+
+const isMovableDiscourseNode = (
+  editor: Editor,
+  shape: TLShape,
+): shape is DiscourseNodeShape =>
+  shape.type === "discourse-node" &&
+  // Nodes inside frames or groups keep their place; moving them in page space
+  // would need their parent's transform.
+  shape.parentId === editor.getCurrentPageId() &&
+  !editor.isShapeOrAncestorLocked(shape);
+
+const getSelectedDiscourseNodes = (editor: Editor): DiscourseNodeShape[] =>
+  editor
+    .getSelectedShapes()
+    .filter((shape): shape is DiscourseNodeShape =>
+      isMovableDiscourseNode(editor, shape),
+    );
+
+/** Whether the radial layout has a node to center on. */
+export const canArrangeRadially = (editor: Editor): boolean =>
+  getSelectedDiscourseNodes(editor).length > 0;
+
+/**
+ * Collect the discourse nodes to arrange and the relations between them. The
+ * layered and force layouts arrange the selected nodes when two or more are
+ * selected, and every node on the page otherwise; the radial layout always
+ * arranges the whole page around the selection.
+ */
+const collectLayoutGraph = (
+  editor: Editor,
+  algorithm: CanvasLayoutAlgorithm,
+): LayoutGraph => {
+  const selected = getSelectedDiscourseNodes(editor);
+  const shapes =
+    algorithm !== "radial" && selected.length >= 2
+      ? selected
+      : editor
+          .getCurrentPageShapes()
+          .filter((shape): shape is DiscourseNodeShape =>
+            isMovableDiscourseNode(editor, shape),
+          );
+
+  const nodes: LayoutNode[] = [];
+  for (const shape of shapes) {
+    const bounds = editor.getShapePageBounds(shape);
+    if (!bounds) continue;
+    nodes.push({
+      id: shape.id,
+      width: bounds.width,
+      height: bounds.height,
+      center: { x: bounds.midX, y: bounds.midY },
+    });
+  }
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges: LayoutEdge[] = [];
+  for (const shape of editor.getCurrentPageShapes()) {
+    if (shape.type !== "discourse-relation") continue;
+    const { start, end } = getArrowBindings(
+      editor,
+      shape as DiscourseRelationShape,
+    );
+    if (!start || !end || start.toId === end.toId) continue;
+    if (!nodeIds.has(start.toId) || !nodeIds.has(end.toId)) continue;
+    edges.push({ source: start.toId, target: end.toId });
+  }
+
+  return { nodes, edges };
+};
+
+const getBoundsCenter = (
+  nodes: LayoutNode[],
+  positions: (node: LayoutNode) => Point,
+): Point => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const node of nodes) {
+    const { x, y } = positions(node);
+    minX = Math.min(minX, x - node.width / 2);
+    minY = Math.min(minY, y - node.height / 2);
+    maxX = Math.max(maxX, x + node.width / 2);
+    maxY = Math.max(maxY, y + node.height / 2);
+  }
+  return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+};
+
+/** Move the computed layout so it stays where the nodes were before. */
+const recenter = (graph: LayoutGraph, positions: LayoutPositions): void => {
+  const before = getBoundsCenter(graph.nodes, (node) => node.center);
+  const after = getBoundsCenter(
+    graph.nodes,
+    (node) => positions.get(node.id) ?? node.center,
+  );
+  const dx = before.x - after.x;
+  const dy = before.y - after.y;
+  for (const [id, point] of positions) {
+    positions.set(id, { x: point.x + dx, y: point.y + dy });
+  }
+};
+
+const buildAdjacency = (
+  graph: LayoutGraph,
+  directed: boolean,
+): Map<TLShapeId, TLShapeId[]> => {
+  const adjacency = new Map<TLShapeId, TLShapeId[]>(
+    graph.nodes.map((node) => [node.id, []]),
+  );
+  for (const { source, target } of graph.edges) {
+    adjacency.get(source)?.push(target);
+    if (!directed) adjacency.get(target)?.push(source);
+  }
+  return adjacency;
+};
+
+/**
+ * Sugiyama-style layout: relations point downwards from source to destination.
+ * Cycles are broken by ignoring back edges, layers are assigned by longest
+ * path, and nodes are ordered within each layer by repeated barycenter sweeps
+ * to reduce crossings.
+ */
+const layoutLayered = (graph: LayoutGraph): LayoutPositions => {
+  const nodeById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const outgoing = buildAdjacency(graph, true);
+
+  // Break cycles: drop edges that point back to a node on the DFS stack.
+  const state = new Map<TLShapeId, "visiting" | "done">();
+  const forwardEdges: LayoutEdge[] = [];
+  const topoOrder: TLShapeId[] = [];
+  const visit = (id: TLShapeId) => {
+    state.set(id, "visiting");
+    for (const target of outgoing.get(id) ?? []) {
+      const targetState = state.get(target);
+      if (targetState === "visiting") continue;
+      forwardEdges.push({ source: id, target });
+      if (!targetState) visit(target);
+    }
+    state.set(id, "done");
+    topoOrder.push(id);
+  };
+  // Start from the top-left so repeated runs give the same result.
+  const startOrder = [...graph.nodes].sort(
+    (a, b) => a.center.y - b.center.y || a.center.x - b.center.x,
+  );
+  for (const node of startOrder) {
+    if (!state.has(node.id)) visit(node.id);
+  }
+  topoOrder.reverse();
+
+  const incoming = new Map<TLShapeId, TLShapeId[]>(
+    graph.nodes.map((node) => [node.id, []]),
+  );
+  for (const { source, target } of forwardEdges) {
+    incoming.get(target)?.push(source);
+  }
+
+  const layerOf = new Map<TLShapeId, number>();
+  for (const id of topoOrder) {
+    const parents = incoming.get(id) ?? [];
+    layerOf.set(
+      id,
+      parents.length === 0
+        ? 0
+        : Math.max(...parents.map((parent) => (layerOf.get(parent) ?? 0) + 1)),
+    );
+  }
+
+  const layers: TLShapeId[][] = [];
+  for (const node of startOrder) {
+    const layer = layerOf.get(node.id) ?? 0;
+    (layers[layer] ??= []).push(node.id);
+  }
+  for (const layer of layers) {
+    layer.sort((a, b) => nodeById.get(a)!.center.x - nodeById.get(b)!.center.x);
+  }
+
+  const neighbors = buildAdjacency({ ...graph, edges: forwardEdges }, false);
+  const orderIndex = new Map<TLShapeId, number>();
+  const updateOrderIndex = () => {
+    for (const layer of layers) {
+      layer.forEach((id, index) => orderIndex.set(id, index / layer.length));
+    }
+  };
+  updateOrderIndex();
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const layerIndexes = layers.map((_, index) => index);
+    if (!downward) layerIndexes.reverse();
+    for (const layerIndex of layerIndexes) {
+      const layer = layers[layerIndex]!;
+      const barycenters = new Map<TLShapeId, number>();
+      for (const id of layer) {
+        const adjacent = (neighbors.get(id) ?? []).filter((other) => {
+          const otherLayer = layerOf.get(other) ?? 0;
+          return downward ? otherLayer < layerIndex : otherLayer > layerIndex;
+        });
+        barycenters.set(
+          id,
+          adjacent.length === 0
+            ? (orderIndex.get(id) ?? 0)
+            : adjacent.reduce(
+                (sum, other) => sum + (orderIndex.get(other) ?? 0),
+                0,
+              ) / adjacent.length,
+        );
+      }
+      layer.sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+      updateOrderIndex();
+    }
+  }
+
+  const positions: LayoutPositions = new Map();
+  let y = 0;
+  for (const layer of layers) {
+    const layerNodes = layer.map((id) => nodeById.get(id)!);
+    const layerHeight = Math.max(...layerNodes.map((node) => node.height));
+    const layerWidth =
+      layerNodes.reduce((sum, node) => sum + node.width, 0) +
+      NODE_GAP * (layerNodes.length - 1);
+    let x = -layerWidth / 2;
+    for (const node of layerNodes) {
+      positions.set(node.id, { x: x + node.width / 2, y: y + layerHeight / 2 });
+      x += node.width + NODE_GAP;
+    }
+    y += layerHeight + LAYER_GAP;
+  }
+  return positions;
+};
+
+/**
+ * Fruchterman-Reingold force-directed layout, starting from the current
+ * positions so that a second run refines rather than reshuffles the canvas.
+ */
+const layoutForce = (graph: LayoutGraph): LayoutPositions => {
+  const { nodes } = graph;
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  const radius = nodes.map((node) => Math.hypot(node.width, node.height) / 2);
+  const averageRadius =
+    radius.reduce((sum, value) => sum + value, 0) / nodes.length;
+  const idealLength = averageRadius * 2 + NODE_GAP;
+
+  const x = nodes.map((node) => node.center.x);
+  const y = nodes.map((node) => node.center.y);
+  // Spread out nodes stacked on top of each other, e.g. freshly dropped ones.
+  const seen = new Set<string>();
+  nodes.forEach((_, index) => {
+    const key = `${Math.round(x[index]!)}:${Math.round(y[index]!)}`;
+    if (seen.has(key)) {
+      const angle = index * 2.399963; // golden angle
+      x[index]! += Math.cos(angle) * idealLength;
+      y[index]! += Math.sin(angle) * idealLength;
+    }
+    seen.add(key);
+  });
+
+  const edges = graph.edges
+    .map(({ source, target }) => [
+      indexById.get(source)!,
+      indexById.get(target)!,
+    ])
+    .filter(([source, target]) => source !== target);
+
+  let temperature = idealLength * 2;
+  const cooling = temperature / FORCE_ITERATIONS;
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const dx = new Array<number>(nodes.length).fill(0);
+    const dy = new Array<number>(nodes.length).fill(0);
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const deltaX = x[i]! - x[j]!;
+        const deltaY = y[i]! - y[j]!;
+        const distance = Math.max(Math.hypot(deltaX, deltaY), 1);
+        // Measure the gap between node outlines so large nodes keep apart.
+        const gap = Math.max(distance - radius[i]! - radius[j]!, 1);
+        const force = (idealLength * idealLength) / gap;
+        dx[i]! += (deltaX / distance) * force;
+        dy[i]! += (deltaY / distance) * force;
+        dx[j]! -= (deltaX / distance) * force;
+        dy[j]! -= (deltaY / distance) * force;
+      }
+    }
+
+    for (const [source, target] of edges) {
+      const deltaX = x[source!]! - x[target!]!;
+      const deltaY = y[source!]! - y[target!]!;
+      const distance = Math.max(Math.hypot(deltaX, deltaY), 1);
+      const force = (distance * distance) / idealLength;
+      dx[source!]! -= (deltaX / distance) * force;
+      dy[source!]! -= (deltaY / distance) * force;
+      dx[target!]! += (deltaX / distance) * force;
+      dy[target!]! += (deltaY / distance) * force;
+    }
+
+    for (let i = 0; i < nodes.length; i++) {
+      const length = Math.max(Math.hypot(dx[i]!, dy[i]!), 1);
+      const step = Math.min(length, temperature);
+      x[i]! += (dx[i]! / length) * step;
+      y[i]! += (dy[i]! / length) * step;
+    }
+    temperature = Math.max(temperature - cooling, 1);
+  }
+
+  return new Map(
+    nodes.map((node, index) => [node.id, { x: x[index]!, y: y[index]! }]),
+  );
+};
+
+/**
+ * Concentric rings around the selected nodes: each ring holds the nodes one
+ * more relation away, ordered by the angle of the node they were reached
+ * from. Nodes not connected to the selection go on the outermost ring.
+ */
+export const layoutRadial = (
+  graph: LayoutGraph,
+  rootIds: TLShapeId[],
+): LayoutPositions => {
+  const nodeById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const neighbors = buildAdjacency(graph, false);
+  const roots = rootIds.filter((id) => nodeById.has(id));
+
+  const depth = new Map<TLShapeId, number>(roots.map((id) => [id, 0]));
+  const parentOf = new Map<TLShapeId, TLShapeId>();
+  const rings: TLShapeId[][] = [roots];
+  let frontier = roots;
+  while (frontier.length > 0) {
+    const next: TLShapeId[] = [];
+    for (const id of frontier) {
+      for (const neighbor of neighbors.get(id) ?? []) {
+        if (depth.has(neighbor)) continue;
+        depth.set(neighbor, rings.length);
+        parentOf.set(neighbor, id);
+        next.push(neighbor);
+      }
+    }
+    if (next.length > 0) rings.push(next);
+    frontier = next;
+  }
+  const unreached = graph.nodes
+    .filter((node) => !depth.has(node.id))
+    .map((node) => node.id);
+  if (unreached.length > 0) rings.push(unreached);
+
+  const center = getBoundsCenter(
+    roots.map((id) => nodeById.get(id)!),
+    (node) => node.center,
+  );
+  const maxSize = Math.max(
+    ...graph.nodes.map((node) => Math.hypot(node.width, node.height)),
+  );
+  const ringStep = maxSize + LAYER_GAP;
+
+  const positions: LayoutPositions = new Map();
+  const angleOf = new Map<TLShapeId, number>();
+  const angleAround = (id: TLShapeId) => {
+    const { x, y } = nodeById.get(id)!.center;
+    return Math.atan2(y - center.y, x - center.x);
+  };
+
+  let ringRadius = 0;
+  rings.forEach((ring, ringIndex) => {
+    if (ringIndex === 0 && ring.length === 1) {
+      positions.set(ring[0]!, center);
+      angleOf.set(ring[0]!, 0);
+      return;
+    }
+    const ordered = [...ring].sort((a, b) => {
+      const parentA = parentOf.get(a);
+      const parentB = parentOf.get(b);
+      const byParent =
+        (parentA ? (angleOf.get(parentA) ?? 0) : Infinity) -
+        (parentB ? (angleOf.get(parentB) ?? 0) : Infinity);
+      return Number.isNaN(byParent) || byParent === 0
+        ? angleAround(a) - angleAround(b)
+        : byParent;
+    });
+    // Grow the ring until its circumference fits every node on it.
+    const circumference = ring.length * (maxSize + NODE_GAP);
+    ringRadius = Math.max(
+      ringRadius + (ringIndex === 0 ? maxSize / 2 : ringStep),
+      circumference / (2 * Math.PI),
+    );
+    ordered.forEach((id, index) => {
+      const angle = (2 * Math.PI * index) / ordered.length - Math.PI / 2;
+      angleOf.set(id, angle);
+      positions.set(id, {
+        x: center.x + Math.cos(angle) * ringRadius,
+        y: center.y + Math.sin(angle) * ringRadius,
+      });
+    });
+  });
+  return positions;
+};
+
+const getLayoutPositions = (
+  editor: Editor,
+  graph: LayoutGraph,
+  algorithm: CanvasLayoutAlgorithm,
+): LayoutPositions => {
+  if (algorithm === "radial") {
+    return layoutRadial(
+      graph,
+      getSelectedDiscourseNodes(editor).map((shape) => shape.id),
+    );
+  }
+  const positions =
+    algorithm === "layered" ? layoutLayered(graph) : layoutForce(graph);
+  recenter(graph, positions);
+  return positions;
+};
+
+/**
+ * Arrange discourse nodes on the current page with the given layout. Relations
+ * stay bound to their nodes and follow them. The move is a single history
+ * step, so one undo restores the previous arrangement.
+ *
+ * @returns The number of nodes moved.
+ */
+export const arrangeCanvas = ({
+  editor,
+  canvasFile,
+  algorithm,
+}: {
+  editor: Editor;
+  canvasFile: TFile;
+  algorithm: CanvasLayoutAlgorithm;
+}): number => {
+  if (algorithm === "radial" && !canArrangeRadially(editor)) {
+    showToast({
+      severity: "warning",
+      title: "Arrange",
+      description: "Select a discourse node to arrange around.",
+      targetCanvasId: canvasFile.path,
+    });
+    return 0;
+  }
+
+  const graph = collectLayoutGraph(editor, algorithm);
+  if (graph.nodes.length < 2) {
+    showToast({
+      severity: "info",
+      title: "Arrange",
+      description: "There need to be at least two discourse nodes to arrange.",
+      targetCanvasId: canvasFile.path,
+    });
+    return 0;
+  }
+
+  const positions = getLayoutPositions(editor, graph, algorithm);
+  const updates: TLShapePartial<DiscourseNodeShape>[] = [];
+  for (const node of graph.nodes) {
+    const shape = editor.getShape<DiscourseNodeShape>(node.id);
+    const target = positions.get(node.id);
+    if (!shape || !target) continue;
+    const dx = target.x - node.center.x;
+    const dy = target.y - node.center.y;
+    if (Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5) continue;
+    updates.push({
+      id: shape.id,
+      type: shape.type,
+      x: shape.x + dx,
+      y: shape.y + dy,
+    });
+  }
+  if (updates.length === 0) return 0;
+
+  editor.markHistoryStoppingPoint(`arrange ${algorithm}`);
+  editor.run(() => {
+    editor.updateShapes(updates);
+  });
+  return updates.length;
+};
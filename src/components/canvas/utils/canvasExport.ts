@@ -0,0 +1,355 @@
+import { TFile } from "obsidian";
+import { getSvgAsImage, type Editor, type TLShapeId } from "tldraw";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNodeShape } from "~/components/canvas/shapes/DiscourseNodeShape";
+import type { DiscourseRelationShape } from "~/components/canvas/shapes/DiscourseRelationShape";
+import { showToast } from "~/components/canvas/utils/toastUtils";
+import { getNewUniqueFilepath } from "~/utils/file";
+import { COLOR_PALETTE, toTldrawColor } from "~/utils/tldrawColors";
+import { getRelationTypeById } from "~/utils/typeUtils";
+
+export type CanvasExportFormat = "svg" | "png" | "pdf";
+
+export const CANVAS_EXPORT_FORMAT_LABELS: Record<CanvasExportFormat, string> = {
+  svg: "SVG",
+  png: "PNG",
+  pdf: "PDF",
+};
+
+export const CANVAS_EXPORT_SCALES = [1, 2, 3, 4] as const;
+
+export type CanvasExportOptions = {
+  format: CanvasExportFormat;
+  scale: number;
+  selectionOnly: boolean;
+  includeLegend: boolean;
+  background: boolean;
+};
+
+export type LegendEntry = {
+  kind: "node" | "relation";
+  label: string;
+  color: string;
+};
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const EXPORT_PADDING = 32;
+const LEGEND_FONT_SIZE = 14;
+const LEGEND_ROW_HEIGHT = 24;
+const LEGEND_SWATCH_SIZE = 14;
+const LEGEND_TEXT_COLOR = COLOR_PALETTE.black!;
+
+const getExportShapeIds = (
+  editor: Editor,
+  selectionOnly: boolean,
+): TLShapeId[] =>
+  selectionOnly
+    ? editor.getSelectedShapeIds()
+    : Array.from(editor.getCurrentPageShapeIds());
+
+/**
+ * The node types and relation types used by the exported shapes, including
+ * shapes nested in frames and groups, with the colors they are drawn in.
+ */
+export const collectLegendEntries = ({
+  plugin,
+  editor,
+  shapeIds,
+}: {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  shapeIds: TLShapeId[];
+}): LegendEntry[] => {
+  const nodeTypeIds = new Set<string>();
+  const relationTypeIds = new Set<string>();
+  for (const id of editor.getShapeAndDescendantIds(shapeIds)) {
+    const shape = editor.getShape(id);
+    if (shape?.type === "discourse-node") {
+      nodeTypeIds.add((shape as DiscourseNodeShape).props.nodeTypeId);
+    } else if (shape?.type === "discourse-relation") {
+      relationTypeIds.add(
+        (shape as DiscourseRelationShape).props.relationTypeId,
+      );
+    }
+  }
+
+  const nodeEntries = plugin.settings.nodeTypes
+    .filter((nodeType) => nodeTypeIds.has(nodeType.id))
+    .map((nodeType): LegendEntry => ({
+      kind: "node",
+      label: nodeType.name,
+      color: nodeType.color ?? COLOR_PALETTE.white!,
+    }));
+  const relationEntries = Array.from(relationTypeIds)
+    .map((relationTypeId) => getRelationTypeById(plugin, relationTypeId))
+    .filter((relationType) => !!relationType)
+    .map((relationType): LegendEntry => ({
+      kind: "relation",
+      label: relationType.label,
+      color: COLOR_PALETTE[toTldrawColor(relationType.color)]!,
+    }));
+  return [...nodeEntries, ...relationEntries];
+};
+
+const createSvgElement = <K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string | number>,
+): SVGElementTagNameMap[K] => {
+  const element = document.createElementNS(SVG_NS, tag);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, String(value));
+  }
+  return element;
+};
+
+/**
+ * Append a legend below the exported drawing, growing the SVG's viewBox and
+ * size to fit. Node types are drawn as filled boxes and relation types as
+ * colored lines, as they appear on the canvas.
+ */
+const appendLegend = ({
+  svg,
+  entries,
+  scale,
+}: {
+  svg: SVGSVGElement;
+  entries: LegendEntry[];
+  scale: number;
+}): { width: number; height: number } => {
+  const [minX = 0, minY = 0, viewWidth = 0, viewHeight = 0] = (
+    svg.getAttribute("viewBox") ?? ""
+  )
+    .split(/[\s,]+/)
+    .map(Number);
+
+  const sections = (
+    [
+      ["Node types", entries.filter((entry) => entry.kind === "node")],
+      ["Relation types", entries.filter((entry) => entry.kind === "relation")],
+    ] as const
+  ).filter(([, sectionEntries]) => sectionEntries.length > 0);
+
+  const legend = createSvgElement("g", {
+    "font-family": "sans-serif",
+    "font-size": LEGEND_FONT_SIZE,
+    fill: LEGEND_TEXT_COLOR,
+  });
+  const left = minX + EXPORT_PADDING;
+  let y = minY + viewHeight;
+  let legendWidth = 0;
+  for (const [title, sectionEntries] of sections) {
+    y += LEGEND_ROW_HEIGHT;
+    const heading = createSvgElement("text", {
+      x: left,
+      y,
+      "font-weight": "bold",
+    });
+    heading.textContent = title;
+    legend.appendChild(heading);
+
+    for (const entry of sectionEntries) {
+      y += LEGEND_ROW_HEIGHT;
+      const swatchTop = y - LEGEND_SWATCH_SIZE + 2;
+      legend.appendChild(
+        entry.kind === "node"
+          ? createSvgElement("rect", {
+              x: left,
+              y: swatchTop,
+              width: LEGEND_SWATCH_SIZE * 2,
+              height: LEGEND_SWATCH_SIZE,
+              rx: 3,
+              fill: entry.color,
+              stroke: LEGEND_TEXT_COLOR,
+              "stroke-width": 1,
+            })
+          : createSvgElement("line", {
+              x1: left,
+              y1: swatchTop + LEGEND_SWATCH_SIZE / 2,
+              x2: left + LEGEND_SWATCH_SIZE * 2,
+              y2: swatchTop + LEGEND_SWATCH_SIZE / 2,
+              stroke: entry.color,
+              "stroke-width": 3,
+            }),
+      );
+      const label = createSvgElement("text", {
+        x: left + LEGEND_SWATCH_SIZE * 3,
+        y,
+      });
+      label.textContent = entry.label;
+      legend.appendChild(label);
+      // Rough text width; exact measurement would need the export fonts.
+      legendWidth = Math.max(
+        legendWidth,
+        LEGEND_SWATCH_SIZE * 3 + entry.label.length * LEGEND_FONT_SIZE * 0.6,
+      );
+    }
+  }
+  svg.appendChild(legend);
+
+  const newViewWidth = Math.max(viewWidth, legendWidth + EXPORT_PADDING * 2);
+  const newViewHeight = y - minY + EXPORT_PADDING;
+  const width = newViewWidth * scale;
+  const height = newViewHeight * scale;
+  svg.setAttribute(
+    "viewBox",
+    `${minX} ${minY} ${newViewWidth} ${newViewHeight}`,
+  );
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+  return { width, height };
+};
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Wrap a JPEG in a single-page PDF. The page is `pageWidth` by `pageHeight`
+ * points and the image is stretched to fill it, so a higher export scale
+ * gives a sharper image rather than a larger page.
+ */
+const buildPdfFromJpeg = async ({
+  jpeg,
+  pageWidth,
+  pageHeight,
+}: {
+  jpeg: Blob;
+  pageWidth: number;
+  pageHeight: number;
+}): Promise<ArrayBuffer> => {
+  const bitmap = await createImageBitmap(jpeg);
+  const { width: imageWidth, height: imageHeight } = bitmap;
+  bitmap.close();
+  const imageData = new Uint8Array(await jpeg.arrayBuffer());
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? textEncoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      write("stream\n");
+      write(stream);
+      write("\nendstream\n");
+    }
+    write("endobj\n");
+  };
+
+  write("%PDF-1.4\n");
+  writeObject("<< /Type /Catalog /Pages 2 0 R >>");
+  writeObject("<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+  writeObject(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`,
+  );
+  writeObject(
+    `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${imageData.length} >>`,
+    imageData,
+  );
+  writeObject(`<< /Length ${content.length} >>`, textEncoder.encode(content));
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  for (const offset of offsets) {
+    write(`${String(offset).padStart(10, "0")} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`,
+  );
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  }
+  return pdf.buffer;
+};
+
+/**
+ * Export the current page (or the selection) of a canvas to SVG, PNG or PDF,
+ * optionally with a legend of the node and relation types in use. The file is
+ * saved next to the canvas. Returns the created file, or null when there was
+ * nothing to export.
+ */
+export const exportCanvas = async ({
+  plugin,
+  editor,
+  canvasFile,
+  options,
+}: {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+  options: CanvasExportOptions;
+}): Promise<TFile | null> => {
+  const shapeIds = getExportShapeIds(editor, options.selectionOnly);
+  if (shapeIds.length === 0) {
+    showToast({
+      severity: "warning",
+      title: "Export canvas",
+      description: options.selectionOnly
+        ? "Nothing is selected"
+        : "This page is empty",
+      targetCanvasId: canvasFile.path,
+    });
+    return null;
+  }
+
+  const result = await editor.getSvgElement(shapeIds, {
+    scale: options.scale,
+    // Bitmap PDFs have no transparency, so always paint the background.
+    background: options.background || options.format === "pdf",
+    padding: EXPORT_PADDING,
+    darkMode: false,
+  });
+  if (!result) throw new Error("Could not render the canvas");
+
+  const { svg } = result;
+  let { width, height } = result;
+  if (options.includeLegend) {
+    const entries = collectLegendEntries({ plugin, editor, shapeIds });
+    if (entries.length > 0) {
+      ({ width, height } = appendLegend({
+        svg,
+        entries,
+        scale: options.scale,
+      }));
+    }
+  }
+  const svgString = new XMLSerializer().serializeToString(svg);
+
+  const folderpath = canvasFile.parent?.path ?? "/";
+  const filepath = getNewUniqueFilepath({
+    vault: plugin.app.vault,
+    filename: `${canvasFile.basename}.${options.format}`,
+    folderpath,
+  });
+
+  if (options.format === "svg") {
+    return plugin.app.vault.create(filepath, svgString);
+  }
+
+  const image = await getSvgAsImage(svgString, {
+    type: options.format === "png" ? "png" : "jpeg",
+    width,
+    height,
+    pixelRatio: 1,
+    quality: 0.92,
+  });
+  if (!image) throw new Error("Could not rasterize the canvas");
+
+  const data =
+    options.format === "png"
+      ? await image.arrayBuffer()
+      : await buildPdfFromJpeg({
+          jpeg: image,
+          pageWidth: width / options.scale,
+          pageHeight: height / options.scale,
+        });
+  return plugin.app.vault.createBinary(filepath, data);
+};
@@ -0,0 +1,474 @@
+import { debounce, type TFile } from "obsidian";
+import { createShapeId, type Editor, type TLShapeId } from "tldraw";
+import type DiscourseGraphPlugin from "~/index";
+import type { RelationHistoryBatch } from "~/services/RelationHistory";
+import type { RelationInstance } from "~/types";
+import type { DiscourseNodeShape } from "~/components/canvas/shapes/DiscourseNodeShape";
+import type { DiscourseRelationShape } from "~/components/canvas/shapes/DiscourseRelationShape";
+import { resolveLinkedFileFromSrc } from "~/components/canvas/stores/assetStore";
+import { persistRelationBetweenNodeShapes } from "~/components/canvas/utils/relationJsonUtils";
+import {
+  createOrUpdateArrowBinding,
+  getArrowBindings,
+} from "~/components/canvas/utils/relationUtils";
+import { getRelationLabelForDirection } from "~/components/canvas/utils/relationTypeUtils";
+import {
+  buildEndpointToFileMap,
+  getRelationGraph,
+  removeRelationBySourceDestinationType,
+  resolveEndpointToFile,
+} from "~/utils/relationsStore";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
+import { getRelationTypeById } from "~/utils/typeUtils";
+import { toTldrawColor } from "~/utils/tldrawColors";
+
+const AUTO_DRAW_META_KEY = "autoDrawRelations";
+const AUTO_DRAW_DEBOUNCE_MS = 1000;
+
+type CanvasNode = { file: TFile; shape: DiscourseNodeShape };
+
+export type ReconcileItem =
+  | {
+      /** A relation in relations.json between two nodes on the canvas has no arrow. */
+      kind: "missingArrow";
+      id: string;
+      relation: RelationInstance;
+      source: CanvasNode;
+      target: CanvasNode;
+    }
+  | {
+      /** An arrow on the canvas has no relation in relations.json. */
+      kind: "orphanArrow";
+      id: string;
+      arrow: DiscourseRelationShape;
+      source: CanvasNode;
+      target: CanvasNode;
+    }
+  | {
+      /** An arrow's type differs from the relation between its nodes. */
+      kind: "typeMismatch";
+      id: string;
+      arrow: DiscourseRelationShape;
+      relation: RelationInstance;
+      source: CanvasNode;
+      target: CanvasNode;
+    };
+
+/**
+ * "canvas" makes the canvas match relations.json, "graph" makes relations.json
+ * match the canvas.
+ */
+export type ReconcileChoice = "skip" | "canvas" | "graph";
+
+export type ReconcileResult = { applied: number; failed: number };
+
+const getPairKey = (a: string, b: string): string =>
+  a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+
+const collectCanvasNodes = async (
+  plugin: DiscourseGraphPlugin,
+  editor: Editor,
+  canvasFile: TFile,
+): Promise<Map<TLShapeId, CanvasNode>> => {
+  const nodes = new Map<TLShapeId, CanvasNode>();
+  for (const shape of editor.getCurrentPageShapes()) {
+    if (shape.type !== "discourse-node") continue;
+    const nodeShape = shape as DiscourseNodeShape;
+    const file = await resolveLinkedFileFromSrc({
+      app: plugin.app,
+      canvasFile,
+      src: nodeShape.props.src ?? undefined,
+    });
+    if (file) nodes.set(shape.id, { file, shape: nodeShape });
+  }
+  return nodes;
+};
+
+/**
+ * Compare the arrows on the current page of a canvas with the relations in
+ * relations.json between the nodes on that page. Tentative relations are
+ * ignored since they are not drawn on canvases.
+ */
+export const auditCanvas = async ({
+  plugin,
+  editor,
+  canvasFile,
+}: {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+}): Promise<ReconcileItem[]> => {
+  const nodes = await collectCanvasNodes(plugin, editor, canvasFile);
+  const nodeByPath = new Map<string, CanvasNode>();
+  for (const node of nodes.values()) {
+    if (!nodeByPath.has(node.file.path)) nodeByPath.set(node.file.path, node);
+  }
+
+  const graph = await getRelationGraph(plugin);
+  const endpointToFile = buildEndpointToFileMap(plugin);
+  const relations = new Map<
+    string,
+    { relation: RelationInstance; source: CanvasNode; target: CanvasNode }
+  >();
+  for (const [endpointId, file] of endpointToFile) {
+    const source = nodeByPath.get(file.path);
+    if (!source) continue;
+    for (const neighbor of graph.getNeighbors(endpointId, {
+      direction: "outgoing",
+      includeTentative: false,
+    })) {
+      const targetFile = resolveEndpointToFile(
+        plugin,
+        neighbor.endpointId,
+        endpointToFile,
+      );
+      const target = targetFile ? nodeByPath.get(targetFile.path) : undefined;
+      if (!target || target.file.path === source.file.path) continue;
+      relations.set(neighbor.relation.id, {
+        relation: neighbor.relation,
+        source,
+        target,
+      });
+    }
+  }
+
+  const arrows: {
+    arrow: DiscourseRelationShape;
+    source: CanvasNode;
+    target: CanvasNode;
+  }[] = [];
+  for (const shape of editor.getCurrentPageShapes()) {
+    if (shape.type !== "discourse-relation") continue;
+    const arrow = shape as DiscourseRelationShape;
+    if (!arrow.props.relationTypeId) continue;
+    const { start, end } = getArrowBindings(editor, arrow);
+    const source = start ? nodes.get(start.toId) : undefined;
+    const target = end ? nodes.get(end.toId) : undefined;
+    if (!source || !target || source.file.path === target.file.path) continue;
+    arrows.push({ arrow, source, target });
+  }
+
+  // A relation is drawn when an arrow of its type joins its two nodes, in
+  // either direction.
+  const represented = new Set<string>();
+  const unmatchedArrows: typeof arrows = [];
+  for (const entry of arrows) {
+    const pairKey = getPairKey(entry.source.file.path, entry.target.file.path);
+    const matches = Array.from(relations.values()).filter(
+      ({ relation, source, target }) =>
+        relation.type === entry.arrow.props.relationTypeId &&
+        getPairKey(source.file.path, target.file.path) === pairKey,
+    );
+    if (matches.length === 0) unmatchedArrows.push(entry);
+    for (const { relation } of matches) represented.add(relation.id);
+  }
+
+  const items: ReconcileItem[] = [];
+  for (const { arrow, source, target } of unmatchedArrows) {
+    const pairKey = getPairKey(source.file.path, target.file.path);
+    const undrawn = Array.from(relations.values()).find(
+      ({ relation, source: relationSource, target: relationTarget }) =>
+        !represented.has(relation.id) &&
+        getPairKey(relationSource.file.path, relationTarget.file.path) ===
+          pairKey,
+    );
+    if (undrawn) {
+      represented.add(undrawn.relation.id);
+      items.push({
+        kind: "typeMismatch",
+        id: arrow.id,
+        arrow,
+        relation: undrawn.relation,
+        source,
+        target,
+      });
+    } else {
+      items.push({ kind: "orphanArrow", id: arrow.id, arrow, source, target });
+    }
+  }
+
+  for (const { relation, source, target } of relations.values()) {
+    if (represented.has(relation.id)) continue;
+    items.push({
+      kind: "missingArrow",
+      id: relation.id,
+      relation,
+      source,
+      target,
+    });
+  }
+
+  return items;
+};
+
+const getArrowLabel = (
+  plugin: DiscourseGraphPlugin,
+  relationTypeId: string,
+  start: DiscourseNodeShape,
+  end: DiscourseNodeShape,
+): string => {
+  const relationType = getRelationTypeById(plugin, relationTypeId);
+  if (!relationType) return "";
+  return getRelationLabelForDirection({
+    discourseRelations: getEffectiveDiscourseRelations(plugin.settings),
+    relationType,
+    sourceNodeTypeId: start.props.nodeTypeId,
+    targetNodeTypeId: end.props.nodeTypeId,
+  });
+};
+
+/** Draw a bound discourse-relation arrow for a relation that already exists. */
+const drawRelationArrow = (
+  plugin: DiscourseGraphPlugin,
+  editor: Editor,
+  {
+    relation,
+    source,
+    target,
+  }: { relation: RelationInstance; source: CanvasNode; target: CanvasNode },
+): void => {
+  const relationType = getRelationTypeById(plugin, relation.type);
+  if (!relationType) {
+    throw new Error(`Unknown relation type ${relation.type}`);
+  }
+  const sourceBounds = editor.getShapePageBounds(source.shape);
+  const color = toTldrawColor(relationType.color);
+  const id = createShapeId();
+
+  editor.createShape<DiscourseRelationShape>({
+    id,
+    type: "discourse-relation",
+    x: sourceBounds?.midX ?? source.shape.x,
+    y: sourceBounds?.midY ?? source.shape.y,
+    meta: { relationInstanceId: relation.id },
+    props: {
+      color,
+      labelColor: color,
+      text: getArrowLabel(plugin, relation.type, source.shape, target.shape),
+      relationTypeId: relation.type,
+    },
+  });
+  const arrow = editor.getShape<DiscourseRelationShape>(id);
+  if (!arrow) return;
+
+  for (const [terminal, node] of [
+    ["start", source],
+    ["end", target],
+  ] as const) {
+    createOrUpdateArrowBinding(editor, arrow, node.shape.id, {
+      terminal,
+      normalizedAnchor: { x: 0.5, y: 0.5 },
+      isPrecise: false,
+      isExact: false,
+      snap: "none",
+    });
+  }
+};
+
+const saveArrowRelation = async (
+  plugin: DiscourseGraphPlugin,
+  editor: Editor,
+  canvasFile: TFile,
+  {
+    arrow,
+    source,
+    target,
+  }: { arrow: DiscourseRelationShape; source: CanvasNode; target: CanvasNode },
+  batch: RelationHistoryBatch,
+): Promise<void> => {
+  const result = await persistRelationBetweenNodeShapes({
+    plugin,
+    canvasFile,
+    editor,
+    startNode: source.shape,
+    endNode: target.shape,
+    relationTypeId: arrow.props.relationTypeId,
+    batch,
+  });
+  if (!result.ok) throw new Error("Could not save the relation");
+  editor.updateShape({
+    id: arrow.id,
+    type: arrow.type,
+    meta: { ...arrow.meta, relationInstanceId: result.relationInstanceId },
+  });
+};
+
+const applyItem = async (
+  plugin: DiscourseGraphPlugin,
+  editor: Editor,
+  canvasFile: TFile,
+  item: ReconcileItem,
+  choice: Exclude<ReconcileChoice, "skip">,
+  batch: RelationHistoryBatch,
+): Promise<void> => {
+  switch (item.kind) {
+    case "missingArrow":
+      if (choice === "canvas") {
+        drawRelationArrow(plugin, editor, item);
+      } else {
+        await removeRelationBySourceDestinationType(
+          plugin,
+          item.relation.source,
+          item.relation.destination,
+          item.relation.type,
+          { batch },
+        );
+      }
+      return;
+    case "orphanArrow":
+      if (choice === "canvas") {
+        editor.deleteShape(item.arrow.id);
+      } else {
+        await saveArrowRelation(plugin, editor, canvasFile, item, batch);
+      }
+      return;
+    case "typeMismatch": {
+      if (choice === "canvas") {
+        const relationType = getRelationTypeById(plugin, item.relation.type);
+        if (!relationType) {
+          throw new Error(`Unknown relation type ${item.relation.type}`);
+        }
+        const color = toTldrawColor(relationType.color);
+        editor.updateShape<DiscourseRelationShape>({
+          id: item.arrow.id,
+          type: item.arrow.type,
+          meta: { ...item.arrow.meta, relationInstanceId: item.relation.id },
+          props: {
+            relationTypeId: relationType.id,
+            color,
+            labelColor: color,
+            text: getArrowLabel(
+              plugin,
+              relationType.id,
+              item.source.shape,
+              item.target.shape,
+            ),
+          },
+        });
+      } else {
+        await saveArrowRelation(plugin, editor, canvasFile, item, batch);
+        await removeRelationBySourceDestinationType(
+          plugin,
+          item.relation.source,
+          item.relation.destination,
+          item.relation.type,
+          { batch },
+        );
+      }
+      return;
+    }
+  }
+};
+
+/**
+ * Apply the chosen fixes. Canvas edits form one tldraw history step and
+ * relation changes one relation history step.
+ */
+export const applyReconciliation = async ({
+  plugin,
+  editor,
+  canvasFile,
+  items,
+  choices,
+}: {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+  items: ReconcileItem[];
+  choices: Map<string, ReconcileChoice>;
+}): Promise<ReconcileResult> => {
+  const result: ReconcileResult = { applied: 0, failed: 0 };
+  editor.markHistoryStoppingPoint("reconcile with graph");
+  await plugin.relationHistory.runBatch("Reconcile canvas", async (batch) => {
+    for (const item of items) {
+      const choice = choices.get(item.id) ?? "skip";
+      if (choice === "skip") continue;
+      try {
+        await applyItem(plugin, editor, canvasFile, item, choice, batch);
+        result.applied++;
+      } catch (error) {
+        console.error(`Failed to reconcile ${item.kind} ${item.id}:`, error);
+        result.failed++;
+      }
+    }
+  });
+  return result;
+};
+
+export const isAutoDrawRelationsEnabled = (editor: Editor): boolean =>
+  editor.getDocumentSettings().meta[AUTO_DRAW_META_KEY] === true;
+
+/** Stored in the canvas document, so the setting travels with the canvas. */
+export const setAutoDrawRelations = (
+  editor: Editor,
+  enabled: boolean,
+): void => {
+  const { meta } = editor.getDocumentSettings();
+  editor.updateDocumentSettings({
+    meta: { ...meta, [AUTO_DRAW_META_KEY]: enabled },
+  });
+};
+
+/** Draw an arrow for every relation between nodes on the canvas that lacks one. */
+export const drawMissingRelationArrows = async ({
+  plugin,
+  editor,
+  canvasFile,
+}: {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+}): Promise<number> => {
+  const missing = (await auditCanvas({ plugin, editor, canvasFile })).filter(
+    (item) => item.kind === "missingArrow",
+  );
+  if (missing.length === 0) return 0;
+  editor.markHistoryStoppingPoint("draw existing relations");
+  let drawn = 0;
+  for (const item of missing) {
+    try {
+      drawRelationArrow(plugin, editor, item);
+      drawn++;
+    } catch (error) {
+      console.error(`Failed to draw relation ${item.relation.id}:`, error);
+    }
+  }
+  return drawn;
+};
+
+/**
+ * When auto-draw is enabled for the canvas, draw existing relations as soon as
+ * a discourse node lands next to a node it is related to.
+ */
+export const registerAutoDrawRelations = ({
+  plugin,
+  editor,
+  canvasFile,
+}: {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+}): (() => void) => {
+  // Wait for the block reference of a new node to reach the metadata cache.
+  const draw = debounce(
+    () => {
+      if (!isAutoDrawRelationsEnabled(editor)) return;
+      void drawMissingRelationArrows({ plugin, editor, canvasFile }).catch(
+        (error) => console.error("Failed to draw existing relations:", error),
+      );
+    },
+    AUTO_DRAW_DEBOUNCE_MS,
+    true,
+  );
+  draw();
+  const removeHandler = editor.sideEffects.registerAfterCreateHandler(
+    "shape",
+    (shape) => {
+      if (shape.type === "discourse-node") draw();
+    },
+  );
+  return () => {
+    draw.cancel();
+    removeHandler();
+  };
+};
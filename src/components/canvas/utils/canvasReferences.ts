@@ -0,0 +1,182 @@
+import { TFile } from "obsidian";
+import type { Editor, TLShapeId } from "tldraw";
+import type DiscourseGraphPlugin from "~/index";
+import { FRONTMATTER_KEY, VIEW_TYPE_TLDRAW_DG_PREVIEW } from "~/constants";
+import { TldrawView } from "~/components/canvas/TldrawView";
+import { resolveLinkedFileFromSrc } from "~/components/canvas/stores/assetStore";
+import {
+  getUpdatedMdContent,
+  parseTLDataFromContent,
+  type TLData,
+} from "~/components/canvas/utils/tldraw";
+import { revealShapes } from "~/components/canvas/utils/canvasSearch";
+
+export type CanvasReference = {
+  canvasFile: TFile;
+  shapeIds: TLShapeId[];
+};
+
+const EDITOR_MOUNT_TIMEOUT_MS = 5000;
+const EDITOR_MOUNT_POLL_MS = 100;
+
+export const isCanvasFile = (
+  plugin: DiscourseGraphPlugin,
+  file: TFile,
+): boolean =>
+  !!plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[FRONTMATTER_KEY];
+
+type CanvasShapeRecord = {
+  id: TLShapeId;
+  typeName?: string;
+  type?: string;
+  props?: { src?: string | null; nodeTypeId?: string | null };
+};
+
+const getDiscourseNodeRecords = (data: TLData | null): CanvasShapeRecord[] => {
+  const records = data?.raw?.records;
+  if (!records) return [];
+  return (
+    (Array.isArray(records)
+      ? records
+      : Object.values(records)) as CanvasShapeRecord[]
+  ).filter(
+    (record) => record.typeName === "shape" && record.type === "discourse-node",
+  );
+};
+
+/**
+ * The notes shown on a canvas file, as a map from note path to the
+ * discourse-node shapes linking to it, read from the file's saved data.
+ */
+export const getCanvasNodeLinks = async (
+  plugin: DiscourseGraphPlugin,
+  canvasFile: TFile,
+): Promise<Map<string, TLShapeId[]>> => {
+  const links = new Map<string, TLShapeId[]>();
+  const data = parseTLDataFromContent(
+    await plugin.app.vault.cachedRead(canvasFile),
+  );
+
+  for (const shape of getDiscourseNodeRecords(data)) {
+    const linkedFile = await resolveLinkedFileFromSrc({
+      app: plugin.app,
+      canvasFile,
+      src: shape.props?.src ?? undefined,
+    });
+    if (!linkedFile) continue;
+    links.set(linkedFile.path, [
+      ...(links.get(linkedFile.path) ?? []),
+      shape.id,
+    ]);
+  }
+  return links;
+};
+
+const waitForEditor = async (view: TldrawView): Promise<Editor | null> => {
+  const deadline = Date.now() + EDITOR_MOUNT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const editor = view.getEditor();
+    if (editor) return editor;
+    await new Promise((resolve) => setTimeout(resolve, EDITOR_MOUNT_POLL_MS));
+  }
+  return null;
+};
+
+/** Open a canvas in the canvas view and reveal the given shapes in it. */
+export const openCanvasAndRevealShapes = async (
+  plugin: DiscourseGraphPlugin,
+  { canvasFile, shapeIds }: CanvasReference,
+) => {
+  const leaf = plugin.app.workspace.getLeaf(false);
+  await leaf.setViewState({
+    type: VIEW_TYPE_TLDRAW_DG_PREVIEW,
+    state: { file: canvasFile.path },
+    active: true,
+  });
+  if (!(leaf.view instanceof TldrawView)) return;
+  const editor = await waitForEditor(leaf.view);
+  if (editor) revealShapes(editor, shapeIds);
+};
+
+/**
+ * Every canvas with discourse-node shapes of the given node type, read from
+ * the canvas files' saved data.
+ */
+export const getCanvasReferencesForNodeType = async (
+  plugin: DiscourseGraphPlugin,
+  nodeTypeId: string,
+): Promise<CanvasReference[]> => {
+  const references: CanvasReference[] = [];
+  for (const file of plugin.app.vault.getMarkdownFiles()) {
+    if (!isCanvasFile(plugin, file)) continue;
+    try {
+      const data = parseTLDataFromContent(
+        await plugin.app.vault.cachedRead(file),
+      );
+      const shapeIds = getDiscourseNodeRecords(data)
+        .filter((record) => record.props?.nodeTypeId === nodeTypeId)
+        .map((record) => record.id);
+      if (shapeIds.length > 0) {
+        references.push({ canvasFile: file, shapeIds });
+      }
+    } catch (error) {
+      console.error(`Failed to read canvas ${file.path}:`, error);
+    }
+  }
+  return references;
+};
+
+const getOpenCanvasEditor = (
+  plugin: DiscourseGraphPlugin,
+  canvasFile: TFile,
+): Editor | null => {
+  for (const leaf of plugin.app.workspace.getLeavesOfType(
+    VIEW_TYPE_TLDRAW_DG_PREVIEW,
+  )) {
+    const view = leaf.view;
+    if (view instanceof TldrawView && view.file?.path === canvasFile.path) {
+      const editor = view.getEditor();
+      if (editor) return editor;
+    }
+  }
+  return null;
+};
+
+/**
+ * Change the node type of the given discourse-node shapes of a canvas. Open
+ * canvases are updated through their editor so the change isn't overwritten
+ * by their next save; others are rewritten on disk.
+ */
+export const setCanvasShapesNodeType = async (
+  plugin: DiscourseGraphPlugin,
+  { canvasFile, shapeIds }: CanvasReference,
+  nodeTypeId: string,
+): Promise<void> => {
+  const editor = getOpenCanvasEditor(plugin, canvasFile);
+  if (editor) {
+    editor.updateShapes(
+      shapeIds
+        .filter((id) => editor.getShape(id))
+        .map((id) => ({
+          id,
+          type: "discourse-node",
+          props: { nodeTypeId },
+        })),
+    );
+    return;
+  }
+
+  const content = await plugin.app.vault.read(canvasFile);
+  const data = parseTLDataFromContent(content);
+  if (!data) throw new Error("No canvas data found in this file");
+  const ids = new Set<string>(shapeIds);
+  for (const record of getDiscourseNodeRecords(data)) {
+    if (ids.has(record.id) && record.props) {
+      record.props.nodeTypeId = nodeTypeId;
+    }
+  }
+  await plugin.app.vault.modify(
+    canvasFile,
+    getUpdatedMdContent(content, JSON.stringify(data, null, "\t")),
+  );
+};
@@ -0,0 +1,185 @@
+import type { TFile } from "obsidian";
+import {
+  Box,
+  renderPlaintextFromRichText,
+  type Editor,
+  type TLRichText,
+  type TLShape,
+  type TLShapeId,
+} from "tldraw";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNodeShape } from "~/components/canvas/shapes/DiscourseNodeShape";
+import type { DiscourseRelationShape } from "~/components/canvas/shapes/DiscourseRelationShape";
+import { resolveLinkedFileFromSrc } from "~/components/canvas/stores/assetStore";
+import { getNodeTypeById, getRelationTypeById } from "~/utils/typeUtils";
+
+export type CanvasSearchMatchKind = "node" | "relation" | "text";
+
+export type CanvasSearchMatch = {
+  shapeId: TLShapeId;
+  kind: CanvasSearchMatchKind;
+  /** The shape's own text, shown in the results. */
+  label: string;
+};
+
+type SearchableShape = {
+  shape: TLShape;
+  kind: CanvasSearchMatchKind;
+  label: string;
+  /** Every string the query is matched against. */
+  haystack: string[];
+};
+
+const REVEAL_INSET = 64;
+
+export const OPEN_CANVAS_SEARCH_EVENT = "dg-open-canvas-search";
+
+export type OpenCanvasSearchEvent = {
+  targetCanvasId: string;
+};
+
+/** Ask the canvas open on `targetCanvasId` to show its search bar. */
+export const dispatchOpenCanvasSearch = (targetCanvasId: string) => {
+  document.dispatchEvent(
+    new CustomEvent<OpenCanvasSearchEvent>(OPEN_CANVAS_SEARCH_EVENT, {
+      detail: { targetCanvasId },
+    }),
+  );
+};
+
+const getShapeText = (editor: Editor, shape: TLShape): string => {
+  const props = shape.props as {
+    name?: string;
+    text?: string;
+    richText?: TLRichText;
+  };
+  if (shape.type === "frame") return props.name ?? "";
+  if (props.richText) {
+    return renderPlaintextFromRichText(editor, props.richText);
+  }
+  return props.text ?? "";
+};
+
+const toSearchable = async ({
+  plugin,
+  editor,
+  canvasFile,
+  shape,
+}: {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+  shape: TLShape;
+}): Promise<SearchableShape | null> => {
+  if (shape.type === "discourse-node") {
+    const { title, nodeTypeId, src } = (shape as DiscourseNodeShape).props;
+    const linkedFile = await resolveLinkedFileFromSrc({
+      app: plugin.app,
+      canvasFile,
+      src: src ?? undefined,
+    });
+    return {
+      shape,
+      kind: "node",
+      label: title,
+      haystack: [
+        title,
+        getNodeTypeById(plugin, nodeTypeId)?.name ?? "",
+        linkedFile?.path ?? "",
+      ],
+    };
+  }
+  if (shape.type === "discourse-relation") {
+    const { text, relationTypeId } = (shape as DiscourseRelationShape).props;
+    const relationType = getRelationTypeById(plugin, relationTypeId);
+    return {
+      shape,
+      kind: "relation",
+      label: text || relationType?.label || "",
+      haystack: [
+        text,
+        relationType?.label ?? "",
+        relationType?.complement ?? "",
+      ],
+    };
+  }
+  const text = getShapeText(editor, shape).trim();
+  if (!text) return null;
+  return { shape, kind: "text", label: text, haystack: [text] };
+};
+
+/**
+ * Shapes on every page of the canvas matching the query: discourse nodes by
+ * title, node type or linked file, relations by label or relation type, and
+ * any other shape with text (text, notes, geo and arrow labels, frame names).
+ * Matches are ordered by page, then top to bottom and left to right.
+ */
+export const searchCanvas = async ({
+  plugin,
+  editor,
+  canvasFile,
+  query,
+}: {
+  plugin: DiscourseGraphPlugin;
+  editor: Editor;
+  canvasFile: TFile;
+  query: string;
+}): Promise<CanvasSearchMatch[]> => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const matches: CanvasSearchMatch[] = [];
+  for (const page of editor.getPages()) {
+    const pageMatches: { match: CanvasSearchMatch; x: number; y: number }[] =
+      [];
+    for (const id of editor.getPageShapeIds(page.id)) {
+      const shape = editor.getShape(id);
+      if (!shape) continue;
+      const searchable = await toSearchable({
+        plugin,
+        editor,
+        canvasFile,
+        shape,
+      });
+      if (!searchable) continue;
+      const haystack = searchable.haystack.join("\n").toLowerCase();
+      if (!terms.every((term) => haystack.includes(term))) continue;
+      const bounds = editor.getShapePageBounds(shape);
+      pageMatches.push({
+        match: {
+          shapeId: shape.id,
+          kind: searchable.kind,
+          label: searchable.label,
+        },
+        x: bounds?.x ?? 0,
+        y: bounds?.y ?? 0,
+      });
+    }
+    pageMatches.sort((a, b) => a.y - b.y || a.x - b.x);
+    matches.push(...pageMatches.map(({ match }) => match));
+  }
+  return matches;
+};
+
+/** Select the given shapes and zoom to them, switching page if needed. */
+export const revealShapes = (editor: Editor, shapeIds: TLShapeId[]) => {
+  const existing = shapeIds.filter((id) => editor.getShape(id));
+  if (existing.length === 0) return;
+  const pageId = editor.getAncestorPageId(existing[0]!);
+  if (pageId && pageId !== editor.getCurrentPageId()) {
+    editor.setCurrentPage(pageId);
+  }
+  const onPage = existing.filter(
+    (id) => editor.getAncestorPageId(id) === editor.getCurrentPageId(),
+  );
+  editor.select(...onPage);
+  const boxes = onPage
+    .map((id) => editor.getShapePageBounds(id))
+    .filter((box): box is Box => !!box);
+  if (boxes.length === 0) return;
+  editor.zoomToBounds(Box.Common(boxes), {
+    inset: REVEAL_INSET,
+    targetZoom: 1,
+    animation: { duration: 300 },
+  });
+};
@@ -0,0 +1,197 @@
+import {
+  atom,
+  type Editor,
+  type TLDefaultFontStyle,
+  type TLDefaultSizeStyle,
+  type TLShape,
+  type TLShapePartial,
+} from "tldraw";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNodeShape } from "~/components/canvas/shapes/DiscourseNodeShape";
+import type { DiscourseRelationShape } from "~/components/canvas/shapes/DiscourseRelationShape";
+import { getArrowBindings } from "~/components/canvas/utils/relationUtils";
+import { getRelationGraph } from "~/utils/relationsStore";
+
+export type TypeFilterMode = "show" | "dim" | "highlight" | "hide";
+
+export const TYPE_FILTER_MODE_LABELS: Record<TypeFilterMode, string> = {
+  show: "Show",
+  dim: "Dim",
+  highlight: "Highlight",
+  hide: "Hide",
+};
+
+/**
+ * What a filter rule applies to: the discourse nodes of a node type, the
+ * relations of a relation type, relations still awaiting acceptance, or every
+ * other shape.
+ */
+export type TypeFilterKey =
+  `node:${string}` | `relation:${string}` | "tentative" | "other";
+
+export const getTypeFilterKey = (shape: TLShape): TypeFilterKey => {
+  if (shape.type === "discourse-node") {
+    return `node:${(shape as DiscourseNodeShape).props.nodeTypeId}`;
+  }
+  if (shape.type === "discourse-relation") {
+    return `relation:${(shape as DiscourseRelationShape).props.relationTypeId}`;
+  }
+  return "other";
+};
+
+/** Shapes on every page of the canvas that a rule applies to. */
+export const getShapesForKey = (
+  editor: Editor,
+  key: TypeFilterKey,
+  tentativeRelationIds: ReadonlySet<string>,
+): TLShape[] =>
+  editor
+    .getPages()
+    .flatMap((page) => Array.from(editor.getPageShapeIds(page.id)))
+    .map((id) => editor.getShape(id))
+    .filter((shape): shape is TLShape => {
+      if (!shape) return false;
+      if (key === "tentative") {
+        return isTentativeRelation(shape, tentativeRelationIds);
+      }
+      return getTypeFilterKey(shape) === key;
+    });
+
+const isTentativeRelation = (
+  shape: TLShape,
+  tentativeRelationIds: ReadonlySet<string>,
+): boolean =>
+  shape.type === "discourse-relation" &&
+  typeof shape.meta.relationInstanceId === "string" &&
+  tentativeRelationIds.has(shape.meta.relationInstanceId);
+
+/**
+ * Set the size and font of every shape a rule applies to, as one undoable
+ * change. Discourse nodes resize themselves to fit the new text.
+ */
+export const applyTypeStyle = ({
+  editor,
+  key,
+  tentativeRelationIds,
+  size,
+  font,
+}: {
+  editor: Editor;
+  key: TypeFilterKey;
+  tentativeRelationIds: ReadonlySet<string>;
+  size?: TLDefaultSizeStyle;
+  font?: TLDefaultFontStyle;
+}): number => {
+  const updates: TLShapePartial[] = getShapesForKey(
+    editor,
+    key,
+    tentativeRelationIds,
+  ).flatMap((shape) => {
+    if (shape.type === "discourse-node") {
+      return [
+        {
+          id: shape.id,
+          type: shape.type,
+          props: {
+            ...(size && { size }),
+            ...(font && { fontFamily: font }),
+          },
+        },
+      ];
+    }
+    if ("size" in shape.props || "font" in shape.props) {
+      return [
+        {
+          id: shape.id,
+          type: shape.type,
+          props: {
+            ...(size && "size" in shape.props && { size }),
+            ...(font && "font" in shape.props && { font }),
+          },
+        },
+      ];
+    }
+    return [];
+  });
+  if (updates.length === 0) return 0;
+
+  editor.markHistoryStoppingPoint("restyle by type");
+  editor.run(() => editor.updateShapes(updates));
+  return updates.length;
+};
+
+/**
+ * View-only filtering of a canvas by node and relation type. Rules hide, dim
+ * or highlight the shapes they apply to without changing the document; a
+ * relation is hidden along with either of the nodes it connects. The rule for
+ * tentative relations wins over the rule for their relation type.
+ */
+export class CanvasTypeFilter {
+  readonly modes = atom<Partial<Record<TypeFilterKey, TypeFilterMode>>>(
+    "dgTypeFilterModes",
+    {},
+  );
+  /** Relation instance ids from relations.json that are not yet accepted. */
+  readonly tentativeRelationIds = atom<ReadonlySet<string>>(
+    "dgTypeFilterTentativeRelationIds",
+    new Set(),
+  );
+  readonly isPanelOpen = atom<boolean>("dgTypeFilterPanelOpen", false);
+
+  togglePanel() {
+    this.isPanelOpen.set(!this.isPanelOpen.get());
+  }
+
+  setMode(key: TypeFilterKey, mode: TypeFilterMode) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars -- we don't need the previous mode
+    const { [key]: _, ...rest } = this.modes.get();
+    this.modes.set(mode === "show" ? rest : { ...rest, [key]: mode });
+  }
+
+  reset() {
+    this.modes.set({});
+  }
+
+  async refreshTentativeRelations(plugin: DiscourseGraphPlugin) {
+    const graph = await getRelationGraph(plugin);
+    this.tentativeRelationIds.set(
+      new Set(
+        graph
+          .getAllRelations()
+          .filter((relation) => relation.tentative === false)
+          .map((relation) => relation.id),
+      ),
+    );
+  }
+
+  getShapeMode(shape: TLShape, editor: Editor): TypeFilterMode {
+    const modes = this.modes.get();
+    const tentativeMode = modes.tentative;
+    if (
+      tentativeMode &&
+      isTentativeRelation(shape, this.tentativeRelationIds.get())
+    ) {
+      return tentativeMode;
+    }
+    const mode = modes[getTypeFilterKey(shape)] ?? "show";
+    if (mode !== "hide" && shape.type === "discourse-relation") {
+      const { start, end } = getArrowBindings(
+        editor,
+        shape as DiscourseRelationShape,
+      );
+      const isEndpointHidden = [start, end].some((binding) => {
+        const node = binding && editor.getShape(binding.toId);
+        return !!node && modes[getTypeFilterKey(node)] === "hide";
+      });
+      if (isEndpointHidden) return "hide";
+    }
+    return mode;
+  }
+
+  /** Used as the editor's shape visibility callback. */
+  getShapeVisibility = (
+    shape: TLShape,
+    editor: Editor,
+  ): "hidden" | undefined =>
+    this.getShapeMode(shape, editor) === "hide" ? "hidden" : undefined;
+}
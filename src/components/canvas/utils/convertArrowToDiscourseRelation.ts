@@ -23,6 +23,7 @@ import {
   getValidRelationTypesForNodePair,
   isDiscourseNodeShape,
 } from "~/components/canvas/utils/relationTypeUtils";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
 import { getRelationTypeById } from "~/utils/typeUtils";
 import { toTldrawColor } from "~/utils/tldrawColors";
 import { showToast } from "./toastUtils";
@@ -192,7 +193,7 @@ export const convertArrowToDiscourseRelation = async ({
   if (!relationType) return;
 
   const { direct, reverse } = getRelationDirection({
-    discourseRelations: plugin.settings.discourseRelations,
+    discourseRelations: getEffectiveDiscourseRelations(plugin.settings),
     relationTypeId,
     sourceNodeTypeId: startNodeTypeId,
     targetNodeTypeId: endNodeTypeId,
@@ -215,7 +216,7 @@ export const convertArrowToDiscourseRelation = async ({
   }
 
   const relationLabel = getRelationLabelForDirection({
-    discourseRelations: plugin.settings.discourseRelations,
+    discourseRelations: getEffectiveDiscourseRelations(plugin.settings),
     relationType,
     sourceNodeTypeId: startNodeTypeId,
     targetNodeTypeId: endNodeTypeId,
@@ -90,6 +90,8 @@ const convertTextShapeToNode = ({
       nodeType: selectedNodeType,
       title,
       selectedExistingNode,
+      placeholderValues,
+      attributeValues,
     }) => {
       try {
         const file =
@@ -98,6 +100,8 @@ const convertTextShapeToNode = ({
             plugin,
             nodeType: selectedNodeType,
             text: title,
+            placeholderValues,
+            attributeValues,
           }));
 
         if (!file) {
@@ -156,6 +160,8 @@ const convertImageShapeToNode = async ({
       nodeType: selectedNodeType,
       title,
       selectedExistingNode,
+      placeholderValues,
+      attributeValues,
     }) => {
       try {
         const file =
@@ -164,6 +170,8 @@ const convertImageShapeToNode = async ({
             plugin,
             nodeType: selectedNodeType,
             text: title,
+            placeholderValues,
+            attributeValues,
           }));
 
         if (!file) {
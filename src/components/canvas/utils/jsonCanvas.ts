@@ -0,0 +1,781 @@
+import { TFile } from "obsidian";
+import {
+  createBindingId,
+  createShapeId,
+  createTLStore,
+  defaultBindingUtils,
+  defaultShapeUtils,
+  getIndices,
+  PageRecordType,
+  toRichText,
+  type TLArrowBinding,
+  type TLArrowShape,
+  type TLBinding,
+  type TLDefaultColorStyle,
+  type TLFrameShape,
+  type TLGeoShape,
+  type TLPageId,
+  type TLParentId,
+  type TLRecord,
+  type TLShape,
+  type TLShapeId,
+  type TLStore,
+  ZERO_INDEX_KEY,
+} from "tldraw";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseRelationType } from "~/types";
+import { FRONTMATTER_KEY } from "~/constants";
+import {
+  DEFAULT_DISCOURSE_NODE_PROPS,
+  DiscourseNodeUtil,
+  type DiscourseNodeShape,
+} from "~/components/canvas/shapes/DiscourseNodeShape";
+import {
+  DiscourseRelationUtil,
+  type DiscourseRelationShape,
+} from "~/components/canvas/shapes/DiscourseRelationShape";
+import {
+  DiscourseRelationBindingUtil,
+  type RelationBinding,
+} from "~/components/canvas/shapes/DiscourseRelationBinding";
+import { discourseNodeMigrations } from "~/components/canvas/shapes/discourseNodeMigrations";
+import {
+  getFrontmatterForFile,
+  getNodeTypeIdFromFrontmatter,
+} from "~/components/canvas/shapes/discourseNodeShapeUtils";
+import { resolveLinkedFileFromSrc } from "~/components/canvas/stores/assetStore";
+import { addRelationToRelationsJson } from "~/components/canvas/utils/relationJsonUtils";
+import {
+  getRelationDirection,
+  getRelationLabelForDirection,
+} from "~/components/canvas/utils/relationTypeUtils";
+import {
+  codeBlockTemplate,
+  createCanvas,
+  createRawTldrawFile,
+  frontmatterTemplate,
+  getTLDataTemplate,
+  loadTLDataIntoStore,
+  parseTLDataFromContent,
+  tlFileTemplate,
+} from "~/components/canvas/utils/tldraw";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
+import { removeRelationById } from "~/utils/relationsStore";
+import { getNewUniqueFilepath } from "~/utils/file";
+import { COLOR_PALETTE, toTldrawColor } from "~/utils/tldrawColors";
+import { getNodeTypeById } from "~/utils/typeUtils";
+
+// JSON Canvas 1.0, see https://jsoncanvas.org/spec/1.0/
+
+type JsonCanvasNodeBase = {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+};
+
+export type JsonCanvasNode = JsonCanvasNodeBase &
+  (
+    | { type: "text"; text: string }
+    | { type: "file"; file: string; subpath?: string }
+    | { type: "link"; url: string }
+    | {
+        type: "group";
+        label?: string;
+        background?: string;
+        backgroundStyle?: "cover" | "ratio" | "repeat";
+      }
+  );
+
+export type JsonCanvasEdge = {
+  id: string;
+  fromNode: string;
+  fromSide?: "top" | "right" | "bottom" | "left";
+  fromEnd?: "none" | "arrow";
+  toNode: string;
+  toSide?: "top" | "right" | "bottom" | "left";
+  toEnd?: "none" | "arrow";
+  color?: string;
+  label?: string;
+};
+
+export type JsonCanvasData = {
+  nodes?: JsonCanvasNode[];
+  edges?: JsonCanvasEdge[];
+};
+
+export type JsonCanvasImportResult = {
+  canvas: TFile;
+  discourseNodes: number;
+  otherNodes: number;
+  relations: number;
+  otherEdges: number;
+};
+
+export type JsonCanvasExportResult = {
+  file: TFile;
+  nodes: number;
+  edges: number;
+  skippedShapes: number;
+};
+
+/** The six JSON Canvas preset colors, in the closest tldraw colors. */
+const PRESET_TO_TLDRAW_COLOR: Record<string, TLDefaultColorStyle> = {
+  "1": "red",
+  "2": "orange",
+  "3": "yellow",
+  "4": "green",
+  "5": "light-blue",
+  "6": "violet",
+};
+
+const TLDRAW_COLOR_TO_PRESET: Partial<Record<TLDefaultColorStyle, string>> = {
+  red: "1",
+  "light-red": "1",
+  orange: "2",
+  yellow: "3",
+  green: "4",
+  "light-green": "4",
+  "light-blue": "5",
+  violet: "6",
+  "light-violet": "6",
+};
+
+const DEFAULT_TEXT_HEIGHT = 60;
+const DEFAULT_NOTE_SIZE = 200;
+
+const fromJsonCanvasColor = (color?: string): TLDefaultColorStyle =>
+  (color ? PRESET_TO_TLDRAW_COLOR[color] : undefined) ?? toTldrawColor(color);
+
+const toJsonCanvasColor = (color: string): string | undefined => {
+  if (color === "black") return undefined;
+  return (
+    TLDRAW_COLOR_TO_PRESET[color as TLDefaultColorStyle] ?? COLOR_PALETTE[color]
+  );
+};
+
+const createCanvasStore = (): TLStore =>
+  createTLStore({
+    shapeUtils: [
+      ...defaultShapeUtils,
+      DiscourseNodeUtil,
+      DiscourseRelationUtil,
+    ],
+    bindingUtils: [...defaultBindingUtils, DiscourseRelationBindingUtil],
+    migrations: [discourseNodeMigrations],
+  });
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+/**
+ * Find the relation an edge label stands for between two discourse nodes: the
+ * label of a relation type allowed from the first node type to the second, or
+ * the complement of one allowed the other way around.
+ */
+const matchEdgeRelation = ({
+  plugin,
+  label,
+  fromNodeTypeId,
+  toNodeTypeId,
+}: {
+  plugin: DiscourseGraphPlugin;
+  label: string;
+  fromNodeTypeId: string;
+  toNodeTypeId: string;
+}): { relationType: DiscourseRelationType; reversed: boolean } | null => {
+  const normalized = normalizeLabel(label);
+  for (const relationType of plugin.settings.relationTypes) {
+    const { direct, reverse } = getRelationDirection({
+      discourseRelations: getEffectiveDiscourseRelations(plugin.settings),
+      relationTypeId: relationType.id,
+      sourceNodeTypeId: fromNodeTypeId,
+      targetNodeTypeId: toNodeTypeId,
+    });
+    if (direct && normalizeLabel(relationType.label) === normalized) {
+      return { relationType, reversed: false };
+    }
+    if (reverse && normalizeLabel(relationType.complement) === normalized) {
+      return { relationType, reversed: true };
+    }
+  }
+  return null;
+};
+
+const isInside = (inner: JsonCanvasNodeBase, outer: JsonCanvasNodeBase) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const getCardText = (
+  plugin: DiscourseGraphPlugin,
+  node: JsonCanvasNode,
+  canvasPath: string,
+): string => {
+  switch (node.type) {
+    case "text":
+      return node.text;
+    case "link":
+      return node.url;
+    case "file": {
+      const file = plugin.app.vault.getAbstractFileByPath(node.file);
+      const linkText =
+        file instanceof TFile
+          ? plugin.app.metadataCache.fileToLinktext(file, canvasPath)
+          : node.file;
+      return `[[${linkText}${node.subpath ?? ""}]]`;
+    }
+    case "group":
+      return node.label ?? "";
+  }
+};
+
+type ResolvedNode = {
+  node: JsonCanvasNode;
+  file?: TFile;
+  nodeTypeId?: string;
+};
+
+type ResolvedEdge = {
+  edge: JsonCanvasEdge;
+  relation?: {
+    relationType: DiscourseRelationType;
+    relationInstanceId: string;
+    /** The JSON Canvas node the relation starts from. */
+    sourceId: string;
+  };
+};
+
+/**
+ * Build the markdown content of a canvas from a JSON Canvas. Discourse node
+ * file cards become discourse-node shapes, other cards become rectangles,
+ * groups become frames, and edges become relation arrows when they were
+ * resolved to a relation, plain arrows otherwise.
+ */
+const buildCanvasContentFromJsonCanvas = ({
+  plugin,
+  canvasPath,
+  nodes,
+  edges,
+}: {
+  plugin: DiscourseGraphPlugin;
+  canvasPath: string;
+  nodes: ResolvedNode[];
+  edges: ResolvedEdge[];
+}): string => {
+  const store = createCanvasStore();
+  const page = PageRecordType.create({
+    id: PageRecordType.createId("page"),
+    name: "Page 1",
+    index: ZERO_INDEX_KEY,
+  });
+
+  // Each card goes into the smallest group that fully contains it.
+  const groups = nodes
+    .map(({ node }) => node)
+    .filter((node) => node.type === "group")
+    .sort((a, b) => a.width * a.height - b.width * b.height);
+  const shapeIds = new Map(nodes.map(({ node }) => [node.id, createShapeId()]));
+  const getParent = (node: JsonCanvasNode): JsonCanvasNode | undefined =>
+    groups.find(
+      (group) =>
+        group.id !== node.id &&
+        group.width * group.height > node.width * node.height &&
+        isInside(node, group),
+    );
+
+  const linkBlocks: string[] = [];
+  const frameShapes: TLFrameShape[] = [];
+  const cardShapes: (DiscourseNodeShape | TLGeoShape)[] = [];
+  for (const { node, file, nodeTypeId } of nodes) {
+    const parent = getParent(node);
+    const base = {
+      id: shapeIds.get(node.id)!,
+      typeName: "shape" as const,
+      x: parent ? node.x - parent.x : node.x,
+      y: parent ? node.y - parent.y : node.y,
+      rotation: 0,
+      // Indices are assigned once all shapes are known.
+      index: ZERO_INDEX_KEY,
+      parentId: (parent ? shapeIds.get(parent.id)! : page.id) as TLParentId,
+      isLocked: false,
+      opacity: 1,
+      meta: {},
+    };
+
+    if (node.type === "group") {
+      frameShapes.push({
+        ...base,
+        type: "frame",
+        props: {
+          w: node.width,
+          h: node.height,
+          name: node.label ?? "",
+          color: fromJsonCanvasColor(node.color),
+        },
+      });
+    } else if (file && nodeTypeId) {
+      const blockRefId = crypto.randomUUID();
+      const linkText = plugin.app.metadataCache.fileToLinktext(
+        file,
+        canvasPath,
+      );
+      linkBlocks.push(`[[${linkText}]]\n^${blockRefId}\n`);
+      cardShapes.push({
+        ...base,
+        type: "discourse-node",
+        props: {
+          ...DEFAULT_DISCOURSE_NODE_PROPS,
+          w: node.width,
+          h: node.height,
+          src: `asset:obsidian.blockref.${blockRefId}`,
+          title: file.basename,
+          nodeTypeId,
+        },
+      });
+    } else {
+      cardShapes.push({
+        ...base,
+        type: "geo",
+        props: {
+          geo: "rectangle",
+          dash: "solid",
+          url: node.type === "link" ? node.url : "",
+          w: node.width,
+          h: node.height,
+          growY: 0,
+          scale: 1,
+          labelColor: "black",
+          color: fromJsonCanvasColor(node.color),
+          fill: "none",
+          size: "s",
+          font: "sans",
+          align: "start",
+          verticalAlign: "start",
+          richText: toRichText(getCardText(plugin, node, canvasPath)),
+        },
+      });
+    }
+  }
+
+  const nodeById = new Map(
+    nodes.map((resolved) => [resolved.node.id, resolved]),
+  );
+  const arrowShapes: (DiscourseRelationShape | TLArrowShape)[] = [];
+  const bindings: (RelationBinding | TLArrowBinding)[] = [];
+  for (const { edge, relation } of edges) {
+    const from = nodeById.get(edge.fromNode);
+    const to = nodeById.get(edge.toNode);
+    if (!from || !to) continue;
+    // Relation arrows point from the relation's source, which is the edge's
+    // target when the label was the relation type's complement.
+    const [start, end] =
+      relation?.sourceId === to.node.id ? [to, from] : [from, to];
+
+    const id = createShapeId();
+    const base = {
+      id,
+      typeName: "shape" as const,
+      x: start.node.x + start.node.width / 2,
+      y: start.node.y + start.node.height / 2,
+      rotation: 0,
+      index: ZERO_INDEX_KEY,
+      parentId: page.id,
+      isLocked: false,
+      opacity: 1,
+    };
+    const arrowProps = {
+      dash: "draw" as const,
+      size: "m" as const,
+      fill: "none" as const,
+      labelColor: "black" as const,
+      bend: 0,
+      // Will be updated by bindings
+      start: { x: 0, y: 0 },
+      end: { x: 100, y: 0 },
+      labelPosition: 0.5,
+      font: "draw" as const,
+      scale: 1,
+      kind: "arc" as const,
+      elbowMidPoint: 0,
+    };
+
+    if (relation) {
+      arrowShapes.push({
+        ...base,
+        type: "discourse-relation",
+        meta: { relationInstanceId: relation.relationInstanceId },
+        props: {
+          ...arrowProps,
+          color: toTldrawColor(relation.relationType.color),
+          arrowheadStart: "none",
+          arrowheadEnd: "arrow",
+          text: getRelationLabelForDirection({
+            discourseRelations: getEffectiveDiscourseRelations(plugin.settings),
+            relationType: relation.relationType,
+            sourceNodeTypeId: start.nodeTypeId ?? "",
+            targetNodeTypeId: end.nodeTypeId ?? "",
+          }),
+          relationTypeId: relation.relationType.id,
+        },
+      });
+    } else {
+      arrowShapes.push({
+        ...base,
+        type: "arrow",
+        meta: {},
+        props: {
+          ...arrowProps,
+          color: fromJsonCanvasColor(edge.color),
+          arrowheadStart: edge.fromEnd === "arrow" ? "arrow" : "none",
+          arrowheadEnd: edge.toEnd === "none" ? "none" : "arrow",
+          text: edge.label ?? "",
+        },
+      });
+    }
+
+    for (const [terminal, toId] of [
+      ["start", shapeIds.get(start.node.id)!],
+      ["end", shapeIds.get(end.node.id)!],
+    ] as const) {
+      bindings.push({
+        id: createBindingId(),
+        typeName: "binding",
+        type: relation ? "discourse-relation" : "arrow",
+        fromId: id,
+        toId,
+        meta: {},
+        props: {
+          terminal,
+          normalizedAnchor: { x: 0.5, y: 0.5 },
+          isPrecise: false,
+          isExact: false,
+          snap: "none",
+        },
+      });
+    }
+  }
+
+  // Larger frames go below smaller ones, and arrows below the cards they
+  // connect.
+  const shapes = [...frameShapes.reverse(), ...arrowShapes, ...cardShapes];
+  const indices = getIndices(shapes.length);
+  shapes.forEach((shape, i) => {
+    shape.index = indices[i]!;
+  });
+  store.put([page, ...shapes, ...bindings] as TLRecord[]);
+
+  const tlData = getTLDataTemplate({
+    pluginVersion: plugin.manifest.version,
+    tldrawFile: createRawTldrawFile(store),
+    uuid: window.crypto.randomUUID(),
+  });
+  return [
+    tlFileTemplate(
+      frontmatterTemplate(`${FRONTMATTER_KEY}: true`),
+      codeBlockTemplate(tlData),
+    ),
+    ...linkBlocks,
+  ].join("\n");
+};
+
+/**
+ * Convert an Obsidian `.canvas` file into a new Discourse Graph canvas. Edges
+ * between discourse nodes whose label matches a relation type are saved to
+ * relations.json and drawn as relation arrows. Returns null when the canvas
+ * could not be created, in which case the relations it added are removed.
+ */
+export const importJsonCanvas = async (
+  plugin: DiscourseGraphPlugin,
+  jsonCanvasFile: TFile,
+): Promise<JsonCanvasImportResult | null> => {
+  const data = JSON.parse(
+    await plugin.app.vault.read(jsonCanvasFile),
+  ) as JsonCanvasData;
+  const nodes: ResolvedNode[] = (data.nodes ?? []).map((node) => {
+    if (node.type !== "file") return { node };
+    const file = plugin.app.vault.getAbstractFileByPath(node.file);
+    if (!(file instanceof TFile) || node.subpath) return { node };
+    const nodeTypeId = getNodeTypeIdFromFrontmatter(
+      getFrontmatterForFile(plugin.app, file),
+    );
+    if (!nodeTypeId || !getNodeTypeById(plugin, nodeTypeId)) return { node };
+    return { node, file, nodeTypeId };
+  });
+  const nodeById = new Map(
+    nodes.map((resolved) => [resolved.node.id, resolved]),
+  );
+
+  // One history entry; relations rolled back below cancel out in it.
+  return plugin.relationHistory.runBatch(
+    "Import JSON Canvas",
+    async (batch) => {
+      const edges: ResolvedEdge[] = [];
+      const addedRelationIds: string[] = [];
+      for (const edge of data.edges ?? []) {
+        const from = nodeById.get(edge.fromNode);
+        const to = nodeById.get(edge.toNode);
+        const match =
+          edge.label && from?.nodeTypeId && to?.nodeTypeId
+            ? matchEdgeRelation({
+                plugin,
+                label: edge.label,
+                fromNodeTypeId: from.nodeTypeId,
+                toNodeTypeId: to.nodeTypeId,
+              })
+            : null;
+        if (!match || !from?.file || !to?.file) {
+          edges.push({ edge });
+          continue;
+        }
+
+        const [source, target] = match.reversed ? [to, from] : [from, to];
+        const { relationInstanceId, alreadyExisted } =
+          await addRelationToRelationsJson({
+            plugin,
+            sourceFile: source.file!,
+            targetFile: target.file!,
+            relationTypeId: match.relationType.id,
+            batch,
+          });
+        if (relationInstanceId && !alreadyExisted) {
+          addedRelationIds.push(relationInstanceId);
+        }
+        edges.push({
+          edge,
+          relation: relationInstanceId
+            ? {
+                relationType: match.relationType,
+                relationInstanceId,
+                sourceId: source.node.id,
+              }
+            : undefined,
+        });
+      }
+
+      // The relations were added for the new canvas; drop them if it fails.
+      const removeAddedRelations = async () => {
+        for (const id of addedRelationIds) {
+          try {
+            await removeRelationById(plugin, id, { batch });
+          } catch (error) {
+            console.error(`Failed to roll back relation ${id}:`, error);
+          }
+        }
+      };
+
+      // Undefined only when no file was written, so no arrow points at them.
+      const canvas = await createCanvas(plugin, {
+        filename: jsonCanvasFile.basename,
+        getContent: (canvasPath) =>
+          buildCanvasContentFromJsonCanvas({
+            plugin,
+            canvasPath,
+            nodes,
+            edges,
+          }),
+      });
+      if (!canvas) {
+        await removeAddedRelations();
+        return null;
+      }
+
+      const discourseNodes = nodes.filter(
+        (resolved) => resolved.nodeTypeId,
+      ).length;
+      const relations = edges.filter((resolved) => resolved.relation).length;
+      return {
+        canvas,
+        discourseNodes,
+        otherNodes: nodes.length - discourseNodes,
+        relations,
+        otherEdges: edges.length - relations,
+      };
+    },
+  );
+};
+
+/** Extract plain text from a tldraw rich text document, one line per block. */
+const richTextToPlainText = (node: unknown): string => {
+  if (!node || typeof node !== "object") return "";
+  const { type, text, content } = node as {
+    type?: string;
+    text?: string;
+    content?: unknown[];
+  };
+  if (typeof text === "string") return text;
+  if (type === "hardBreak") return "\n";
+  const children = (content ?? []).map(richTextToPlainText);
+  return type === "doc" || type === "bulletList" || type === "orderedList"
+    ? children.join("\n")
+    : children.join("");
+};
+
+const getShapeText = (shape: TLShape): string => {
+  const props = shape.props as { richText?: unknown; text?: string };
+  return props.richText
+    ? richTextToPlainText(props.richText)
+    : (props.text ?? "");
+};
+
+/**
+ * Write the first page of a Discourse Graph canvas as a JSON Canvas file next
+ * to it. Discourse nodes become file cards, text, rectangles and notes become
+ * text cards, frames become groups, and arrows bound at both ends become
+ * edges. Other shapes are left out.
+ */
+export const exportJsonCanvas = async (
+  plugin: DiscourseGraphPlugin,
+  canvasFile: TFile,
+): Promise<JsonCanvasExportResult> => {
+  const tlData = parseTLDataFromContent(
+    await plugin.app.vault.read(canvasFile),
+  );
+  if (!tlData?.raw) throw new Error("No canvas data found in this file");
+
+  const store = createCanvasStore();
+  loadTLDataIntoStore(store, tlData);
+  const records = store.allRecords();
+  const pageId = records
+    .filter((record) => record.typeName === "page")
+    .sort((a, b) => (a.index < b.index ? -1 : a.index > b.index ? 1 : 0))[0]
+    ?.id as TLPageId | undefined;
+  const shapes = new Map(
+    records
+      .filter((record): record is TLShape => record.typeName === "shape")
+      .map((shape) => [shape.id, shape]),
+  );
+
+  // Page position and page of a shape, ignoring rotation of its ancestors.
+  const getPagePosition = (
+    shape: TLShape,
+  ): { x: number; y: number; pageId: TLParentId } => {
+    const parent = shapes.get(shape.parentId as TLShapeId);
+    if (!parent) return { x: shape.x, y: shape.y, pageId: shape.parentId };
+    const position = getPagePosition(parent);
+    return { ...position, x: position.x + shape.x, y: position.y + shape.y };
+  };
+
+  const nodes: JsonCanvasNode[] = [];
+  const exportedIds = new Set<string>();
+  const arrows: (DiscourseRelationShape | TLArrowShape)[] = [];
+  let skippedShapes = 0;
+  for (const shape of shapes.values()) {
+    const position = getPagePosition(shape);
+    if (position.pageId !== pageId) continue;
+    const props = shape.props as {
+      w?: number;
+      h?: number;
+      growY?: number;
+      color?: string;
+    };
+    const base = {
+      id: shape.id,
+      x: Math.round(position.x),
+      y: Math.round(position.y),
+      width: Math.round(props.w ?? DEFAULT_NOTE_SIZE),
+      height: Math.round(
+        (props.h ??
+          (shape.type === "text" ? DEFAULT_TEXT_HEIGHT : DEFAULT_NOTE_SIZE)) +
+          (props.growY ?? 0),
+      ),
+    };
+
+    switch (shape.type) {
+      case "discourse-node": {
+        const nodeShape = shape as DiscourseNodeShape;
+        const file = await resolveLinkedFileFromSrc({
+          app: plugin.app,
+          canvasFile,
+          src: nodeShape.props.src ?? undefined,
+        });
+        const color = getNodeTypeById(
+          plugin,
+          nodeShape.props.nodeTypeId,
+        )?.color;
+        nodes.push(
+          file
+            ? { ...base, type: "file", file: file.path, color }
+            : { ...base, type: "text", text: nodeShape.props.title, color },
+        );
+        break;
+      }
+      case "geo":
+      case "note":
+      case "text":
+        nodes.push({
+          ...base,
+          type: "text",
+          text: getShapeText(shape),
+          color: toJsonCanvasColor(props.color ?? "black"),
+        });
+        break;
+      case "frame":
+        nodes.push({
+          ...base,
+          type: "group",
+          label: (shape as TLFrameShape).props.name || undefined,
+          color: toJsonCanvasColor(props.color ?? "black"),
+        });
+        break;
+      case "discourse-relation":
+      case "arrow":
+        arrows.push(shape as DiscourseRelationShape | TLArrowShape);
+        continue;
+      case "group":
+        // Grouped shapes are exported on their own.
+        continue;
+      default:
+        skippedShapes++;
+        continue;
+    }
+    exportedIds.add(shape.id);
+  }
+
+  const bindings = records.filter(
+    (record): record is TLBinding => record.typeName === "binding",
+  );
+  const edges: JsonCanvasEdge[] = [];
+  for (const arrow of arrows) {
+    const terminals = bindings.filter((binding) => binding.fromId === arrow.id);
+    const fromNode = terminals.find(
+      (binding) =>
+        (binding.props as { terminal?: string }).terminal === "start",
+    )?.toId;
+    const toNode = terminals.find(
+      (binding) => (binding.props as { terminal?: string }).terminal === "end",
+    )?.toId;
+    if (!fromNode || !toNode) {
+      skippedShapes++;
+      continue;
+    }
+    if (!exportedIds.has(fromNode) || !exportedIds.has(toNode)) {
+      skippedShapes++;
+      continue;
+    }
+    edges.push({
+      id: arrow.id,
+      fromNode,
+      fromEnd: arrow.props.arrowheadStart === "none" ? "none" : "arrow",
+      toNode,
+      toEnd: arrow.props.arrowheadEnd === "none" ? "none" : "arrow",
+      color: toJsonCanvasColor(arrow.props.color),
+      label: arrow.props.text || undefined,
+    });
+  }
+
+  // JSON Canvas draws nodes in array order, so groups go first.
+  nodes.sort((a, b) => Number(b.type === "group") - Number(a.type === "group"));
+  const filepath = getNewUniqueFilepath({
+    vault: plugin.app.vault,
+    filename: `${canvasFile.basename}.canvas`,
+    folderpath: canvasFile.parent?.path ?? "/",
+  });
+  const file = await plugin.app.vault.create(
+    filepath,
+    JSON.stringify({ nodes, edges }, null, "\t"),
+  );
+  return { file, nodes: nodes.length, edges: edges.length, skippedShapes };
+};
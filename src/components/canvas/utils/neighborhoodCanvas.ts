@@ -0,0 +1,368 @@
+import { TFile } from "obsidian";
+import {
+  createBindingId,
+  createShapeId,
+  createTLStore,
+  defaultBindingUtils,
+  defaultShapeUtils,
+  getIndices,
+  PageRecordType,
+  type TLRecord,
+  type TLShapeId,
+  ZERO_INDEX_KEY,
+} from "tldraw";
+import type DiscourseGraphPlugin from "~/index";
+import type { RelationInstance } from "~/types";
+import { FRONTMATTER_KEY } from "~/constants";
+import {
+  buildEndpointToFileMap,
+  getRelationGraph,
+  resolveEndpointToFile,
+} from "~/utils/relationsStore";
+import {
+  DEFAULT_DISCOURSE_NODE_PROPS,
+  DiscourseNodeUtil,
+  type DiscourseNodeShape,
+} from "~/components/canvas/shapes/DiscourseNodeShape";
+import {
+  DiscourseRelationUtil,
+  type DiscourseRelationShape,
+} from "~/components/canvas/shapes/DiscourseRelationShape";
+import {
+  DiscourseRelationBindingUtil,
+  type RelationBinding,
+} from "~/components/canvas/shapes/DiscourseRelationBinding";
+import { discourseNodeMigrations } from "~/components/canvas/shapes/discourseNodeMigrations";
+import { getFrontmatterForFile } from "~/components/canvas/shapes/discourseNodeShapeUtils";
+import { getRelationLabelForDirection } from "~/components/canvas/utils/relationTypeUtils";
+import { layoutRadial } from "~/components/canvas/utils/autoLayout";
+import {
+  codeBlockTemplate,
+  createCanvas,
+  createRawTldrawFile,
+  frontmatterTemplate,
+  getTLDataTemplate,
+  tlFileTemplate,
+} from "~/components/canvas/utils/tldraw";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
+import { toTldrawColor } from "~/utils/tldrawColors";
+
+export const MAX_NEIGHBORHOOD_HOPS = 5;
+
+export type NeighborhoodOptions = {
+  hops: number;
+  /** Node types to include besides the starting node; all when empty. */
+  nodeTypeIds: string[];
+  /** Relation types to follow; all when empty. */
+  relationTypeIds: string[];
+  includeTentative: boolean;
+};
+
+export type NeighborhoodNode = {
+  file: TFile;
+  nodeTypeId: string;
+  depth: number;
+};
+
+export type Neighborhood = {
+  nodes: NeighborhoodNode[];
+  relations: { relation: RelationInstance; source: TFile; target: TFile }[];
+};
+
+const getNodeTypeIdOf = (
+  plugin: DiscourseGraphPlugin,
+  file: TFile,
+): string | null => {
+  const nodeTypeId = getFrontmatterForFile(plugin.app, file)?.nodeTypeId;
+  return typeof nodeTypeId === "string" ? nodeTypeId : null;
+};
+
+/**
+ * Collect the discourse nodes within `hops` relations of `file` in
+ * relations.json, and every relation between them. Nodes of filtered-out
+ * types are neither included nor traversed through.
+ */
+export const collectNeighborhood = async (
+  plugin: DiscourseGraphPlugin,
+  file: TFile,
+  options: NeighborhoodOptions,
+): Promise<Neighborhood> => {
+  const graph = await getRelationGraph(plugin);
+  const endpointToFile = buildEndpointToFileMap(plugin);
+  const endpointsByPath = new Map<string, string[]>();
+  for (const [endpointId, endpointFile] of endpointToFile) {
+    const endpoints = endpointsByPath.get(endpointFile.path) ?? [];
+    endpoints.push(endpointId);
+    endpointsByPath.set(endpointFile.path, endpoints);
+  }
+
+  const traversal = {
+    relationTypeIds: options.relationTypeIds,
+    includeTentative: options.includeTentative,
+  };
+  const isIncludedType = (nodeTypeId: string | null): nodeTypeId is string =>
+    !!nodeTypeId &&
+    (options.nodeTypeIds.length === 0 ||
+      options.nodeTypeIds.includes(nodeTypeId));
+
+  const getNeighbors = (current: TFile) =>
+    (endpointsByPath.get(current.path) ?? []).flatMap((endpointId) =>
+      graph.getNeighbors(endpointId, traversal).map((neighbor) => ({
+        ...neighbor,
+        file: resolveEndpointToFile(
+          plugin,
+          neighbor.endpointId,
+          endpointToFile,
+        ),
+      })),
+    );
+
+  const nodes = new Map<string, NeighborhoodNode>([
+    [
+      file.path,
+      { file, nodeTypeId: getNodeTypeIdOf(plugin, file) ?? "", depth: 0 },
+    ],
+  ]);
+  let frontier = [file];
+  for (let depth = 1; depth <= options.hops && frontier.length > 0; depth++) {
+    const next: TFile[] = [];
+    for (const current of frontier) {
+      for (const neighbor of getNeighbors(current)) {
+        if (!neighbor.file || nodes.has(neighbor.file.path)) continue;
+        const nodeTypeId = getNodeTypeIdOf(plugin, neighbor.file);
+        if (!isIncludedType(nodeTypeId)) continue;
+        nodes.set(neighbor.file.path, {
+          file: neighbor.file,
+          nodeTypeId,
+          depth,
+        });
+        next.push(neighbor.file);
+      }
+    }
+    frontier = next;
+  }
+
+  const relations = new Map<string, Neighborhood["relations"][number]>();
+  for (const { file: current } of nodes.values()) {
+    for (const neighbor of getNeighbors(current)) {
+      if (!neighbor.file || !nodes.has(neighbor.file.path)) continue;
+      if (neighbor.file.path === current.path) continue;
+      const [source, target] =
+        neighbor.direction === "outgoing"
+          ? [current, neighbor.file]
+          : [neighbor.file, current];
+      relations.set(neighbor.relation.id, {
+        relation: neighbor.relation,
+        source,
+        target,
+      });
+    }
+  }
+
+  return {
+    nodes: Array.from(nodes.values()),
+    relations: Array.from(relations.values()),
+  };
+};
+
+/**
+ * Build the markdown content of a canvas holding the neighborhood: a
+ * discourse-node shape per node, laid out in rings around the starting node,
+ * and a bound discourse-relation arrow per relation.
+ */
+const buildNeighborhoodCanvasContent = ({
+  plugin,
+  canvasPath,
+  neighborhood,
+}: {
+  plugin: DiscourseGraphPlugin;
+  canvasPath: string;
+  neighborhood: Neighborhood;
+}): string => {
+  const store = createTLStore({
+    shapeUtils: [
+      ...defaultShapeUtils,
+      DiscourseNodeUtil,
+      DiscourseRelationUtil,
+    ],
+    bindingUtils: [...defaultBindingUtils, DiscourseRelationBindingUtil],
+    migrations: [discourseNodeMigrations],
+  });
+  const page = PageRecordType.create({
+    id: PageRecordType.createId("page"),
+    name: "Page 1",
+    index: ZERO_INDEX_KEY,
+  });
+
+  const linkBlocks: string[] = [];
+  const shapeIdByPath = new Map<string, TLShapeId>();
+  const nodeShapes: DiscourseNodeShape[] = [];
+  for (const node of neighborhood.nodes) {
+    const blockRefId = crypto.randomUUID();
+    const linkText = plugin.app.metadataCache.fileToLinktext(
+      node.file,
+      canvasPath,
+    );
+    linkBlocks.push(`[[${linkText}]]\n^${blockRefId}\n`);
+    const id = createShapeId();
+    shapeIdByPath.set(node.file.path, id);
+    nodeShapes.push({
+      id,
+      typeName: "shape",
+      type: "discourse-node",
+      x: 0,
+      y: 0,
+      rotation: 0,
+      // Indices are assigned once all shapes are known.
+      index: ZERO_INDEX_KEY,
+      parentId: page.id,
+      isLocked: false,
+      opacity: 1,
+      meta: {},
+      props: {
+        ...DEFAULT_DISCOURSE_NODE_PROPS,
+        src: `asset:obsidian.blockref.${blockRefId}`,
+        title: node.file.basename,
+        nodeTypeId: node.nodeTypeId,
+        size: "m",
+      },
+    });
+  }
+
+  const { w, h } = DEFAULT_DISCOURSE_NODE_PROPS;
+  const positions = layoutRadial(
+    {
+      nodes: nodeShapes.map((shape) => ({
+        id: shape.id,
+        width: w,
+        height: h,
+        center: { x: 0, y: 0 },
+      })),
+      edges: neighborhood.relations.map(({ source, target }) => ({
+        source: shapeIdByPath.get(source.path)!,
+        target: shapeIdByPath.get(target.path)!,
+      })),
+    },
+    nodeShapes.slice(0, 1).map((shape) => shape.id),
+  );
+  for (const shape of nodeShapes) {
+    const center = positions.get(shape.id) ?? { x: 0, y: 0 };
+    shape.x = center.x - w / 2;
+    shape.y = center.y - h / 2;
+  }
+
+  const nodeTypeIdByPath = new Map(
+    neighborhood.nodes.map((node) => [node.file.path, node.nodeTypeId]),
+  );
+  const relationShapes: DiscourseRelationShape[] = [];
+  const bindings: RelationBinding[] = [];
+  for (const { relation, source, target } of neighborhood.relations) {
+    const relationType = plugin.settings.relationTypes.find(
+      (type) => type.id === relation.type,
+    );
+    const sourceShape = nodeShapes.find(
+      (shape) => shape.id === shapeIdByPath.get(source.path),
+    );
+    const targetShapeId = shapeIdByPath.get(target.path);
+    if (!relationType || !sourceShape || !targetShapeId) continue;
+
+    const id = createShapeId();
+    relationShapes.push({
+      id,
+      typeName: "shape",
+      type: "discourse-relation",
+      x: sourceShape.x + w / 2,
+      y: sourceShape.y + h / 2,
+      rotation: 0,
+      index: ZERO_INDEX_KEY,
+      parentId: page.id,
+      isLocked: false,
+      opacity: 1,
+      meta: { relationInstanceId: relation.id },
+      props: {
+        dash: "draw",
+        size: "m",
+        fill: "none",
+        color: toTldrawColor(relationType.color),
+        labelColor: "black",
+        bend: 0,
+        // Will be updated by bindings
+        start: { x: 0, y: 0 },
+        end: { x: 100, y: 0 },
+        arrowheadStart: "none",
+        arrowheadEnd: "arrow",
+        text: getRelationLabelForDirection({
+          discourseRelations: getEffectiveDiscourseRelations(plugin.settings),
+          relationType,
+          sourceNodeTypeId: nodeTypeIdByPath.get(source.path) ?? "",
+          targetNodeTypeId: nodeTypeIdByPath.get(target.path) ?? "",
+        }),
+        labelPosition: 0.5,
+        font: "draw",
+        scale: 1,
+        kind: "arc",
+        elbowMidPoint: 0,
+        relationTypeId: relationType.id,
+      },
+    });
+    for (const [terminal, toId] of [
+      ["start", sourceShape.id],
+      ["end", targetShapeId],
+    ] as const) {
+      bindings.push({
+        id: createBindingId(),
+        typeName: "binding",
+        type: "discourse-relation",
+        fromId: id,
+        toId,
+        meta: {},
+        props: {
+          terminal,
+          normalizedAnchor: { x: 0.5, y: 0.5 },
+          isPrecise: false,
+          isExact: false,
+          snap: "none",
+        },
+      });
+    }
+  }
+
+  // Relations go below the nodes they connect.
+  const shapes = [...relationShapes, ...nodeShapes];
+  const indices = getIndices(shapes.length);
+  shapes.forEach((shape, i) => {
+    shape.index = indices[i]!;
+  });
+  store.put([page, ...shapes, ...bindings] as TLRecord[]);
+
+  const tlData = getTLDataTemplate({
+    pluginVersion: plugin.manifest.version,
+    tldrawFile: createRawTldrawFile(store),
+    uuid: window.crypto.randomUUID(),
+  });
+  return [
+    tlFileTemplate(
+      frontmatterTemplate(`${FRONTMATTER_KEY}: true`),
+      codeBlockTemplate(tlData),
+    ),
+    ...linkBlocks,
+  ].join("\n");
+};
+
+/**
+ * Create and open a new canvas with the discourse neighborhood of `file`.
+ * Returns the canvas file, or null when it could not be created.
+ */
+export const openNeighborhoodCanvas = async (
+  plugin: DiscourseGraphPlugin,
+  file: TFile,
+  options: NeighborhoodOptions,
+): Promise<TFile | null> => {
+  const neighborhood = await collectNeighborhood(plugin, file, options);
+  const canvas = await createCanvas(plugin, {
+    filename: `Neighborhood of ${file.basename}`,
+    getContent: (canvasPath) =>
+      buildNeighborhoodCanvasContent({ plugin, canvasPath, neighborhood }),
+  });
+  return canvas ?? null;
+};
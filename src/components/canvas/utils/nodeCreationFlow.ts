@@ -32,6 +32,8 @@ export const openCreateDiscourseNodeAt = (args: CreateNodeAtArgs): void => {
       selectedExistingNode,
       relationshipId,
       relationshipTargetFile,
+      placeholderValues,
+      attributeValues,
     }) => {
       try {
         // If user selected an existing node, use it instead of creating a new one
@@ -41,6 +43,8 @@ export const openCreateDiscourseNodeAt = (args: CreateNodeAtArgs): void => {
               plugin,
               nodeType: selectedNodeType,
               text: title,
+              placeholderValues,
+              attributeValues,
             });
 
         if (!fileToUse) {
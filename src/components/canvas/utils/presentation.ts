@@ -0,0 +1,257 @@
+import {
+  atom,
+  Box,
+  type Editor,
+  type TLCamera,
+  type TLShape,
+  type TLShapeId,
+} from "tldraw";
+import type { DiscourseRelationShape } from "~/components/canvas/shapes/DiscourseRelationShape";
+import { getArrowBindings } from "~/components/canvas/utils/relationUtils";
+
+/**
+ * A camera stop of a canvas presentation: a frame, or a set of shapes framed
+ * together.
+ */
+export type PresentationStep = {
+  id: string;
+  title: string;
+  shapeIds: TLShapeId[];
+  /** Hide the relations between the step's shapes and reveal them one at a time. */
+  revealRelations: boolean;
+};
+
+export type PresentationPlayback = {
+  stepIndex: number;
+  stepCount: number;
+  revealed: number;
+  relationCount: number;
+};
+
+const CAMERA_INSET = 64;
+const CAMERA_ANIMATION_MS = 400;
+
+export const createPresentationStep = (
+  editor: Editor,
+  shapeIds: TLShapeId[],
+): PresentationStep => {
+  const shape = shapeIds.length === 1 ? editor.getShape(shapeIds[0]!) : null;
+  const title =
+    shape?.type === "frame"
+      ? (shape.props as { name: string }).name
+      : shape?.type === "discourse-node"
+        ? (shape.props as { title: string }).title
+        : `${shapeIds.length} shapes`;
+  return {
+    id: window.crypto.randomUUID(),
+    title: title || "Untitled step",
+    shapeIds,
+    revealRelations: false,
+  };
+};
+
+/** One step per frame on the current page, in reading order. */
+export const createStepsFromFrames = (editor: Editor): PresentationStep[] =>
+  editor
+    .getCurrentPageShapesSorted()
+    .filter((shape) => shape.type === "frame")
+    .map((frame) => ({ frame, bounds: editor.getShapePageBounds(frame)! }))
+    .sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x)
+    .map(({ frame }) => createPresentationStep(editor, [frame.id]));
+
+/**
+ * The presentation of a canvas: its steps as stored in the canvas meta, and
+ * playback of them over an editor. While playing, the editor is read-only
+ * with its UI hidden, the canvas is shown full screen, and the arrow keys move
+ * between steps and relation reveals.
+ */
+export class CanvasPresentation {
+  private steps: PresentationStep[] = [];
+  private editor: Editor | null = null;
+  private relationIds: TLShapeId[] = [];
+  private restore: (() => void) | null = null;
+  private stepsListeners = new Set<() => void>();
+
+  /** Playback position, or null when not playing. */
+  readonly playback = atom<PresentationPlayback | null>(
+    "dgPresentationPlayback",
+    null,
+  );
+  /** Relations of the current step that have not been revealed yet. */
+  readonly hiddenShapeIds = atom<ReadonlySet<TLShapeId>>(
+    "dgPresentationHiddenShapeIds",
+    new Set(),
+  );
+
+  getSteps(): PresentationStep[] {
+    return this.steps;
+  }
+
+  /** Replace the steps, e.g. with the ones loaded from the canvas file. */
+  setSteps(steps: PresentationStep[]) {
+    this.steps = steps;
+  }
+
+  /** Replace the steps after they were edited, so the canvas view saves them. */
+  updateSteps(steps: PresentationStep[]) {
+    this.setSteps(steps);
+    this.stepsListeners.forEach((listener) => listener());
+  }
+
+  /** Listen for edited steps; returns a function that stops listening. */
+  onStepsUpdated(listener: () => void): () => void {
+    this.stepsListeners.add(listener);
+    return () => this.stepsListeners.delete(listener);
+  }
+
+  isPlaying(): boolean {
+    return this.playback.get() !== null;
+  }
+
+  /**
+   * Used as the editor's shape visibility callback so unrevealed relations
+   * stay hidden without changing the document.
+   */
+  getShapeVisibility = (shape: TLShape): "hidden" | undefined =>
+    this.hiddenShapeIds.get().has(shape.id) ? "hidden" : undefined;
+
+  start(editor: Editor, stepIndex = 0) {
+    if (this.steps.length === 0) return;
+    if (this.isPlaying()) this.stop();
+    this.editor = editor;
+
+    const { isFocusMode, isReadonly } = editor.getInstanceState();
+    const camera: TLCamera = editor.getCamera();
+    editor.updateInstanceState({ isFocusMode: true, isReadonly: true });
+    editor.selectNone();
+
+    const container = editor.getContainer();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const actions: Record<string, () => void> = {
+        ArrowRight: () => this.next(),
+        ArrowDown: () => this.next(),
+        PageDown: () => this.next(),
+        " ": () => this.next(),
+        ArrowLeft: () => this.previous(),
+        ArrowUp: () => this.previous(),
+        PageUp: () => this.previous(),
+        Home: () => this.goToStep(0),
+        End: () => this.goToStep(this.steps.length - 1),
+        Escape: () => this.stop(),
+      };
+      const action = actions[e.key];
+      if (!action) return;
+      e.preventDefault();
+      e.stopPropagation();
+      action();
+    };
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) this.stop();
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    container.requestFullscreen?.().catch((error) => {
+      // Presenting still works inside the view without full screen.
+      console.warn("Could not enter full screen:", error);
+    });
+
+    this.restore = () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+      if (document.fullscreenElement) void document.exitFullscreen();
+      editor.updateInstanceState({ isFocusMode, isReadonly });
+      editor.setCamera(camera, {
+        animation: { duration: CAMERA_ANIMATION_MS },
+      });
+    };
+    this.goToStep(Math.min(Math.max(stepIndex, 0), this.steps.length - 1));
+  }
+
+  stop() {
+    const restore = this.restore;
+    this.restore = null;
+    this.editor = null;
+    this.relationIds = [];
+    this.hiddenShapeIds.set(new Set());
+    this.playback.set(null);
+    restore?.();
+  }
+
+  /** Reveal the next relation of the step, or move on to the next step. */
+  next() {
+    const playback = this.playback.get();
+    if (!playback) return;
+    if (playback.revealed < playback.relationCount) {
+      this.reveal(playback.revealed + 1);
+    } else if (playback.stepIndex < this.steps.length - 1) {
+      this.goToStep(playback.stepIndex + 1);
+    }
+  }
+
+  /** Move back to the previous step, shown with all its relations. */
+  previous() {
+    const playback = this.playback.get();
+    if (!playback || playback.stepIndex === 0) return;
+    this.goToStep(playback.stepIndex - 1, { revealAll: true });
+  }
+
+  goToStep(stepIndex: number, { revealAll = false } = {}) {
+    const editor = this.editor;
+    const step = this.steps[stepIndex];
+    if (!editor || !step) return;
+
+    const shapeIds = step.shapeIds.filter((id) => editor.getShape(id));
+    const pageId = shapeIds[0] && editor.getAncestorPageId(shapeIds[0]);
+    if (pageId && pageId !== editor.getCurrentPageId()) {
+      editor.setCurrentPage(pageId);
+    }
+    const boxes = shapeIds
+      .map((id) => editor.getShapePageBounds(id))
+      .filter((box): box is Box => !!box);
+    if (boxes.length > 0) {
+      editor.zoomToBounds(Box.Common(boxes), {
+        inset: CAMERA_INSET,
+        animation: { duration: CAMERA_ANIMATION_MS },
+      });
+    }
+
+    this.relationIds = step.revealRelations
+      ? this.getRelationsWithin(editor, shapeIds)
+      : [];
+    this.playback.set({
+      stepIndex,
+      stepCount: this.steps.length,
+      revealed: 0,
+      relationCount: this.relationIds.length,
+    });
+    this.reveal(revealAll ? this.relationIds.length : 0);
+  }
+
+  private reveal(revealed: number) {
+    const playback = this.playback.get();
+    if (!playback) return;
+    this.hiddenShapeIds.set(new Set(this.relationIds.slice(revealed)));
+    this.playback.set({ ...playback, revealed });
+  }
+
+  /** Relation arrows with both ends inside the given shapes, in drawing order. */
+  private getRelationsWithin(
+    editor: Editor,
+    shapeIds: TLShapeId[],
+  ): TLShapeId[] {
+    const inside = editor.getShapeAndDescendantIds(shapeIds);
+    return editor
+      .getCurrentPageShapesSorted()
+      .filter((shape): shape is DiscourseRelationShape => {
+        if (shape.type !== "discourse-relation") return false;
+        const { start, end } = getArrowBindings(
+          editor,
+          shape as DiscourseRelationShape,
+        );
+        return (
+          !!start && !!end && inside.has(start.toId) && inside.has(end.toId)
+        );
+      })
+      .map((shape) => shape.id);
+  }
+}
@@ -1,6 +1,7 @@
 import { Notice, type TFile } from "obsidian";
 import type { Editor } from "tldraw";
 import type DiscourseGraphPlugin from "~/index";
+import type { RelationHistoryBatch } from "~/services/RelationHistory";
 import {
   DiscourseNodeShape,
   DiscourseNodeUtil,
@@ -11,6 +12,7 @@ import {
   getNodeInstanceIdForFile,
   getNodeTypeIdForFile,
 } from "~/utils/relationsStore";
+import { isNodeTypeOrSubtypeOf } from "~/utils/nodeTypeHierarchy";
 
 /**
  * Persists a relation between two files to the relations store (relations.json).
@@ -23,11 +25,13 @@ export const addRelationToRelationsJson = async ({
   sourceFile,
   targetFile,
   relationTypeId,
+  batch,
 }: {
   plugin: DiscourseGraphPlugin;
   sourceFile: TFile;
   targetFile: TFile;
   relationTypeId: string;
+  batch?: RelationHistoryBatch;
 }): Promise<{ alreadyExisted: boolean; relationInstanceId?: string }> => {
   const [sourceId, destId] = await Promise.all([
     getNodeInstanceIdForFile(plugin, sourceFile),
@@ -45,11 +49,15 @@ export const addRelationToRelationsJson = async ({
     return { alreadyExisted: false };
   }
 
-  const { id, alreadyExisted } = await addRelation(plugin, {
-    type: relationTypeId,
-    source: sourceId,
-    destination: destId,
-  });
+  const { id, alreadyExisted } = await addRelation(
+    plugin,
+    {
+      type: relationTypeId,
+      source: sourceId,
+      destination: destId,
+    },
+    { batch },
+  );
   return { alreadyExisted, relationInstanceId: id };
 };
 
@@ -70,6 +78,7 @@ export const persistRelationBetweenNodeShapes = async ({
   startNode,
   endNode,
   relationTypeId,
+  batch,
 }: {
   plugin: DiscourseGraphPlugin;
   canvasFile: TFile;
@@ -77,6 +86,7 @@ export const persistRelationBetweenNodeShapes = async ({
   startNode: DiscourseNodeShape;
   endNode: DiscourseNodeShape;
   relationTypeId: string;
+  batch?: RelationHistoryBatch;
 }): Promise<PersistRelationBetweenNodesResult> => {
   const nodeCtx = { app: plugin.app, canvasFile };
   const startNodeUtil = editor.getShapeUtil(startNode);
@@ -111,6 +121,7 @@ export const persistRelationBetweenNodeShapes = async ({
         sourceFile,
         targetFile,
         relationTypeId,
+        batch,
       });
 
     if (!relationInstanceId) {
@@ -163,12 +174,19 @@ export const addRelationIfRequested = async (
     return;
   }
 
+  // The rule may be defined on a parent of either node type.
+  const { nodeTypes } = plugin.settings;
+  const isA = (nodeTypeId: string) =>
+    isNodeTypeOrSubtypeOf(nodeTypes, typeA, nodeTypeId);
+  const isB = (nodeTypeId: string) =>
+    isNodeTypeOrSubtypeOf(nodeTypes, typeB, nodeTypeId);
+
   let sourceFile: TFile;
   let targetFile: TFile;
-  if (relation.sourceId === typeA && relation.destinationId === typeB) {
+  if (isA(relation.sourceId) && isB(relation.destinationId)) {
     sourceFile = createdOrSelectedFile;
     targetFile = relationshipTargetFile;
-  } else if (relation.sourceId === typeB && relation.destinationId === typeA) {
+  } else if (isB(relation.sourceId) && isA(relation.destinationId)) {
     sourceFile = relationshipTargetFile;
     targetFile = createdOrSelectedFile;
   } else if (relation.sourceId === relation.destinationId) {
@@ -1,6 +1,11 @@
 import type { Editor, TLShape, TLShapeId, VecLike } from "tldraw";
 import type { DiscourseNodeShape } from "~/components/canvas/shapes/DiscourseNodeShape";
-import type { DiscourseRelation, DiscourseRelationType } from "~/types";
+import type {
+  DiscourseNode,
+  DiscourseRelation,
+  DiscourseRelationType,
+} from "~/types";
+import { getEffectiveDiscourseRelations } from "~/utils/nodeTypeHierarchy";
 import { COLOR_PALETTE } from "~/utils/tldrawColors";
 
 export const isDiscourseNodeShape = (
@@ -37,6 +42,7 @@ export const getDiscourseNodeTypeId = (shape: unknown): string | undefined => {
 };
 
 type RelationTypeSettings = {
+  nodeTypes: DiscourseNode[];
   discourseRelations: DiscourseRelation[];
   relationTypes: DiscourseRelationType[];
 };
@@ -107,7 +113,8 @@ export const getRelationLabelForDirection = ({
 
 /**
  * Returns the list of valid relation types for a given pair of node types,
- * checking both directions of the discourse relations.
+ * checking both directions of the discourse relations, including rules
+ * inherited from parent node types.
  */
 export const getValidRelationTypesForNodePair = ({
   settings,
@@ -119,10 +126,11 @@ export const getValidRelationTypesForNodePair = ({
   targetNodeTypeId: string;
 }): { id: string; label: string; color: string }[] => {
   const validTypes: { id: string; label: string; color: string }[] = [];
+  const discourseRelations = getEffectiveDiscourseRelations(settings);
 
   for (const relationType of settings.relationTypes) {
     const { direct, reverse } = getRelationDirection({
-      discourseRelations: settings.discourseRelations,
+      discourseRelations,
       relationTypeId: relationType.id,
       sourceNodeTypeId,
       targetNodeTypeId,
@@ -189,7 +197,8 @@ export const getCompatibleTargetNodeTypeIds = ({
 };
 
 /**
- * Checks whether any valid relation type exists between two node types.
+ * Checks whether any valid relation type exists between two node types,
+ * including rules inherited from parent node types.
  */
 export const hasValidRelationTypeForNodePair = ({
   settings,
@@ -200,7 +209,7 @@ export const hasValidRelationTypeForNodePair = ({
   sourceNodeTypeId: string;
   targetNodeTypeId: string;
 }): boolean => {
-  return settings.discourseRelations.some(
+  return getEffectiveDiscourseRelations(settings).some(
     (r) =>
       settings.relationTypes.some((rt) => rt.id === r.relationshipTypeId) &&
       ((r.sourceId === sourceNodeTypeId &&
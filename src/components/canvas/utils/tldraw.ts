@@ -19,7 +19,7 @@ import {
 } from "~/constants";
 import DiscourseGraphPlugin from "~/index";
 import { checkAndCreateFolder, getNewUniqueFilepath } from "~/utils/file";
-import { Notice } from "obsidian";
+import { Notice, TFile } from "obsidian";
 import { format } from "date-fns";
 import { ObsidianTLAssetStore } from "~/components/canvas/stores/assetStore";
 import {
@@ -29,11 +29,13 @@ import {
 import { DiscourseRelationUtil } from "~/components/canvas/shapes/DiscourseRelationShape";
 import { DiscourseRelationBindingUtil } from "~/components/canvas/shapes/DiscourseRelationBinding";
 import { discourseNodeMigrations } from "~/components/canvas/shapes/discourseNodeMigrations";
+import type { PresentationStep } from "~/components/canvas/utils/presentation";
 
 export type TldrawPluginMetaData = {
   "plugin-version": string;
   "tldraw-version": string;
   uuid: string;
+  presentation?: PresentationStep[];
 };
 
 export type TldrawRawData = {
@@ -48,17 +50,11 @@ export type TLData = {
   raw: TldrawRawData;
 };
 
-export const processInitialData = (
-  data: TLData,
-  assetStore: ObsidianTLAssetStore,
-  ctx: DiscourseNodeUtilOptions,
-): { meta: TldrawPluginMetaData; store: TLStore } => {
-  const customShapeUtils = [
-    ...defaultShapeUtils,
-    DiscourseNodeUtil.configure(ctx),
-    DiscourseRelationUtil.configure(ctx),
-  ];
-
+/**
+ * Load the records of a canvas file into a store, migrating them from the
+ * schema they were saved with.
+ */
+export const loadTLDataIntoStore = (store: TLStore, data: TLData) => {
   const recordsData = Array.isArray(data.raw.records)
     ? (data.raw.records.reduce(
         (acc: Record<string, TLRecord>, record: { id: string } & TLRecord) => {
@@ -71,14 +67,6 @@ export const processInitialData = (
       ) as SerializedStore<TLRecord>)
     : (data.raw.records as SerializedStore<TLRecord>);
 
-  // Create store first (this creates the schema with migrations)
-  const store = createTLStore({
-    shapeUtils: customShapeUtils,
-    bindingUtils: [...defaultBindingUtils, DiscourseRelationBindingUtil],
-    assets: assetStore,
-    migrations: [discourseNodeMigrations],
-  });
-
   if (recordsData) {
     // Create a snapshot with the old schema (if available) or use current schema
     // The schema from data.raw is typed as any because it's legacy data format
@@ -92,6 +80,39 @@ export const processInitialData = (
 
     loadSnapshot(store, snapshot, { forceOverwriteSessionState: true });
   }
+};
+
+/**
+ * Extract the TLData block from a canvas file's markdown content, or null
+ * when it has none.
+ */
+export const parseTLDataFromContent = (content: string): TLData | null => {
+  const match = content.match(
+    new RegExp(`${TLDATA_DELIMITER_START}([\\s\\S]*?)${TLDATA_DELIMITER_END}`),
+  );
+  if (!match?.[1]) return null;
+  return JSON.parse(match[1]) as TLData;
+};
+
+export const processInitialData = (
+  data: TLData,
+  assetStore: ObsidianTLAssetStore,
+  ctx: DiscourseNodeUtilOptions,
+): { meta: TldrawPluginMetaData; store: TLStore } => {
+  const customShapeUtils = [
+    ...defaultShapeUtils,
+    DiscourseNodeUtil.configure(ctx),
+    DiscourseRelationUtil.configure(ctx),
+  ];
+
+  // Create store first (this creates the schema with migrations)
+  const store = createTLStore({
+    shapeUtils: customShapeUtils,
+    bindingUtils: [...defaultBindingUtils, DiscourseRelationBindingUtil],
+    assets: assetStore,
+    migrations: [discourseNodeMigrations],
+  });
+  loadTLDataIntoStore(store, data);
 
   return {
     meta: data.meta,
@@ -123,13 +144,18 @@ export const getTLDataTemplate = ({
   pluginVersion,
   tldrawFile,
   uuid,
+  presentation,
 }: {
   pluginVersion: string;
   tldrawFile: TldrawFile;
   uuid: string;
+  presentation?: PresentationStep[];
 }): TLData => {
   return {
-    meta: getTLMetaTemplate(pluginVersion, uuid),
+    meta: {
+      ...getTLMetaTemplate(pluginVersion, uuid),
+      ...(presentation?.length && { presentation }),
+    },
     raw: tldrawFile,
   };
 };
@@ -172,9 +198,25 @@ export const createEmptyTldrawContent = (
   return tlFileTemplate(frontmatter, codeblock);
 };
 
-export const createCanvas = async (plugin: DiscourseGraphPlugin) => {
+export type CreateCanvasOptions = {
+  /** File name without extension; defaults to a timestamped name. */
+  filename?: string;
+  /** Build the file content for the new canvas path; defaults to an empty canvas. */
+  getContent?: (filepath: string) => string;
+};
+
+/**
+ * Create a canvas file and open it. Returns undefined only when the file could
+ * not be created; a file that was created but failed to open is returned.
+ */
+export const createCanvas = async (
+  plugin: DiscourseGraphPlugin,
+  { filename: baseFilename, getContent }: CreateCanvasOptions = {},
+) => {
+  let file: TFile;
   try {
-    const filename = `Canvas-${format(new Date(), "yyyy-MM-dd-HHmm")}`;
+    const filename =
+      baseFilename ?? `Canvas-${format(new Date(), "yyyy-MM-dd-HHmm")}`;
     const folderpath = plugin.settings.canvasFolderPath;
     const attachmentsFolder = plugin.settings.canvasAttachmentsFolderPath;
 
@@ -186,20 +228,30 @@ export const createCanvas = async (plugin: DiscourseGraphPlugin) => {
       folderpath,
     });
 
-    const content = createEmptyTldrawContent(plugin.manifest.version);
-    const file = await plugin.app.vault.create(fname, content);
+    const content = getContent
+      ? getContent(fname)
+      : createEmptyTldrawContent(plugin.manifest.version);
+    file = await plugin.app.vault.create(fname, content);
+  } catch (e) {
+    new Notice(e instanceof Error ? e.message : "Failed to create canvas file");
+    console.error(e);
+    return;
+  }
+
+  try {
     const leaf = plugin.app.workspace.getLeaf(false);
     await leaf.openFile(file);
     await leaf.setViewState({
       type: VIEW_TYPE_TLDRAW_DG_PREVIEW,
       state: { file: file.path },
     });
-
-    return file;
   } catch (e) {
-    new Notice(e instanceof Error ? e.message : "Failed to create canvas file");
+    new Notice(
+      `Created ${file.basename} but could not open it: ${e instanceof Error ? e.message : String(e)}`,
+    );
     console.error(e);
   }
+  return file;
 };
 
 /**
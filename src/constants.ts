@@ -122,6 +122,7 @@ export const DEFAULT_SETTINGS: Settings = {
   accountLocalId: undefined,
   syncModeEnabled: false,
   spaceNames: {},
+  relationsStorage: "file",
 };
 
 export const FEATURE_FLAGS = {
@@ -9,19 +9,29 @@ import {
 } from "obsidian";
 import { EditorView } from "@codemirror/view";
 import { SettingsTab } from "~/components/Settings";
-import { Settings, VIEW_TYPE_DISCOURSE_CONTEXT } from "~/types";
+import {
+  Settings,
+  VIEW_TYPE_DISCOURSE_CONTEXT,
+  VIEW_TYPE_RELATION_HISTORY,
+} from "~/types";
 import {
   addConvertSubmenu,
   isImageFile,
   openConvertImageToNodeModal,
 } from "~/utils/editorMenuUtils";
 import { createImageEmbedHoverExtension } from "~/utils/imageEmbedHoverIcon";
+import {
+  createCanvasEmbedExtension,
+  createCanvasEmbedPostProcessor,
+  unmountAllCanvasEmbeds,
+} from "~/components/canvas/CanvasEmbed";
 import { createWikilinkDragExtension } from "~/utils/wikilinkDragHandler";
 import {
   registerCommands,
   createModifyNodeModalSubmitHandler,
 } from "~/utils/registerCommands";
 import { DiscourseContextView } from "~/components/DiscourseContextView";
+import { RelationHistoryView } from "~/components/RelationHistoryView";
 import { VIEW_TYPE_TLDRAW_DG_PREVIEW, FRONTMATTER_KEY } from "~/constants";
 import { convertPageToDiscourseNode } from "~/utils/createNode";
 import { DEFAULT_SETTINGS } from "~/constants";
@@ -32,16 +42,37 @@ import { NodeTagSuggestPopover } from "~/components/NodeTagSuggestModal";
 import { InlineNodeTypePicker } from "~/components/InlineNodeTypePicker";
 import { initializeSupabaseSync } from "~/utils/syncDgNodesToSupabase";
 import { FileChangeListener } from "~/utils/fileChangeListener";
-import generateUid from "~/utils/generateUid";
 import {
+  createMigrationContext,
+  fillMissingSettingsFields,
+  upgradeSettingsData,
+} from "~/utils/migrations";
+import {
+  isRelationsStoragePath,
   migrateFrontmatterRelationsToRelationsJson,
   mergeAllRelationsJsonToRoot,
+  migrateRelationsFile,
+  readRelations,
 } from "~/utils/relationsStore";
 import { migrateImportFolderMetadata } from "./utils/importFolderMetadata";
 import { registerTemplateSettingsSync } from "~/utils/templateSettingsSync";
+import { registerNodeAttributeValidation } from "~/utils/nodeAttributes";
+import { registerTitlePlaceholderSync } from "~/utils/titlePlaceholders";
+import { DiscourseNodeIndex } from "~/services/DiscourseNodeIndex";
+import { RelationGraphIndex } from "~/services/RelationGraphIndex";
+import { ShardedRelationsStore } from "~/services/ShardedRelationsStore";
+import { RelationHistory } from "~/services/RelationHistory";
+import { CanvasReferenceIndex } from "~/services/CanvasReferenceIndex";
+import { registerDiscourseQueryBlock } from "~/components/DiscourseQueryBlock";
+import { registerRelationsConflictDetection } from "~/components/RelationsConflictModal";
 
 export default class DiscourseGraphPlugin extends Plugin {
   settings: Settings = { ...DEFAULT_SETTINGS };
+  nodeIndex: DiscourseNodeIndex = new DiscourseNodeIndex(this);
+  relationGraph: RelationGraphIndex = new RelationGraphIndex(this);
+  relationsShards: ShardedRelationsStore = new ShardedRelationsStore(this);
+  relationHistory: RelationHistory = new RelationHistory(this);
+  canvasReferences: CanvasReferenceIndex = new CanvasReferenceIndex(this);
   private tagNodeHandler: TagNodeHandler | null = null;
   private fileChangeListener: FileChangeListener | null = null;
   private currentViewActions: { leaf: WorkspaceLeaf; action: HTMLElement }[] =
@@ -51,6 +82,17 @@ export default class DiscourseGraphPlugin extends Plugin {
   async onload() {
     await this.loadSettings();
 
+    this.nodeIndex.initialize();
+    this.canvasReferences.initialize();
+    this.relationGraph.initialize({
+      isStoragePath: (path) => isRelationsStoragePath(this, path),
+      load: () => readRelations(this),
+    });
+
+    await migrateRelationsFile(this).catch((error) => {
+      console.error("Failed to migrate relations.json:", error);
+    });
+
     await mergeAllRelationsJsonToRoot(this).catch((error) => {
       console.error("Failed to merge relations.json files:", error);
     });
@@ -64,6 +106,10 @@ export default class DiscourseGraphPlugin extends Plugin {
     });
 
     registerTemplateSettingsSync(this);
+    registerDiscourseQueryBlock(this);
+    registerRelationsConflictDetection(this);
+    registerNodeAttributeValidation(this);
+    registerTitlePlaceholderSync(this);
 
     if (this.settings.syncModeEnabled === true) {
       void initializeSupabaseSync(this).catch((error) => {
@@ -146,6 +192,10 @@ export default class DiscourseGraphPlugin extends Plugin {
       VIEW_TYPE_DISCOURSE_CONTEXT,
       (leaf) => new DiscourseContextView(leaf, this),
     );
+    this.registerView(
+      VIEW_TYPE_RELATION_HISTORY,
+      (leaf) => new RelationHistoryView(leaf, this),
+    );
 
     this.addRibbonIcon("telescope", "Toggle discourse context", () => {
       this.toggleDiscourseContextView();
@@ -210,12 +260,19 @@ export default class DiscourseGraphPlugin extends Plugin {
                 initialNodeType: nodeType,
                 // File explorer always intends to create a new node
                 disableExistingNodeSearch: true,
-                onSubmit: async ({ nodeType, title }) => {
+                onSubmit: async ({
+                  nodeType,
+                  title,
+                  placeholderValues,
+                  attributeValues,
+                }) => {
                   await convertPageToDiscourseNode({
                     plugin: this,
                     file,
                     nodeType,
                     title,
+                    placeholderValues,
+                    attributeValues,
                   });
                 },
               }).open();
@@ -325,6 +382,9 @@ export default class DiscourseGraphPlugin extends Plugin {
 
     this.registerEditorExtension(createImageEmbedHoverExtension(this));
 
+    this.registerMarkdownPostProcessor(createCanvasEmbedPostProcessor(this));
+    this.registerEditorExtension(createCanvasEmbedExtension(this));
+
     this.registerEditorExtension(createWikilinkDragExtension(this));
   }
 
@@ -368,8 +428,16 @@ export default class DiscourseGraphPlugin extends Plugin {
 
   async loadSettings() {
     const loadedData = (await this.loadData()) as Record<string, unknown>;
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
-    const changed = this.migrateSettings();
+    const context = createMigrationContext();
+    const { data, report } = upgradeSettingsData(
+      Object.assign({}, DEFAULT_SETTINGS, loadedData),
+      context,
+    );
+    this.settings = data;
+    // Settings written by a newer plugin version are left as they are.
+    const filled =
+      !report.newerThanSupported && fillMissingSettingsFields(data, context);
+    const changed = report.changed || filled;
 
     if (changed || !loadedData || this.hasNewFields(loadedData)) {
       await this.saveSettings();
@@ -389,33 +457,6 @@ export default class DiscourseGraphPlugin extends Plugin {
     this.updateFrontmatterStyles();
   }
 
-  private migrateSettings(): boolean {
-    let changed = false;
-    const now = new Date().getTime();
-    for (const typeObject of [
-      ...this.settings.nodeTypes,
-      ...this.settings.relationTypes,
-      ...this.settings.discourseRelations,
-    ]) {
-      if (!typeObject.created) {
-        typeObject.created = now;
-        changed = true;
-      }
-      if (!typeObject.modified) {
-        typeObject.modified = now;
-        changed = true;
-      }
-    }
-    // nodeTypes and relationTypes already have Ids
-    for (const typeObject of this.settings.discourseRelations) {
-      if (!typeObject.id) {
-        typeObject.id = generateUid("rel3");
-        changed = true;
-      }
-    }
-    return changed;
-  }
-
   private cleanupViewActions() {
     this.currentViewActions.forEach(({ leaf, action }) => {
       try {
@@ -442,5 +483,11 @@ export default class DiscourseGraphPlugin extends Plugin {
       this.fileChangeListener.cleanup();
       this.fileChangeListener = null;
     }
+
+    this.nodeIndex.cleanup();
+    this.canvasReferences.cleanup();
+    this.relationGraph.cleanup();
+    this.relationHistory.clear();
+    unmountAllCanvasEmbeds();
   }
 }
@@ -0,0 +1,185 @@
+import { EventRef, Events, TAbstractFile, TFile } from "obsidian";
+import type { TLShapeId } from "tldraw";
+import type DiscourseGraphPlugin from "~/index";
+import {
+  getCanvasNodeLinks,
+  isCanvasFile,
+  type CanvasReference,
+} from "~/components/canvas/utils/canvasReferences";
+
+/**
+ * In-memory index of which canvases show which notes, built from the
+ * discourse-node shapes of every canvas file. Each canvas is re-read when its
+ * metadata changes, so the index is updated one canvas at a time.
+ *
+ * Emits "changed" (with the affected canvas path) whenever the notes shown on
+ * a canvas change, or with null after a rebuild.
+ */
+export class CanvasReferenceIndex extends Events {
+  private plugin: DiscourseGraphPlugin;
+  private metadataEventRefs: EventRef[] = [];
+  private vaultEventRefs: EventRef[] = [];
+  /** Canvas path -> note path -> shapes linking to the note. */
+  private linksByCanvas: Map<string, Map<string, TLShapeId[]>> = new Map();
+  private canvasesByNote: Map<string, Set<string>> = new Map();
+  /** Latest pending read per canvas; older reads are dropped when they land. */
+  private pendingReads: Map<string, number> = new Map();
+  private readCount = 0;
+  private building: Promise<void> | null = null;
+  private built = false;
+
+  constructor(plugin: DiscourseGraphPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  /**
+   * Register metadata and vault listeners and build the index once the
+   * workspace layout is ready (block references resolve by then).
+   */
+  initialize(): void {
+    const { metadataCache, vault, workspace } = this.plugin.app;
+
+    this.metadataEventRefs.push(
+      metadataCache.on("changed", (file: TFile) => {
+        if (!this.built) return;
+        if (isCanvasFile(this.plugin, file)) {
+          void this.indexCanvas(file);
+        } else if (this.linksByCanvas.has(file.path)) {
+          this.removeCanvas(file.path);
+        }
+      }),
+    );
+
+    this.metadataEventRefs.push(
+      metadataCache.on("deleted", (file: TFile) => {
+        if (!this.built) return;
+        this.removeCanvas(file.path);
+      }),
+    );
+
+    this.vaultEventRefs.push(
+      vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+        if (!this.built || !(file instanceof TFile)) return;
+        if (this.linksByCanvas.has(oldPath)) {
+          this.removeCanvas(oldPath);
+          void this.indexCanvas(file);
+        }
+        // Canvases showing a renamed note now resolve it under its new path.
+        for (const canvasPath of this.canvasesByNote.get(oldPath) ?? []) {
+          const canvasFile = vault.getAbstractFileByPath(canvasPath);
+          if (canvasFile instanceof TFile) void this.indexCanvas(canvasFile);
+        }
+      }),
+    );
+
+    workspace.onLayoutReady(() => {
+      void this.rebuild();
+    });
+  }
+
+  cleanup(): void {
+    const { metadataCache, vault } = this.plugin.app;
+    this.metadataEventRefs.forEach((ref) => metadataCache.offref(ref));
+    this.metadataEventRefs = [];
+    this.vaultEventRefs.forEach((ref) => vault.offref(ref));
+    this.vaultEventRefs = [];
+    this.clear();
+    this.built = false;
+  }
+
+  /**
+   * Rebuild the whole index by reading every canvas file. Concurrent callers
+   * share the same pending rebuild.
+   */
+  rebuild(): Promise<void> {
+    if (!this.building) {
+      this.building = (async () => {
+        this.clear();
+        for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+          if (isCanvasFile(this.plugin, file)) {
+            await this.indexCanvas(file, false);
+          }
+        }
+        this.built = true;
+        this.trigger("changed", null);
+      })().finally(() => {
+        this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  /** The canvases showing `file`, with the shapes linking to it. */
+  async getReferences(file: TFile): Promise<CanvasReference[]> {
+    if (!this.built) await this.rebuild();
+    const references: CanvasReference[] = [];
+    for (const canvasPath of this.canvasesByNote.get(file.path) ?? []) {
+      const canvasFile =
+        this.plugin.app.vault.getAbstractFileByPath(canvasPath);
+      const shapeIds = this.linksByCanvas.get(canvasPath)?.get(file.path);
+      if (canvasFile instanceof TFile && shapeIds?.length) {
+        references.push({ canvasFile, shapeIds });
+      }
+    }
+    return references.sort((a, b) =>
+      a.canvasFile.basename.localeCompare(b.canvasFile.basename),
+    );
+  }
+
+  private clear(): void {
+    this.linksByCanvas.clear();
+    this.canvasesByNote.clear();
+    this.pendingReads.clear();
+  }
+
+  private async indexCanvas(canvasFile: TFile, notify = true): Promise<void> {
+    const read = ++this.readCount;
+    this.pendingReads.set(canvasFile.path, read);
+    let links: Map<string, TLShapeId[]>;
+    try {
+      links = await getCanvasNodeLinks(this.plugin, canvasFile);
+    } catch (error) {
+      console.error(`Failed to index canvas ${canvasFile.path}:`, error);
+      return;
+    }
+    if (this.pendingReads.get(canvasFile.path) !== read) return;
+    this.pendingReads.delete(canvasFile.path);
+
+    const previous = this.linksByCanvas.get(canvasFile.path);
+    if (previous && sameLinks(previous, links)) return;
+
+    this.removeCanvas(canvasFile.path, false);
+    this.linksByCanvas.set(canvasFile.path, links);
+    for (const notePath of links.keys()) {
+      const canvases = this.canvasesByNote.get(notePath) ?? new Set();
+      canvases.add(canvasFile.path);
+      this.canvasesByNote.set(notePath, canvases);
+    }
+
+    if (notify) this.trigger("changed", canvasFile.path);
+  }
+
+  private removeCanvas(canvasPath: string, notify = true): void {
+    const links = this.linksByCanvas.get(canvasPath);
+    if (!links) return;
+
+    this.linksByCanvas.delete(canvasPath);
+    for (const notePath of links.keys()) {
+      const canvases = this.canvasesByNote.get(notePath);
+      canvases?.delete(canvasPath);
+      if (canvases?.size === 0) this.canvasesByNote.delete(notePath);
+    }
+
+    if (notify) this.trigger("changed", canvasPath);
+  }
+}
+
+const sameLinks = (
+  a: Map<string, TLShapeId[]>,
+  b: Map<string, TLShapeId[]>,
+): boolean =>
+  a.size === b.size &&
+  Array.from(a).every(
+    ([path, ids]) => b.get(path)?.join("\n") === ids.join("\n"),
+  );
@@ -0,0 +1,227 @@
+import { EventRef, Events, TAbstractFile, TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+
+export type IndexedDiscourseNode = {
+  file: TFile;
+  nodeTypeId?: string;
+  nodeInstanceId?: string;
+  importedFromRid?: string;
+};
+
+/**
+ * In-memory index of discourse nodes built from the metadata cache.
+ * Keeps nodeTypeId / nodeInstanceId / importedFromRid lookups available
+ * without Datacore, and is updated incrementally as frontmatter changes.
+ *
+ * Emits "changed" (with the affected file path) whenever an entry is added,
+ * updated or removed.
+ */
+export class DiscourseNodeIndex extends Events {
+  private plugin: DiscourseGraphPlugin;
+  private metadataEventRefs: EventRef[] = [];
+  private vaultEventRefs: EventRef[] = [];
+  private byPath: Map<string, IndexedDiscourseNode> = new Map();
+  private pathByNodeInstanceId: Map<string, string> = new Map();
+  private pathByImportedFromRid: Map<string, string> = new Map();
+  private pathsByNodeTypeId: Map<string, Set<string>> = new Map();
+  private built = false;
+
+  constructor(plugin: DiscourseGraphPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  /**
+   * Register metadata and vault listeners and build the index once the
+   * workspace layout is ready (metadata cache is populated by then).
+   */
+  initialize(): void {
+    const { metadataCache, vault, workspace } = this.plugin.app;
+
+    this.metadataEventRefs.push(
+      metadataCache.on("changed", (file: TFile) => {
+        if (!this.built) return;
+        this.indexFile(file);
+      }),
+    );
+
+    this.metadataEventRefs.push(
+      metadataCache.on("deleted", (file: TFile) => {
+        if (!this.built) return;
+        this.removePath(file.path);
+      }),
+    );
+
+    this.vaultEventRefs.push(
+      vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+        if (!this.built || !(file instanceof TFile)) return;
+        this.removePath(oldPath);
+        this.indexFile(file);
+      }),
+    );
+
+    workspace.onLayoutReady(() => {
+      this.rebuild();
+    });
+  }
+
+  cleanup(): void {
+    const { metadataCache, vault } = this.plugin.app;
+    this.metadataEventRefs.forEach((ref) => metadataCache.offref(ref));
+    this.metadataEventRefs = [];
+    this.vaultEventRefs.forEach((ref) => vault.offref(ref));
+    this.vaultEventRefs = [];
+    this.clear();
+    this.built = false;
+  }
+
+  /**
+   * Rebuild the whole index from the metadata cache.
+   */
+  rebuild(): void {
+    this.clear();
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      this.indexFile(file, false);
+    }
+    this.built = true;
+    this.trigger("changed", null);
+  }
+
+  getAll(): IndexedDiscourseNode[] {
+    this.ensureBuilt();
+    return Array.from(this.byPath.values());
+  }
+
+  /**
+   * All files that have a nodeTypeId, optionally limited to the given node types.
+   */
+  getDiscourseNodes(nodeTypeIds?: string[]): IndexedDiscourseNode[] {
+    this.ensureBuilt();
+    if (!nodeTypeIds) {
+      return Array.from(this.byPath.values()).filter((n) => !!n.nodeTypeId);
+    }
+    const result: IndexedDiscourseNode[] = [];
+    for (const nodeTypeId of nodeTypeIds) {
+      const paths = this.pathsByNodeTypeId.get(nodeTypeId);
+      if (!paths) continue;
+      for (const path of paths) {
+        const entry = this.byPath.get(path);
+        if (entry) result.push(entry);
+      }
+    }
+    return result;
+  }
+
+  getByPath(path: string): IndexedDiscourseNode | null {
+    this.ensureBuilt();
+    return this.byPath.get(path) ?? null;
+  }
+
+  getFileByNodeInstanceId(nodeInstanceId: string): TFile | null {
+    this.ensureBuilt();
+    const path = this.pathByNodeInstanceId.get(nodeInstanceId);
+    return path ? (this.byPath.get(path)?.file ?? null) : null;
+  }
+
+  getFileByImportedFromRid(importedFromRid: string): TFile | null {
+    this.ensureBuilt();
+    const path = this.pathByImportedFromRid.get(importedFromRid);
+    return path ? (this.byPath.get(path)?.file ?? null) : null;
+  }
+
+  /**
+   * Find a file by endpoint id as stored in relations.json
+   * (nodeInstanceId or importedFromRid).
+   */
+  getFileByEndpoint(endpointId: string): TFile | null {
+    return (
+      this.getFileByNodeInstanceId(endpointId) ??
+      this.getFileByImportedFromRid(endpointId)
+    );
+  }
+
+  private ensureBuilt(): void {
+    if (!this.built) this.rebuild();
+  }
+
+  private clear(): void {
+    this.byPath.clear();
+    this.pathByNodeInstanceId.clear();
+    this.pathByImportedFromRid.clear();
+    this.pathsByNodeTypeId.clear();
+  }
+
+  private indexFile(file: TFile, notify = true): void {
+    if (file.extension !== "md") return;
+
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(file)
+      ?.frontmatter as Record<string, unknown> | undefined;
+    const nodeTypeId = asString(frontmatter?.nodeTypeId);
+    const nodeInstanceId = asString(frontmatter?.nodeInstanceId);
+    const importedFromRid = asString(frontmatter?.importedFromRid);
+
+    const previous = this.byPath.get(file.path);
+    if (!nodeTypeId && !nodeInstanceId && !importedFromRid) {
+      if (previous) this.removePath(file.path, notify);
+      return;
+    }
+
+    if (
+      previous &&
+      previous.file === file &&
+      previous.nodeTypeId === nodeTypeId &&
+      previous.nodeInstanceId === nodeInstanceId &&
+      previous.importedFromRid === importedFromRid
+    ) {
+      return;
+    }
+
+    if (previous) this.removePath(file.path, false);
+
+    const entry: IndexedDiscourseNode = {
+      file,
+      nodeTypeId,
+      nodeInstanceId,
+      importedFromRid,
+    };
+    this.byPath.set(file.path, entry);
+    if (nodeInstanceId)
+      this.pathByNodeInstanceId.set(nodeInstanceId, file.path);
+    if (importedFromRid)
+      this.pathByImportedFromRid.set(importedFromRid, file.path);
+    if (nodeTypeId) {
+      const paths = this.pathsByNodeTypeId.get(nodeTypeId) ?? new Set();
+      paths.add(file.path);
+      this.pathsByNodeTypeId.set(nodeTypeId, paths);
+    }
+
+    if (notify) this.trigger("changed", file.path);
+  }
+
+  private removePath(path: string, notify = true): void {
+    const entry = this.byPath.get(path);
+    if (!entry) return;
+
+    this.byPath.delete(path);
+    if (
+      entry.nodeInstanceId &&
+      this.pathByNodeInstanceId.get(entry.nodeInstanceId) === path
+    ) {
+      this.pathByNodeInstanceId.delete(entry.nodeInstanceId);
+    }
+    if (
+      entry.importedFromRid &&
+      this.pathByImportedFromRid.get(entry.importedFromRid) === path
+    ) {
+      this.pathByImportedFromRid.delete(entry.importedFromRid);
+    }
+    if (entry.nodeTypeId) {
+      this.pathsByNodeTypeId.get(entry.nodeTypeId)?.delete(path);
+    }
+
+    if (notify) this.trigger("changed", path);
+  }
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" && value ? value : undefined;
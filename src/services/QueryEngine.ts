@@ -3,6 +3,7 @@ import type DiscourseGraphPlugin from "~/index";
 import { BulkImportPattern, BulkImportCandidate, DiscourseNode } from "~/types";
 import { getDiscourseNodeFormatExpression } from "~/utils/getDiscourseNodeFormatExpression";
 import { extractContentFromTitle } from "~/utils/extractContentFromTitle";
+import type { DiscourseNodeIndex } from "./DiscourseNodeIndex";
 
 // This is a workaround to get the datacore API.
 // TODO: Remove once we can use datacore npm package
@@ -21,6 +22,9 @@ type DatacorePage = {
   $path?: string;
 };
 
+const escapeDatacoreString = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
 export class QueryEngine {
   private app: App;
   private dc:
@@ -28,14 +32,20 @@ export class QueryEngine {
         query: (query: string) => DatacorePage[];
       }
     | undefined;
+  private nodeIndex: DiscourseNodeIndex | undefined;
   private readonly MIN_QUERY_LENGTH = 2;
 
-  constructor(app: App) {
+  /**
+   * @param nodeIndex Native discourse node index. When provided it is used
+   * instead of vault iteration whenever Datacore is not available.
+   */
+  constructor(app: App, nodeIndex?: DiscourseNodeIndex) {
     const appWithPlugins = app as AppWithPlugins;
     this.dc = appWithPlugins.plugins?.plugins?.["datacore"]?.api as
       | { query: (query: string) => DatacorePage[] }
       | undefined;
     this.app = app;
+    this.nodeIndex = nodeIndex;
   }
 
   functional = () => !!this.dc;
@@ -51,12 +61,16 @@ export class QueryEngine {
       return [];
     }
     if (!this.dc) {
-      return [];
+      if (!this.nodeIndex) return [];
+      return this.nodeIndex
+        .getDiscourseNodes(nodeTypeId ? [nodeTypeId] : undefined)
+        .map((node) => node.file)
+        .filter((file) => this.fuzzySearch(file.basename, query));
     }
 
     try {
       const dcQuery = nodeTypeId
-        ? `@page and exists(nodeTypeId) and nodeTypeId = "${nodeTypeId}"`
+        ? `@page and exists(nodeTypeId) and nodeTypeId = "${escapeDatacoreString(nodeTypeId)}"`
         : "@page and exists(nodeTypeId)";
       const potentialNodes = this.dc.query(dcQuery);
 
@@ -86,7 +100,7 @@ export class QueryEngine {
    */
   getDiscourseNodeById = (nodeInstanceId: string): TFile | null => {
     if (!this.dc) {
-      return null;
+      return this.nodeIndex?.getFileByNodeInstanceId(nodeInstanceId) ?? null;
     }
 
     if (!nodeInstanceId.match(/^[-.+\w]+$/)) {
@@ -119,19 +133,19 @@ export class QueryEngine {
     if (!query || query.length < this.MIN_QUERY_LENGTH) {
       return [];
     }
-    if (!this.dc) {
+    if (!this.dc && !this.nodeIndex) {
       return [];
     }
 
     try {
-      const dcQuery = `@page and exists(nodeTypeId) and ${compatibleNodeTypeIds
-        .map((id) => `nodeTypeId = "${id}"`)
-        .join(" or ")}`;
-
-      const potentialNodes = this.dc.query(dcQuery);
-      const searchResults = potentialNodes.filter((p: DatacorePage) => {
-        return this.fuzzySearch(p.$name, query);
-      });
+      const candidates = this.dc
+        ? this.getDatacoreFilesForNodeTypes(compatibleNodeTypeIds)
+        : (this.nodeIndex
+            ?.getDiscourseNodes(compatibleNodeTypeIds)
+            .map((node) => node.file) ?? []);
+      const searchResults = candidates.filter((file) =>
+        this.fuzzySearch(file.basename, query),
+      );
 
       let existingRelatedFiles: string[] = [];
       if (selectedRelationType) {
@@ -144,34 +158,23 @@ export class QueryEngine {
           return match?.[1] ?? relation.replace(/^\[\[|\]\]$/g, "");
         });
       }
-      const finalResults = searchResults
-        .map((dcFile: DatacorePage) => {
-          if (dcFile && dcFile.$path) {
-            const realFile = this.app.vault.getAbstractFileByPath(dcFile.$path);
-            if (realFile && realFile instanceof TFile) {
-              return realFile;
-            }
-          }
-          return null;
-        })
-        .filter((f): f is TFile => f instanceof TFile)
-        .filter((file: TFile) => {
-          if (file.path === activeFile.path) return false;
-
-          if (
-            selectedRelationType &&
-            existingRelatedFiles.some((existingFile) => {
-              return (
-                file.basename === existingFile.replace(/\.md$/, "") ||
-                file.name === existingFile
-              );
-            })
-          ) {
-            return false;
-          }
+      const finalResults = searchResults.filter((file: TFile) => {
+        if (file.path === activeFile.path) return false;
 
-          return true;
-        });
+        if (
+          selectedRelationType &&
+          existingRelatedFiles.some((existingFile) => {
+            return (
+              file.basename === existingFile.replace(/\.md$/, "") ||
+              file.name === existingFile
+            );
+          })
+        ) {
+          return false;
+        }
+
+        return true;
+      });
 
       return finalResults;
     } catch (error) {
@@ -180,6 +183,26 @@ export class QueryEngine {
     }
   };
 
+  private getDatacoreFilesForNodeTypes(nodeTypeIds: string[]): TFile[] {
+    if (!this.dc) return [];
+    const dcQuery = `@page and exists(nodeTypeId) and ${nodeTypeIds
+      .map((id) => `nodeTypeId = "${escapeDatacoreString(id)}"`)
+      .join(" or ")}`;
+
+    return this.dc
+      .query(dcQuery)
+      .map((dcFile: DatacorePage) => {
+        if (dcFile && dcFile.$path) {
+          const realFile = this.app.vault.getAbstractFileByPath(dcFile.$path);
+          if (realFile && realFile instanceof TFile) {
+            return realFile;
+          }
+        }
+        return null;
+      })
+      .filter((f): f is TFile => f instanceof TFile);
+  }
+
   /**
    * Enhanced fuzzy search implementation
    * Returns true if the search term is found within the target string
@@ -247,7 +270,7 @@ export class QueryEngine {
         dcQuery = "@page";
       } else {
         const validIdConditions = validNodeTypes
-          .map((nt) => `nodeTypeId != "${nt.id}"`)
+          .map((nt) => `nodeTypeId != "${escapeDatacoreString(nt.id)}"`)
           .join(" and ");
 
         dcQuery = `@page and (!exists(nodeTypeId) or (${validIdConditions}))`;
@@ -326,6 +349,17 @@ export class QueryEngine {
         console.warn("DataCore query for imported nodes failed:", error);
       }
     }
+    if (this.nodeIndex) {
+      return this.nodeIndex
+        .getAll()
+        .filter(
+          (node) =>
+            node.file.path.startsWith("import/") &&
+            !!node.importedFromRid &&
+            !!node.nodeInstanceId,
+        )
+        .map((node) => node.file);
+    }
     return this.fallbackGetImportedNodePages();
   };
 
@@ -353,6 +387,12 @@ export class QueryEngine {
         );
       }
     }
+    if (this.nodeIndex) {
+      return this.nodeIndex
+        .getAll()
+        .filter((node) => !!node.nodeInstanceId)
+        .map((node) => node.file);
+    }
     return this.fallbackGetFilesWithNodeInstanceId();
   };
 
@@ -383,6 +423,12 @@ export class QueryEngine {
         console.warn("DataCore query for files with nodeTypeId failed:", error);
       }
     }
+    if (this.nodeIndex) {
+      return this.nodeIndex
+        .getDiscourseNodes()
+        .filter((node) => !(opts?.excludeImported && node.importedFromRid))
+        .map((node) => node.file);
+    }
     return this.fallbackGetFilesWithNodeTypeId(opts);
   };
 
@@ -393,9 +439,7 @@ export class QueryEngine {
   getFileByImportedFromRid = (importedFromRid: string): TFile | null => {
     if (this.dc) {
       try {
-        const safeUri = importedFromRid
-          .replace(/\\/g, "\\\\")
-          .replace(/"/g, '\\"');
+        const safeUri = escapeDatacoreString(importedFromRid);
         const dcQuery = `@page and importedFromRid = "${safeUri}"`;
         const results = this.dc.query(dcQuery);
         const path = results.at(0)?.$path;
@@ -410,6 +454,9 @@ export class QueryEngine {
         );
       }
     }
+    if (this.nodeIndex) {
+      return this.nodeIndex.getFileByImportedFromRid(importedFromRid);
+    }
     const allFiles = this.app.vault.getMarkdownFiles();
     for (const f of allFiles) {
       const fm = this.app.metadataCache.getFileCache(f)?.frontmatter;
@@ -435,6 +482,9 @@ export class QueryEngine {
       const byRid = this.getFileByImportedFromRid(endpointId);
       if (byRid) return byRid;
     }
+    if (this.nodeIndex) {
+      return this.nodeIndex.getFileByEndpoint(endpointId);
+    }
     const files = this.getFilesWithNodeInstanceId();
     for (const file of files) {
       const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as
@@ -458,12 +508,8 @@ export class QueryEngine {
   ): TFile | null => {
     if (this.dc) {
       try {
-        const safeId = nodeInstanceId
-          .replace(/\\/g, "\\\\")
-          .replace(/"/g, '\\"');
-        const safeUri = importedFromRid
-          .replace(/\\/g, "\\\\")
-          .replace(/"/g, '\\"');
+        const safeId = escapeDatacoreString(nodeInstanceId);
+        const safeUri = escapeDatacoreString(importedFromRid);
         const dcQuery = `@page and nodeInstanceId = "${safeId}" and importedFromRid = "${safeUri}"`;
         const results = this.dc.query(dcQuery);
 
@@ -481,6 +527,11 @@ export class QueryEngine {
     }
 
     // Fallback: DataCore absent, query failed, or indexed field mismatch
+    if (this.nodeIndex) {
+      const file = this.nodeIndex.getFileByImportedFromRid(importedFromRid);
+      const entry = file ? this.nodeIndex.getByPath(file.path) : null;
+      return entry?.nodeInstanceId === nodeInstanceId ? entry.file : null;
+    }
     const allFiles = this.app.vault.getMarkdownFiles();
     for (const f of allFiles) {
       const fm = this.app.metadataCache.getFileCache(f)?.frontmatter;
@@ -613,7 +664,7 @@ export const getImportedNodesRaw = ({
   queryEngine?: QueryEngine;
   plugin: DiscourseGraphPlugin;
 }): { importedFromRid: string; nodeInstanceId: string }[] => {
-  const engine = queryEngine ?? new QueryEngine(plugin.app);
+  const engine = queryEngine ?? new QueryEngine(plugin.app, plugin.nodeIndex);
   const files = engine.getImportedNodePages();
 
   const entries: { importedFromRid: string; nodeInstanceId: string }[] = [];
@@ -0,0 +1,436 @@
+import { debounce, EventRef, TAbstractFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { RelationInstance } from "~/types";
+import type { RelationsFile } from "~/utils/relationsStore";
+
+export type GraphDirection = "outgoing" | "incoming" | "any";
+
+export type GraphNeighbor = {
+  relation: RelationInstance;
+  direction: Exclude<GraphDirection, "any">;
+  /** Endpoint id of the node on the other end of the relation. */
+  endpointId: string;
+};
+
+export type GraphPath = {
+  /** Endpoint ids from start to end, inclusive. */
+  nodes: string[];
+  /** Relations traversed, one fewer than nodes. */
+  relations: RelationInstance[];
+};
+
+type TraversalOptions = {
+  relationTypeIds?: string[];
+  direction?: GraphDirection;
+  includeTentative?: boolean;
+};
+
+const DEFAULT_MAX_PATH_DEPTH = 6;
+const DEFAULT_MAX_PATHS = 50;
+
+const sameRelation = (a: RelationInstance, b: RelationInstance): boolean =>
+  a.type === b.type &&
+  a.source === b.source &&
+  a.destination === b.destination &&
+  a.created === b.created &&
+  a.lastModified === b.lastModified &&
+  a.tentative === b.tentative &&
+  a.authorId === b.authorId &&
+  a.importedFromRid === b.importedFromRid &&
+  JSON.stringify(a.publishedToGroupId ?? null) ===
+    JSON.stringify(b.publishedToGroupId ?? null);
+
+/**
+ * In-memory graph over relations.json.
+ *
+ * The graph is loaded lazily on first use and kept in sync incrementally:
+ * saveRelations() applies the written data as a diff, and external edits to
+ * the relations storage (sync, another device) are diffed in when it changes.
+ * Relation instances returned from the graph are copies owned by the graph and
+ * must not be mutated; use the relationsStore functions to change relations.
+ */
+export class RelationGraphIndex {
+  private plugin: DiscourseGraphPlugin;
+  private eventRefs: EventRef[] = [];
+  private relations: Map<string, RelationInstance> = new Map();
+  private outgoing: Map<string, Set<string>> = new Map();
+  private incoming: Map<string, Set<string>> = new Map();
+  private lastModified: number | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(plugin: DiscourseGraphPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Watch the relations storage for external changes. `isStoragePath` tells
+   * whether a vault path belongs to the storage (relations.json, or a shard
+   * when relations are sharded) and `load` reads the whole storage.
+   */
+  initialize({
+    isStoragePath,
+    load,
+  }: {
+    isStoragePath: (path: string) => boolean;
+    load: () => Promise<RelationsFile>;
+  }): void {
+    // Sharded storage can touch many files in one save; reload once after.
+    const reload = debounce(() => void this.reload(load), 200, true);
+    const onChange = (file: TAbstractFile) => {
+      if (!isStoragePath(file.path)) return;
+      if (this.lastModified === null) return;
+      reload();
+    };
+    this.eventRefs.push(this.plugin.app.vault.on("modify", onChange));
+    this.eventRefs.push(this.plugin.app.vault.on("create", onChange));
+    this.eventRefs.push(this.plugin.app.vault.on("delete", onChange));
+  }
+
+  cleanup(): void {
+    this.eventRefs.forEach((ref) => this.plugin.app.vault.offref(ref));
+    this.eventRefs = [];
+    this.clear();
+  }
+
+  isLoaded(): boolean {
+    return this.lastModified !== null;
+  }
+
+  /**
+   * Ensure the graph has been populated, using `load` to read relations.json.
+   * Concurrent callers share the same pending load.
+   */
+  async ensureLoaded(load: () => Promise<RelationsFile>): Promise<void> {
+    if (this.isLoaded()) return;
+    if (!this.loading) {
+      this.loading = load()
+        .then((data) => this.applyRelationsFile(data))
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Bring the graph in line with `data`, touching only relations that were
+   * added, removed or changed.
+   */
+  applyRelationsFile(data: RelationsFile): void {
+    const incomingIds = new Set(Object.keys(data.relations));
+    for (const id of Array.from(this.relations.keys())) {
+      if (!incomingIds.has(id)) this.removeRelation(id);
+    }
+    for (const relation of Object.values(data.relations)) {
+      const existing = this.relations.get(relation.id);
+      if (existing && sameRelation(existing, relation)) continue;
+      if (existing) this.removeRelation(relation.id);
+      this.addRelation(relation);
+    }
+    this.lastModified = data.lastModified;
+  }
+
+  clear(): void {
+    this.relations.clear();
+    this.outgoing.clear();
+    this.incoming.clear();
+    this.lastModified = null;
+  }
+
+  getRelation(id: string): RelationInstance | undefined {
+    return this.relations.get(id);
+  }
+
+  getAllRelations(): RelationInstance[] {
+    return Array.from(this.relations.values());
+  }
+
+  /**
+   * All relations where any of the given endpoint ids is source or destination.
+   */
+  getRelationsForEndpoints(endpointIds: Iterable<string>): RelationInstance[] {
+    const ids = new Set<string>();
+    for (const endpointId of endpointIds) {
+      this.outgoing.get(endpointId)?.forEach((id) => ids.add(id));
+      this.incoming.get(endpointId)?.forEach((id) => ids.add(id));
+    }
+    return Array.from(ids)
+      .map((id) => this.relations.get(id))
+      .filter((r): r is RelationInstance => !!r);
+  }
+
+  findRelation(
+    source: string,
+    destination: string,
+    type: string,
+  ): RelationInstance | undefined {
+    for (const id of this.outgoing.get(source) ?? []) {
+      const relation = this.relations.get(id);
+      if (relation?.destination === destination && relation.type === type) {
+        return relation;
+      }
+    }
+    return undefined;
+  }
+
+  getNeighbors(
+    endpointId: string,
+    options: TraversalOptions = {},
+  ): GraphNeighbor[] {
+    const {
+      relationTypeIds,
+      direction = "any",
+      includeTentative = true,
+    } = options;
+    const result: GraphNeighbor[] = [];
+    const collect = (
+      ids: Set<string> | undefined,
+      edgeDirection: GraphNeighbor["direction"],
+    ) => {
+      for (const id of ids ?? []) {
+        const relation = this.relations.get(id);
+        if (!relation) continue;
+        if (relation.tentative === false && !includeTentative) continue;
+        if (relationTypeIds?.length && !relationTypeIds.includes(relation.type))
+          continue;
+        result.push({
+          relation,
+          direction: edgeDirection,
+          endpointId:
+            edgeDirection === "outgoing"
+              ? relation.destination
+              : relation.source,
+        });
+      }
+    };
+    if (direction !== "incoming") {
+      collect(this.outgoing.get(endpointId), "outgoing");
+    }
+    if (direction !== "outgoing") {
+      collect(this.incoming.get(endpointId), "incoming");
+    }
+    return result;
+  }
+
+  /**
+   * Shortest path (fewest relations) between two endpoints, or null.
+   */
+  findShortestPath(
+    from: string,
+    to: string,
+    options: TraversalOptions & { maxDepth?: number } = {},
+  ): GraphPath | null {
+    if (from === to) return { nodes: [from], relations: [] };
+    const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+    const previous = new Map<
+      string,
+      { node: string; relation: RelationInstance }
+    >();
+    const visited = new Set([from]);
+    let frontier = [from];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const node of frontier) {
+        for (const neighbor of this.getNeighbors(node, options)) {
+          if (visited.has(neighbor.endpointId)) continue;
+          visited.add(neighbor.endpointId);
+          previous.set(neighbor.endpointId, {
+            node,
+            relation: neighbor.relation,
+          });
+          if (neighbor.endpointId === to) {
+            return this.buildPath(previous, from, to);
+          }
+          next.push(neighbor.endpointId);
+        }
+      }
+      frontier = next;
+    }
+    return null;
+  }
+
+  /**
+   * All simple paths between two endpoints up to `maxDepth` relations long,
+   * shortest first, capped at `maxPaths`.
+   */
+  findPaths(
+    from: string,
+    to: string,
+    options: TraversalOptions & { maxDepth?: number; maxPaths?: number } = {},
+  ): GraphPath[] {
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_PATH_DEPTH;
+    const maxPaths = options.maxPaths ?? DEFAULT_MAX_PATHS;
+    const paths: GraphPath[] = [];
+    const nodes = [from];
+    const relations: RelationInstance[] = [];
+    const onPath = new Set([from]);
+
+    const visit = (node: string) => {
+      if (paths.length >= maxPaths) return;
+      if (node === to && relations.length > 0) {
+        paths.push({ nodes: [...nodes], relations: [...relations] });
+        return;
+      }
+      if (relations.length >= maxDepth) return;
+      for (const neighbor of this.getNeighbors(node, options)) {
+        if (onPath.has(neighbor.endpointId)) continue;
+        onPath.add(neighbor.endpointId);
+        nodes.push(neighbor.endpointId);
+        relations.push(neighbor.relation);
+        visit(neighbor.endpointId);
+        relations.pop();
+        nodes.pop();
+        onPath.delete(neighbor.endpointId);
+      }
+    };
+
+    if (from === to) return [{ nodes: [from], relations: [] }];
+    visit(from);
+    return paths.sort((a, b) => a.relations.length - b.relations.length);
+  }
+
+  /**
+   * Endpoints reachable by following `relationTypeId` from source to destination.
+   * Returns endpoint id -> depth.
+   */
+  getDescendants(
+    endpointId: string,
+    relationTypeId: string,
+    maxDepth?: number,
+  ): Map<string, number> {
+    return this.reachable(endpointId, {
+      relationTypeIds: [relationTypeId],
+      direction: "outgoing",
+      maxDepth,
+    });
+  }
+
+  /**
+   * Endpoints reachable by following `relationTypeId` from destination back to source.
+   * Returns endpoint id -> depth.
+   */
+  getAncestors(
+    endpointId: string,
+    relationTypeId: string,
+    maxDepth?: number,
+  ): Map<string, number> {
+    return this.reachable(endpointId, {
+      relationTypeIds: [relationTypeId],
+      direction: "incoming",
+      maxDepth,
+    });
+  }
+
+  /**
+   * Weakly connected components of the relation graph, largest first.
+   */
+  getConnectedComponents(options: TraversalOptions = {}): string[][] {
+    const endpoints = new Set([
+      ...this.outgoing.keys(),
+      ...this.incoming.keys(),
+    ]);
+    const seen = new Set<string>();
+    const components: string[][] = [];
+
+    for (const start of endpoints) {
+      if (seen.has(start)) continue;
+      const component = [start];
+      seen.add(start);
+      const stack = [start];
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        for (const neighbor of this.getNeighbors(node, {
+          ...options,
+          direction: "any",
+        })) {
+          if (seen.has(neighbor.endpointId)) continue;
+          seen.add(neighbor.endpointId);
+          component.push(neighbor.endpointId);
+          stack.push(neighbor.endpointId);
+        }
+      }
+      components.push(component);
+    }
+
+    return components.sort((a, b) => b.length - a.length);
+  }
+
+  private reachable(
+    start: string,
+    options: TraversalOptions & { maxDepth?: number },
+  ): Map<string, number> {
+    const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+    const depths = new Map<string, number>([[start, 0]]);
+    let frontier = [start];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const node of frontier) {
+        for (const neighbor of this.getNeighbors(node, options)) {
+          if (depths.has(neighbor.endpointId)) continue;
+          depths.set(neighbor.endpointId, depth);
+          next.push(neighbor.endpointId);
+        }
+      }
+      frontier = next;
+    }
+    depths.delete(start);
+    return depths;
+  }
+
+  private buildPath(
+    previous: Map<string, { node: string; relation: RelationInstance }>,
+    from: string,
+    to: string,
+  ): GraphPath {
+    const nodes = [to];
+    const relations: RelationInstance[] = [];
+    let current = to;
+    while (current !== from) {
+      const step = previous.get(current);
+      if (!step) break;
+      relations.unshift(step.relation);
+      nodes.unshift(step.node);
+      current = step.node;
+    }
+    return { nodes, relations };
+  }
+
+  private addRelation(relation: RelationInstance): void {
+    const copy: RelationInstance = {
+      ...relation,
+      ...(relation.publishedToGroupId && {
+        publishedToGroupId: [...relation.publishedToGroupId],
+      }),
+    };
+    this.relations.set(copy.id, copy);
+    const outgoing = this.outgoing.get(copy.source) ?? new Set();
+    outgoing.add(copy.id);
+    this.outgoing.set(copy.source, outgoing);
+    const incoming = this.incoming.get(copy.destination) ?? new Set();
+    incoming.add(copy.id);
+    this.incoming.set(copy.destination, incoming);
+  }
+
+  private removeRelation(id: string): void {
+    const relation = this.relations.get(id);
+    if (!relation) return;
+    this.relations.delete(id);
+    const outgoing = this.outgoing.get(relation.source);
+    outgoing?.delete(id);
+    if (outgoing?.size === 0) this.outgoing.delete(relation.source);
+    const incoming = this.incoming.get(relation.destination);
+    incoming?.delete(id);
+    if (incoming?.size === 0) this.incoming.delete(relation.destination);
+  }
+
+  private async reload(load: () => Promise<RelationsFile>): Promise<void> {
+    try {
+      const data = await load();
+      if (data.lastModified === this.lastModified) return;
+      this.applyRelationsFile(data);
+    } catch (error) {
+      console.error("Failed to refresh relation graph:", error);
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import { Events } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { RelationInstance } from "~/types";
+import { loadRelations, saveRelations } from "~/utils/relationsStore";
+
+export type RelationHistoryOperation =
+  "add" | "remove" | "update" | "acceptTentative" | "batch";
+
+export type RelationChange = {
+  relationId: string;
+  /** Relation before the change; null when it was added. */
+  before: RelationInstance | null;
+  /** Relation after the change; null when it was removed. */
+  after: RelationInstance | null;
+};
+
+export type RelationHistoryEntry = {
+  id: number;
+  operation: RelationHistoryOperation;
+  /** Set for batches, e.g. "Import from files". */
+  label?: string;
+  timestamp: number;
+  changes: RelationChange[];
+};
+
+/**
+ * Handle of an open batch, passed to the relationsStore functions so that
+ * their changes join it. Changes recorded without it get their own entry.
+ */
+export type RelationHistoryBatch = { readonly label: string };
+
+export type RelationHistoryResult = {
+  entry: RelationHistoryEntry;
+  applied: number;
+  /** Changes left alone because the relation was edited again since. */
+  skipped: number;
+};
+
+const MAX_HISTORY_ENTRIES = 100;
+
+/** Compare relations ignoring lastModified, which undo and redo bump. */
+const sameContent = (
+  a: RelationInstance | null | undefined,
+  b: RelationInstance | null | undefined,
+): boolean => {
+  if (!a || !b) return !a && !b;
+  return (
+    JSON.stringify({ ...a, lastModified: undefined }) ===
+    JSON.stringify({ ...b, lastModified: undefined })
+  );
+};
+
+/** Keep the first `before` and last `after` of each relation; drop no-ops. */
+const collapseChanges = (changes: RelationChange[]): RelationChange[] => {
+  const byId = new Map<string, RelationChange>();
+  for (const change of changes) {
+    const existing = byId.get(change.relationId);
+    byId.set(
+      change.relationId,
+      existing ? { ...existing, after: change.after } : change,
+    );
+  }
+  return Array.from(byId.values()).filter(
+    (change) => !sameContent(change.before, change.after),
+  );
+};
+
+/**
+ * Session journal of relation changes made through the relationsStore
+ * functions (add, remove, update, accept tentative), with undo and redo.
+ *
+ * Undo and redo write relations.json directly and only touch relations that
+ * still match the journaled state, so edits made since (by sync or on the
+ * canvas) are not overwritten. The journal lives in memory and is cleared when
+ * the plugin unloads.
+ *
+ * Emits "changed" whenever the undo or redo stack changes.
+ */
+export class RelationHistory extends Events {
+  private plugin: DiscourseGraphPlugin;
+  private undoStack: RelationHistoryEntry[] = [];
+  private redoStack: RelationHistoryEntry[] = [];
+  private nextId = 1;
+  private batches: Map<RelationHistoryBatch, RelationChange[]> = new Map();
+  private busy = false;
+  /** Undo and redo run one at a time; a second step waits for the first. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(plugin: DiscourseGraphPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  getUndoEntries(): RelationHistoryEntry[] {
+    return [...this.undoStack].reverse();
+  }
+
+  getRedoEntries(): RelationHistoryEntry[] {
+    return [...this.redoStack].reverse();
+  }
+
+  canUndo(): boolean {
+    return !this.busy && this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return !this.busy && this.redoStack.length > 0;
+  }
+
+  record(
+    operation: RelationHistoryOperation,
+    changes: RelationChange[],
+    batch?: RelationHistoryBatch,
+  ): void {
+    const snapshot = structuredClone(changes);
+    const batchChanges = batch && this.batches.get(batch);
+    if (batchChanges) {
+      batchChanges.push(...snapshot);
+      return;
+    }
+    this.push({ operation, changes: collapseChanges(snapshot) });
+  }
+
+  /**
+   * Record the changes `fn` makes with the batch it is given as a single
+   * history entry, so that e.g. a bulk import is undone in one step. Changes
+   * made elsewhere meanwhile keep their own entries.
+   */
+  async runBatch<T>(
+    label: string,
+    fn: (batch: RelationHistoryBatch) => Promise<T>,
+  ): Promise<T> {
+    const batch: RelationHistoryBatch = { label };
+    this.batches.set(batch, []);
+    try {
+      return await fn(batch);
+    } finally {
+      const changes = this.batches.get(batch);
+      this.batches.delete(batch);
+      if (changes) {
+        this.push({
+          operation: "batch",
+          label,
+          changes: collapseChanges(changes),
+        });
+      }
+    }
+  }
+
+  undo(): Promise<RelationHistoryResult | null> {
+    return this.enqueue(() => this.step("undo"));
+  }
+
+  redo(): Promise<RelationHistoryResult | null> {
+    return this.enqueue(() => this.step("redo"));
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.batches.clear();
+    this.trigger("changed");
+  }
+
+  private push(entry: Omit<RelationHistoryEntry, "id" | "timestamp">): void {
+    if (entry.changes.length === 0) return;
+    this.undoStack.push({ ...entry, id: this.nextId++, timestamp: Date.now() });
+    if (this.undoStack.length > MAX_HISTORY_ENTRIES) this.undoStack.shift();
+    this.redoStack = [];
+    this.trigger("changed");
+  }
+
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private getStacks(direction: "undo" | "redo") {
+    return direction === "undo"
+      ? { from: this.undoStack, to: this.redoStack }
+      : { from: this.redoStack, to: this.undoStack };
+  }
+
+  /**
+   * Apply the top entry of the undo or redo stack and move it to the other
+   * one. If applying fails, the entry is put back so the step can be retried.
+   */
+  private async step(
+    direction: "undo" | "redo",
+  ): Promise<RelationHistoryResult | null> {
+    const entry = this.getStacks(direction).from.pop();
+    if (!entry) return null;
+    this.busy = true;
+    this.trigger("changed");
+    try {
+      const result = await this.apply(entry, direction);
+      this.getStacks(direction).to.push(entry);
+      return result;
+    } catch (error) {
+      this.getStacks(direction).from.push(entry);
+      throw error;
+    } finally {
+      this.busy = false;
+      this.trigger("changed");
+    }
+  }
+
+  private async apply(
+    entry: RelationHistoryEntry,
+    direction: "undo" | "redo",
+  ): Promise<RelationHistoryResult> {
+    const data = await loadRelations(this.plugin);
+    // Bump lastModified so restored relations win over their tombstones
+    // when copies of relations.json are merged.
+    const now = Date.now();
+    const changes =
+      direction === "undo" ? [...entry.changes].reverse() : entry.changes;
+    let applied = 0;
+    let skipped = 0;
+
+    for (const change of changes) {
+      const expected = direction === "undo" ? change.after : change.before;
+      const target = direction === "undo" ? change.before : change.after;
+      if (!sameContent(data.relations[change.relationId], expected)) {
+        skipped++;
+        continue;
+      }
+      if (target) {
+        data.relations[change.relationId] = { ...target, lastModified: now };
+      } else {
+        delete data.relations[change.relationId];
+      }
+      applied++;
+    }
+
+    if (applied > 0) await saveRelations(this.plugin, data);
+    return { entry, applied, skipped };
+  }
+}
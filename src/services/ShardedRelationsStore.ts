@@ -0,0 +1,423 @@
+import { normalizePath, TFile, TFolder } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { RelationInstance } from "~/types";
+import type { RelationsFile } from "~/utils/relationsStore";
+import { checkAndCreateFolder } from "~/utils/file";
+import {
+  createMigrationContext,
+  isRawRelationsFile,
+  RELATIONS_FILE_VERSION,
+  upgradeRelationsData,
+} from "~/utils/migrations";
+import {
+  getRelationTimestamp,
+  mergeRelationsFiles,
+  pruneTombstones,
+} from "~/utils/relationsMerge";
+
+export type RelationsShardStrategy = "source" | "month";
+
+const RELATIONS_FOLDER_NAME = "relations";
+const SOURCE_BUCKET_COUNT = 256;
+/** Shard for tombstones whose relation's shard is no longer known. */
+const FALLBACK_SHARD_KEY = "undated";
+
+/**
+ * Canonical shard names are `source-xx` or `yyyy-MM` (or `undated`).
+ * Anything after the key, such as " (conflicted copy)" or ".sync-conflict-…",
+ * marks a copy left behind by a sync tool.
+ */
+const SHARD_NAME_PATTERN = /^(source-[0-9a-f]{2}|\d{4}-\d{2}|undated)(.*)$/;
+
+type CachedShard = {
+  mtime: number;
+  size: number;
+  data: RelationsFile;
+};
+
+/** 32-bit FNV-1a, used to spread source nodes over a fixed number of shards. */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const getShardKey = (
+  relation: RelationInstance,
+  strategy: RelationsShardStrategy,
+): string => {
+  if (strategy === "source") {
+    const bucket = hashString(relation.source) % SOURCE_BUCKET_COUNT;
+    return `source-${bucket.toString(16).padStart(2, "0")}`;
+  }
+  // In UTC, so that devices in different time zones pick the same shard.
+  return relation.created
+    ? new Date(relation.created).toISOString().slice(0, 7)
+    : "undated";
+};
+
+const emptyShard = (lastModified = 0): RelationsFile => ({
+  version: RELATIONS_FILE_VERSION,
+  lastModified,
+  relations: {},
+  deleted: {},
+});
+
+const isEmptyShard = (shard: RelationsFile): boolean =>
+  Object.keys(shard.relations).length === 0 &&
+  Object.keys(shard.deleted ?? {}).length === 0;
+
+/** Shard content compared to decide whether a shard needs rewriting. */
+const getShardSignature = (shard: RelationsFile): string =>
+  JSON.stringify([shard.relations, shard.deleted ?? {}]);
+
+const parseShard = (path: string, content: string): RelationsFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `${path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!isRawRelationsFile(raw)) {
+    throw new Error(`${path}: "relations" is missing or not an object`);
+  }
+  const { data } = upgradeRelationsData(raw, createMigrationContext());
+  for (const [id, relation] of Object.entries(data.relations)) {
+    if (!relation || typeof relation !== "object") delete data.relations[id];
+  }
+  return data;
+};
+
+/**
+ * Stores relations as many small files under `relations/` instead of a single
+ * relations.json, grouped either by source node (hashed into a fixed number of
+ * buckets) or by the month a relation was created. Tombstones are kept in the
+ * shard of the relation they delete.
+ *
+ * Saving only rewrites the shards whose content changed. Each shard is written
+ * with vault.process and three-way merged (see relationsMerge) against what is
+ * on disk, using the content last read from that shard as the base, so changes
+ * another device synced in meanwhile are kept. Copies of a shard created by
+ * sync conflicts are merged into it on load and removed on the next save.
+ */
+export class ShardedRelationsStore {
+  private plugin: DiscourseGraphPlugin;
+  private loaded = false;
+  /** Canonical shard content as last read from or written to disk. */
+  private baseShards: Map<string, RelationsFile> = new Map();
+  /** Signature of each shard as last handed out by load() or written by save(). */
+  private shardSignatures: Map<string, string> = new Map();
+  /** Shard key of every relation and tombstone in the last view. */
+  private shardKeyById: Map<string, string> = new Map();
+  /** Conflict copy path -> shard key. */
+  private conflictCopies: Map<string, string> = new Map();
+  private fileCache: Map<string, CachedShard> = new Map();
+  /**
+   * load(), save() and clear() all rebuild the state above, so they run one
+   * at a time. The relation graph reloads on our own shard writes, and such a
+   * reload must not change that state in the middle of a save.
+   */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(plugin: DiscourseGraphPlugin) {
+    this.plugin = plugin;
+  }
+
+  getFolderPath(): string {
+    return normalizePath(RELATIONS_FOLDER_NAME);
+  }
+
+  isStoragePath(path: string): boolean {
+    return (
+      path.startsWith(`${this.getFolderPath()}/`) && path.endsWith(".json")
+    );
+  }
+
+  private getShardPath(key: string): string {
+    return normalizePath(`${this.getFolderPath()}/${key}.json`);
+  }
+
+  private getShardFiles(): TFile[] {
+    const folder = this.plugin.app.vault.getAbstractFileByPath(
+      this.getFolderPath(),
+    );
+    if (!(folder instanceof TFolder)) return [];
+    return folder.children.filter(
+      (child): child is TFile =>
+        child instanceof TFile && child.extension === "json",
+    );
+  }
+
+  private async readShard(file: TFile): Promise<RelationsFile> {
+    const cached = this.fileCache.get(file.path);
+    if (
+      cached &&
+      cached.mtime === file.stat.mtime &&
+      cached.size === file.stat.size
+    ) {
+      return cached.data;
+    }
+
+    const data = parseShard(file.path, await this.plugin.app.vault.read(file));
+    this.fileCache.set(file.path, {
+      mtime: file.stat.mtime,
+      size: file.stat.size,
+      data,
+    });
+    return data;
+  }
+
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Read and merge every shard. Throws if a shard cannot be parsed, so a
+   * damaged shard is never mistaken for an empty one and overwritten. Until a
+   * load succeeds again, save() reloads first and so fails as well.
+   */
+  load(): Promise<RelationsFile> {
+    return this.enqueue(() => this.loadShards());
+  }
+
+  private async loadShards(): Promise<RelationsFile> {
+    this.loaded = false;
+    const files = this.getShardFiles();
+    const filePaths = new Set(files.map((file) => file.path));
+    for (const path of Array.from(this.fileCache.keys())) {
+      if (!filePaths.has(path)) this.fileCache.delete(path);
+    }
+
+    const baseShards = new Map<string, RelationsFile>();
+    const copiesByKey = new Map<string, RelationsFile[]>();
+    const conflictCopies = new Map<string, string>();
+    for (const file of files) {
+      const match = file.basename.match(SHARD_NAME_PATTERN);
+      if (!match) continue;
+      const key = match[1]!;
+      const data = await this.readShard(file);
+      if (match[2]) {
+        conflictCopies.set(file.path, key);
+        copiesByKey.set(key, [...(copiesByKey.get(key) ?? []), data]);
+      } else {
+        baseShards.set(key, data);
+      }
+    }
+
+    const merged = emptyShard();
+    const deleted = merged.deleted!;
+    const shardKeyById = new Map<string, string>();
+    const shardSignatures = new Map<string, string>();
+    const keys = new Set([...baseShards.keys(), ...copiesByKey.keys()]);
+
+    for (const key of keys) {
+      let shard = baseShards.get(key) ?? emptyShard();
+      for (const copy of copiesByKey.get(key) ?? []) {
+        shard = mergeRelationsFiles({ ours: shard, theirs: copy }).merged;
+      }
+      shardSignatures.set(key, getShardSignature(shard));
+      merged.lastModified = Math.max(merged.lastModified, shard.lastModified);
+
+      for (const relation of Object.values(shard.relations)) {
+        // A relation can sit in two shards if another device moved it.
+        const existing = merged.relations[relation.id];
+        if (
+          existing &&
+          getRelationTimestamp(existing) >= getRelationTimestamp(relation)
+        ) {
+          continue;
+        }
+        merged.relations[relation.id] = relation;
+        shardKeyById.set(relation.id, key);
+      }
+      for (const [id, deletedAt] of Object.entries(shard.deleted ?? {})) {
+        if (deletedAt <= (deleted[id] ?? 0)) continue;
+        deleted[id] = deletedAt;
+        if (!merged.relations[id]) shardKeyById.set(id, key);
+      }
+    }
+
+    // A tombstone and a relation from different shards: the newer one wins.
+    for (const [id, deletedAt] of Object.entries(deleted)) {
+      const relation = merged.relations[id];
+      if (!relation) continue;
+      if (getRelationTimestamp(relation) < deletedAt) {
+        delete merged.relations[id];
+      } else {
+        delete deleted[id];
+      }
+    }
+
+    this.baseShards = baseShards;
+    this.shardSignatures = shardSignatures;
+    this.shardKeyById = shardKeyById;
+    this.conflictCopies = conflictCopies;
+    this.loaded = true;
+
+    return merged;
+  }
+
+  /**
+   * Write `data`, touching only shards whose content changed since the last
+   * load or save. Returns true when changes made elsewhere were merged in, so
+   * the caller's copy of the data is stale. Shards that can no longer be
+   * parsed are left untouched and reported by throwing once the others are
+   * written.
+   */
+  save(
+    data: RelationsFile,
+    strategy: RelationsShardStrategy,
+  ): Promise<boolean> {
+    return this.enqueue(() => this.saveShards(data, strategy));
+  }
+
+  private async saveShards(
+    data: RelationsFile,
+    strategy: RelationsShardStrategy,
+  ): Promise<boolean> {
+    if (!this.loaded) await this.loadShards();
+
+    const shards = new Map<string, RelationsFile>();
+    const shardKeyById = new Map<string, string>();
+    const getShard = (key: string) => {
+      const shard = shards.get(key) ?? emptyShard(data.lastModified);
+      shards.set(key, shard);
+      return shard;
+    };
+
+    for (const relation of Object.values(data.relations)) {
+      const key = getShardKey(relation, strategy);
+      getShard(key).relations[relation.id] = relation;
+      shardKeyById.set(relation.id, key);
+    }
+    for (const [id, deletedAt] of Object.entries(data.deleted ?? {})) {
+      const key = this.shardKeyById.get(id) ?? FALLBACK_SHARD_KEY;
+      getShard(key).deleted![id] = deletedAt;
+      shardKeyById.set(id, key);
+    }
+
+    const copyKeys = new Set(this.conflictCopies.values());
+    const keys = new Set([
+      ...shards.keys(),
+      ...this.shardSignatures.keys(),
+      ...copyKeys,
+    ]);
+    const shardSignatures = new Map<string, string>();
+    const unreadableKeys = new Set<string>();
+    let mergedExternal = false;
+
+    await checkAndCreateFolder(this.getFolderPath(), this.plugin.app.vault);
+
+    for (const key of keys) {
+      const shard = shards.get(key) ?? emptyShard(data.lastModified);
+      const signature = getShardSignature(shard);
+      if (this.shardSignatures.get(key) === signature && !copyKeys.has(key)) {
+        shardSignatures.set(key, signature);
+        continue;
+      }
+
+      const written = await this.writeShard(key, shard);
+      if (!written) {
+        unreadableKeys.add(key);
+        continue;
+      }
+      const writtenSignature = getShardSignature(written);
+      mergedExternal = mergedExternal || writtenSignature !== signature;
+      if (!isEmptyShard(written)) shardSignatures.set(key, writtenSignature);
+    }
+
+    for (const [path, key] of this.conflictCopies) {
+      // Copies of a shard that wasn't written still hold unsaved changes.
+      if (unreadableKeys.has(key)) continue;
+      const file = this.plugin.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) await this.plugin.app.vault.delete(file);
+      this.conflictCopies.delete(path);
+    }
+
+    this.shardSignatures = shardSignatures;
+    this.shardKeyById = shardKeyById;
+    if (unreadableKeys.size > 0) {
+      this.loaded = false;
+      throw new Error(
+        `Could not save relations to ${Array.from(unreadableKeys, (key) => this.getShardPath(key)).join(", ")}: the file cannot be parsed. Run "Validate discourse graph" to repair it.`,
+      );
+    }
+    return mergedExternal;
+  }
+
+  /**
+   * Write one shard, merged with what is on disk. Returns what was written, or
+   * null when the file on disk cannot be parsed and was left as it is.
+   */
+  private async writeShard(
+    key: string,
+    shard: RelationsFile,
+  ): Promise<RelationsFile | null> {
+    const vault = this.plugin.app.vault;
+    const path = this.getShardPath(key);
+    const serialize = (content: RelationsFile) =>
+      JSON.stringify(content, null, 2);
+
+    const file = vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      if (!isEmptyShard(shard)) await vault.create(path, serialize(shard));
+      this.baseShards.set(key, shard);
+      return shard;
+    }
+
+    let written = null as RelationsFile | null;
+    await vault.process(file, (current) => {
+      let theirs: RelationsFile;
+      try {
+        theirs = parseShard(path, current);
+      } catch (error) {
+        console.error(`Not saving relations to ${path}:`, error);
+        return current;
+      }
+      const { merged } = mergeRelationsFiles({
+        ours: shard,
+        theirs,
+        base: this.baseShards.get(key) ?? null,
+      });
+      written = {
+        ...merged,
+        lastModified: shard.lastModified,
+        deleted: pruneTombstones(merged.deleted ?? {}, Date.now()),
+      };
+      return serialize(written);
+    });
+    if (!written) return null;
+
+    if (isEmptyShard(written)) {
+      await vault.delete(file);
+    }
+    this.baseShards.set(key, written);
+    return written;
+  }
+
+  /** Delete all shard files, e.g. after switching back to a single relations.json. */
+  clear(): Promise<void> {
+    return this.enqueue(() => this.clearShards());
+  }
+
+  private async clearShards(): Promise<void> {
+    for (const file of this.getShardFiles()) {
+      if (SHARD_NAME_PATTERN.test(file.basename)) {
+        await this.plugin.app.vault.delete(file);
+      }
+    }
+    this.loaded = false;
+    this.baseShards.clear();
+    this.shardSignatures.clear();
+    this.shardKeyById.clear();
+    this.conflictCopies.clear();
+    this.fileCache.clear();
+  }
+}
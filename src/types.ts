@@ -5,6 +5,8 @@ export type DiscourseNode = {
   id: string;
   name: string;
   format: string;
+  /** Copy placeholders of the format other than {content} into frontmatter. */
+  placeholdersInFrontmatter?: boolean;
   template?: string;
   description?: string;
   shortcut?: string;
@@ -16,6 +18,26 @@ export type DiscourseNode = {
   modified: number;
   importedFromRid?: string;
   authorId?: number;
+  /** Node type this one is a subtype of; its relation rules apply here too. */
+  parentId?: string;
+  /** Typed fields stored in the frontmatter of nodes of this type. */
+  attributes?: NodeAttribute[];
+};
+
+export type NodeAttributeType = "string" | "number" | "enum" | "rating";
+
+export type NodeAttribute = {
+  id: string;
+  /** Frontmatter key the value is stored under. */
+  key: string;
+  label?: string;
+  type: NodeAttributeType;
+  /** Allowed values of an "enum" attribute. */
+  options?: string[];
+  /** Bounds of a "number" attribute. */
+  min?: number;
+  max?: number;
+  required?: boolean;
 };
 
 export type ImportStatus = "provisional" | "accepted";
@@ -74,8 +96,15 @@ export type Settings = {
   spaceNames?: Record<string, string>;
   username?: string;
   userNames?: Record<number, string>;
+  /** Version of the settings shape; see SETTINGS_MIGRATIONS. Missing before versioning was introduced. */
+  settingsVersion?: number;
+  /** Where relations are stored. Defaults to a single relations.json. */
+  relationsStorage?: RelationsStorageMode;
 };
 
+export type RelationsStorageMode =
+  "file" | "shardedBySource" | "shardedByMonth";
+
 export type BulkImportCandidate = {
   file: TFile;
   matchedNodeType: DiscourseNode;
@@ -118,3 +147,5 @@ export type ImportFolderMetadata = {
 };
 
 export const VIEW_TYPE_DISCOURSE_CONTEXT = "discourse-context-view";
+
+export const VIEW_TYPE_RELATION_HISTORY = "discourse-relation-history-view";
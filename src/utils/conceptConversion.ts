@@ -46,6 +46,8 @@ export const discourseNodeSchemaToLocalConcept = ({
     created,
     modified,
     importedFromRid,
+    attributes,
+    parentId,
     ...otherData
   } = node;
   const literal_content: Record<string, Json> = {
@@ -53,6 +55,8 @@ export const discourseNodeSchemaToLocalConcept = ({
     source_data: otherData,
   };
   if (template) literal_content.template = template;
+  if (attributes?.length) literal_content.attributes = attributes as Json;
+  if (parentId) literal_content.parentId = parentId;
   literal_content.template_content = templateContent || null;
   if (importedFromRid) literal_content.importedFromRid = importedFromRid;
   return {
@@ -65,6 +69,8 @@ export const discourseNodeSchemaToLocalConcept = ({
     last_modified: new Date(modified).toISOString(),
     description: description,
     literal_content,
+    // Reference the parent type so it is synced before its subtypes.
+    ...(parentId ? { local_reference_content: { parent: parentId } } : {}),
   };
 };
 
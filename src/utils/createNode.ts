@@ -1,26 +1,40 @@
 import { Editor, Notice, TFile } from "obsidian";
 import { DiscourseNode } from "~/types";
-import { getDiscourseNodeFormatExpression } from "./getDiscourseNodeFormatExpression";
+import {
+  CONTENT_PLACEHOLDER,
+  getFormatPlaceholders,
+} from "./getDiscourseNodeFormatExpression";
 import { checkInvalidChars } from "./validateNodeType";
 import { applyTemplate } from "./templates";
 import type DiscourseGraphPlugin from "~/index";
 import { FrontmatterRecord } from "~/components/canvas/shapes/discourseNodeShapeUtils";
+import {
+  applyAttributeValues,
+  type NodeAttributeValues,
+} from "./nodeAttributes";
+import { getMirroredPlaceholderValues } from "./titlePlaceholders";
 
+const normalizeTitlePart = (text: string): string =>
+  text.replace(/\s*\n\s*/g, " ").trim();
+
+/**
+ * Fill in a node type's format: `text` goes into {content} and
+ * `placeholderValues` into any other placeholders, which are left empty when
+ * no value is given.
+ */
 export const formatNodeName = (
   text: string,
   nodeType: DiscourseNode,
+  placeholderValues: Record<string, string> = {},
 ): string | null => {
-  const normalizedText = text.replace(/\s*\n\s*/g, " ").trim();
-
-  const regex = getDiscourseNodeFormatExpression(nodeType.format);
-  const nodeFormat = regex.source.match(/^\^(.*?)\(\.\*\?\)(.*?)\$$/);
-
-  if (!nodeFormat) return null;
+  if (!getFormatPlaceholders(nodeType.format).includes(CONTENT_PLACEHOLDER)) {
+    return null;
+  }
 
-  return (
-    nodeFormat[1]?.replace(/\\/g, "") +
-    normalizedText +
-    nodeFormat[2]?.replace(/\\/g, "")
+  return nodeType.format.replace(/{([a-zA-Z]+)}/g, (_, name: string) =>
+    normalizeTitlePart(
+      name === CONTENT_PLACEHOLDER ? text : (placeholderValues[name] ?? ""),
+    ),
   );
 };
 
@@ -28,10 +42,16 @@ export const createDiscourseNodeFile = async ({
   plugin,
   formattedNodeName,
   nodeType,
+  attributeValues,
+  silent = false,
 }: {
   plugin: DiscourseGraphPlugin;
   formattedNodeName: string;
   nodeType: DiscourseNode;
+  /** Values of the node type's attributes, written to frontmatter. */
+  attributeValues?: NodeAttributeValues;
+  /** Skip the per-node notices, e.g. when creating many nodes in bulk. */
+  silent?: boolean;
 }): Promise<TFile | null> => {
   try {
     const { app, settings } = plugin;
@@ -44,6 +64,7 @@ export const createDiscourseNodeFile = async ({
     );
 
     if (existingFile) {
+      if (silent) return existingFile;
       new Notice(
         `File ${formattedNodeName} already exists at ${existingFile.path}`,
         3000,
@@ -67,6 +88,11 @@ export const createDiscourseNodeFile = async ({
       newFile,
       (fm: FrontmatterRecord) => {
         fm.nodeTypeId = nodeType.id;
+        Object.assign(
+          fm,
+          getMirroredPlaceholderValues(nodeType, formattedNodeName),
+        );
+        if (attributeValues) applyAttributeValues(fm, attributeValues);
       },
     );
 
@@ -84,6 +110,8 @@ export const createDiscourseNodeFile = async ({
       }
     }
 
+    if (silent) return newFile;
+
     const notice = new DocumentFragment();
     const wrapper = createSpan({ text: "Created discourse node: " });
     const linkEl = createEl("a");
@@ -113,13 +141,20 @@ export const createDiscourseNode = async ({
   nodeType,
   text,
   editor,
+  placeholderValues,
+  attributeValues,
+  silent = false,
 }: {
   plugin: DiscourseGraphPlugin;
   nodeType: DiscourseNode;
   text: string;
   editor?: Editor;
+  /** Values of the format's placeholders other than {content}. */
+  placeholderValues?: Record<string, string>;
+  attributeValues?: NodeAttributeValues;
+  silent?: boolean;
 }): Promise<TFile | null> => {
-  const formattedNodeName = formatNodeName(text, nodeType);
+  const formattedNodeName = formatNodeName(text, nodeType, placeholderValues);
   if (!formattedNodeName) return null;
 
   const isFilenameValid = checkInvalidChars(formattedNodeName);
@@ -132,6 +167,8 @@ export const createDiscourseNode = async ({
     plugin,
     formattedNodeName,
     nodeType,
+    attributeValues,
+    silent,
   });
 
   if (newFile && editor && editor.somethingSelected()) {
@@ -146,14 +183,22 @@ export const convertPageToDiscourseNode = async ({
   file,
   nodeType,
   title,
+  placeholderValues,
+  attributeValues,
 }: {
   plugin: DiscourseGraphPlugin;
   file: TFile;
   nodeType: DiscourseNode;
   title?: string;
+  placeholderValues?: Record<string, string>;
+  attributeValues?: NodeAttributeValues;
 }): Promise<void> => {
   try {
-    const formattedNodeName = formatNodeName(title || file.basename, nodeType);
+    const formattedNodeName = formatNodeName(
+      title || file.basename,
+      nodeType,
+      placeholderValues,
+    );
     if (!formattedNodeName) {
       new Notice("Failed to format node name", 3000);
       return;
@@ -213,6 +258,11 @@ export const convertPageToDiscourseNode = async ({
       file,
       (fm: Record<string, unknown>) => {
         fm.nodeTypeId = nodeType.id;
+        Object.assign(
+          fm,
+          getMirroredPlaceholderValues(nodeType, formattedNodeName),
+        );
+        if (attributeValues) applyAttributeValues(fm, attributeValues);
       },
     );
 
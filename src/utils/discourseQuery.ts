@@ -0,0 +1,258 @@
+import type { TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { RelationInstance } from "~/types";
+import {
+  buildEndpointToFileMap,
+  getRelationGraph,
+  resolveEndpointToFile,
+} from "./relationsStore";
+
+/**
+ * Direction of a relation as seen from the node being matched.
+ * "outgoing": the node is the relation source (uses the relation type label).
+ * "incoming": the node is the relation destination (uses the complement).
+ */
+export type RelationDirection = "outgoing" | "incoming" | "any";
+
+export type RelationCondition = {
+  relationTypeId: string;
+  direction?: RelationDirection;
+  /** Restrict the node on the other end to these node types. */
+  targetNodeTypeIds?: string[];
+  /** When true, the node matches only if it has NO such relation. */
+  negate?: boolean;
+};
+
+export type TraversalSpec = {
+  /** Node to start from. It is never part of the results. */
+  startFile: TFile;
+  /** Maximum number of relation hops away from the start node. */
+  maxHops: number;
+  /** Relation types to follow. All relation types when empty or omitted. */
+  relationTypeIds?: string[];
+  direction?: RelationDirection;
+};
+
+export type DiscourseQuery = {
+  /** Only consider nodes reachable from a start node. */
+  from?: TraversalSpec;
+  /** Node types to return. All discourse nodes when empty or omitted. */
+  nodeTypeIds?: string[];
+  /** Case-insensitive substring filter on the note title. */
+  titleContains?: string;
+  /** All conditions must hold (AND). */
+  conditions?: RelationCondition[];
+  /** Whether tentative relations count as matches. Defaults to false. */
+  includeTentative?: boolean;
+};
+
+export type RelationEdge = {
+  relation: RelationInstance;
+  direction: Exclude<RelationDirection, "any">;
+  other: TFile;
+};
+
+export type DiscourseQueryResult = {
+  file: TFile;
+  nodeTypeId: string;
+  /** Distance from the start node, when the query has a `from` traversal. */
+  hops?: number;
+  /** Related files matched by each condition, by condition index (empty for negated ones). */
+  related: TFile[][];
+};
+
+/**
+ * Build a per-file adjacency list from relation instances.
+ * Relations whose endpoints cannot be resolved to a file are skipped.
+ */
+export const buildRelationAdjacency = ({
+  relations,
+  resolveEndpoint,
+  includeTentative = false,
+}: {
+  relations: RelationInstance[];
+  resolveEndpoint: (endpointId: string) => TFile | null;
+  includeTentative?: boolean;
+}): Map<string, RelationEdge[]> => {
+  const adjacency = new Map<string, RelationEdge[]>();
+  const push = (path: string, edge: RelationEdge) => {
+    const edges = adjacency.get(path) ?? [];
+    edges.push(edge);
+    adjacency.set(path, edges);
+  };
+
+  for (const relation of relations) {
+    if (relation.tentative === false && !includeTentative) continue;
+    const sourceFile = resolveEndpoint(relation.source);
+    const destinationFile = resolveEndpoint(relation.destination);
+    if (!sourceFile || !destinationFile) continue;
+
+    push(sourceFile.path, {
+      relation,
+      direction: "outgoing",
+      other: destinationFile,
+    });
+    push(destinationFile.path, {
+      relation,
+      direction: "incoming",
+      other: sourceFile,
+    });
+  }
+
+  return adjacency;
+};
+
+/**
+ * Edges of a node that satisfy a single relation condition (ignoring negate).
+ */
+export const getMatchingEdges = ({
+  edges,
+  condition,
+  getNodeTypeId,
+}: {
+  edges: RelationEdge[];
+  condition: RelationCondition;
+  getNodeTypeId: (file: TFile) => string | undefined;
+}): RelationEdge[] => {
+  const direction = condition.direction ?? "any";
+  return edges.filter((edge) => {
+    if (edge.relation.type !== condition.relationTypeId) return false;
+    if (direction !== "any" && edge.direction !== direction) return false;
+    if (condition.targetNodeTypeIds?.length) {
+      const otherTypeId = getNodeTypeId(edge.other);
+      if (!otherTypeId || !condition.targetNodeTypeIds.includes(otherTypeId)) {
+        return false;
+      }
+    }
+    return true;
+  });
+};
+
+/**
+ * Breadth-first traversal from a start node. Returns the hop distance of every
+ * node reachable within `maxHops`, keyed by file path (start node excluded).
+ */
+export const traverseRelations = ({
+  adjacency,
+  startPath,
+  maxHops,
+  relationTypeIds,
+  direction = "any",
+}: {
+  adjacency: Map<string, RelationEdge[]>;
+  startPath: string;
+  maxHops: number;
+  relationTypeIds?: string[];
+  direction?: RelationDirection;
+}): Map<string, number> => {
+  const distances = new Map<string, number>([[startPath, 0]]);
+  let frontier = [startPath];
+
+  for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const path of frontier) {
+      for (const edge of adjacency.get(path) ?? []) {
+        if (
+          relationTypeIds?.length &&
+          !relationTypeIds.includes(edge.relation.type)
+        ) {
+          continue;
+        }
+        if (direction !== "any" && edge.direction !== direction) continue;
+        if (distances.has(edge.other.path)) continue;
+        distances.set(edge.other.path, hop);
+        next.push(edge.other.path);
+      }
+    }
+    frontier = next;
+  }
+
+  distances.delete(startPath);
+  return distances;
+};
+
+/**
+ * Run a structured query over discourse nodes and relations.json.
+ * Works entirely from the native node index, so it does not need Datacore.
+ * Results are sorted by hop distance (when traversing), then by title.
+ *
+ * Example — claims that support a question and have no opposing evidence:
+ * {
+ *   nodeTypeIds: [claimTypeId],
+ *   conditions: [
+ *     { relationTypeId: supportsId, direction: "outgoing", targetNodeTypeIds: [questionTypeId] },
+ *     { relationTypeId: opposesId, direction: "incoming", targetNodeTypeIds: [evidenceTypeId], negate: true },
+ *   ],
+ * }
+ */
+export const runDiscourseQuery = async (
+  plugin: DiscourseGraphPlugin,
+  query: DiscourseQuery,
+): Promise<DiscourseQueryResult[]> => {
+  const nodeIndex = plugin.nodeIndex;
+  const nodes = nodeIndex.getDiscourseNodes(
+    query.nodeTypeIds?.length ? query.nodeTypeIds : undefined,
+  );
+  const titleFilter = query.titleContains?.trim().toLowerCase();
+  const conditions = query.conditions ?? [];
+
+  let adjacency = new Map<string, RelationEdge[]>();
+  if (conditions.length > 0 || query.from) {
+    const relationGraph = await getRelationGraph(plugin);
+    const endpointToFileMap = buildEndpointToFileMap(plugin);
+    adjacency = buildRelationAdjacency({
+      relations: relationGraph.getAllRelations(),
+      resolveEndpoint: (endpointId) =>
+        resolveEndpointToFile(plugin, endpointId, endpointToFileMap),
+      includeTentative: query.includeTentative,
+    });
+  }
+
+  const getNodeTypeId = (file: TFile) =>
+    nodeIndex.getByPath(file.path)?.nodeTypeId;
+
+  const distances = query.from
+    ? traverseRelations({
+        adjacency,
+        startPath: query.from.startFile.path,
+        maxHops: query.from.maxHops,
+        relationTypeIds: query.from.relationTypeIds,
+        direction: query.from.direction,
+      })
+    : null;
+
+  const results: DiscourseQueryResult[] = [];
+  for (const node of nodes) {
+    if (!node.nodeTypeId) continue;
+    const hops = distances?.get(node.file.path);
+    if (distances && hops === undefined) continue;
+    if (titleFilter && !node.file.basename.toLowerCase().includes(titleFilter))
+      continue;
+
+    const edges = adjacency.get(node.file.path) ?? [];
+    const related: TFile[][] = [];
+    let matches = true;
+    for (const condition of conditions) {
+      const matching = getMatchingEdges({ edges, condition, getNodeTypeId });
+      if (condition.negate ? matching.length > 0 : matching.length === 0) {
+        matches = false;
+        break;
+      }
+      related.push(condition.negate ? [] : matching.map((edge) => edge.other));
+    }
+    if (!matches) continue;
+
+    results.push({
+      file: node.file,
+      nodeTypeId: node.nodeTypeId,
+      hops,
+      related,
+    });
+  }
+
+  return results.sort(
+    (a, b) =>
+      (a.hops ?? 0) - (b.hops ?? 0) ||
+      a.file.basename.localeCompare(b.file.basename),
+  );
+};
@@ -0,0 +1,257 @@
+import { parseYaml, TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNode, DiscourseRelationType } from "~/types";
+import type {
+  DiscourseQuery,
+  RelationCondition,
+  RelationDirection,
+} from "./discourseQuery";
+
+export const DISCOURSE_QUERY_BLOCK_LANGUAGE = "discourse-query";
+
+export type DiscourseQueryColumn = {
+  label: string;
+  conditionIndex: number;
+};
+
+export type ParsedDiscourseQueryBlock = {
+  query: DiscourseQuery;
+  /** Extra table columns listing the nodes matched by each (non-negated) condition. */
+  columns: DiscourseQueryColumn[];
+};
+
+type RawCondition = {
+  relation?: unknown;
+  direction?: unknown;
+  target?: unknown;
+  not?: unknown;
+};
+
+type RawBlock = {
+  nodeTypes?: unknown;
+  from?: unknown;
+  relations?: unknown;
+  direction?: unknown;
+  hops?: unknown;
+  where?: unknown;
+  title?: unknown;
+  includeTentative?: unknown;
+};
+
+const DIRECTIONS: RelationDirection[] = ["outgoing", "incoming", "any"];
+const DEFAULT_HOPS = 1;
+const MAX_HOPS = 5;
+
+const toStringList = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) {
+    return value
+      .filter((v) => typeof v === "string" || typeof v === "number")
+      .map((v) => String(v).trim())
+      .filter(Boolean);
+  }
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+  }
+  return [];
+};
+
+const findNodeType = (
+  plugin: DiscourseGraphPlugin,
+  nameOrId: string,
+): DiscourseNode | undefined => {
+  const lower = nameOrId.toLowerCase();
+  return plugin.settings.nodeTypes.find(
+    (nodeType) =>
+      nodeType.id === nameOrId || nodeType.name.toLowerCase() === lower,
+  );
+};
+
+/**
+ * Resolve a relation type by id, label or complement.
+ * `viaComplement` is true when the name matched the complement label,
+ * meaning the relation should be read in the incoming direction.
+ */
+const findRelationType = (
+  plugin: DiscourseGraphPlugin,
+  nameOrId: string,
+): { relationType: DiscourseRelationType; viaComplement: boolean } | null => {
+  const lower = nameOrId.toLowerCase();
+  for (const relationType of plugin.settings.relationTypes) {
+    if (
+      relationType.id === nameOrId ||
+      relationType.label.toLowerCase() === lower
+    ) {
+      return { relationType, viaComplement: false };
+    }
+    if (relationType.complement.toLowerCase() === lower) {
+      return { relationType, viaComplement: true };
+    }
+  }
+  return null;
+};
+
+const parseDirection = (
+  value: unknown,
+  fieldName: string,
+): RelationDirection | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string" && DIRECTIONS.includes(value as never)) {
+    return value as RelationDirection;
+  }
+  throw new Error(
+    `"${fieldName}" must be one of ${DIRECTIONS.join(", ")}, got "${String(value)}"`,
+  );
+};
+
+const resolveNodeTypeIds = (
+  plugin: DiscourseGraphPlugin,
+  names: string[],
+  fieldName: string,
+): string[] =>
+  names.map((name) => {
+    const nodeType = findNodeType(plugin, name);
+    if (!nodeType) {
+      throw new Error(`Unknown node type "${name}" in "${fieldName}"`);
+    }
+    return nodeType.id;
+  });
+
+const resolveStartFile = (
+  plugin: DiscourseGraphPlugin,
+  from: string,
+  sourcePath: string,
+): TFile => {
+  if (from === "this") {
+    const file = plugin.app.vault.getAbstractFileByPath(sourcePath);
+    if (file instanceof TFile) return file;
+    throw new Error(`Could not find the current note "${sourcePath}"`);
+  }
+
+  const linkpath = from.replace(/^\[\[|\]\]$/g, "").split("|")[0] ?? "";
+  const file = plugin.app.metadataCache.getFirstLinkpathDest(
+    linkpath,
+    sourcePath,
+  );
+  if (!file) {
+    throw new Error(`Could not resolve "from: ${from}"`);
+  }
+  return file;
+};
+
+const parseCondition = (
+  plugin: DiscourseGraphPlugin,
+  raw: RawCondition,
+  index: number,
+): RelationCondition => {
+  if (typeof raw.relation !== "string" || !raw.relation.trim()) {
+    throw new Error(`"where" entry ${index + 1} is missing "relation"`);
+  }
+  const resolved = findRelationType(plugin, raw.relation.trim());
+  if (!resolved) {
+    throw new Error(`Unknown relation type "${raw.relation}"`);
+  }
+
+  const direction =
+    parseDirection(raw.direction, "direction") ??
+    (resolved.viaComplement ? "incoming" : "any");
+  const targets = toStringList(raw.target);
+
+  return {
+    relationTypeId: resolved.relationType.id,
+    direction,
+    targetNodeTypeIds: targets.length
+      ? resolveNodeTypeIds(plugin, targets, "target")
+      : undefined,
+    negate: raw.not === true,
+  };
+};
+
+/**
+ * Parse the YAML body of a `discourse-query` code block into a DiscourseQuery.
+ * Node types and relation types may be referenced by name or id; relation
+ * types can also be referenced by their complement label.
+ *
+ * Throws an Error with a user-facing message when the block is invalid.
+ */
+export const parseDiscourseQueryBlock = ({
+  plugin,
+  source,
+  sourcePath,
+}: {
+  plugin: DiscourseGraphPlugin;
+  source: string;
+  sourcePath: string;
+}): ParsedDiscourseQueryBlock => {
+  const raw = (source.trim() ? parseYaml(source) : {}) as RawBlock | null;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Query must be a YAML mapping");
+  }
+
+  const query: DiscourseQuery = {
+    nodeTypeIds: resolveNodeTypeIds(
+      plugin,
+      toStringList(raw.nodeTypes),
+      "nodeTypes",
+    ),
+    titleContains: typeof raw.title === "string" ? raw.title : undefined,
+    includeTentative: raw.includeTentative === true,
+  };
+
+  if (raw.from !== undefined && raw.from !== null) {
+    if (typeof raw.from !== "string") {
+      throw new Error(`"from" must be "this" or a [[link]]`);
+    }
+
+    const hops = raw.hops === undefined ? DEFAULT_HOPS : Number(raw.hops);
+    if (!Number.isInteger(hops) || hops < 1 || hops > MAX_HOPS) {
+      throw new Error(`"hops" must be a whole number from 1 to ${MAX_HOPS}`);
+    }
+
+    let viaComplement = false;
+    const relationTypeIds = toStringList(raw.relations).map((name) => {
+      const resolved = findRelationType(plugin, name);
+      if (!resolved) throw new Error(`Unknown relation type "${name}"`);
+      viaComplement = viaComplement || resolved.viaComplement;
+      return resolved.relationType.id;
+    });
+
+    query.from = {
+      startFile: resolveStartFile(plugin, raw.from.trim(), sourcePath),
+      maxHops: hops,
+      relationTypeIds,
+      direction:
+        parseDirection(raw.direction, "direction") ??
+        (viaComplement ? "incoming" : "any"),
+    };
+  }
+
+  const rawConditions = raw.where ?? [];
+  if (!Array.isArray(rawConditions)) {
+    throw new Error(`"where" must be a list of conditions`);
+  }
+  query.conditions = rawConditions.map((condition, index) =>
+    parseCondition(plugin, (condition ?? {}) as RawCondition, index),
+  );
+
+  const columns: DiscourseQueryColumn[] = [];
+  query.conditions.forEach((condition, conditionIndex) => {
+    if (condition.negate) return;
+    const relationType = plugin.settings.relationTypes.find(
+      (r) => r.id === condition.relationTypeId,
+    );
+    if (!relationType) return;
+    columns.push({
+      label:
+        condition.direction === "incoming"
+          ? relationType.complement
+          : relationType.label,
+      conditionIndex,
+    });
+  });
+
+  return { query, columns };
+};
@@ -103,6 +103,8 @@ export const openConvertImageToNodeModal = ({
       nodeType: selectedType,
       title,
       selectedExistingNode,
+      placeholderValues,
+      attributeValues,
     }) => {
       const targetFile =
         selectedExistingNode ??
@@ -110,6 +112,8 @@ export const openConvertImageToNodeModal = ({
           plugin,
           nodeType: selectedType,
           text: title,
+          placeholderValues,
+          attributeValues,
         }));
 
       if (!targetFile) return;
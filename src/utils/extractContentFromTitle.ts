@@ -1,10 +1,39 @@
-import { getDiscourseNodeFormatExpression } from "./getDiscourseNodeFormatExpression";
+import {
+  CONTENT_PLACEHOLDER,
+  getDiscourseNodeFormatExpression,
+  getFormatPlaceholders,
+} from "./getDiscourseNodeFormatExpression";
+
+/**
+ * The value of every placeholder of `format` in `title`, or null when the
+ * title isn't written in that format. A placeholder used more than once keeps
+ * its first value.
+ */
+export const extractPlaceholdersFromTitle = (
+  format: string,
+  title: string,
+): Record<string, string> | null => {
+  if (!format) return null;
+
+  const match = title.match(getDiscourseNodeFormatExpression(format));
+  if (!match) return null;
+
+  const values: Record<string, string> = {};
+  getFormatPlaceholders(format).forEach((name, i) => {
+    values[name] ??= match[i + 1]?.trim() ?? "";
+  });
+  return values;
+};
 
 export const extractContentFromTitle = (format: string, title: string): string => {
   if (!format) return title;
 
-  const regex = getDiscourseNodeFormatExpression(format);
-  const match = title.match(regex);
+  const values = extractPlaceholdersFromTitle(format, title);
+  if (!values) return title;
 
-  return match?.[1]?.trim() || title;
+  // Formats without {content}, e.g. alternative patterns, use their first
+  // placeholder.
+  const [firstPlaceholder = CONTENT_PLACEHOLDER] =
+    getFormatPlaceholders(format);
+  return (values[CONTENT_PLACEHOLDER] ?? values[firstPlaceholder]) || title;
 };
@@ -0,0 +1,604 @@
+import type { TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type {
+  DiscourseNode,
+  DiscourseRelation,
+  DiscourseRelationType,
+} from "~/types";
+import { createDiscourseNode, formatNodeName } from "./createNode";
+import {
+  extractContentFromTitle,
+  extractPlaceholdersFromTitle,
+} from "./extractContentFromTitle";
+import { checkInvalidChars } from "./validateNodeType";
+import { addRelation, getNodeInstanceIdForFile } from "./relationsStore";
+import { getEffectiveDiscourseRelations } from "./nodeTypeHierarchy";
+import generateUid from "./generateUid";
+import type { RelationTriplet } from "./importPreview";
+
+type RawRecord = Record<string, unknown>;
+
+export type RawImportNode = {
+  id?: string;
+  title: string;
+  /** Candidate node type references (id or name), most specific first. */
+  typeRefs: string[];
+};
+
+export type RawImportEdge = {
+  source: string;
+  target: string;
+  /** Candidate relation type references (id, label or complement). */
+  typeRefs: string[];
+};
+
+export type RawImportGraph = {
+  nodes: RawImportNode[];
+  edges: RawImportEdge[];
+};
+
+export type FileImportNode = {
+  title: string;
+  nodeType: DiscourseNode;
+  formattedTitle: string;
+  /** Set when a node of this type and title already exists; it is reused, not recreated. */
+  existingFile: TFile | null;
+};
+
+export type FileImportRelation = {
+  source: FileImportNode;
+  destination: FileImportNode;
+  relationType: DiscourseRelationType;
+};
+
+export type FileImportTriplet = RelationTriplet &
+  Pick<DiscourseRelation, "sourceId" | "destinationId" | "relationshipTypeId">;
+
+export type FileImportPreviewData = {
+  /** Nodes from the import files, including ones that already exist in the vault. */
+  nodes: FileImportNode[];
+  relations: FileImportRelation[];
+  /** Source/relation/destination combinations not allowed by discourseRelations; added on import. */
+  relationTriplets: FileImportTriplet[];
+  /** Rows that will be skipped, with the reason. */
+  issues: string[];
+};
+
+export type FileImportResult = {
+  createdNodes: number;
+  reusedNodes: number;
+  failedNodes: number;
+  createdRelations: number;
+  existingRelations: number;
+  failedRelations: number;
+  createdRelationRules: number;
+};
+
+const NODE_ID_KEYS = ["id", "key", "nodeinstanceid"];
+const NODE_TITLE_KEYS = ["title", "name", "label", "text"];
+const NODE_TYPE_KEYS = ["nodetypeid", "nodetype", "type", "node type"];
+const EDGE_SOURCE_KEYS = ["source", "from"];
+const EDGE_TARGET_KEYS = ["target", "destination", "to"];
+const EDGE_TYPE_KEYS = [
+  "relationtypeid",
+  "relationtype",
+  "relation",
+  "type",
+  "label",
+  "interaction",
+];
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and
+ * newlines inside quotes. The first row is the header.
+ */
+export const parseCsv = (text: string): RawRecord[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((cell) => cell.trim()));
+  if (!header) return [];
+  return body.map((cells) =>
+    Object.fromEntries(header.map((name, i) => [name, cells[i] ?? ""])),
+  );
+};
+
+const normalizeRecord = (record: RawRecord): Map<string, string> => {
+  const normalized = new Map<string, string>();
+  for (const [key, value] of Object.entries(record)) {
+    if (typeof value !== "string" && typeof value !== "number") continue;
+    const text = String(value).trim();
+    if (text) normalized.set(key.trim().toLowerCase(), text);
+  }
+  return normalized;
+};
+
+const pick = (
+  record: Map<string, string>,
+  keys: string[],
+): string | undefined =>
+  keys.map((key) => record.get(key)).find((value) => value !== undefined);
+
+const pickAll = (record: Map<string, string>, keys: string[]): string[] =>
+  keys
+    .map((key) => record.get(key))
+    .filter((value): value is string => value !== undefined);
+
+/** Unwraps Cytoscape-style `{ data: {...} }` elements. */
+const unwrapElement = (element: unknown): RawRecord | null => {
+  if (!element || typeof element !== "object") return null;
+  const data = (element as RawRecord).data;
+  if (data && typeof data === "object") return data as RawRecord;
+  return element as RawRecord;
+};
+
+const isEdgeRecord = (record: Map<string, string>) =>
+  pick(record, EDGE_SOURCE_KEYS) !== undefined &&
+  pick(record, EDGE_TARGET_KEYS) !== undefined;
+
+const addRecords = (graph: RawImportGraph, records: unknown[]) => {
+  for (const element of records) {
+    const raw = unwrapElement(element);
+    if (!raw) continue;
+    const record = normalizeRecord(raw);
+    if (isEdgeRecord(record)) {
+      graph.edges.push({
+        source: pick(record, EDGE_SOURCE_KEYS)!,
+        target: pick(record, EDGE_TARGET_KEYS)!,
+        typeRefs: pickAll(record, EDGE_TYPE_KEYS),
+      });
+    } else {
+      graph.nodes.push({
+        id: pick(record, NODE_ID_KEYS),
+        title: pick(record, NODE_TITLE_KEYS) ?? "",
+        typeRefs: pickAll(record, NODE_TYPE_KEYS),
+      });
+    }
+  }
+};
+
+/**
+ * Parse one import file. CSV files hold either nodes or edges (a file with
+ * source and target columns is treated as edges). JSON files may be a list
+ * of records, `{ nodes, edges }`, or Cytoscape JSON (`{ elements: { nodes, edges } }`).
+ */
+export const parseGraphImportFile = ({
+  filename,
+  content,
+}: {
+  filename: string;
+  content: string;
+}): RawImportGraph => {
+  const graph: RawImportGraph = { nodes: [], edges: [] };
+
+  if (filename.toLowerCase().endsWith(".csv")) {
+    addRecords(graph, parseCsv(content));
+    return graph;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `${filename} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (Array.isArray(parsed)) {
+    addRecords(graph, parsed);
+    return graph;
+  }
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error(`${filename} does not contain nodes or edges`);
+  }
+
+  const root = parsed as RawRecord;
+  const container =
+    root.elements && typeof root.elements === "object"
+      ? (root.elements as RawRecord)
+      : root;
+  const nodes = container.nodes ?? container.vertices;
+  const edges = container.edges ?? container.links ?? container.relations;
+  if (!Array.isArray(nodes) && !Array.isArray(edges)) {
+    throw new Error(`${filename} does not contain nodes or edges`);
+  }
+  if (Array.isArray(nodes)) addRecords(graph, nodes);
+  if (Array.isArray(edges)) addRecords(graph, edges);
+  return graph;
+};
+
+const findNodeType = (
+  plugin: DiscourseGraphPlugin,
+  refs: string[],
+): DiscourseNode | undefined => {
+  for (const ref of refs) {
+    const lower = ref.toLowerCase();
+    const nodeType = plugin.settings.nodeTypes.find(
+      (nt) => nt.id === ref || nt.name.toLowerCase() === lower,
+    );
+    if (nodeType) return nodeType;
+  }
+  return undefined;
+};
+
+/** Resolve a relation type by id, label or complement. A complement match means the edge is reversed. */
+const findRelationType = (
+  plugin: DiscourseGraphPlugin,
+  refs: string[],
+): { relationType: DiscourseRelationType; reversed: boolean } | null => {
+  for (const ref of refs) {
+    const lower = ref.toLowerCase();
+    for (const relationType of plugin.settings.relationTypes) {
+      if (
+        relationType.id === ref ||
+        relationType.label.toLowerCase() === lower
+      ) {
+        return { relationType, reversed: false };
+      }
+      if (relationType.complement.toLowerCase() === lower) {
+        return { relationType, reversed: true };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Resolve parsed import files against the vault's node and relation types
+ * without creating anything. Edge endpoints may reference an imported node's
+ * id or title, or the title of an existing discourse note in the vault.
+ */
+export const computeFileImportPreview = ({
+  plugin,
+  graph,
+}: {
+  plugin: DiscourseGraphPlugin;
+  graph: RawImportGraph;
+}): FileImportPreviewData => {
+  const issues: string[] = [];
+  const nodes: FileImportNode[] = [];
+  const nodesByRef = new Map<string, FileImportNode>();
+  const nodesByPath = new Map<string, FileImportNode>();
+
+  /** An existing discourse node of `nodeType` with the formatted title. */
+  const getExistingFile = (
+    formattedTitle: string,
+    nodeType: DiscourseNode,
+  ): TFile | null =>
+    plugin.nodeIndex
+      .getDiscourseNodes([nodeType.id])
+      .find((node) => node.file.basename === formattedTitle)?.file ?? null;
+
+  graph.nodes.forEach((raw, index) => {
+    const label = raw.title || raw.id || `#${index + 1}`;
+    const nodeType = findNodeType(plugin, raw.typeRefs);
+    if (!nodeType) {
+      issues.push(
+        raw.typeRefs.length
+          ? `Node "${label}": unknown node type "${raw.typeRefs[0]}"`
+          : `Node "${label}": missing node type`,
+      );
+      return;
+    }
+    if (!raw.title) {
+      issues.push(`Node "${label}": missing title`);
+      return;
+    }
+
+    const title = extractContentFromTitle(nodeType.format, raw.title);
+    const formattedTitle = formatNodeName(
+      title,
+      nodeType,
+      extractPlaceholdersFromTitle(nodeType.format, raw.title) ?? {},
+    );
+    if (!formattedTitle) {
+      issues.push(
+        `Node "${label}": could not apply the ${nodeType.name} format`,
+      );
+      return;
+    }
+    const validation = checkInvalidChars(formattedTitle);
+    if (!validation.isValid) {
+      issues.push(`Node "${label}": ${validation.error}`);
+      return;
+    }
+
+    const existingFile = getExistingFile(formattedTitle, nodeType);
+    if (!existingFile) {
+      const collision = plugin.app.metadataCache.getFirstLinkpathDest(
+        formattedTitle,
+        "",
+      );
+      if (collision) {
+        issues.push(
+          `Node "${label}": ${collision.path} already exists and is not a ${nodeType.name} node`,
+        );
+        return;
+      }
+    }
+    let node = existingFile ? nodesByPath.get(existingFile.path) : undefined;
+    if (!node) {
+      node = nodesByRef.get(formattedTitle.toLowerCase());
+    }
+    if (!node) {
+      node = { title, nodeType, formattedTitle, existingFile };
+      nodes.push(node);
+      if (existingFile) nodesByPath.set(existingFile.path, node);
+    }
+
+    if (raw.id) nodesByRef.set(raw.id, node);
+    nodesByRef.set(raw.title.toLowerCase(), node);
+    nodesByRef.set(formattedTitle.toLowerCase(), node);
+  });
+
+  const resolveEndpoint = (ref: string): FileImportNode | undefined => {
+    const imported = nodesByRef.get(ref) ?? nodesByRef.get(ref.toLowerCase());
+    if (imported) return imported;
+
+    const file = plugin.app.metadataCache.getFirstLinkpathDest(
+      ref.replace(/^\[\[|\]\]$/g, ""),
+      "",
+    );
+    if (!file) return undefined;
+    const known = nodesByPath.get(file.path);
+    if (known) return known;
+    const nodeTypeId = plugin.nodeIndex.getByPath(file.path)?.nodeTypeId;
+    const nodeType = plugin.settings.nodeTypes.find(
+      (nt) => nt.id === nodeTypeId,
+    );
+    if (!nodeType) return undefined;
+
+    const node: FileImportNode = {
+      title: extractContentFromTitle(nodeType.format, file.basename),
+      nodeType,
+      formattedTitle: file.basename,
+      existingFile: file,
+    };
+    nodesByPath.set(file.path, node);
+    return node;
+  };
+
+  const relations: FileImportRelation[] = [];
+  const seenRelations = new Set<string>();
+  const tripletKeys = new Set<string>();
+  const relationTriplets: FileImportTriplet[] = [];
+  const effectiveRelations = getEffectiveDiscourseRelations(plugin.settings);
+
+  for (const edge of graph.edges) {
+    const label = `${edge.source} → ${edge.target}`;
+    const resolved = findRelationType(plugin, edge.typeRefs);
+    if (!resolved) {
+      issues.push(
+        edge.typeRefs.length
+          ? `Relation ${label}: unknown relation type "${edge.typeRefs[0]}"`
+          : `Relation ${label}: missing relation type`,
+      );
+      continue;
+    }
+
+    const sourceNode = resolveEndpoint(edge.source);
+    const targetNode = resolveEndpoint(edge.target);
+    if (!sourceNode || !targetNode) {
+      issues.push(
+        `Relation ${label}: could not find node "${!sourceNode ? edge.source : edge.target}"`,
+      );
+      continue;
+    }
+    if (sourceNode === targetNode) {
+      issues.push(`Relation ${label}: a node cannot relate to itself`);
+      continue;
+    }
+
+    const [source, destination] = resolved.reversed
+      ? [targetNode, sourceNode]
+      : [sourceNode, targetNode];
+    const relationType = resolved.relationType;
+    const key = `${source.formattedTitle}|${destination.formattedTitle}|${relationType.id}`;
+    if (seenRelations.has(key)) continue;
+    seenRelations.add(key);
+    relations.push({ source, destination, relationType });
+
+    const isAllowed = effectiveRelations.some(
+      (r) =>
+        r.sourceId === source.nodeType.id &&
+        r.destinationId === destination.nodeType.id &&
+        r.relationshipTypeId === relationType.id,
+    );
+    const tripletKey = `${source.nodeType.id}|${relationType.id}|${destination.nodeType.id}`;
+    if (!isAllowed && !tripletKeys.has(tripletKey)) {
+      tripletKeys.add(tripletKey);
+      relationTriplets.push({
+        sourceNodeTypeName: source.nodeType.name,
+        relationTypeLabel: relationType.label,
+        destNodeTypeName: destination.nodeType.name,
+        isNewTriplet: true,
+        sourceId: source.nodeType.id,
+        destinationId: destination.nodeType.id,
+        relationshipTypeId: relationType.id,
+      });
+    }
+  }
+
+  return { nodes, relations, relationTriplets, issues };
+};
+
+/**
+ * Add a discourse relation for each previewed triplet that is not allowed yet,
+ * so that the imported relations are valid. Returns how many were added.
+ */
+const addMissingDiscourseRelations = async (
+  plugin: DiscourseGraphPlugin,
+  triplets: FileImportTriplet[],
+): Promise<number> => {
+  const now = Date.now();
+  const added: DiscourseRelation[] = triplets
+    .filter(
+      (triplet) =>
+        !plugin.settings.discourseRelations.some(
+          (r) =>
+            r.sourceId === triplet.sourceId &&
+            r.destinationId === triplet.destinationId &&
+            r.relationshipTypeId === triplet.relationshipTypeId,
+        ),
+    )
+    .map(({ sourceId, destinationId, relationshipTypeId }) => ({
+      id: generateUid("rel3"),
+      sourceId,
+      destinationId,
+      relationshipTypeId,
+      created: now,
+      modified: now,
+    }));
+  if (added.length === 0) return 0;
+  plugin.settings.discourseRelations = [
+    ...plugin.settings.discourseRelations,
+    ...added,
+  ];
+  await plugin.saveSettings();
+  return added.length;
+};
+
+/**
+ * Create the previewed nodes (with their node type's format and template),
+ * add the discourse relations they need and write the previewed relations
+ * to relations.json.
+ */
+export const importGraphFromFiles = async ({
+  plugin,
+  preview,
+  onProgress,
+}: {
+  plugin: DiscourseGraphPlugin;
+  preview: FileImportPreviewData;
+  onProgress?: (current: number, total: number) => void;
+}): Promise<FileImportResult> => {
+  const result: FileImportResult = {
+    createdNodes: 0,
+    reusedNodes: 0,
+    failedNodes: 0,
+    createdRelations: 0,
+    existingRelations: 0,
+    failedRelations: 0,
+    createdRelationRules: 0,
+  };
+  const total = preview.nodes.length + preview.relations.length;
+  let current = 0;
+  const filesByNode = new Map<FileImportNode, TFile>();
+
+  for (const node of preview.nodes) {
+    try {
+      if (node.existingFile) {
+        filesByNode.set(node, node.existingFile);
+        result.reusedNodes++;
+      } else {
+        const file = await createDiscourseNode({
+          plugin,
+          nodeType: node.nodeType,
+          text: node.title,
+          placeholderValues:
+            extractPlaceholdersFromTitle(
+              node.nodeType.format,
+              node.formattedTitle,
+            ) ?? undefined,
+          silent: true,
+        });
+        if (file) {
+          filesByNode.set(node, file);
+          result.createdNodes++;
+        } else {
+          result.failedNodes++;
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to import node "${node.formattedTitle}":`, error);
+      result.failedNodes++;
+    }
+    onProgress?.(++current, total);
+  }
+
+  result.createdRelationRules = await addMissingDiscourseRelations(
+    plugin,
+    preview.relationTriplets,
+  );
+
+  // Undone in one step from the relation history.
+  await plugin.relationHistory.runBatch("Import from files", async (batch) => {
+    for (const relation of preview.relations) {
+      try {
+        const sourceFile =
+          filesByNode.get(relation.source) ?? relation.source.existingFile;
+        const destinationFile =
+          filesByNode.get(relation.destination) ??
+          relation.destination.existingFile;
+        const sourceId = sourceFile
+          ? await getNodeInstanceIdForFile(plugin, sourceFile)
+          : null;
+        const destinationId = destinationFile
+          ? await getNodeInstanceIdForFile(plugin, destinationFile)
+          : null;
+        if (!sourceId || !destinationId) {
+          result.failedRelations++;
+        } else {
+          const { alreadyExisted } = await addRelation(
+            plugin,
+            {
+              type: relation.relationType.id,
+              source: sourceId,
+              destination: destinationId,
+            },
+            { batch },
+          );
+          if (alreadyExisted) result.existingRelations++;
+          else result.createdRelations++;
+        }
+      } catch (error) {
+        console.error(
+          `Failed to import relation ${relation.source.formattedTitle} → ${relation.destination.formattedTitle}:`,
+          error,
+        );
+        result.failedRelations++;
+      }
+      onProgress?.(++current, total);
+    }
+  });
+
+  return result;
+};
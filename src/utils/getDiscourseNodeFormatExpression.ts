@@ -1,9 +1,32 @@
+const PLACEHOLDER_REGEX = /{([a-zA-Z]+)}/g;
+
+export const CONTENT_PLACEHOLDER = "content";
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Placeholder names of a format in order of appearance, e.g. ["content", "year"]. */
+export const getFormatPlaceholders = (format: string): string[] =>
+  (format.match(PLACEHOLDER_REGEX) ?? []).map((match) => match.slice(1, -1));
+
+/** "sourceYear" -> "Source year" */
+export const getPlaceholderLabel = (name: string): string => {
+  const words = name.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * A regex matching titles written in `format`, with one capture group per
+ * placeholder in the order the placeholders appear.
+ */
 export const getDiscourseNodeFormatExpression = (format: string) =>
   format
     ? new RegExp(
         `^${format
-          .replace(/(\[|\]|\?|\.|\+)/g, "\\$1")
-          .replace(/{[a-zA-Z]+}/g, "(.*?)")}$`,
+          .split(PLACEHOLDER_REGEX)
+          // split() puts the placeholder names at the odd indices.
+          .map((part, i) => (i % 2 === 1 ? "(.*?)" : escapeRegExp(part)))
+          .join("")}$`,
         "s",
       )
     : /$^/;
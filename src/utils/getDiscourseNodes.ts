@@ -19,7 +19,7 @@ export const collectDiscourseNodesFromVault = async (
   plugin: DiscourseGraphPlugin,
   includeImported?: boolean,
 ): Promise<DiscourseNodeInVault[]> => {
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
   const excludeImported = includeImported !== true;
   const files = queryEngine.getFilesWithNodeTypeId({
     excludeImported,
@@ -0,0 +1,502 @@
+import { format } from "date-fns";
+import { Notice } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNode, DiscourseRelationType } from "~/types";
+import {
+  buildEndpointToFileMap,
+  getRelationGraph,
+  resolveEndpointToFile,
+} from "./relationsStore";
+import { getNewUniqueFilepath } from "./file";
+
+export type GraphExportFormat = "graphml" | "gexf" | "cytoscape" | "jsonld";
+
+export const GRAPH_EXPORT_FORMATS: Record<
+  GraphExportFormat,
+  { label: string; extension: string }
+> = {
+  graphml: { label: "GraphML", extension: "graphml" },
+  gexf: { label: "GEXF", extension: "gexf" },
+  cytoscape: { label: "Cytoscape JSON", extension: "cyjs" },
+  jsonld: { label: "JSON-LD", extension: "jsonld" },
+};
+
+export type ExportNode = {
+  id: string;
+  title: string;
+  path: string;
+  nodeTypeId: string;
+  importedFromRid?: string;
+  created: number;
+  modified: number;
+};
+
+export type ExportEdge = {
+  id: string;
+  source: string;
+  target: string;
+  relationTypeId: string;
+  /** false for relations that were imported and not yet accepted. */
+  accepted: boolean;
+  created: number;
+  modified: number;
+  importedFromRid?: string;
+};
+
+export type ExportGraph = {
+  nodeTypes: DiscourseNode[];
+  relationTypes: DiscourseRelationType[];
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+  /** Relations skipped because an endpoint did not resolve to a node in the vault. */
+  skippedRelations: number;
+};
+
+/**
+ * Collect all discourse nodes and relation instances for export.
+ * Edge endpoints are normalized to the exported node ids.
+ */
+export const collectGraphForExport = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<ExportGraph> => {
+  const nodes: ExportNode[] = [];
+  const nodeIdByPath = new Map<string, string>();
+
+  for (const entry of plugin.nodeIndex.getDiscourseNodes()) {
+    if (!entry.nodeTypeId) continue;
+    const id = entry.nodeInstanceId ?? entry.importedFromRid ?? entry.file.path;
+    nodeIdByPath.set(entry.file.path, id);
+    nodes.push({
+      id,
+      title: entry.file.basename,
+      path: entry.file.path,
+      nodeTypeId: entry.nodeTypeId,
+      importedFromRid: entry.importedFromRid,
+      created: entry.file.stat.ctime,
+      modified: entry.file.stat.mtime,
+    });
+  }
+
+  const relationGraph = await getRelationGraph(plugin);
+  const endpointToFileMap = buildEndpointToFileMap(plugin);
+  const resolveNodeId = (endpointId: string): string | null => {
+    const file = resolveEndpointToFile(plugin, endpointId, endpointToFileMap);
+    return file ? (nodeIdByPath.get(file.path) ?? null) : null;
+  };
+
+  const edges: ExportEdge[] = [];
+  let skippedRelations = 0;
+  for (const relation of relationGraph.getAllRelations()) {
+    const source = resolveNodeId(relation.source);
+    const target = resolveNodeId(relation.destination);
+    if (!source || !target) {
+      skippedRelations++;
+      continue;
+    }
+    edges.push({
+      id: relation.id,
+      source,
+      target,
+      relationTypeId: relation.type,
+      accepted: relation.tentative !== false,
+      created: relation.created,
+      modified: relation.lastModified ?? relation.created,
+      importedFromRid: relation.importedFromRid,
+    });
+  }
+
+  return {
+    nodeTypes: plugin.settings.nodeTypes,
+    relationTypes: plugin.settings.relationTypes,
+    nodes,
+    edges,
+    skippedRelations,
+  };
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const isoDate = (timestamp: number): string =>
+  new Date(timestamp).toISOString();
+
+const indexById = <T extends { id: string }>(items: T[]): Map<string, T> =>
+  new Map(items.map((item) => [item.id, item]));
+
+export const toGraphML = (graph: ExportGraph): string => {
+  const nodeTypes = indexById(graph.nodeTypes);
+  const relationTypes = indexById(graph.relationTypes);
+
+  const keys: [string, "node" | "edge", string, string][] = [
+    ["title", "node", "title", "string"],
+    ["path", "node", "path", "string"],
+    ["nodeTypeId", "node", "nodeTypeId", "string"],
+    ["nodeType", "node", "nodeType", "string"],
+    ["nodeTypeColor", "node", "nodeTypeColor", "string"],
+    ["nodeCreated", "node", "created", "string"],
+    ["nodeModified", "node", "modified", "string"],
+    ["nodeImportedFromRid", "node", "importedFromRid", "string"],
+    ["relationTypeId", "edge", "relationTypeId", "string"],
+    ["label", "edge", "label", "string"],
+    ["complement", "edge", "complement", "string"],
+    ["relationColor", "edge", "color", "string"],
+    ["accepted", "edge", "accepted", "boolean"],
+    ["edgeCreated", "edge", "created", "string"],
+    ["edgeModified", "edge", "modified", "string"],
+    ["edgeImportedFromRid", "edge", "importedFromRid", "string"],
+  ];
+
+  const data = (key: string, value: string | boolean | undefined) =>
+    value === undefined || value === ""
+      ? ""
+      : `      <data key="${key}">${escapeXml(String(value))}</data>\n`;
+
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">`,
+    ...keys.map(
+      ([id, scope, name, type]) =>
+        `  <key id="${id}" for="${scope}" attr.name="${name}" attr.type="${type}"/>`,
+    ),
+    `  <graph id="discourse-graph" edgedefault="directed">`,
+  ];
+
+  for (const node of graph.nodes) {
+    const nodeType = nodeTypes.get(node.nodeTypeId);
+    lines.push(
+      `    <node id="${escapeXml(node.id)}">\n` +
+        data("title", node.title) +
+        data("path", node.path) +
+        data("nodeTypeId", node.nodeTypeId) +
+        data("nodeType", nodeType?.name) +
+        data("nodeTypeColor", nodeType?.color) +
+        data("nodeCreated", isoDate(node.created)) +
+        data("nodeModified", isoDate(node.modified)) +
+        data("nodeImportedFromRid", node.importedFromRid) +
+        `    </node>`,
+    );
+  }
+
+  for (const edge of graph.edges) {
+    const relationType = relationTypes.get(edge.relationTypeId);
+    lines.push(
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">\n` +
+        data("relationTypeId", edge.relationTypeId) +
+        data("label", relationType?.label) +
+        data("complement", relationType?.complement) +
+        data("relationColor", relationType?.color) +
+        data("accepted", edge.accepted) +
+        data("edgeCreated", isoDate(edge.created)) +
+        data("edgeModified", isoDate(edge.modified)) +
+        data("edgeImportedFromRid", edge.importedFromRid) +
+        `    </edge>`,
+    );
+  }
+
+  lines.push(`  </graph>`, `</graphml>`, "");
+  return lines.join("\n");
+};
+
+export const toGEXF = (graph: ExportGraph): string => {
+  const nodeTypes = indexById(graph.nodeTypes);
+  const relationTypes = indexById(graph.relationTypes);
+  const options = (values: string[]) =>
+    escapeXml(values.map((v) => v.replace(/\|/g, "/")).join("|"));
+
+  const attvalue = (id: string, value: string | boolean | undefined) =>
+    value === undefined || value === ""
+      ? ""
+      : `        <attvalue for="${id}" value="${escapeXml(String(value))}"/>\n`;
+
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+    `  <meta lastmodifieddate="${isoDate(Date.now()).slice(0, 10)}">`,
+    `    <creator>Discourse Graphs</creator>`,
+    `  </meta>`,
+    `  <graph defaultedgetype="directed" mode="static">`,
+    `    <attributes class="node">`,
+    `      <attribute id="path" title="path" type="string"/>`,
+    `      <attribute id="nodeTypeId" title="nodeTypeId" type="string"/>`,
+    `      <attribute id="nodeType" title="nodeType" type="string">`,
+    `        <options>${options(graph.nodeTypes.map((t) => t.name))}</options>`,
+    `      </attribute>`,
+    `      <attribute id="nodeTypeColor" title="nodeTypeColor" type="string"/>`,
+    `      <attribute id="created" title="created" type="string"/>`,
+    `      <attribute id="modified" title="modified" type="string"/>`,
+    `      <attribute id="importedFromRid" title="importedFromRid" type="string"/>`,
+    `    </attributes>`,
+    `    <attributes class="edge">`,
+    `      <attribute id="relationTypeId" title="relationTypeId" type="string"/>`,
+    `      <attribute id="label" title="label" type="string">`,
+    `        <options>${options(graph.relationTypes.map((t) => t.label))}</options>`,
+    `      </attribute>`,
+    `      <attribute id="complement" title="complement" type="string">`,
+    `        <options>${options(graph.relationTypes.map((t) => t.complement))}</options>`,
+    `      </attribute>`,
+    `      <attribute id="color" title="color" type="string"/>`,
+    `      <attribute id="accepted" title="accepted" type="boolean"/>`,
+    `      <attribute id="created" title="created" type="string"/>`,
+    `      <attribute id="modified" title="modified" type="string"/>`,
+    `      <attribute id="importedFromRid" title="importedFromRid" type="string"/>`,
+    `    </attributes>`,
+    `    <nodes>`,
+  ];
+
+  for (const node of graph.nodes) {
+    const nodeType = nodeTypes.get(node.nodeTypeId);
+    lines.push(
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.title)}">\n` +
+        `        <attvalues>\n` +
+        attvalue("path", node.path) +
+        attvalue("nodeTypeId", node.nodeTypeId) +
+        attvalue("nodeType", nodeType?.name) +
+        attvalue("nodeTypeColor", nodeType?.color) +
+        attvalue("created", isoDate(node.created)) +
+        attvalue("modified", isoDate(node.modified)) +
+        attvalue("importedFromRid", node.importedFromRid) +
+        `        </attvalues>\n` +
+        `      </node>`,
+    );
+  }
+  lines.push(`    </nodes>`, `    <edges>`);
+
+  for (const edge of graph.edges) {
+    const relationType = relationTypes.get(edge.relationTypeId);
+    lines.push(
+      `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" label="${escapeXml(relationType?.label ?? edge.relationTypeId)}">\n` +
+        `        <attvalues>\n` +
+        attvalue("relationTypeId", edge.relationTypeId) +
+        attvalue("label", relationType?.label) +
+        attvalue("complement", relationType?.complement) +
+        attvalue("color", relationType?.color) +
+        attvalue("accepted", edge.accepted) +
+        attvalue("created", isoDate(edge.created)) +
+        attvalue("modified", isoDate(edge.modified)) +
+        attvalue("importedFromRid", edge.importedFromRid) +
+        `        </attvalues>\n` +
+        `      </edge>`,
+    );
+  }
+
+  lines.push(`    </edges>`, `  </graph>`, `</gexf>`, "");
+  return lines.join("\n");
+};
+
+export const toCytoscapeJson = (graph: ExportGraph): string => {
+  const nodeTypes = indexById(graph.nodeTypes);
+  const relationTypes = indexById(graph.relationTypes);
+
+  return JSON.stringify(
+    {
+      format_version: "1.0",
+      generated_by: "discourse-graphs",
+      data: {
+        name: "Discourse graph",
+        nodeTypes: graph.nodeTypes.map(({ id, name, format, color }) => ({
+          id,
+          name,
+          format,
+          color,
+        })),
+        relationTypes: graph.relationTypes.map(
+          ({ id, label, complement, color }) => ({
+            id,
+            label,
+            complement,
+            color,
+          }),
+        ),
+      },
+      elements: {
+        nodes: graph.nodes.map((node) => ({
+          data: {
+            id: node.id,
+            name: node.title,
+            path: node.path,
+            nodeTypeId: node.nodeTypeId,
+            nodeType: nodeTypes.get(node.nodeTypeId)?.name,
+            nodeTypeColor: nodeTypes.get(node.nodeTypeId)?.color,
+            created: isoDate(node.created),
+            modified: isoDate(node.modified),
+            importedFromRid: node.importedFromRid,
+          },
+        })),
+        edges: graph.edges.map((edge) => ({
+          data: {
+            id: edge.id,
+            source: edge.source,
+            target: edge.target,
+            relationTypeId: edge.relationTypeId,
+            interaction: relationTypes.get(edge.relationTypeId)?.label,
+            label: relationTypes.get(edge.relationTypeId)?.label,
+            complement: relationTypes.get(edge.relationTypeId)?.complement,
+            color: relationTypes.get(edge.relationTypeId)?.color,
+            accepted: edge.accepted,
+            created: isoDate(edge.created),
+            modified: isoDate(edge.modified),
+            importedFromRid: edge.importedFromRid,
+          },
+        })),
+      },
+    },
+    null,
+    2,
+  );
+};
+
+/**
+ * JSON-LD export. Node types become classes and relation types become
+ * properties (with their complement as the inverse label), so each relation
+ * instance is both a typed statement on its source node and a reified
+ * Relation resource carrying its metadata.
+ */
+export const toJsonLd = (graph: ExportGraph): string => {
+  const nodeTypeIri = (id: string) => `dg:nodeType/${encodeURIComponent(id)}`;
+  const relationTypeIri = (id: string) =>
+    `dg:relationType/${encodeURIComponent(id)}`;
+  const nodeIri = (id: string) => `dg:node/${encodeURIComponent(id)}`;
+
+  const outgoing = new Map<string, ExportEdge[]>();
+  for (const edge of graph.edges) {
+    const edges = outgoing.get(edge.source) ?? [];
+    edges.push(edge);
+    outgoing.set(edge.source, edges);
+  }
+
+  return JSON.stringify(
+    {
+      "@context": {
+        dg: "https://discoursegraphs.com/ns#",
+        rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+        owl: "http://www.w3.org/2002/07/owl#",
+        xsd: "http://www.w3.org/2001/XMLSchema#",
+        label: "rdfs:label",
+        complement: "dg:complementLabel",
+        color: "dg:color",
+        format: "dg:format",
+        path: "dg:path",
+        nodeTypeId: "dg:nodeTypeId",
+        relationTypeId: "dg:relationTypeId",
+        accepted: { "@id": "dg:accepted", "@type": "xsd:boolean" },
+        created: { "@id": "dg:created", "@type": "xsd:dateTime" },
+        modified: { "@id": "dg:modified", "@type": "xsd:dateTime" },
+        importedFromRid: "dg:importedFromRid",
+        source: { "@id": "dg:source", "@type": "@id" },
+        destination: { "@id": "dg:destination", "@type": "@id" },
+        relationType: { "@id": "dg:relationType", "@type": "@id" },
+      },
+      "@graph": [
+        ...graph.nodeTypes.map((nodeType) => ({
+          "@id": nodeTypeIri(nodeType.id),
+          "@type": "rdfs:Class",
+          "rdfs:subClassOf": { "@id": "dg:DiscourseNode" },
+          label: nodeType.name,
+          nodeTypeId: nodeType.id,
+          format: nodeType.format,
+          color: nodeType.color,
+        })),
+        ...graph.relationTypes.map((relationType) => ({
+          "@id": relationTypeIri(relationType.id),
+          "@type": "owl:ObjectProperty",
+          label: relationType.label,
+          complement: relationType.complement,
+          relationTypeId: relationType.id,
+          color: relationType.color,
+        })),
+        ...graph.nodes.map((node) => {
+          const statements: Record<string, { "@id": string }[]> = {};
+          for (const edge of outgoing.get(node.id) ?? []) {
+            const key = relationTypeIri(edge.relationTypeId);
+            (statements[key] ??= []).push({ "@id": nodeIri(edge.target) });
+          }
+          return {
+            "@id": nodeIri(node.id),
+            "@type": nodeTypeIri(node.nodeTypeId),
+            label: node.title,
+            path: node.path,
+            nodeTypeId: node.nodeTypeId,
+            created: isoDate(node.created),
+            modified: isoDate(node.modified),
+            ...(node.importedFromRid && {
+              importedFromRid: node.importedFromRid,
+            }),
+            ...statements,
+          };
+        }),
+        ...graph.edges.map((edge) => ({
+          "@id": `dg:relation/${encodeURIComponent(edge.id)}`,
+          "@type": "dg:Relation",
+          relationType: relationTypeIri(edge.relationTypeId),
+          source: nodeIri(edge.source),
+          destination: nodeIri(edge.target),
+          accepted: edge.accepted,
+          created: isoDate(edge.created),
+          modified: isoDate(edge.modified),
+          ...(edge.importedFromRid && {
+            importedFromRid: edge.importedFromRid,
+          }),
+        })),
+      ],
+    },
+    null,
+    2,
+  );
+};
+
+export const serializeGraph = (
+  graph: ExportGraph,
+  exportFormat: GraphExportFormat,
+): string => {
+  switch (exportFormat) {
+    case "graphml":
+      return toGraphML(graph);
+    case "gexf":
+      return toGEXF(graph);
+    case "cytoscape":
+      return toCytoscapeJson(graph);
+    case "jsonld":
+      return toJsonLd(graph);
+  }
+};
+
+/**
+ * Export every discourse node and relation instance to a file at the vault
+ * root, named after the format and the current time.
+ */
+export const exportDiscourseGraph = async (
+  plugin: DiscourseGraphPlugin,
+  exportFormat: GraphExportFormat,
+) => {
+  try {
+    const graph = await collectGraphForExport(plugin);
+    const { label, extension } = GRAPH_EXPORT_FORMATS[exportFormat];
+    const filepath = getNewUniqueFilepath({
+      vault: plugin.app.vault,
+      filename: `discourse-graph-${format(new Date(), "yyyy-MM-dd-HHmm")}.${extension}`,
+      folderpath: "",
+    });
+    await plugin.app.vault.create(
+      filepath,
+      serializeGraph(graph, exportFormat),
+    );
+
+    const skipped = graph.skippedRelations
+      ? ` (${graph.skippedRelations} relations with missing nodes skipped)`
+      : "";
+    new Notice(
+      `Exported ${graph.nodes.length} nodes and ${graph.edges.length} relations as ${label} to ${filepath}${skipped}`,
+      5000,
+    );
+    return filepath;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    new Notice(`Graph export failed: ${errorMessage}`, 5000);
+    console.error("Graph export failed:", error);
+  }
+};
@@ -19,6 +19,7 @@ import {
   type RemoteRelationInstance,
 } from "./importRelations";
 import { createTemplateFile } from "./templates";
+import { parseNodeAttributes } from "./nodeAttributes";
 import { resolveFolderForSpaceUri } from "./importFolderMetadata";
 
 export type MyGroup = {
@@ -171,7 +172,7 @@ export const getPublishedNodesForGroups = async ({
 export const getLocalNodeInstanceIds = (
   plugin: DiscourseGraphPlugin,
 ): Set<string> => {
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
   const files = queryEngine.getFilesWithNodeInstanceId();
   const nodeInstanceIds = new Set<string>();
 
@@ -1063,7 +1064,14 @@ const parseSchemaLiteralContent = (
   fallbackName: string,
 ): Pick<
   DiscourseNode,
-  "name" | "format" | "color" | "tag" | "template" | "keyImage"
+  | "name"
+  | "format"
+  | "color"
+  | "tag"
+  | "template"
+  | "keyImage"
+  | "attributes"
+  | "parentId"
 > & { templateContent?: string } => {
   const obj =
     typeof literalContent === "string"
@@ -1084,6 +1092,8 @@ const parseSchemaLiteralContent = (
     templateContent: (obj.template_content as string) || undefined,
     keyImage:
       (src.keyImage as boolean) ?? (obj.keyImage as boolean) ?? undefined,
+    attributes: parseNodeAttributes(obj.attributes ?? src.attributes),
+    parentId: (obj.parentId as string) || undefined,
   };
 };
 
@@ -1152,6 +1162,11 @@ export const mapNodeTypeIdToLocal = async ({
     tag: parsed.tag,
     template: parsed.template,
     keyImage: parsed.keyImage,
+    attributes: parsed.attributes,
+    // Keep the parent only if that node type was imported as well.
+    parentId: plugin.settings.nodeTypes.some((nt) => nt.id === parsed.parentId)
+      ? parsed.parentId
+      : undefined,
     created: now,
     modified: now,
     authorId: schemaData.author_id ?? undefined,
@@ -1302,7 +1317,7 @@ export const importSelectedNodes = async ({
     throw new Error("Cannot get Supabase context");
   }
 
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
 
   let successCount = 0;
   let failedCount = 0;
@@ -1507,14 +1522,19 @@ export const importSelectedNodes = async ({
       }
       const precomputedRelationInstances =
         precomputedData?.relationInstancesBySpace.get(spaceId);
-      const { imported } = await importRelationsForImportedNodes({
-        plugin,
-        client,
-        spaceId,
-        spaceUri,
-        keyToRelationEndpointId,
-        precomputedRelationInstances,
-      });
+      const { imported } = await plugin.relationHistory.runBatch(
+        "Import relations from another space",
+        (batch) =>
+          importRelationsForImportedNodes({
+            plugin,
+            client,
+            spaceId,
+            spaceUri,
+            keyToRelationEndpointId,
+            precomputedRelationInstances,
+            batch,
+          }),
+      );
       if (imported > 0) {
         console.debug(`Imported ${imported} relation(s) for space ${spaceId}`);
       }
@@ -1611,7 +1631,7 @@ export const refreshAllImportedFiles = async (
   failed: number;
   errors: Array<{ file: string; error: string }>;
 }> => {
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
   const importedFiles = queryEngine.getImportedNodePages();
   const client = await getLoggedInClient(plugin);
   if (!client) {
@@ -57,7 +57,7 @@ export const computeImportPreview = async ({
     throw new Error("Cannot get Supabase context");
   }
 
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
 
   // --- Node type detection (without creating) ---
   const nodesBySpace = new Map<number, ImportableNode[]>();
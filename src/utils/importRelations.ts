@@ -2,6 +2,7 @@ import type { Json } from "@repo/database/dbTypes";
 import type { DGSupabaseClient } from "@repo/database/lib/client";
 import { uuidv7 } from "uuidv7";
 import type DiscourseGraphPlugin from "~/index";
+import type { RelationHistoryBatch } from "~/services/RelationHistory";
 import type { DiscourseRelationType, DiscourseRelation } from "~/types";
 import { spaceUriAndLocalIdToRid } from "@repo/database/lib/rid";
 import {
@@ -208,6 +209,7 @@ export const importRelationsForImportedNodes = async ({
   spaceUri,
   keyToRelationEndpointId,
   precomputedRelationInstances,
+  batch,
 }: {
   plugin: DiscourseGraphPlugin;
   client: DGSupabaseClient;
@@ -215,6 +217,7 @@ export const importRelationsForImportedNodes = async ({
   spaceUri: string;
   keyToRelationEndpointId: Map<string, string>;
   precomputedRelationInstances?: RemoteRelationInstance[];
+  batch?: RelationHistoryBatch;
 }): Promise<{ imported: number }> => {
   if (keyToRelationEndpointId.size === 0) return { imported: 0 };
 
@@ -371,14 +374,18 @@ export const importRelationsForImportedNodes = async ({
     );
     if (existing) continue;
 
-    await addRelationNoCheck(plugin, {
-      type: mappedTypeId,
-      source: sourceEndpointId,
-      destination: destEndpointId,
-      importedFromRid: relationImportedFromRid,
-      tentative: false,
-      authorId,
-    });
+    await addRelationNoCheck(
+      plugin,
+      {
+        type: mappedTypeId,
+        source: sourceEndpointId,
+        destination: destEndpointId,
+        importedFromRid: relationImportedFromRid,
+        tentative: false,
+        authorId,
+      },
+      { batch },
+    );
     imported++;
 
     // Reload relations after each add so findRelationBySourceDestinationType sees new data
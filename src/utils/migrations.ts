@@ -0,0 +1,315 @@
+import type { RelationInstance, Settings } from "~/types";
+import generateUid from "./generateUid";
+
+/**
+ * Versioned data migrations for relations.json and the plugin settings.
+ *
+ * Each migration upgrades data to its `version`. Migrations are pure: they
+ * receive a copy of the data plus a context (clock and id generator), never
+ * touch the vault, and must be idempotent so that re-running one on data it
+ * has already upgraded is a no-op. This keeps them testable offline and lets
+ * us produce a dry-run report before anything is written.
+ */
+
+export type MigrationContext = {
+  now: number;
+  generateId: (prefix: string) => string;
+};
+
+export const createMigrationContext = (): MigrationContext => ({
+  now: Date.now(),
+  generateId: generateUid,
+});
+
+export type Migration<T> = {
+  version: number;
+  description: string;
+  up: (data: T, context: MigrationContext) => T;
+};
+
+export type MigrationStepReport = {
+  version: number;
+  description: string;
+  /** False when the data already satisfied this migration. */
+  changed: boolean;
+};
+
+export type MigrationReport = {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStepReport[];
+  /** True when the data differs from the input, including the version bump. */
+  changed: boolean;
+  /** Set when the data was written by a newer plugin version and was left untouched. */
+  newerThanSupported: boolean;
+};
+
+export const getLatestVersion = <T>(migrations: Migration<T>[]): number =>
+  migrations.reduce((max, m) => Math.max(max, m.version), 0);
+
+/**
+ * Apply, in version order, every migration newer than `fromVersion`.
+ * The input is never mutated.
+ */
+export const runMigrations = <T>({
+  data,
+  fromVersion,
+  migrations,
+  context,
+}: {
+  data: T;
+  fromVersion: number;
+  migrations: Migration<T>[];
+  context: MigrationContext;
+}): { data: T; report: MigrationReport } => {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  sorted.forEach((migration, i) => {
+    if (i > 0 && sorted[i - 1]!.version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+
+  const latestVersion = getLatestVersion(sorted);
+  if (fromVersion > latestVersion) {
+    return {
+      data,
+      report: {
+        fromVersion,
+        toVersion: fromVersion,
+        steps: [],
+        changed: false,
+        newerThanSupported: true,
+      },
+    };
+  }
+
+  let current = structuredClone(data);
+  const steps: MigrationStepReport[] = [];
+  for (const migration of sorted) {
+    if (migration.version <= fromVersion) continue;
+    const before = JSON.stringify(current);
+    current = migration.up(current, context);
+    steps.push({
+      version: migration.version,
+      description: migration.description,
+      changed: JSON.stringify(current) !== before,
+    });
+  }
+
+  return {
+    data: current,
+    report: {
+      fromVersion,
+      toVersion: latestVersion,
+      steps,
+      changed: fromVersion !== latestVersion || steps.some((s) => s.changed),
+      newerThanSupported: false,
+    },
+  };
+};
+
+// --- relations.json ---
+
+/** relations.json as found on disk, before it has been upgraded. */
+export type RawRelationsFile = {
+  version?: unknown;
+  lastModified?: unknown;
+  relations: Record<string, unknown>;
+  deleted?: unknown;
+};
+
+export const RELATIONS_MIGRATIONS: Migration<RawRelationsFile>[] = [
+  {
+    version: 1,
+    description:
+      "Add missing lastModified, relation ids and created timestamps to legacy relations files",
+    up: (data) => {
+      const lastModified =
+        typeof data.lastModified === "number" ? data.lastModified : 0;
+      for (const [key, value] of Object.entries(data.relations)) {
+        if (!value || typeof value !== "object") continue;
+        const relation = value as Partial<RelationInstance>;
+        if (!relation.id) relation.id = key;
+        if (typeof relation.created !== "number") {
+          relation.created = relation.lastModified ?? lastModified;
+        }
+      }
+      return { ...data, lastModified };
+    },
+  },
+  {
+    version: 2,
+    description:
+      "Add the map of deleted relation ids used to merge sync conflicts",
+    up: (data) => {
+      const deleted =
+        data.deleted &&
+        typeof data.deleted === "object" &&
+        !Array.isArray(data.deleted)
+          ? data.deleted
+          : {};
+      return { ...data, deleted };
+    },
+  },
+];
+
+export const RELATIONS_FILE_VERSION = getLatestVersion(RELATIONS_MIGRATIONS);
+
+export const isRawRelationsFile = (data: unknown): data is RawRelationsFile =>
+  !!data &&
+  typeof data === "object" &&
+  !Array.isArray(data) &&
+  typeof (data as RawRelationsFile).relations === "object" &&
+  (data as RawRelationsFile).relations !== null &&
+  !Array.isArray((data as RawRelationsFile).relations);
+
+/** Upgrade a parsed relations.json. Files without a version are treated as version 0. */
+export const upgradeRelationsData = (
+  raw: RawRelationsFile,
+  context: MigrationContext,
+): {
+  data: {
+    version: number;
+    lastModified: number;
+    relations: Record<string, RelationInstance>;
+    deleted: Record<string, number>;
+  };
+  report: MigrationReport;
+} => {
+  const fromVersion = typeof raw.version === "number" ? raw.version : 0;
+  const { data, report } = runMigrations({
+    data: raw,
+    fromVersion,
+    migrations: RELATIONS_MIGRATIONS,
+    context,
+  });
+  return {
+    data: {
+      version: report.toVersion,
+      lastModified:
+        typeof data.lastModified === "number" ? data.lastModified : 0,
+      relations: data.relations as Record<string, RelationInstance>,
+      deleted: Object.fromEntries(
+        Object.entries((data.deleted ?? {}) as Record<string, unknown>).filter(
+          (entry): entry is [string, number] => typeof entry[1] === "number",
+        ),
+      ),
+    },
+    report,
+  };
+};
+
+// --- Settings ---
+
+const fillMissingTimestamps = (settings: Settings, now: number): boolean => {
+  let changed = false;
+  for (const typeObject of [
+    ...settings.nodeTypes,
+    ...settings.relationTypes,
+    ...settings.discourseRelations,
+  ]) {
+    if (!typeObject.created) {
+      typeObject.created = now;
+      changed = true;
+    }
+    if (!typeObject.modified) {
+      typeObject.modified = now;
+      changed = true;
+    }
+  }
+  return changed;
+};
+
+const fillMissingDiscourseRelationIds = (
+  settings: Settings,
+  generateId: MigrationContext["generateId"],
+): boolean => {
+  let changed = false;
+  // nodeTypes and relationTypes already have Ids
+  for (const relation of settings.discourseRelations) {
+    if (!relation.id) {
+      relation.id = generateId("rel3");
+      changed = true;
+    }
+  }
+  return changed;
+};
+
+export const SETTINGS_MIGRATIONS: Migration<Settings>[] = [
+  {
+    version: 1,
+    description:
+      "Add created/modified timestamps to node types, relation types and discourse relations",
+    up: (settings, { now }) => {
+      fillMissingTimestamps(settings, now);
+      return settings;
+    },
+  },
+  {
+    version: 2,
+    description: "Add ids to discourse relations",
+    up: (settings, { generateId }) => {
+      fillMissingDiscourseRelationIds(settings, generateId);
+      return settings;
+    },
+  },
+];
+
+/**
+ * Fill in timestamps and discourse relation ids that are missing, e.g. from
+ * entries edited by hand or synced from an older client after the settings
+ * were upgraded. Unlike the versioned migrations this runs on every load.
+ * Mutates `settings`; returns whether anything was filled in.
+ */
+export const fillMissingSettingsFields = (
+  settings: Settings,
+  { now, generateId }: MigrationContext,
+): boolean => {
+  const filledTimestamps = fillMissingTimestamps(settings, now);
+  const filledIds = fillMissingDiscourseRelationIds(settings, generateId);
+  return filledTimestamps || filledIds;
+};
+
+export const SETTINGS_VERSION = getLatestVersion(SETTINGS_MIGRATIONS);
+
+/** Upgrade loaded settings. Settings saved before versioning are treated as version 0. */
+export const upgradeSettingsData = (
+  settings: Settings,
+  context: MigrationContext,
+): { data: Settings; report: MigrationReport } => {
+  const fromVersion = settings.settingsVersion ?? 0;
+  const { data, report } = runMigrations({
+    data: settings,
+    fromVersion,
+    migrations: SETTINGS_MIGRATIONS,
+    context,
+  });
+  return {
+    data: report.newerThanSupported
+      ? data
+      : { ...data, settingsVersion: report.toVersion },
+    report,
+  };
+};
+
+/** Human-readable lines for a dry-run report. */
+export const describeMigrationReport = (
+  name: string,
+  report: MigrationReport,
+): string[] => {
+  if (report.newerThanSupported) {
+    return [
+      `${name}: version ${report.fromVersion} was written by a newer plugin version; left untouched.`,
+    ];
+  }
+  if (!report.changed) {
+    return [`${name}: up to date (version ${report.toVersion}).`];
+  }
+  return [
+    `${name}: version ${report.fromVersion} → ${report.toVersion}`,
+    ...report.steps.map(
+      (step) =>
+        `  v${step.version} ${step.description}${step.changed ? "" : " (no changes needed)"}`,
+    ),
+  ];
+};
@@ -0,0 +1,245 @@
+import { Notice, TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNode, NodeAttribute, NodeAttributeType } from "~/types";
+import { getNodeTypeById } from "./typeUtils";
+
+export const NODE_ATTRIBUTE_TYPE_LABELS: Record<NodeAttributeType, string> = {
+  string: "Text",
+  number: "Number",
+  enum: "Choice",
+  rating: "Rating (1–5)",
+};
+
+export const RATING_MIN = 1;
+export const RATING_MAX = 5;
+
+export type NodeAttributeValue = string | number;
+export type NodeAttributeValues = Record<string, NodeAttributeValue>;
+
+export type NodeAttributeIssue = {
+  key: string;
+  label: string;
+  error: string;
+};
+
+/**
+ * Frontmatter keys the plugin writes itself; attributes and title placeholders
+ * mirrored into frontmatter may not use them.
+ */
+export const RESERVED_FRONTMATTER_KEYS = new Set([
+  "nodeTypeId",
+  "nodeInstanceId",
+  "importedFromRid",
+  "publishedToGroups",
+  "authorId",
+  "lastModified",
+  "importedAssets",
+  "tags",
+  "aliases",
+]);
+
+const ATTRIBUTE_KEY_REGEX = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+export const getAttributeLabel = (attribute: NodeAttribute): string =>
+  attribute.label?.trim() || attribute.key;
+
+export const validateAttributeDefinitions = (
+  attributes: NodeAttribute[],
+): { isValid: boolean; error?: string } => {
+  const keys = new Set<string>();
+  for (const attribute of attributes) {
+    const key = attribute.key.trim();
+    if (!key) {
+      return { isValid: false, error: "Attribute keys cannot be empty" };
+    }
+    if (!ATTRIBUTE_KEY_REGEX.test(key)) {
+      return {
+        isValid: false,
+        error: `Attribute key "${key}" may only contain letters, digits, "_" and "-", and cannot start with a digit`,
+      };
+    }
+    if (RESERVED_FRONTMATTER_KEYS.has(key)) {
+      return {
+        isValid: false,
+        error: `Attribute key "${key}" is used by the plugin`,
+      };
+    }
+    if (keys.has(key)) {
+      return {
+        isValid: false,
+        error: `Attribute key "${key}" is used more than once`,
+      };
+    }
+    keys.add(key);
+
+    if (attribute.type === "enum" && !attribute.options?.length) {
+      return {
+        isValid: false,
+        error: `Choice attribute "${key}" needs at least one option`,
+      };
+    }
+    if (
+      attribute.type === "number" &&
+      attribute.min !== undefined &&
+      attribute.max !== undefined &&
+      attribute.min > attribute.max
+    ) {
+      return {
+        isValid: false,
+        error: `Attribute "${key}" has a minimum greater than its maximum`,
+      };
+    }
+  }
+  return { isValid: true };
+};
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "");
+
+/** The error for a single attribute value, or null when it is valid. */
+export const validateAttributeValue = (
+  attribute: NodeAttribute,
+  value: unknown,
+): string | null => {
+  const label = getAttributeLabel(attribute);
+  if (isMissing(value)) {
+    return attribute.required ? `${label} is required` : null;
+  }
+
+  switch (attribute.type) {
+    case "string":
+      return typeof value === "string" ? null : `${label} must be text`;
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return `${label} must be a number`;
+      }
+      if (attribute.min !== undefined && value < attribute.min) {
+        return `${label} must be at least ${attribute.min}`;
+      }
+      if (attribute.max !== undefined && value > attribute.max) {
+        return `${label} must be at most ${attribute.max}`;
+      }
+      return null;
+    }
+    case "enum":
+      return typeof value === "string" && attribute.options?.includes(value)
+        ? null
+        : `${label} must be one of: ${(attribute.options ?? []).join(", ")}`;
+    case "rating":
+      return typeof value === "number" &&
+        Number.isInteger(value) &&
+        value >= RATING_MIN &&
+        value <= RATING_MAX
+        ? null
+        : `${label} must be a whole number from ${RATING_MIN} to ${RATING_MAX}`;
+  }
+};
+
+/**
+ * Convert what was typed into an attribute input to the value stored in
+ * frontmatter. Empty input yields no value.
+ */
+export const parseAttributeInput = (
+  attribute: NodeAttribute,
+  input: string,
+): NodeAttributeValue | undefined => {
+  const trimmed = input.trim();
+  if (!trimmed) return undefined;
+  if (attribute.type === "number" || attribute.type === "rating") {
+    const parsed = Number(trimmed);
+    // Keep the raw text so validation reports it instead of storing NaN.
+    return Number.isNaN(parsed) ? trimmed : parsed;
+  }
+  return trimmed;
+};
+
+export const getAttributeIssues = (
+  nodeType: DiscourseNode,
+  values: Record<string, unknown>,
+): NodeAttributeIssue[] =>
+  (nodeType.attributes ?? []).flatMap((attribute) => {
+    const error = validateAttributeValue(attribute, values[attribute.key]);
+    return error
+      ? [{ key: attribute.key, label: getAttributeLabel(attribute), error }]
+      : [];
+  });
+
+/**
+ * Read attribute definitions from synced data, dropping entries that aren't
+ * well-formed attributes.
+ */
+export const parseNodeAttributes = (
+  raw: unknown,
+): NodeAttribute[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const attributes = raw.filter(
+    (item): item is NodeAttribute =>
+      !!item &&
+      typeof item === "object" &&
+      typeof (item as NodeAttribute).id === "string" &&
+      typeof (item as NodeAttribute).key === "string" &&
+      (item as NodeAttribute).type in NODE_ATTRIBUTE_TYPE_LABELS,
+  );
+  return attributes.length > 0 ? attributes : undefined;
+};
+
+/** Write attribute values into a frontmatter object, skipping empty ones. */
+export const applyAttributeValues = (
+  frontmatter: Record<string, unknown>,
+  values: NodeAttributeValues,
+): void => {
+  for (const [key, value] of Object.entries(values)) {
+    if (!isMissing(value)) frontmatter[key] = value;
+  }
+};
+
+export const getFileAttributeIssues = (
+  plugin: DiscourseGraphPlugin,
+  file: TFile,
+): NodeAttributeIssue[] => {
+  const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+  const nodeTypeId = frontmatter?.nodeTypeId as string | undefined;
+  if (!frontmatter || !nodeTypeId) return [];
+  const nodeType = getNodeTypeById(plugin, nodeTypeId);
+  if (!nodeType?.attributes?.length) return [];
+  return getAttributeIssues(nodeType, frontmatter);
+};
+
+/**
+ * Check a discourse node's attributes whenever its file is saved, and warn
+ * once per distinct set of problems so unchanged issues don't repeat on every
+ * autosave.
+ */
+export const registerNodeAttributeValidation = (
+  plugin: DiscourseGraphPlugin,
+): void => {
+  const reported = new Map<string, string>();
+
+  // Only react to saves made after startup, not to the initial indexing.
+  plugin.app.workspace.onLayoutReady(() => {
+    plugin.registerEvent(
+      plugin.app.metadataCache.on("changed", (file: TFile) => {
+        const issues = getFileAttributeIssues(plugin, file);
+        const signature = issues.map((issue) => issue.error).join("\n");
+        if (!signature) {
+          reported.delete(file.path);
+          return;
+        }
+        if (reported.get(file.path) === signature) return;
+        reported.set(file.path, signature);
+        new Notice(
+          `Invalid attributes in ${file.basename}:\n${signature}`,
+          8000,
+        );
+      }),
+    );
+
+    plugin.registerEvent(
+      plugin.app.metadataCache.on("deleted", (file: TFile) => {
+        reported.delete(file.path);
+      }),
+    );
+  });
+};
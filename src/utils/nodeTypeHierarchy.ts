@@ -0,0 +1,84 @@
+import type { DiscourseNode, DiscourseRelation } from "~/types";
+
+/**
+ * The ids of a node type and its ancestors, nearest first. Stops at a missing
+ * parent or a cycle, so a broken hierarchy never loops.
+ */
+export const getNodeTypeAncestorIds = (
+  nodeTypes: DiscourseNode[],
+  nodeTypeId: string,
+): string[] => {
+  const ids: string[] = [];
+  let currentId: string | undefined = nodeTypeId;
+  while (currentId && !ids.includes(currentId)) {
+    ids.push(currentId);
+    const id: string = currentId;
+    currentId = nodeTypes.find((nodeType) => nodeType.id === id)?.parentId;
+  }
+  return ids;
+};
+
+/** Whether `nodeTypeId` is `ancestorId` or one of its subtypes. */
+export const isNodeTypeOrSubtypeOf = (
+  nodeTypes: DiscourseNode[],
+  nodeTypeId: string,
+  ancestorId: string,
+): boolean =>
+  getNodeTypeAncestorIds(nodeTypes, nodeTypeId).includes(ancestorId);
+
+/** The ids of a node type and all of its subtypes, at any depth. */
+export const getNodeTypeDescendantIds = (
+  nodeTypes: DiscourseNode[],
+  nodeTypeId: string,
+): string[] => [
+  nodeTypeId,
+  ...nodeTypes
+    .filter(
+      (nodeType) =>
+        nodeType.id !== nodeTypeId &&
+        isNodeTypeOrSubtypeOf(nodeTypes, nodeType.id, nodeTypeId),
+    )
+    .map((nodeType) => nodeType.id),
+];
+
+/**
+ * The discourse relation rules in effect once inheritance is resolved: every
+ * rule also applies to the subtypes of its source and destination. Inherited
+ * rules keep the id of the rule they come from; explicit rules for the same
+ * triple take precedence.
+ */
+export const getEffectiveDiscourseRelations = ({
+  nodeTypes,
+  discourseRelations,
+}: {
+  nodeTypes: DiscourseNode[];
+  discourseRelations: DiscourseRelation[];
+}): DiscourseRelation[] => {
+  if (!nodeTypes.some((nodeType) => nodeType.parentId)) {
+    return discourseRelations;
+  }
+
+  const getKey = (relation: DiscourseRelation) =>
+    `${relation.sourceId}|${relation.relationshipTypeId}|${relation.destinationId}`;
+  const seen = new Set(discourseRelations.map(getKey));
+  const inherited: DiscourseRelation[] = [];
+
+  for (const relation of discourseRelations) {
+    const sourceIds = getNodeTypeDescendantIds(nodeTypes, relation.sourceId);
+    const destinationIds = getNodeTypeDescendantIds(
+      nodeTypes,
+      relation.destinationId,
+    );
+    for (const sourceId of sourceIds) {
+      for (const destinationId of destinationIds) {
+        const derived = { ...relation, sourceId, destinationId };
+        const key = getKey(derived);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        inherited.push(derived);
+      }
+    }
+  }
+
+  return [...discourseRelations, ...inherited];
+};
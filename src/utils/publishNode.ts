@@ -8,7 +8,6 @@ import {
   getFileForNodeInstanceIds,
   loadRelations,
   saveRelations,
-  type RelationsFile,
 } from "./relationsStore";
 import type { RelationInstance } from "~/types";
 import { getAvailableGroupIds } from "./importNodes";
@@ -17,6 +16,7 @@ import {
   syncPublishedNodeAssets,
 } from "./syncDgNodesToSupabase";
 import { isProvisionalSchema } from "./typeUtils";
+import { getEffectiveDiscourseRelations } from "./nodeTypeHierarchy";
 import { intersection, difference } from "@repo/utils/setOperations";
 
 import type { DiscourseNodeInVault } from "./getDiscourseNodes";
@@ -103,7 +103,7 @@ export const publishNewRelation = async (
     | undefined;
   if (!Array.isArray(sourceGroups) || !Array.isArray(destinationGroups))
     return false;
-  const relationTriples = plugin.settings.discourseRelations ?? [];
+  const relationTriples = getEffectiveDiscourseRelations(plugin.settings);
   const triple = relationTriples.find(
     (triple) =>
       triple.relationshipTypeId === relation.type &&
@@ -168,7 +168,7 @@ export const publishNodeRelations = async ({
 }): Promise<void> => {
   const relations = await getRelationsForNodeInstanceId(plugin, nodeId);
   const resourceIds: Set<string> = new Set();
-  const relationTriples = plugin.settings.discourseRelations ?? [];
+  const relationTriples = getEffectiveDiscourseRelations(plugin.settings);
   const relevantNodeIds: Set<string> = new Set();
   relations.map((relation) => {
     relevantNodeIds.add(relation.source);
@@ -266,16 +266,15 @@ export const ensurePublishedRelationsAccuracy = async ({
   context,
   plugin,
   allNodesById,
-  relationInstancesData,
+  relationInstances,
 }: {
   client: DGSupabaseClient;
   context: SupabaseContext;
   plugin: DiscourseGraphPlugin;
   allNodesById: Record<string, DiscourseNodeInVault>;
-  relationInstancesData: RelationsFile;
+  relationInstances: RelationInstance[];
 }): Promise<void> => {
   const myGroups = await getAvailableGroupIds(client);
-  const relationInstances = Object.values(relationInstancesData.relations);
   const syncedRelationIdsResult = await client
     .from("Concept")
     .select("source_local_id")
@@ -307,7 +306,7 @@ export const ensurePublishedRelationsAccuracy = async ({
       }
     }
   }
-  let changed = false;
+  const removedPublications: { id: string; group: string }[] = [];
   const missingPublishRecords: TablesInsert<"ResourceAccess">[] = [];
   for (const group of myGroups) {
     const publishableRelations = relationInstances.filter(
@@ -368,30 +367,40 @@ export const ensurePublishedRelationsAccuracy = async ({
       if (r.error) console.error(r.error);
       else {
         for (const id of extraPublishableIds) {
-          const rel = relationInstancesData.relations[id];
-          const pos = (rel?.publishedToGroupId || []).indexOf(group);
-          if (pos >= 0) {
-            rel!.publishedToGroupId!.splice(pos, 1);
-            changed = true;
-          }
+          removedPublications.push({ id, group });
         }
       }
     }
   }
+  let addedPublications: TablesInsert<"ResourceAccess">[] = [];
   if (missingPublishRecords.length > 0) {
     const r = await client.from("ResourceAccess").upsert(missingPublishRecords);
     if (r.error) console.error(r.error);
-    else {
-      for (const record of missingPublishRecords) {
-        const rel = relationInstancesData.relations[record.source_local_id];
-        const group = record.account_uid;
-        const pos = (rel?.publishedToGroupId || []).indexOf(group);
-        if (rel && pos < 0) {
-          if (rel.publishedToGroupId === undefined) rel.publishedToGroupId = [];
-          rel.publishedToGroupId.push(group);
-          changed = true;
-        }
-      }
+    else addedPublications = missingPublishRecords;
+  }
+  if (removedPublications.length === 0 && addedPublications.length === 0) {
+    return;
+  }
+
+  // Only read relations.json when publication records actually need updating.
+  const relationInstancesData = await loadRelations(plugin);
+  let changed = false;
+  for (const { id, group } of removedPublications) {
+    const rel = relationInstancesData.relations[id];
+    const pos = (rel?.publishedToGroupId || []).indexOf(group);
+    if (pos >= 0) {
+      rel!.publishedToGroupId!.splice(pos, 1);
+      changed = true;
+    }
+  }
+  for (const record of addedPublications) {
+    const rel = relationInstancesData.relations[record.source_local_id];
+    const group = record.account_uid;
+    const pos = (rel?.publishedToGroupId || []).indexOf(group);
+    if (rel && pos < 0) {
+      if (rel.publishedToGroupId === undefined) rel.publishedToGroupId = [];
+      rel.publishedToGroupId.push(group);
+      changed = true;
     }
   }
   if (changed) {
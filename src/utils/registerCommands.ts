@@ -4,16 +4,46 @@ import { NodeTypeModal } from "~/components/NodeTypeModal";
 import ModifyNodeModal from "~/components/ModifyNodeModal";
 import { BulkIdentifyDiscourseNodesModal } from "~/components/BulkIdentifyDiscourseNodesModal";
 import { ImportNodesModal } from "~/components/ImportNodesModal";
+import { ImportGraphFileModal } from "~/components/ImportGraphFileModal";
+import { ValidateGraphModal } from "~/components/ValidateGraphModal";
+import { DataMigrationsModal } from "~/components/DataMigrationsModal";
+import { checkRelationsConflicts } from "~/components/RelationsConflictModal";
+import { NeighborhoodCanvasModal } from "~/components/NeighborhoodCanvasModal";
+import { ExportCanvasModal } from "~/components/ExportCanvasModal";
+import { PresentationModal } from "~/components/PresentationModal";
+import { CanvasReferencesModal } from "~/components/CanvasReferencesModal";
+import {
+  exportJsonCanvas,
+  importJsonCanvas,
+} from "~/components/canvas/utils/jsonCanvas";
+import { dispatchOpenCanvasSearch } from "~/components/canvas/utils/canvasSearch";
+import {
+  isCanvasFile,
+  openCanvasAndRevealShapes,
+  type CanvasReference,
+} from "~/components/canvas/utils/canvasReferences";
+import {
+  openRelationHistoryView,
+  runRelationHistoryStep,
+} from "~/components/RelationHistoryView";
 import { convertPageToDiscourseNode, createDiscourseNode } from "./createNode";
 import { refreshAllImportedFiles } from "./importNodes";
-import { VIEW_TYPE_MARKDOWN, VIEW_TYPE_TLDRAW_DG_PREVIEW } from "~/constants";
+import {
+  FRONTMATTER_KEY,
+  VIEW_TYPE_MARKDOWN,
+  VIEW_TYPE_TLDRAW_DG_PREVIEW,
+} from "~/constants";
 import { createCanvas } from "~/components/canvas/utils/tldraw";
 import { syncAllNodesAndRelations } from "./syncDgNodesToSupabase";
 import { openPublishGroupPicker } from "./publishGroupSelection";
 import { addRelationIfRequested } from "~/components/canvas/utils/relationJsonUtils";
 import type { DiscourseNode } from "~/types";
+import type { NodeAttributeValues } from "./nodeAttributes";
 import { TldrawView } from "~/components/canvas/TldrawView";
 import { createBaseForNodeType } from "./baseForNodeType";
+import { GraphExportFormatModal } from "~/components/GraphExportFormatModal";
+import { exportDiscourseGraph } from "./graphExport";
+import { getLastNodeRetitle, undoLastNodeRetitle } from "./retitleNodes";
 
 type ModifyNodeSubmitParams = {
   nodeType: DiscourseNode;
@@ -22,6 +52,8 @@ type ModifyNodeSubmitParams = {
   selectedExistingNode?: TFile;
   relationshipId?: string;
   relationshipTargetFile?: TFile;
+  placeholderValues?: Record<string, string>;
+  attributeValues?: NodeAttributeValues;
 };
 
 export const createModifyNodeModalSubmitHandler = (
@@ -34,6 +66,8 @@ export const createModifyNodeModalSubmitHandler = (
     selectedExistingNode,
     relationshipId,
     relationshipTargetFile,
+    placeholderValues,
+    attributeValues,
   }: ModifyNodeSubmitParams) => {
     if (selectedExistingNode) {
       if (editor && editor.somethingSelected()) {
@@ -49,6 +83,8 @@ export const createModifyNodeModalSubmitHandler = (
         nodeType,
         text: title,
         editor,
+        placeholderValues,
+        attributeValues,
       });
       if (newFile) {
         await addRelationIfRequested(plugin, newFile, {
@@ -113,12 +149,19 @@ export const registerCommands = (plugin: DiscourseGraphPlugin) => {
           initialTitle: file.basename,
           // Command palette flow should mirror file-menu conversion.
           disableExistingNodeSearch: true,
-          onSubmit: async ({ nodeType, title }) => {
+          onSubmit: async ({
+            nodeType,
+            title,
+            placeholderValues,
+            attributeValues,
+          }) => {
             await convertPageToDiscourseNode({
               plugin,
               file,
               nodeType,
               title,
+              placeholderValues,
+              attributeValues,
             });
           },
         }).open();
@@ -136,6 +179,35 @@ export const registerCommands = (plugin: DiscourseGraphPlugin) => {
     },
   });
 
+  plugin.addCommand({
+    id: "undo-node-retitle",
+    name: "Undo renaming nodes to a new format",
+    checkCallback: (checking: boolean) => {
+      const retitle = getLastNodeRetitle();
+      if (!retitle) return false;
+
+      if (!checking) {
+        void undoLastNodeRetitle(plugin)
+          .then(({ restored, skipped }) => {
+            new Notice(
+              skipped > 0
+                ? `Restored ${restored} ${retitle.nodeTypeName} filename(s); ${skipped} could not be restored`
+                : `Restored ${restored} ${retitle.nodeTypeName} filename(s)`,
+              5000,
+            );
+          })
+          .catch((error) => {
+            console.error("Error undoing node renames:", error);
+            new Notice(
+              `Undo failed: ${error instanceof Error ? error.message : String(error)}`,
+              5000,
+            );
+          });
+      }
+      return true;
+    },
+  });
+
   plugin.addCommand({
     id: "import-nodes-from-another-space",
     name: "Import nodes from another space",
@@ -153,6 +225,14 @@ export const registerCommands = (plugin: DiscourseGraphPlugin) => {
     },
   });
 
+  plugin.addCommand({
+    id: "import-discourse-graph-from-files",
+    name: "Import discourse graph from CSV or JSON files",
+    callback: () => {
+      new ImportGraphFileModal(plugin.app, plugin).open();
+    },
+  });
+
   plugin.addCommand({
     id: "refresh-imported-nodes",
     name: "Fetch latest content from imported nodes",
@@ -252,6 +332,198 @@ export const registerCommands = (plugin: DiscourseGraphPlugin) => {
     callback: () => createCanvas(plugin),
   });
 
+  plugin.addCommand({
+    id: "open-neighborhood-on-canvas",
+    name: "Open neighborhood on canvas",
+    icon: "network",
+    checkCallback: (checking: boolean) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (!file) return false;
+      const nodeTypeId = plugin.app.metadataCache.getFileCache(file)
+        ?.frontmatter?.nodeTypeId as unknown;
+      if (typeof nodeTypeId !== "string") return false;
+
+      if (!checking) {
+        new NeighborhoodCanvasModal(plugin.app, plugin, file).open();
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "export-canvas",
+    name: "Export canvas",
+    icon: "image-down",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(TldrawView);
+      const editor = view?.getEditor();
+      if (!view?.file || !editor) return false;
+
+      if (!checking) {
+        new ExportCanvasModal(plugin.app, plugin, editor, view.file).open();
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "edit-canvas-presentation",
+    name: "Edit canvas presentation",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(TldrawView);
+      const editor = view?.getEditor();
+      if (!view?.file || !editor) return false;
+
+      if (!checking) {
+        new PresentationModal(
+          plugin.app,
+          editor,
+          view.getPresentation(),
+        ).open();
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "start-canvas-presentation",
+    name: "Start canvas presentation",
+    icon: "presentation",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(TldrawView);
+      const editor = view?.getEditor();
+      const presentation = view?.getPresentation();
+      if (!editor || !presentation?.getSteps().length) return false;
+
+      if (!checking) {
+        presentation.start(editor);
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "search-canvas",
+    name: "Search canvas",
+    icon: "search",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(TldrawView);
+      if (!view?.file || !view.getEditor()) return false;
+
+      if (!checking) {
+        dispatchOpenCanvasSearch(view.file.path);
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "toggle-canvas-type-filter",
+    name: "Toggle canvas filter by type",
+    icon: "filter",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(TldrawView);
+      if (!view?.getEditor()) return false;
+
+      if (!checking) {
+        view.getTypeFilter().togglePanel();
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "reveal-note-in-canvases",
+    name: "Reveal current note in canvases",
+    checkCallback: (checking: boolean) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (!file || file.extension !== "md") return false;
+      if (isCanvasFile(plugin, file)) return false;
+
+      if (!checking) {
+        const reveal = (reference: CanvasReference) =>
+          void openCanvasAndRevealShapes(plugin, reference).catch((error) => {
+            console.error("Error revealing note in canvas:", error);
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            new Notice(`Failed to open canvas: ${errorMessage}`, 5000);
+          });
+
+        void plugin.canvasReferences.getReferences(file).then((references) => {
+          if (references.length === 0) {
+            new Notice(`"${file.basename}" is not on any canvas`, 3000);
+          } else if (references.length === 1) {
+            reveal(references[0]!);
+          } else {
+            new CanvasReferencesModal(plugin, references, reveal).open();
+          }
+        });
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "convert-json-canvas-to-discourse-canvas",
+    name: "Convert JSON Canvas to Discourse Graph canvas",
+    checkCallback: (checking: boolean) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (file?.extension !== "canvas") return false;
+
+      if (!checking) {
+        void importJsonCanvas(plugin, file)
+          .then((result) => {
+            if (!result) return;
+            new Notice(
+              `Converted ${result.discourseNodes} discourse node(s) and ${result.relations} relation(s); ${result.otherNodes} other card(s) and ${result.otherEdges} other edge(s) kept as plain shapes`,
+              5000,
+            );
+          })
+          .catch((error) => {
+            console.error("Error converting JSON Canvas:", error);
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            new Notice(`Failed to convert canvas: ${errorMessage}`, 5000);
+          });
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "export-discourse-canvas-to-json-canvas",
+    name: "Export Discourse Graph canvas to JSON Canvas",
+    checkCallback: (checking: boolean) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (!file) return false;
+      const isCanvasFile =
+        !!plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[
+          FRONTMATTER_KEY
+        ];
+      if (!isCanvasFile) return false;
+
+      if (!checking) {
+        void exportJsonCanvas(plugin, file)
+          .then((result) => {
+            const skipped = result.skippedShapes
+              ? `; ${result.skippedShapes} unsupported shape(s) left out`
+              : "";
+            new Notice(
+              `Exported ${result.nodes} node(s) and ${result.edges} edge(s) to ${result.file.path}${skipped}`,
+              5000,
+            );
+          })
+          .catch((error) => {
+            console.error("Error exporting JSON Canvas:", error);
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            new Notice(`Failed to export canvas: ${errorMessage}`, 5000);
+          });
+      }
+      return true;
+    },
+  });
+
   plugin.addCommand({
     id: "sync-discourse-nodes-to-supabase",
     name: "Sync discourse nodes to Supabase",
@@ -287,6 +559,78 @@ export const registerCommands = (plugin: DiscourseGraphPlugin) => {
     },
   });
 
+  plugin.addCommand({
+    id: "validate-discourse-graph",
+    name: "Validate discourse graph",
+    callback: () => {
+      new ValidateGraphModal(plugin.app, plugin).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: "undo-relation-change",
+    name: "Undo last relation change",
+    checkCallback: (checking: boolean) => {
+      if (!plugin.relationHistory.canUndo()) return false;
+      if (!checking) void runRelationHistoryStep(plugin, "undo");
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "redo-relation-change",
+    name: "Redo last relation change",
+    checkCallback: (checking: boolean) => {
+      if (!plugin.relationHistory.canRedo()) return false;
+      if (!checking) void runRelationHistoryStep(plugin, "redo");
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "open-relation-history",
+    name: "Open relation history",
+    callback: () => {
+      void openRelationHistoryView(plugin);
+    },
+  });
+
+  plugin.addCommand({
+    id: "merge-relations-conflicts",
+    name: "Merge relations.json sync conflicts",
+    callback: () => {
+      void checkRelationsConflicts(plugin)
+        .then((found) => {
+          if (!found) new Notice("No relations.json conflicts found", 3000);
+        })
+        .catch((error) => {
+          console.error("Error merging relations.json conflicts:", error);
+          new Notice(
+            `Merge failed: ${error instanceof Error ? error.message : String(error)}`,
+            5000,
+          );
+        });
+    },
+  });
+
+  plugin.addCommand({
+    id: "preview-data-migrations",
+    name: "Preview data migrations (dry run)",
+    callback: () => {
+      new DataMigrationsModal(plugin.app, plugin).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: "export-discourse-graph",
+    name: "Export discourse graph",
+    callback: () => {
+      new GraphExportFormatModal(plugin, (format) => {
+        void exportDiscourseGraph(plugin, format);
+      }).open();
+    },
+  });
+
   plugin.addCommand({
     id: "publish-discourse-node",
     name: "Publish current node to lab space",
@@ -0,0 +1,171 @@
+import { TAbstractFile, TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import {
+  createMigrationContext,
+  isRawRelationsFile,
+  upgradeRelationsData,
+} from "./migrations";
+import {
+  mergeRelationsFiles,
+  resolveRelationConflicts,
+  splitConflictMarkers,
+  type MergeSide,
+  type RelationConflict,
+  type RelationsMergeResult,
+} from "./relationsMerge";
+import {
+  backupRelationsFile,
+  defaultRelationsFile,
+  getRelationsFilePath,
+  isRelationsStoragePath,
+  saveRelations,
+  type RelationsFile,
+} from "./relationsStore";
+
+/**
+ * Copies of relations.json left by sync tools, and nothing else:
+ * "relations (conflicted copy 2024-05-01).json" (Dropbox, Obsidian Sync),
+ * "relations (1).json" (Google Drive, OneDrive),
+ * "relations.sync-conflict-20240501-101010-ABCDEF.json" (Syncthing) or
+ * "relations 2.json" (iCloud).
+ */
+const CONFLICT_COPY_PATTERN =
+  /^relations(?: \((?:[^)]*conflict[^)]*|\d+)\)| \d+|\.sync-conflict-\d{8}-\d{6}-[a-z0-9]+)\.json$/i;
+
+export type RelationsConflictPlan = {
+  result: RelationsMergeResult;
+  /**
+   * Conflict copies merged into the plan; deleted once it is applied, which
+   * the user has to confirm since the plugin did not create them.
+   */
+  copies: TFile[];
+  /** relations.json itself contains git conflict markers. */
+  hasConflictMarkers: boolean;
+};
+
+export const isRelationsConflictCopy = (file: TAbstractFile): boolean =>
+  file instanceof TFile &&
+  (file.parent?.isRoot() ?? true) &&
+  file.path !== getRelationsFilePath() &&
+  CONFLICT_COPY_PATTERN.test(file.name);
+
+export const findRelationsConflictCopies = (
+  plugin: DiscourseGraphPlugin,
+): TFile[] =>
+  plugin.app.vault
+    .getRoot()
+    .children.filter(isRelationsConflictCopy) as TFile[];
+
+const parseRelationsContent = (
+  content: string,
+  label: string,
+): RelationsFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `${label} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!isRawRelationsFile(raw)) {
+    throw new Error(`${label}: "relations" is missing or not an object`);
+  }
+  return upgradeRelationsData(raw, createMigrationContext()).data;
+};
+
+const mergeConflicts = (
+  earlier: RelationConflict[],
+  later: RelationConflict[],
+): RelationConflict[] => {
+  const laterIds = new Set(later.map((conflict) => conflict.id));
+  return [...earlier.filter((c) => !laterIds.has(c.id)), ...later];
+};
+
+/**
+ * Build a merge plan for relations.json and its conflict copies, or null when
+ * there is nothing to merge. Only applies to single-file storage; sharded
+ * storage merges copies of its shards itself.
+ */
+export const planRelationsConflictMerge = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<RelationsConflictPlan | null> => {
+  if (!isRelationsStoragePath(plugin, getRelationsFilePath())) return null;
+
+  const copies = findRelationsConflictCopies(plugin);
+  const file = plugin.app.vault.getAbstractFileByPath(getRelationsFilePath());
+  const content =
+    file instanceof TFile ? await plugin.app.vault.read(file) : null;
+  const markers = content ? splitConflictMarkers(content) : null;
+  if (!markers && copies.length === 0) return null;
+
+  let result: RelationsMergeResult;
+  if (markers) {
+    result = mergeRelationsFiles({
+      ours: parseRelationsContent(markers.ours, "relations.json (ours)"),
+      theirs: parseRelationsContent(markers.theirs, "relations.json (theirs)"),
+      base: markers.base
+        ? parseRelationsContent(markers.base, "relations.json (base)")
+        : null,
+    });
+  } else {
+    const ours = content
+      ? parseRelationsContent(content, "relations.json")
+      : defaultRelationsFile();
+    result = {
+      merged: ours,
+      conflicts: [],
+      added: 0,
+      removed: 0,
+      updated: 0,
+    };
+  }
+
+  for (const copy of copies) {
+    const next = mergeRelationsFiles({
+      ours: result.merged,
+      theirs: parseRelationsContent(
+        await plugin.app.vault.read(copy),
+        copy.name,
+      ),
+    });
+    result = {
+      merged: next.merged,
+      conflicts: mergeConflicts(result.conflicts, next.conflicts),
+      added: result.added + next.added,
+      removed: result.removed + next.removed,
+      updated: result.updated + next.updated,
+    };
+  }
+
+  return { result, copies, hasConflictMarkers: !!markers };
+};
+
+/**
+ * Back up relations.json, write the merged relations with the user's choices
+ * applied, and delete the merged conflict copies. Returns the backup path.
+ */
+export const applyRelationsConflictPlan = async (
+  plugin: DiscourseGraphPlugin,
+  plan: RelationsConflictPlan,
+  choices: Map<string, MergeSide> = new Map(),
+): Promise<string | null> => {
+  const backupPath = await backupRelationsFile(plugin);
+  // relations.json with conflict markers cannot be read; the merge already
+  // holds the tombstones of both sides.
+  await saveRelations(plugin, resolveRelationConflicts(plan.result, choices), {
+    overwrite: plan.hasConflictMarkers,
+  });
+  for (const copy of plan.copies) {
+    await plugin.app.vault.delete(copy);
+  }
+  return backupPath;
+};
+
+export const describeConflictPlan = (plan: RelationsConflictPlan): string => {
+  const { added, removed, updated } = plan.result;
+  const source = plan.hasConflictMarkers
+    ? "git conflict in relations.json"
+    : `${plan.copies.length} conflicted cop${plan.copies.length === 1 ? "y" : "ies"} of relations.json`;
+  return `Merged ${source}: ${added} added, ${updated} updated, ${removed} removed`;
+};
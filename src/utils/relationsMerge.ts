@@ -0,0 +1,251 @@
+import type { RelationInstance } from "~/types";
+import type { RelationsFile } from "./relationsStore";
+import { RELATIONS_FILE_VERSION } from "./migrations";
+
+/**
+ * Merging of diverged copies of relations.json, e.g. a sync conflict copy or
+ * the two sides of a git conflict.
+ *
+ * A relation missing from one copy is only treated as deleted when that copy
+ * has a tombstone for it (or, when a common base is known, when the other copy
+ * still holds the base version). Otherwise it is treated as an addition on the
+ * side that has it, so concurrent additions are never lost. When both copies
+ * changed the same relation, or one deleted what the other edited, the most
+ * recent change is preferred and the relation is reported as a conflict.
+ */
+
+/** Tombstones older than this are dropped when relations are saved. */
+export const TOMBSTONE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export const pruneTombstones = (
+  deleted: Record<string, number>,
+  now: number,
+): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(deleted).filter(
+      ([, deletedAt]) => now - deletedAt < TOMBSTONE_RETENTION_MS,
+    ),
+  );
+
+export type MergeSide = "ours" | "theirs";
+
+export type RelationConflict = {
+  id: string;
+  kind: "bothModified" | "modifiedAndDeleted";
+  /** This copy's version; null when this copy deleted the relation. */
+  ours: RelationInstance | null;
+  theirs: RelationInstance | null;
+  /** Time of the deletion, for modifiedAndDeleted conflicts. */
+  deletedAt?: number;
+  /** Side holding the most recent change, used unless the user picks another. */
+  preferred: MergeSide;
+};
+
+export type RelationsMergeResult = {
+  /** Merged data with every conflict resolved to its preferred side. */
+  merged: RelationsFile;
+  conflicts: RelationConflict[];
+  /** Relations taken from the other copy that this copy did not have. */
+  added: number;
+  /** Relations removed because the other copy deleted them. */
+  removed: number;
+  /** Relations replaced by the other copy's newer version. */
+  updated: number;
+};
+
+export const getRelationTimestamp = (relation: RelationInstance): number =>
+  relation.lastModified ?? relation.created ?? 0;
+
+const sameRelation = (
+  a: RelationInstance | undefined,
+  b: RelationInstance | undefined,
+): boolean => !!a && !!b && JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of two copies of the relations data. `base` is the common
+ * ancestor when known (for instance the base section of a diff3 conflict).
+ */
+export const mergeRelationsFiles = ({
+  ours,
+  theirs,
+  base,
+}: {
+  ours: RelationsFile;
+  theirs: RelationsFile;
+  base?: RelationsFile | null;
+}): RelationsMergeResult => {
+  const relations: Record<string, RelationInstance> = {};
+  const deleted: Record<string, number> = { ...ours.deleted };
+  for (const [id, deletedAt] of Object.entries(theirs.deleted ?? {})) {
+    deleted[id] = Math.max(deleted[id] ?? 0, deletedAt);
+  }
+
+  const conflicts: RelationConflict[] = [];
+  let added = 0;
+  let removed = 0;
+  let updated = 0;
+
+  const ids = new Set([
+    ...Object.keys(ours.relations),
+    ...Object.keys(theirs.relations),
+  ]);
+
+  for (const id of ids) {
+    const o = ours.relations[id];
+    const t = theirs.relations[id];
+    const b = base?.relations[id];
+
+    if (o && t) {
+      if (sameRelation(o, t) || sameRelation(t, b)) {
+        relations[id] = o;
+      } else if (sameRelation(o, b)) {
+        relations[id] = t;
+        updated++;
+      } else {
+        const preferred =
+          getRelationTimestamp(t) > getRelationTimestamp(o) ? "theirs" : "ours";
+        relations[id] = preferred === "ours" ? o : t;
+        if (preferred === "theirs") updated++;
+        conflicts.push({
+          id,
+          kind: "bothModified",
+          ours: o,
+          theirs: t,
+          preferred,
+        });
+      }
+      continue;
+    }
+
+    const present = (o ?? t)!;
+    const side: MergeSide = o ? "ours" : "theirs";
+    const deletingCopy = side === "ours" ? theirs : ours;
+    const deletedAt = deletingCopy.deleted?.[id];
+    const deletedFromBase = !!b && deletedAt === undefined;
+
+    if (deletedAt === undefined && !deletedFromBase) {
+      // Added on one side only.
+      relations[id] = present;
+      if (side === "theirs") added++;
+      continue;
+    }
+
+    const editedSinceDeletion =
+      deletedAt !== undefined
+        ? getRelationTimestamp(present) > deletedAt
+        : !sameRelation(present, b);
+    if (!editedSinceDeletion) {
+      deleted[id] = Math.max(
+        deleted[id] ?? 0,
+        deletedAt ?? deletingCopy.lastModified,
+      );
+      if (side === "ours") removed++;
+      continue;
+    }
+
+    // Edited on one side after the other side deleted it: keep the edit.
+    relations[id] = present;
+    if (side === "theirs") added++;
+    conflicts.push({
+      id,
+      kind: "modifiedAndDeleted",
+      ours: o ?? null,
+      theirs: t ?? null,
+      deletedAt: deletedAt ?? deletingCopy.lastModified,
+      preferred: side,
+    });
+  }
+
+  for (const id of Object.keys(relations)) delete deleted[id];
+
+  return {
+    merged: {
+      version: RELATIONS_FILE_VERSION,
+      lastModified: Math.max(ours.lastModified, theirs.lastModified),
+      relations,
+      deleted,
+    },
+    conflicts,
+    added,
+    removed,
+    updated,
+  };
+};
+
+/**
+ * Apply the user's choices to a merge result. Conflicts without a choice keep
+ * their preferred side.
+ */
+export const resolveRelationConflicts = (
+  result: RelationsMergeResult,
+  choices: Map<string, MergeSide>,
+  now: number = Date.now(),
+): RelationsFile => {
+  const relations = { ...result.merged.relations };
+  const deleted = { ...result.merged.deleted };
+
+  for (const conflict of result.conflicts) {
+    const side = choices.get(conflict.id) ?? conflict.preferred;
+    const chosen = side === "ours" ? conflict.ours : conflict.theirs;
+    if (chosen) {
+      relations[conflict.id] = chosen;
+      delete deleted[conflict.id];
+    } else {
+      delete relations[conflict.id];
+      deleted[conflict.id] = conflict.deletedAt ?? now;
+    }
+  }
+
+  return { ...result.merged, relations, deleted };
+};
+
+export type ConflictMarkerSides = {
+  ours: string;
+  theirs: string;
+  /** Present for conflicts written with merge.conflictStyle=diff3 (or zdiff3). */
+  base: string | null;
+};
+
+/**
+ * Split a file containing git conflict markers into its two (or three) sides.
+ * Returns null when the content has no conflict markers.
+ */
+export const splitConflictMarkers = (
+  content: string,
+): ConflictMarkerSides | null => {
+  const ours: string[] = [];
+  const theirs: string[] = [];
+  const base: string[] = [];
+  let section: "common" | "ours" | "base" | "theirs" = "common";
+  let hasMarkers = false;
+  let hasBase = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith("<<<<<<<")) {
+      section = "ours";
+      hasMarkers = true;
+    } else if (line.startsWith("|||||||") && section === "ours") {
+      section = "base";
+      hasBase = true;
+    } else if (line.startsWith("=======") && section !== "common") {
+      section = "theirs";
+    } else if (line.startsWith(">>>>>>>") && section === "theirs") {
+      section = "common";
+    } else if (section === "common") {
+      ours.push(line);
+      theirs.push(line);
+      base.push(line);
+    } else {
+      (section === "ours" ? ours : section === "base" ? base : theirs).push(
+        line,
+      );
+    }
+  }
+
+  if (!hasMarkers) return null;
+  return {
+    ours: ours.join("\n"),
+    theirs: theirs.join("\n"),
+    base: hasBase ? base.join("\n") : null,
+  };
+};
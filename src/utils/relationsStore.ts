@@ -1,10 +1,12 @@
 import { normalizePath, TFile } from "obsidian";
+import { format } from "date-fns";
 import { uuidv7 } from "uuidv7";
 import type { DGSupabaseClient } from "@repo/database/lib/client";
 import type DiscourseGraphPlugin from "~/index";
 import { ensureNodeInstanceId } from "~/utils/nodeInstanceId";
 import { getVaultId, getLocalSpaceUri } from "./supabaseContext";
-import type { RelationInstance } from "~/types";
+import type { RelationInstance, RelationsStorageMode } from "~/types";
+import type { RelationsShardStrategy } from "~/services/ShardedRelationsStore";
 import { QueryEngine, getImportedNodesRaw } from "~/services/QueryEngine";
 import { publishNewRelation } from "./publishNode";
 import {
@@ -12,9 +14,24 @@ import {
   spaceUriAndLocalIdToRid,
 } from "@repo/database/lib/rid";
 import { getSpaceIdsBySpaceUris } from "./spaceFromRid";
+import type { RelationGraphIndex } from "~/services/RelationGraphIndex";
+import type { RelationHistoryBatch } from "~/services/RelationHistory";
+import { getNewUniqueFilepath } from "./file";
+import {
+  getRelationTimestamp,
+  mergeRelationsFiles,
+  pruneTombstones,
+} from "./relationsMerge";
+import {
+  createMigrationContext,
+  isRawRelationsFile,
+  RELATIONS_FILE_VERSION,
+  upgradeRelationsData,
+  type MigrationReport,
+  type RawRelationsFile,
+} from "./migrations";
 
 const RELATIONS_FILE_NAME = "relations.json";
-const RELATIONS_FILE_VERSION = 1;
 
 /** Vault-relative path for relations.json — always at vault root. */
 export const getRelationsFilePath = (): string =>
@@ -24,52 +41,149 @@ export type RelationsFile = {
   version: number;
   lastModified: number;
   relations: Record<string, RelationInstance>;
+  /**
+   * Tombstones: relation id -> time it was deleted. Lets a merge of two copies
+   * tell a deletion on one device from an addition on the other.
+   */
+  deleted?: Record<string, number>;
 };
 
-const defaultRelationsFile = (): RelationsFile => ({
+export const defaultRelationsFile = (): RelationsFile => ({
   version: RELATIONS_FILE_VERSION,
   lastModified: 0,
   relations: {},
+  deleted: {},
 });
 
-export const loadRelations = async (
+const getShardStrategy = (
   plugin: DiscourseGraphPlugin,
-): Promise<RelationsFile> => {
-  const path = getRelationsFilePath();
-  const file = plugin.app.vault.getAbstractFileByPath(path);
+): RelationsShardStrategy | null => {
+  switch (plugin.settings.relationsStorage) {
+    case "shardedBySource":
+      return "source";
+    case "shardedByMonth":
+      return "month";
+    default:
+      return null;
+  }
+};
+
+/** Whether a vault path holds relations under the current storage mode. */
+export const isRelationsStoragePath = (
+  plugin: DiscourseGraphPlugin,
+  path: string,
+): boolean =>
+  getShardStrategy(plugin)
+    ? plugin.relationsShards.isStoragePath(path)
+    : path === getRelationsFilePath();
+
+/**
+ * Reads and parses relations.json without upgrading it.
+ * Returns null when the file is missing; throws when it cannot be parsed.
+ * With sharded storage, returns all shards merged (each already upgraded).
+ */
+export const readRawRelationsFile = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<RawRelationsFile | null> => {
+  if (getShardStrategy(plugin)) {
+    return plugin.relationsShards.load();
+  }
+  const file = plugin.app.vault.getAbstractFileByPath(getRelationsFilePath());
   if (!file || !(file instanceof TFile)) {
-    return defaultRelationsFile();
+    return null;
+  }
+  const content = await plugin.app.vault.read(file);
+  const data = JSON.parse(content) as unknown;
+  if (!isRawRelationsFile(data)) {
+    throw new Error(`"relations" is missing or not an object`);
   }
+  return data;
+};
+
+/**
+ * Reads and upgrades the stored relations. Unlike loadRelations(), throws
+ * when the storage cannot be read.
+ */
+export const readRelations = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<RelationsFile> => {
+  const raw = await readRawRelationsFile(plugin);
+  if (!raw) return defaultRelationsFile();
+  return upgradeRelationsData(raw, createMigrationContext()).data;
+};
+
+export const loadRelations = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<RelationsFile> => {
+  const path = getShardStrategy(plugin)
+    ? plugin.relationsShards.getFolderPath()
+    : getRelationsFilePath();
   try {
-    const content = await plugin.app.vault.read(file);
-    const data = JSON.parse(content) as RelationsFile;
-    if (
-      typeof data.version !== "number" ||
-      typeof data.lastModified !== "number" ||
-      typeof data.relations !== "object" ||
-      data.relations === null
-    ) {
-      return defaultRelationsFile();
-    }
-    return {
-      version: data.version,
-      lastModified: data.lastModified,
-      relations: data.relations ?? {},
-    };
-  } catch {
+    return await readRelations(plugin);
+  } catch (error) {
+    console.warn(
+      `${path} could not be read; treating it as empty. Run "Validate discourse graph" to repair it.`,
+      error,
+    );
     return defaultRelationsFile();
   }
 };
 
+/**
+ * Tombstones to write with `data`: those already stored or carried by `data`,
+ * plus one for each stored relation that `data` no longer contains. A stored
+ * relation newer than `data` was written elsewhere after the caller loaded it,
+ * so its absence is not a deletion. Throws when the stored relations cannot be
+ * read, rather than dropping their tombstones.
+ */
+const getTombstonesForSave = async (
+  plugin: DiscourseGraphPlugin,
+  data: RelationsFile,
+  now: number,
+): Promise<Record<string, number>> => {
+  const stored = await readRelations(plugin);
+  const deleted: Record<string, number> = { ...stored.deleted };
+  for (const [id, deletedAt] of Object.entries(data.deleted ?? {})) {
+    deleted[id] = Math.max(deleted[id] ?? 0, deletedAt);
+  }
+  for (const [id, relation] of Object.entries(stored.relations)) {
+    if (id in data.relations) continue;
+    if (getRelationTimestamp(relation) <= data.lastModified) deleted[id] = now;
+  }
+  for (const id of Object.keys(data.relations)) delete deleted[id];
+  return pruneTombstones(deleted, now);
+};
+
+/**
+ * Write `data` to the relations storage. `overwrite` skips merging in the
+ * stored tombstones, for replacing storage that cannot be read.
+ */
 export const saveRelations = async (
   plugin: DiscourseGraphPlugin,
   data: RelationsFile,
+  { overwrite = false }: { overwrite?: boolean } = {},
 ): Promise<void> => {
   const path = getRelationsFilePath();
+  const now = Date.now();
   const toWrite: RelationsFile = {
     ...data,
-    lastModified: Date.now(),
+    lastModified: now,
+    deleted: overwrite
+      ? pruneTombstones(data.deleted ?? {}, now)
+      : await getTombstonesForSave(plugin, data, now),
   };
+
+  const strategy = getShardStrategy(plugin);
+  if (strategy) {
+    const keptExternal = await plugin.relationsShards.save(toWrite, strategy);
+    // Shards written on another device since our last read were merged in,
+    // so the graph needs the merged view rather than what we were given.
+    plugin.relationGraph.applyRelationsFile(
+      keptExternal ? await plugin.relationsShards.load() : toWrite,
+    );
+    return;
+  }
+
   const content = JSON.stringify(toWrite, null, 2);
   const file = plugin.app.vault.getAbstractFileByPath(path);
   if (file instanceof TFile) {
@@ -77,6 +191,100 @@ export const saveRelations = async (
   } else {
     await plugin.app.vault.create(path, content);
   }
+  plugin.relationGraph.applyRelationsFile(toWrite);
+};
+
+/**
+ * Returns the in-memory relation graph, loading relations.json on first use.
+ * Prefer this over loadRelations() for read-only lookups.
+ */
+export const getRelationGraph = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<RelationGraphIndex> => {
+  await plugin.relationGraph.ensureLoaded(() => loadRelations(plugin));
+  return plugin.relationGraph;
+};
+
+/**
+ * Copy the current relations.json next to it before a repair or migration
+ * overwrites it. Returns the backup path, or null when there is no relations.json yet.
+ * With sharded storage, the merged shards are written to a single backup file.
+ */
+export const backupRelationsFile = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<string | null> => {
+  let content: string;
+  if (getShardStrategy(plugin)) {
+    const data = await plugin.relationsShards.load();
+    if (Object.keys(data.relations).length === 0) return null;
+    content = JSON.stringify(data, null, 2);
+  } else {
+    const file = plugin.app.vault.getAbstractFileByPath(getRelationsFilePath());
+    if (!(file instanceof TFile)) return null;
+    content = await plugin.app.vault.read(file);
+  }
+
+  const backupPath = getNewUniqueFilepath({
+    vault: plugin.app.vault,
+    filename: `relations.backup-${format(new Date(), "yyyy-MM-dd-HHmmss")}.json`,
+    folderpath: "",
+  });
+  await plugin.app.vault.create(backupPath, content);
+  return backupPath;
+};
+
+/**
+ * On plugin load, upgrades relations.json to RELATIONS_FILE_VERSION.
+ * The original file is backed up before the upgraded one is written; files
+ * written by a newer plugin version are left untouched.
+ */
+export const migrateRelationsFile = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<MigrationReport | null> => {
+  // Shards are upgraded as they are read and rewritten on the next save.
+  if (getShardStrategy(plugin)) return null;
+  const raw = await readRawRelationsFile(plugin);
+  if (!raw) return null;
+
+  const { data, report } = upgradeRelationsData(raw, createMigrationContext());
+  if (report.newerThanSupported) {
+    console.warn(
+      `relations.json is version ${report.fromVersion}, newer than supported version ${RELATIONS_FILE_VERSION}; skipping migration.`,
+    );
+    return report;
+  }
+  if (!report.changed) return report;
+
+  await backupRelationsFile(plugin);
+  await saveRelations(plugin, data);
+  return report;
+};
+
+/**
+ * Move all relations to another storage mode. Relations are read strictly (an
+ * unreadable store aborts the switch), backed up, written in the new layout,
+ * and only then removed from the old one.
+ */
+export const switchRelationsStorage = async (
+  plugin: DiscourseGraphPlugin,
+  mode: RelationsStorageMode,
+): Promise<void> => {
+  const previousMode = plugin.settings.relationsStorage ?? "file";
+  if (previousMode === mode) return;
+
+  const data = await readRelations(plugin);
+  await backupRelationsFile(plugin);
+
+  plugin.settings.relationsStorage = mode;
+  await plugin.saveSettings();
+  await saveRelations(plugin, data);
+
+  if (previousMode === "file") {
+    const file = plugin.app.vault.getAbstractFileByPath(getRelationsFilePath());
+    if (file instanceof TFile) await plugin.app.vault.delete(file);
+  } else if (mode === "file") {
+    await plugin.relationsShards.clear();
+  }
 };
 
 /**
@@ -91,37 +299,36 @@ export const mergeAllRelationsJsonToRoot = async (
   const relationsFiles = allFiles.filter((f) => f.name === RELATIONS_FILE_NAME);
   const rootPath = normalizePath(RELATIONS_FILE_NAME);
   const nonRootFiles = relationsFiles.filter((f) => f.path !== rootPath);
+  // With sharded storage every relations.json is a leftover, the root one included.
+  const isSharded = getShardStrategy(plugin) !== null;
 
-  if (nonRootFiles.length === 0) return;
+  if ((isSharded ? relationsFiles : nonRootFiles).length === 0) return;
 
-  // Process non-root files first so root values win on duplicate IDs.
+  // Process non-root files first; each file is three-way merged into the
+  // result so far, so tombstones are honoured and the newest edit wins.
   const sortedFiles = [
     ...nonRootFiles,
     ...relationsFiles.filter((f) => f.path === rootPath),
   ];
-  const merged = defaultRelationsFile();
+  let merged = defaultRelationsFile();
   const validatedNonRootFiles: TFile[] = [];
   for (const file of sortedFiles) {
     try {
       const content = await plugin.app.vault.read(file);
-      const data = JSON.parse(content) as RelationsFile;
-      if (
-        typeof data.version !== "number" ||
-        typeof data.relations !== "object" ||
-        data.relations === null
-      )
-        continue;
-      Object.assign(merged.relations, data.relations);
-      merged.lastModified = Math.max(
-        merged.lastModified,
-        data.lastModified ?? 0,
-      );
-      if (file.path !== rootPath) validatedNonRootFiles.push(file);
+      const raw = JSON.parse(content) as unknown;
+      if (!isRawRelationsFile(raw)) continue;
+      const { data } = upgradeRelationsData(raw, createMigrationContext());
+      merged = mergeRelationsFiles({ ours: data, theirs: merged }).merged;
+      if (isSharded || file.path !== rootPath) validatedNonRootFiles.push(file);
     } catch {
       // skip unreadable or unparseable files
     }
   }
 
+  if (isSharded) {
+    const current = await readRelations(plugin);
+    merged = mergeRelationsFiles({ ours: current, theirs: merged }).merged;
+  }
   await saveRelations(plugin, merged);
 
   for (const file of validatedNonRootFiles) {
@@ -129,6 +336,9 @@ export const mergeAllRelationsJsonToRoot = async (
   }
 };
 
+/** `batch` records the change in an open relation history batch. */
+export type RelationChangeOptions = { batch?: RelationHistoryBatch };
+
 export type AddRelationParams = {
   type: string;
   source: string;
@@ -147,6 +357,7 @@ export type AddRelationParams = {
 export const addRelationNoCheck = async (
   plugin: DiscourseGraphPlugin,
   params: AddRelationParams,
+  { batch }: RelationChangeOptions = {},
 ): Promise<string> => {
   const now = Date.now();
   const id = uuidv7();
@@ -177,6 +388,11 @@ export const addRelationNoCheck = async (
     console.error(error);
     // do not fail adding the relation; but we need a way to look at this later.
   }
+  plugin.relationHistory.record(
+    "add",
+    [{ relationId: id, before: null, after: instance }],
+    batch,
+  );
   return id;
 };
 
@@ -189,6 +405,7 @@ export type AddRelationResult = { id: string; alreadyExisted: boolean };
 export const addRelation = async (
   plugin: DiscourseGraphPlugin,
   params: AddRelationParams,
+  options: RelationChangeOptions = {},
 ): Promise<AddRelationResult> => {
   const existingId = await relationExistsBetweenNodes({
     plugin,
@@ -199,20 +416,27 @@ export const addRelation = async (
   if (existingId) {
     return { id: existingId, alreadyExisted: true };
   }
-  const id = await addRelationNoCheck(plugin, params);
+  const id = await addRelationNoCheck(plugin, params, options);
   return { id, alreadyExisted: false };
 };
 
 export const removeRelationById = async (
   plugin: DiscourseGraphPlugin,
   relationInstanceId: string,
+  { batch }: RelationChangeOptions = {},
 ): Promise<boolean> => {
   const data = await loadRelations(plugin);
-  if (!(relationInstanceId in data.relations)) {
+  const relation = data.relations[relationInstanceId];
+  if (!relation) {
     return false;
   }
   delete data.relations[relationInstanceId];
   await saveRelations(plugin, data);
+  plugin.relationHistory.record(
+    "remove",
+    [{ relationId: relationInstanceId, before: relation, after: null }],
+    batch,
+  );
   return true;
 };
 
@@ -220,11 +444,21 @@ export const updateRelation = async (
   plugin: DiscourseGraphPlugin,
   id: string,
   patch: Partial<RelationInstance>,
+  { batch }: RelationChangeOptions = {},
 ): Promise<void> => {
   const data = await loadRelations(plugin);
-  if (!data.relations[id]) return;
-  data.relations[id] = { ...data.relations[id], ...patch };
+  const before = data.relations[id];
+  if (!before) return;
+  const after = { ...before, ...patch };
+  data.relations[id] = after;
   await saveRelations(plugin, data);
+  plugin.relationHistory.record(
+    patch.tentative === true && before.tentative === false
+      ? "acceptTentative"
+      : "update",
+    [{ relationId: id, before, after }],
+    batch,
+  );
 };
 
 export const getRelationsForNodeInstanceId = async (
@@ -232,8 +466,11 @@ export const getRelationsForNodeInstanceId = async (
   nodeInstanceId: string,
   data?: RelationsFile,
 ): Promise<RelationInstance[]> => {
-  const relationsFile = data ?? (await loadRelations(plugin));
-  const relations = relationsFile.relations ?? Object.create(null);
+  if (!data) {
+    const graph = await getRelationGraph(plugin);
+    return graph.getRelationsForEndpoints([nodeInstanceId]);
+  }
+  const relations = data.relations ?? Object.create(null);
   return Object.values(relations).filter(
     (r) => r.source === nodeInstanceId || r.destination === nodeInstanceId,
   );
@@ -253,16 +490,13 @@ export const getRelationsForFile = async (
     cache?.frontmatter as Record<string, unknown> | undefined
   )?.importedFromRid as string | undefined;
 
-  const relationsFile = await loadRelations(plugin);
-  const relations = relationsFile.relations ?? Object.create(null);
-  const all = Object.values(relations);
-
   const ids = new Set<string>();
   if (nodeInstanceId) ids.add(nodeInstanceId);
   if (importedFromRid) ids.add(importedFromRid);
   if (ids.size === 0) return [];
 
-  return all.filter((r) => ids.has(r.source) || ids.has(r.destination));
+  const graph = await getRelationGraph(plugin);
+  return graph.getRelationsForEndpoints(ids);
 };
 
 const DEFAULT_CACHE_WAIT_MS = 500;
@@ -335,7 +569,7 @@ export const getFileForImportedFromRid = (
   plugin: DiscourseGraphPlugin,
   importedFromRid: string,
 ): TFile | null => {
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
   return queryEngine.getFileByImportedFromRid(importedFromRid);
 };
 
@@ -367,7 +601,7 @@ export const resolveEndpointToFile = (
     return null;
   }
 
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
   return queryEngine.getFileByEndpoint(endpointId);
 };
 
@@ -405,7 +639,7 @@ export const buildEndpointToFileMap = (
 ): Map<string, TFile> => {
   const map = new Map<string, TFile>();
   const localSpaceUri = getLocalSpaceUri(plugin.app);
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
 
   const importedFiles = queryEngine.getImportedNodePages();
   for (const file of importedFiles) {
@@ -444,7 +678,7 @@ export const getLocalNodeKeyToEndpointId = (
 ): Map<string, string> => {
   const map = new Map<string, string>();
   const localSpaceUri = getLocalSpaceUri(plugin.app);
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
   const files = queryEngine.getFilesWithNodeTypeId();
 
   for (const file of files) {
@@ -533,16 +767,14 @@ export const relationExistsBetweenNodes = async ({
   destNodeInstanceId: string;
   relationTypeId: string;
 }): Promise<string | null> => {
-  const data = await loadRelations(plugin);
-  const forward = findRelationBySourceDestinationType(
-    data,
+  const graph = await getRelationGraph(plugin);
+  const forward = graph.findRelation(
     sourceNodeInstanceId,
     destNodeInstanceId,
     relationTypeId,
   );
   if (forward) return forward.id;
-  const reverse = findRelationBySourceDestinationType(
-    data,
+  const reverse = graph.findRelation(
     destNodeInstanceId,
     sourceNodeInstanceId,
     relationTypeId,
@@ -558,9 +790,10 @@ export const removeRelationBySourceDestinationType = async (
   source: string,
   destination: string,
   type: string,
+  { batch }: RelationChangeOptions = {},
 ): Promise<number> => {
   const data = await loadRelations(plugin);
-  let removed = 0;
+  const removed: RelationInstance[] = [];
   for (const [id, r] of Object.entries(data.relations)) {
     if (
       r.source === source &&
@@ -568,13 +801,45 @@ export const removeRelationBySourceDestinationType = async (
       r.type === type
     ) {
       delete data.relations[id];
-      removed++;
+      removed.push(r);
     }
   }
-  if (removed > 0) {
+  if (removed.length > 0) {
     await saveRelations(plugin, data);
+    plugin.relationHistory.record(
+      "remove",
+      removed.map((r) => ({ relationId: r.id, before: r, after: null })),
+      batch,
+    );
+  }
+  return removed.length;
+};
+
+/**
+ * Remove the relations with the given ids. Returns how many were removed.
+ */
+export const removeRelationsByIds = async (
+  plugin: DiscourseGraphPlugin,
+  ids: string[],
+  { batch }: RelationChangeOptions = {},
+): Promise<number> => {
+  const data = await loadRelations(plugin);
+  const removed: RelationInstance[] = [];
+  for (const id of ids) {
+    const r = data.relations[id];
+    if (!r) continue;
+    delete data.relations[id];
+    removed.push(r);
+  }
+  if (removed.length > 0) {
+    await saveRelations(plugin, data);
+    plugin.relationHistory.record(
+      "remove",
+      removed.map((r) => ({ relationId: r.id, before: r, after: null })),
+      batch,
+    );
   }
-  return removed;
+  return removed.length;
 };
 
 /**
@@ -638,7 +903,7 @@ export const migrateFrontmatterRelationsToRelationsJson = async (
   plugin: DiscourseGraphPlugin,
 ): Promise<void> => {
   const data = await loadRelations(plugin);
-  const queryEngine = new QueryEngine(plugin.app);
+  const queryEngine = new QueryEngine(plugin.app, plugin.nodeIndex);
   const markdownFiles = queryEngine.getFilesWithNodeTypeId();
   let added = 0;
   const pendingCleanups: Array<{
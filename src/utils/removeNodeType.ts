@@ -0,0 +1,285 @@
+import type { TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type {
+  DiscourseNode,
+  DiscourseRelation,
+  RelationInstance,
+} from "~/types";
+import {
+  getCanvasReferencesForNodeType,
+  setCanvasShapesNodeType,
+  type CanvasReference,
+} from "~/components/canvas/utils/canvasReferences";
+import { isNodeTypeOrSubtypeOf } from "./nodeTypeHierarchy";
+import { getRelationGraph, removeRelationsByIds } from "./relationsStore";
+import {
+  applyNodeRetitle,
+  planNodeRetitle,
+  type RetitleItem,
+  type RetitleResult,
+} from "./retitleNodes";
+
+export type NodeTypeRemovalPlan = {
+  nodeType: DiscourseNode;
+  /** Node type the nodes are merged into; null when they lose their type. */
+  targetType: DiscourseNode | null;
+  files: TFile[];
+  /** How the nodes would be renamed to the target format. */
+  retitleItems: RetitleItem[];
+  rewrittenRelationCount: number;
+  droppedRelationCount: number;
+  /**
+   * Relations between the nodes and other nodes that no rule allows once the
+   * nodes lose their type. Empty when merging into a target.
+   */
+  orphanedRelations: RelationInstance[];
+  subtypes: DiscourseNode[];
+  /** Parent the subtypes are moved under; undefined makes them top-level. */
+  subtypeParent: DiscourseNode | undefined;
+  /** Canvases whose shapes move to the target; empty when there is none. */
+  canvases: CanvasReference[];
+};
+
+export type NodeTypeRemovalResult = {
+  updatedNodes: number;
+  failedNodes: number;
+  retitle: RetitleResult | null;
+  removedRelations: number;
+  updatedCanvases: number;
+  failedCanvases: number;
+};
+
+const getRelationKey = (relation: DiscourseRelation): string =>
+  `${relation.sourceId}|${relation.relationshipTypeId}|${relation.destinationId}`;
+
+/**
+ * Point the relation rules of a removed node type at the type it is merged
+ * into. Rules that would duplicate an existing one are dropped, as are all of
+ * the type's rules when there is no target.
+ */
+const rewriteDiscourseRelations = (
+  discourseRelations: DiscourseRelation[],
+  nodeTypeId: string,
+  targetTypeId: string | null,
+): { relations: DiscourseRelation[]; rewritten: number; dropped: number } => {
+  const isAffected = (relation: DiscourseRelation) =>
+    relation.sourceId === nodeTypeId || relation.destinationId === nodeTypeId;
+  const keys = new Set(
+    discourseRelations
+      .filter((relation) => !isAffected(relation))
+      .map(getRelationKey),
+  );
+  const now = new Date().getTime();
+  const relations: DiscourseRelation[] = [];
+  let rewritten = 0;
+  let dropped = 0;
+
+  for (const relation of discourseRelations) {
+    if (!isAffected(relation)) {
+      relations.push(relation);
+      continue;
+    }
+    if (!targetTypeId) {
+      dropped++;
+      continue;
+    }
+    const moved = {
+      ...relation,
+      sourceId:
+        relation.sourceId === nodeTypeId ? targetTypeId : relation.sourceId,
+      destinationId:
+        relation.destinationId === nodeTypeId
+          ? targetTypeId
+          : relation.destinationId,
+      modified: now,
+    };
+    const key = getRelationKey(moved);
+    if (keys.has(key)) {
+      dropped++;
+      continue;
+    }
+    keys.add(key);
+    relations.push(moved);
+    rewritten++;
+  }
+
+  return { relations, rewritten, dropped };
+};
+
+/**
+ * Subtypes of a removed node type move under the type it is merged into, or
+ * under its own parent when there is no target or the target is one of its
+ * subtypes.
+ */
+const getSubtypeParentId = (
+  nodeTypes: DiscourseNode[],
+  nodeType: DiscourseNode,
+  targetType: DiscourseNode | null,
+): string | undefined =>
+  targetType && !isNodeTypeOrSubtypeOf(nodeTypes, targetType.id, nodeType.id)
+    ? targetType.id
+    : nodeType.parentId;
+
+/**
+ * Relations touching any of the nodes in `files`, by node instance id or by
+ * the RID they were imported from.
+ */
+const getRelationsForNodes = async (
+  plugin: DiscourseGraphPlugin,
+  files: TFile[],
+): Promise<RelationInstance[]> => {
+  const endpointIds = new Set<string>();
+  for (const file of files) {
+    const node = plugin.nodeIndex.getByPath(file.path);
+    if (node?.nodeInstanceId) endpointIds.add(node.nodeInstanceId);
+    if (node?.importedFromRid) endpointIds.add(node.importedFromRid);
+  }
+  if (endpointIds.size === 0) return [];
+  const graph = await getRelationGraph(plugin);
+  return graph.getRelationsForEndpoints(endpointIds);
+};
+
+/**
+ * Work out what deleting `nodeType` affects: its nodes, how they'd be renamed
+ * to the target format, its relation rules, its subtypes and the canvases
+ * showing its nodes. Nothing is changed.
+ */
+export const planNodeTypeRemoval = async ({
+  plugin,
+  nodeType,
+  targetType,
+}: {
+  plugin: DiscourseGraphPlugin;
+  nodeType: DiscourseNode;
+  targetType: DiscourseNode | null;
+}): Promise<NodeTypeRemovalPlan> => {
+  const { nodeTypes, discourseRelations } = plugin.settings;
+  const files = plugin.nodeIndex
+    .getDiscourseNodes([nodeType.id])
+    .map((node) => node.file);
+  const { rewritten, dropped } = rewriteDiscourseRelations(
+    discourseRelations,
+    nodeType.id,
+    targetType?.id ?? null,
+  );
+  const subtypeParentId = getSubtypeParentId(nodeTypes, nodeType, targetType);
+
+  return {
+    nodeType,
+    targetType,
+    files,
+    retitleItems: targetType
+      ? planNodeRetitle({
+          plugin,
+          nodeType: targetType,
+          oldFormat: nodeType.format,
+          files,
+        })
+      : [],
+    rewrittenRelationCount: rewritten,
+    droppedRelationCount: dropped,
+    orphanedRelations: targetType
+      ? []
+      : await getRelationsForNodes(plugin, files),
+    subtypes: nodeTypes.filter((nt) => nt.parentId === nodeType.id),
+    subtypeParent: nodeTypes.find((nt) => nt.id === subtypeParentId),
+    canvases: targetType
+      ? await getCanvasReferencesForNodeType(plugin, nodeType.id)
+      : [],
+  };
+};
+
+/**
+ * Delete the node type of a plan. Its nodes and canvas shapes are moved to
+ * the target type, and its relation rules and subtypes are carried over as
+ * planned. Without a target the nodes lose their type, canvas shapes are left
+ * as they are, and `removeOrphanedRelations` deletes the relations no rule
+ * allows anymore. With `retitle`, the nodes are also renamed to the target
+ * format; that can be undone like any other re-title.
+ */
+export const applyNodeTypeRemoval = async ({
+  plugin,
+  plan,
+  retitle,
+  removeOrphanedRelations,
+}: {
+  plugin: DiscourseGraphPlugin;
+  plan: NodeTypeRemovalPlan;
+  retitle: boolean;
+  removeOrphanedRelations: boolean;
+}): Promise<NodeTypeRemovalResult> => {
+  const { nodeType, targetType } = plan;
+  const result: NodeTypeRemovalResult = {
+    updatedNodes: 0,
+    failedNodes: 0,
+    retitle: null,
+    removedRelations: 0,
+    updatedCanvases: 0,
+    failedCanvases: 0,
+  };
+
+  for (const file of plan.files) {
+    try {
+      await plugin.app.fileManager.processFrontMatter(
+        file,
+        (fm: Record<string, unknown>) => {
+          if (targetType) fm.nodeTypeId = targetType.id;
+          else delete fm.nodeTypeId;
+        },
+      );
+      result.updatedNodes++;
+    } catch (error) {
+      console.error(`Failed to update node type of ${file.path}:`, error);
+      result.failedNodes++;
+    }
+  }
+
+  if (targetType) {
+    for (const canvas of plan.canvases) {
+      try {
+        await setCanvasShapesNodeType(plugin, canvas, targetType.id);
+        result.updatedCanvases++;
+      } catch (error) {
+        console.error(
+          `Failed to update node types in canvas ${canvas.canvasFile.path}:`,
+          error,
+        );
+        result.failedCanvases++;
+      }
+    }
+  }
+
+  const { nodeTypes, discourseRelations } = plugin.settings;
+  const subtypeParentId = getSubtypeParentId(nodeTypes, nodeType, targetType);
+  const now = new Date().getTime();
+  plugin.settings.nodeTypes = nodeTypes
+    .filter((nt) => nt.id !== nodeType.id)
+    .map((nt) =>
+      nt.parentId === nodeType.id
+        ? { ...nt, parentId: subtypeParentId, modified: now }
+        : nt,
+    );
+  plugin.settings.discourseRelations = rewriteDiscourseRelations(
+    discourseRelations,
+    nodeType.id,
+    targetType?.id ?? null,
+  ).relations;
+  await plugin.saveSettings();
+
+  if (removeOrphanedRelations && plan.orphanedRelations.length > 0) {
+    result.removedRelations = await removeRelationsByIds(
+      plugin,
+      plan.orphanedRelations.map((relation) => relation.id),
+    );
+  }
+
+  if (retitle && targetType) {
+    result.retitle = await applyNodeRetitle({
+      plugin,
+      nodeType: targetType,
+      items: plan.retitleItems,
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,203 @@
+import { normalizePath, TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNode } from "~/types";
+import { formatNodeName } from "./createNode";
+import { extractPlaceholdersFromTitle } from "./extractContentFromTitle";
+import {
+  CONTENT_PLACEHOLDER,
+  getDiscourseNodeFormatExpression,
+} from "./getDiscourseNodeFormatExpression";
+import { checkInvalidChars } from "./validateNodeType";
+
+export type RetitleStatus = "rename" | "collision" | "invalid" | "unmatched";
+
+export type RetitleItem = {
+  file: TFile;
+  /** Null when the file's title can't be carried over to the new format. */
+  newTitle: string | null;
+  newPath: string | null;
+  status: RetitleStatus;
+  reason?: string;
+};
+
+export type RetitleRename = { from: string; to: string };
+
+export type RetitleResult = {
+  renamed: RetitleRename[];
+  failed: number;
+};
+
+type NodeRetitle = {
+  nodeTypeName: string;
+  renames: RetitleRename[];
+};
+
+/** The last applied re-title, kept so it can be undone. */
+let lastRetitle: NodeRetitle | null = null;
+
+export const getLastNodeRetitle = (): NodeRetitle | null => lastRetitle;
+
+/**
+ * Work out the new filename of every node of `nodeType` after its format
+ * changed from `oldFormat`. Nodes already matching the new format are left
+ * out; nodes whose title doesn't match the old format, or whose new filename
+ * is invalid or taken, are reported but not renamed. `files` defaults to the
+ * nodes of `nodeType`.
+ */
+export const planNodeRetitle = ({
+  plugin,
+  nodeType,
+  oldFormat,
+  files: nodeFiles,
+}: {
+  plugin: DiscourseGraphPlugin;
+  nodeType: DiscourseNode;
+  oldFormat: string;
+  files?: TFile[];
+}): RetitleItem[] => {
+  const newFormatRegex = getDiscourseNodeFormatExpression(nodeType.format);
+  const files = (
+    nodeFiles ??
+    plugin.nodeIndex.getDiscourseNodes([nodeType.id]).map((node) => node.file)
+  )
+    .filter((file) => !newFormatRegex.test(file.basename))
+    .sort((a, b) => a.basename.localeCompare(b.basename));
+
+  const items: RetitleItem[] = files.map((file) => {
+    const values = extractPlaceholdersFromTitle(oldFormat, file.basename);
+    if (!values) {
+      return {
+        file,
+        newTitle: null,
+        newPath: null,
+        status: "unmatched",
+        reason: "Title doesn't match the old format",
+      };
+    }
+
+    const newTitle = formatNodeName(
+      values[CONTENT_PLACEHOLDER] ?? "",
+      nodeType,
+      values,
+    );
+    if (!newTitle) {
+      return {
+        file,
+        newTitle: null,
+        newPath: null,
+        status: "invalid",
+        reason: "Could not apply the new format",
+      };
+    }
+
+    const parentPath = file.parent?.isRoot() ? "" : (file.parent?.path ?? "");
+    const newPath = normalizePath(
+      parentPath ? `${parentPath}/${newTitle}.md` : `${newTitle}.md`,
+    );
+    const validation = checkInvalidChars(newTitle);
+    if (!validation.isValid) {
+      return {
+        file,
+        newTitle,
+        newPath,
+        status: "invalid",
+        reason: validation.error,
+      };
+    }
+    return { file, newTitle, newPath, status: "rename" };
+  });
+
+  // Filenames are compared case-insensitively, as on macOS and Windows.
+  const plannedPaths = new Map<string, number>();
+  for (const item of items) {
+    if (item.status !== "rename" || !item.newPath) continue;
+    const key = item.newPath.toLowerCase();
+    plannedPaths.set(key, (plannedPaths.get(key) ?? 0) + 1);
+  }
+
+  return items.map((item) => {
+    if (item.status !== "rename" || !item.newPath) return item;
+    const key = item.newPath.toLowerCase();
+    if ((plannedPaths.get(key) ?? 0) > 1) {
+      return {
+        ...item,
+        status: "collision",
+        reason: "Another node would get the same filename",
+      };
+    }
+    const existing = plugin.app.vault.getAbstractFileByPath(item.newPath);
+    if (existing && existing.path !== item.file.path) {
+      return {
+        ...item,
+        status: "collision",
+        reason: `${existing.path} already exists`,
+      };
+    }
+    return item;
+  });
+};
+
+/**
+ * Rename every node planned for renaming. Links to the renamed notes are
+ * updated according to the vault's "Automatically update internal links"
+ * setting. The renames can be undone with `undoLastNodeRetitle`.
+ */
+export const applyNodeRetitle = async ({
+  plugin,
+  nodeType,
+  items,
+}: {
+  plugin: DiscourseGraphPlugin;
+  nodeType: DiscourseNode;
+  items: RetitleItem[];
+}): Promise<RetitleResult> => {
+  const result: RetitleResult = { renamed: [], failed: 0 };
+  for (const item of items) {
+    if (item.status !== "rename" || !item.newPath) continue;
+    const from = item.file.path;
+    try {
+      await plugin.app.fileManager.renameFile(item.file, item.newPath);
+      result.renamed.push({ from, to: item.newPath });
+    } catch (error) {
+      console.error(`Failed to rename ${from} to ${item.newPath}:`, error);
+      result.failed++;
+    }
+  }
+  if (result.renamed.length > 0) {
+    lastRetitle = { nodeTypeName: nodeType.name, renames: result.renamed };
+  }
+  return result;
+};
+
+/**
+ * Rename the files of the last re-title back to their old names. Files that
+ * were renamed again since, or whose old name is taken, are left alone.
+ */
+export const undoLastNodeRetitle = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<{ restored: number; skipped: number }> => {
+  const retitle = lastRetitle;
+  if (!retitle) return { restored: 0, skipped: 0 };
+
+  let restored = 0;
+  let skipped = 0;
+  for (const { from, to } of [...retitle.renames].reverse()) {
+    const file = plugin.app.vault.getAbstractFileByPath(to);
+    if (
+      !(file instanceof TFile) ||
+      plugin.app.vault.getAbstractFileByPath(from)
+    ) {
+      skipped++;
+      continue;
+    }
+    try {
+      await plugin.app.fileManager.renameFile(file, from);
+      restored++;
+    } catch (error) {
+      console.error(`Failed to rename ${to} back to ${from}:`, error);
+      skipped++;
+    }
+  }
+  lastRetitle = null;
+  return { restored, skipped };
+};
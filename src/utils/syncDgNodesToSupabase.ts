@@ -20,7 +20,7 @@ import {
   discourseRelationTypeToLocalConcept,
   relationInstanceToLocalConcept,
 } from "./conceptConversion";
-import { loadRelations } from "~/utils/relationsStore";
+import { getRelationGraph } from "~/utils/relationsStore";
 import type { LocalConceptDataInput } from "@repo/database/inputTypes";
 import {
   type DiscourseNodeInVault,
@@ -597,10 +597,9 @@ const convertDgToSupabaseConcepts = async ({
     return discourseNodeInstanceToLocalConcept(context, node);
   });
 
-  const relationInstancesData = await loadRelations(plugin);
-  const relationInstanceToLocalConcepts = Object.values(
-    relationInstancesData.relations,
-  )
+  const relationGraph = await getRelationGraph(plugin);
+  const relationInstanceToLocalConcepts = relationGraph
+    .getAllRelations()
     .filter(
       (relationInstanceData) =>
         !relationInstanceData.importedFromRid &&
@@ -651,7 +650,7 @@ const convertDgToSupabaseConcepts = async ({
       context,
       plugin,
       allNodesById,
-      relationInstancesData,
+      relationInstances: relationGraph.getAllRelations(),
     });
   }
 };
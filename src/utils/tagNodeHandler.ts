@@ -3,6 +3,7 @@ import { DiscourseNode } from "~/types";
 import type DiscourseGraphPlugin from "~/index";
 import ModifyNodeModal from "~/components/ModifyNodeModal";
 import { createDiscourseNodeFile, formatNodeName } from "./createNode";
+import type { NodeAttributeValues } from "./nodeAttributes";
 import { getNodeTagColors } from "./colorUtils";
 import { addRelationIfRequested } from "~/components/canvas/utils/relationJsonUtils";
 
@@ -41,6 +42,8 @@ type NodeCreationParams = {
   selectedExistingNode?: TFile;
   relationshipId?: string;
   relationshipTargetFile?: TFile;
+  placeholderValues?: Record<string, string>;
+  attributeValues?: NodeAttributeValues;
 };
 
 /**
@@ -298,6 +301,8 @@ export class TagNodeHandler {
         selectedExistingNode,
         relationshipId,
         relationshipTargetFile,
+        placeholderValues,
+        attributeValues,
       }) => {
         await this.createNodeAndReplace({
           nodeType: selectedNodeType,
@@ -307,6 +312,8 @@ export class TagNodeHandler {
           selectedExistingNode,
           relationshipId,
           relationshipTargetFile,
+          placeholderValues,
+          attributeValues,
         });
       },
     }).open();
@@ -326,6 +333,8 @@ export class TagNodeHandler {
       selectedExistingNode,
       relationshipId,
       relationshipTargetFile,
+      placeholderValues,
+      attributeValues,
     } = params;
     try {
       let linkText: string;
@@ -335,7 +344,11 @@ export class TagNodeHandler {
         linkText = `[[${selectedExistingNode.basename}]]`;
         createdOrSelectedFile = selectedExistingNode;
       } else {
-        const formattedNodeName = formatNodeName(title, nodeType);
+        const formattedNodeName = formatNodeName(
+          title,
+          nodeType,
+          placeholderValues,
+        );
         if (!formattedNodeName) {
           new Notice("Failed to format node name", 3000);
           return;
@@ -345,6 +358,7 @@ export class TagNodeHandler {
           plugin: this.plugin,
           formattedNodeName,
           nodeType,
+          attributeValues,
         });
 
         if (!newFile) {
@@ -0,0 +1,73 @@
+import { TAbstractFile, TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { DiscourseNode } from "~/types";
+import { extractPlaceholdersFromTitle } from "./extractContentFromTitle";
+import { CONTENT_PLACEHOLDER } from "./getDiscourseNodeFormatExpression";
+import { RESERVED_FRONTMATTER_KEYS } from "./nodeAttributes";
+import { getNodeTypeById } from "./typeUtils";
+
+/**
+ * The title placeholders of a node to mirror into its frontmatter, e.g.
+ * { source: "Smith", year: "2021" } for "EVD - ... (Smith, 2021)". Empty when
+ * the node type doesn't mirror placeholders. {content} is never mirrored.
+ */
+export const getMirroredPlaceholderValues = (
+  nodeType: DiscourseNode,
+  title: string,
+): Record<string, string> => {
+  if (!nodeType.placeholdersInFrontmatter) return {};
+  const values = extractPlaceholdersFromTitle(nodeType.format, title) ?? {};
+  return Object.fromEntries(
+    Object.entries(values).filter(
+      ([name, value]) =>
+        name !== CONTENT_PLACEHOLDER &&
+        !RESERVED_FRONTMATTER_KEYS.has(name) &&
+        value !== "",
+    ),
+  );
+};
+
+const syncMirroredPlaceholders = async (
+  plugin: DiscourseGraphPlugin,
+  file: TFile,
+): Promise<void> => {
+  const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+  const nodeTypeId = frontmatter?.nodeTypeId as string | undefined;
+  if (!frontmatter || !nodeTypeId) return;
+  const nodeType = getNodeTypeById(plugin, nodeTypeId);
+  if (!nodeType) return;
+
+  const values = getMirroredPlaceholderValues(nodeType, file.basename);
+  const isChanged = Object.entries(values).some(
+    ([name, value]) => String(frontmatter[name] ?? "") !== value,
+  );
+  if (!isChanged) return;
+
+  await plugin.app.fileManager.processFrontMatter(
+    file,
+    (fm: Record<string, unknown>) => {
+      Object.assign(fm, values);
+    },
+  );
+};
+
+/**
+ * Keep mirrored title placeholders in frontmatter up to date when a node is
+ * renamed.
+ */
+export const registerTitlePlaceholderSync = (
+  plugin: DiscourseGraphPlugin,
+): void => {
+  plugin.registerEvent(
+    plugin.app.vault.on("rename", (file: TAbstractFile) => {
+      if (!(file instanceof TFile) || file.extension !== "md") return;
+
+      void syncMirroredPlaceholders(plugin, file).catch((error) => {
+        console.error(
+          `Failed to update title placeholders of ${file.path}:`,
+          error,
+        );
+      });
+    }),
+  );
+};
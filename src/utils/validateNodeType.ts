@@ -1,4 +1,5 @@
 import { DiscourseNode } from "~/types";
+import { getFormatPlaceholders } from "./getDiscourseNodeFormatExpression";
 
 type ValidationResult = {
   isValid: boolean;
@@ -28,6 +29,15 @@ export const validateNodeFormat = ({
     };
   }
 
+  // Checked before checkInvalidChars to explain how to write a citation.
+  if (format.includes("[") || format.includes("]")) {
+    return {
+      isValid: false,
+      error:
+        "Format cannot contain [ or ], since links to a note with brackets in its name do not work. Use parentheses instead, e.g. EVD - {content} ({source}, {year})",
+    };
+  }
+
   if (!format.includes("{content}")) {
     return {
       isValid: false,
@@ -35,6 +45,24 @@ export const validateNodeFormat = ({
     };
   }
 
+  const placeholders = getFormatPlaceholders(format);
+  const duplicatePlaceholder = placeholders.find(
+    (name, i) => placeholders.indexOf(name) !== i,
+  );
+  if (duplicatePlaceholder) {
+    return {
+      isValid: false,
+      error: `Placeholder "{${duplicatePlaceholder}}" can only be used once`,
+    };
+  }
+
+  if (format.includes("}{")) {
+    return {
+      isValid: false,
+      error: "Placeholders must be separated by text",
+    };
+  }
+
   const invalidCharsResult = checkInvalidChars(format);
   if (!invalidCharsResult.isValid) {
     return invalidCharsResult;
@@ -0,0 +1,298 @@
+import type { TFile } from "obsidian";
+import type DiscourseGraphPlugin from "~/index";
+import type { RelationInstance } from "~/types";
+import {
+  backupRelationsFile,
+  buildEndpointToFileMap,
+  defaultRelationsFile,
+  getNodeInstanceIdForFile,
+  readRelations,
+  resolveEndpointToFile,
+  saveRelations,
+  type RelationsFile,
+} from "./relationsStore";
+import { getEffectiveDiscourseRelations } from "./nodeTypeHierarchy";
+
+export type RelationEndpoint = "source" | "destination";
+
+export type RelationIssue =
+  | {
+      kind: "malformed";
+      relationId: string;
+      message: string;
+    }
+  | {
+      kind: "unresolvedEndpoint";
+      relationId: string;
+      relation: RelationInstance;
+      endpoint: RelationEndpoint;
+      message: string;
+    }
+  | {
+      kind: "unknownRelationType";
+      relationId: string;
+      relation: RelationInstance;
+      /** Relation types allowed between the two endpoints' node types. */
+      suggestedRelationTypeIds: string[];
+      message: string;
+    }
+  | {
+      kind: "disallowedRelation";
+      relationId: string;
+      relation: RelationInstance;
+      suggestedRelationTypeIds: string[];
+      message: string;
+    };
+
+export type RelationValidationReport = {
+  /** Set when relations.json cannot be read at all; loadRelations treats this as an empty file. */
+  fileError: string | null;
+  relationCount: number;
+  issues: RelationIssue[];
+};
+
+export type RelationFix =
+  | { kind: "delete"; relationId: string }
+  | {
+      kind: "retarget";
+      relationId: string;
+      endpoint: RelationEndpoint;
+      file: TFile;
+    }
+  | { kind: "convertType"; relationId: string; relationTypeId: string };
+
+type ReadResult =
+  { ok: true; data: RelationsFile } | { ok: false; error: string };
+
+/**
+ * Read relations.json without the silent fallback of loadRelations(), so that
+ * parse and shape errors can be reported to the user.
+ */
+const readRelationsFileStrict = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<ReadResult> => {
+  try {
+    return { ok: true, data: await readRelations(plugin) };
+  } catch (error) {
+    return {
+      ok: false,
+      error: `relations.json could not be read: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+};
+
+const getMalformedReason = (id: string, value: unknown): string | null => {
+  if (!value || typeof value !== "object") return "entry is not an object";
+  const relation = value as Record<string, unknown>;
+  for (const field of ["id", "type", "source", "destination"]) {
+    if (typeof relation[field] !== "string" || !relation[field]) {
+      return `"${field}" is missing`;
+    }
+  }
+  if (typeof relation.created !== "number") return `"created" is missing`;
+  if (relation.id !== id) return `"id" does not match its key`;
+  return null;
+};
+
+const getAllowedRelationTypeIds = (
+  plugin: DiscourseGraphPlugin,
+  sourceTypeId: string | undefined,
+  destinationTypeId: string | undefined,
+): string[] => {
+  if (!sourceTypeId || !destinationTypeId) return [];
+  return [
+    ...new Set(
+      getEffectiveDiscourseRelations(plugin.settings)
+        .filter(
+          (r) =>
+            r.sourceId === sourceTypeId &&
+            r.destinationId === destinationTypeId,
+        )
+        .map((r) => r.relationshipTypeId),
+    ),
+  ].filter((id) => plugin.settings.relationTypes.some((rt) => rt.id === id));
+};
+
+/**
+ * Check relations.json against the vault and settings. Reports, per relation:
+ * malformed entries, endpoints that no longer resolve to a note, types missing
+ * from settings.relationTypes, and node-type combinations not allowed by
+ * settings.discourseRelations.
+ */
+export const validateRelations = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<RelationValidationReport> => {
+  const read = await readRelationsFileStrict(plugin);
+  if (!read.ok) {
+    return { fileError: read.error, relationCount: 0, issues: [] };
+  }
+
+  const issues: RelationIssue[] = [];
+  const endpointToFileMap = buildEndpointToFileMap(plugin);
+  const getTypeName = (nodeTypeId: string | undefined) =>
+    plugin.settings.nodeTypes.find((nt) => nt.id === nodeTypeId)?.name ??
+    "Unknown";
+  const entries = Object.entries(
+    read.data.relations as Record<string, unknown>,
+  );
+
+  for (const [relationId, value] of entries) {
+    const malformedReason = getMalformedReason(relationId, value);
+    if (malformedReason) {
+      issues.push({
+        kind: "malformed",
+        relationId,
+        message: `Malformed relation: ${malformedReason}`,
+      });
+      continue;
+    }
+
+    const relation = value as RelationInstance;
+    const sourceFile = resolveEndpointToFile(
+      plugin,
+      relation.source,
+      endpointToFileMap,
+    );
+    const destinationFile = resolveEndpointToFile(
+      plugin,
+      relation.destination,
+      endpointToFileMap,
+    );
+    if (!sourceFile) {
+      issues.push({
+        kind: "unresolvedEndpoint",
+        relationId,
+        relation,
+        endpoint: "source",
+        message: `Source "${relation.source}" does not resolve to a discourse node`,
+      });
+    }
+    if (!destinationFile) {
+      issues.push({
+        kind: "unresolvedEndpoint",
+        relationId,
+        relation,
+        endpoint: "destination",
+        message: `Destination "${relation.destination}" does not resolve to a discourse node`,
+      });
+    }
+
+    const sourceTypeId = sourceFile
+      ? plugin.nodeIndex.getByPath(sourceFile.path)?.nodeTypeId
+      : undefined;
+    const destinationTypeId = destinationFile
+      ? plugin.nodeIndex.getByPath(destinationFile.path)?.nodeTypeId
+      : undefined;
+    const suggestedRelationTypeIds = getAllowedRelationTypeIds(
+      plugin,
+      sourceTypeId,
+      destinationTypeId,
+    );
+
+    const relationType = plugin.settings.relationTypes.find(
+      (rt) => rt.id === relation.type,
+    );
+    if (!relationType) {
+      issues.push({
+        kind: "unknownRelationType",
+        relationId,
+        relation,
+        suggestedRelationTypeIds,
+        message: `Relation type "${relation.type}" is not defined in settings`,
+      });
+      continue;
+    }
+
+    if (
+      sourceTypeId &&
+      destinationTypeId &&
+      !suggestedRelationTypeIds.includes(relation.type)
+    ) {
+      issues.push({
+        kind: "disallowedRelation",
+        relationId,
+        relation,
+        suggestedRelationTypeIds,
+        message: `${getTypeName(sourceTypeId)} "${relationType.label}" ${getTypeName(destinationTypeId)} is not an allowed discourse relation`,
+      });
+    }
+  }
+
+  return { fileError: null, relationCount: entries.length, issues };
+};
+
+/** The endpoint id stored in relations.json for a node: its RID if imported, else its nodeInstanceId. */
+const getEndpointIdForFile = async (
+  plugin: DiscourseGraphPlugin,
+  file: TFile,
+): Promise<string | null> => {
+  const importedFromRid =
+    plugin.app.metadataCache.getFileCache(file)?.frontmatter?.importedFromRid;
+  if (typeof importedFromRid === "string" && importedFromRid) {
+    return importedFromRid;
+  }
+  return getNodeInstanceIdForFile(plugin, file);
+};
+
+/**
+ * Back up relations.json, then apply the given fixes in one write.
+ * Returns the backup path; throws without writing anything when
+ * relations.json cannot be read.
+ */
+export const applyRelationFixes = async (
+  plugin: DiscourseGraphPlugin,
+  fixes: RelationFix[],
+): Promise<string | null> => {
+  if (fixes.length === 0) return null;
+
+  // Unlike loadRelations(), throws when relations.json cannot be read, so the
+  // fixes are never written over an empty fallback.
+  const data = await readRelations(plugin);
+  const backupPath = await backupRelationsFile(plugin);
+  const now = Date.now();
+
+  for (const fix of fixes) {
+    const relation = data.relations[fix.relationId];
+    if (!relation && fix.kind !== "delete") continue;
+
+    switch (fix.kind) {
+      case "delete":
+        delete data.relations[fix.relationId];
+        break;
+      case "retarget": {
+        const endpointId = await getEndpointIdForFile(plugin, fix.file);
+        if (!endpointId) {
+          throw new Error(`${fix.file.basename} is not a discourse node`);
+        }
+        data.relations[fix.relationId] = {
+          ...relation!,
+          [fix.endpoint]: endpointId,
+          lastModified: now,
+        };
+        break;
+      }
+      case "convertType":
+        data.relations[fix.relationId] = {
+          ...relation!,
+          type: fix.relationTypeId,
+          lastModified: now,
+        };
+        break;
+    }
+  }
+
+  await saveRelations(plugin, data);
+  return backupPath;
+};
+
+/**
+ * Back up an unreadable relations.json and replace it with an empty one.
+ * Returns the backup path.
+ */
+export const resetRelationsFile = async (
+  plugin: DiscourseGraphPlugin,
+): Promise<string | null> => {
+  const backupPath = await backupRelationsFile(plugin);
+  await saveRelations(plugin, defaultRelationsFile(), { overwrite: true });
+  return backupPath;
+};